@@ -5,4 +5,5 @@
 
 export { RedisProvider } from './redis';
 export { MemcachedProvider } from './memcached';
+export { MemoryProvider } from './memory';
 
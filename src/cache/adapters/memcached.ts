@@ -12,21 +12,166 @@ import type {
   CacheHasConfig,
   CacheGetResult,
   CacheSetResult,
+  CacheAddResult,
   CacheDeleteResult,
   CacheHasResult,
   CacheClearResult,
   CacheHealthInfo,
+  CacheGetManyConfig,
+  CacheSetManyConfig,
+  CacheDeleteManyConfig,
+  CacheIncrementConfig,
+  CacheIncrementResult,
+  CacheCompareAndSetConfig,
+  CacheCompareAndSetResult,
+  CacheInvalidateTagsResult,
+  CacheExtendLockConfig,
+  CacheReleaseLockConfig,
+  CacheLockResult,
+  CacheRateLimitConfig,
+  CacheRateLimitResult,
+  CacheKeysConfig,
+  CacheScanResult,
+  CacheTtlConfig,
+  CacheExpireConfig,
+  CacheTouchConfig,
+  CacheTtlResult,
+  CacheExpireResult,
+  CacheHashGetConfig,
+  CacheHashSetConfig,
+  CacheListPushConfig,
+  CacheListPopConfig,
+  CacheListRangeConfig,
+  CacheSetAddConfig,
+  CacheSetMembersConfig,
+  CacheSortedSetAddConfig,
+  CacheSortedSetRangeConfig,
+  CacheHashGetResult,
+  CacheCollectionWriteResult,
+  CacheListResult,
+  CacheSetMembersResult,
+  CacheSortedSetRangeResult,
+  CachePublishConfig,
+  CachePublishResult,
+  CacheSubscribeConfig,
+  CacheSubscription,
+  CacheSerializer,
 } from '../types';
 import { CacheProvider } from '../types';
 import type { Logger } from '../../logger';
-import { CacheError, CacheProviderError, CacheConnectionError } from '../errors';
+import { JsonSerializer, isSameSerializedValue } from '../serializers';
+import { CacheError, CacheProviderError, CacheConnectionError, CacheNotSupportedError } from '../errors';
 import {
   validateCacheGetConfig,
   validateCacheSetConfig,
   validateCacheDeleteConfig,
   validateCacheHasConfig,
+  validateCacheGetManyConfig,
+  validateCacheSetManyConfig,
+  validateCacheDeleteManyConfig,
+  validateCacheIncrementConfig,
+  validateCacheCompareAndSetConfig,
+  validateCacheTags,
+  validateCacheExtendLockConfig,
+  validateCacheReleaseLockConfig,
+  validateCacheRateLimitConfig,
+  validateCacheKeysConfig,
+  validateCacheTtlConfig,
+  validateCacheExpireConfig,
+  validateCacheTouchConfig,
+  validateCacheHashGetConfig,
+  validateCacheHashSetConfig,
+  validateCacheListPushConfig,
+  validateCacheListPopConfig,
+  validateCacheListRangeConfig,
+  validateCacheSetAddConfig,
+  validateCacheSetMembersConfig,
+  validateCacheSortedSetAddConfig,
+  validateCacheSortedSetRangeConfig,
+  validateCachePublishConfig,
+  validateCacheSubscribeConfig,
+  validateCacheKey,
+  validateMemcachedConfig,
 } from '../validation';
 
+/**
+ * Key segment for tag version counters
+ */
+const TAG_KEY_SEGMENT = '__tag:';
+
+/**
+ * Field that marks a stored value as tagged and holds its tag versions
+ * (namespaced so it does not collide with user data)
+ */
+const TAGGED_VALUE_FIELD = '__basepack$tags';
+
+/**
+ * Check whether a stored value is a tagged value envelope
+ *
+ * @param value - Deserialized stored value
+ * @returns True if the value has the envelope marker, a `value` field and a map of tag versions
+ */
+function isTaggedValue(value: any): boolean {
+  if (typeof value !== 'object' || value === null || !('value' in value)) {
+    return false;
+  }
+
+  const tagVersions = value[TAGGED_VALUE_FIELD];
+  return typeof tagVersions === 'object' && tagVersions !== null && !Array.isArray(tagVersions)
+    && Object.values(tagVersions).every(version => typeof version === 'string');
+}
+
+/**
+ * Stored value read back from Memcached
+ */
+interface StoredValue<T> {
+  /** Whether the value exists and none of its tags were invalidated */
+  found: boolean;
+  /** Parsed value */
+  value?: T;
+  /** Tag versions the value was stored with */
+  tagVersions?: Record<string, string>;
+}
+
+/**
+ * Maximum GETS/CAS attempts when updating a token bucket under contention
+ */
+const TOKEN_BUCKET_CAS_ATTEMPTS = 5;
+
+/**
+ * Quota state computed by a rate limiting algorithm
+ */
+interface RateLimitState {
+  /** Whether the request is within the limit */
+  allowed: boolean;
+  /** Quota left after the request */
+  remaining: number;
+  /** When the full quota is available again */
+  resetAt: Date;
+  /** Milliseconds until the request could be allowed (only when denied) */
+  retryAfter?: number;
+}
+
+/**
+ * Health of a single server, reported in `health().details.servers`
+ */
+interface MemcachedServerHealth {
+  /** Server address as `host:port` */
+  server: string;
+  /** Weight on the hash ring */
+  weight: number;
+  /** Server health status */
+  status: 'healthy' | 'unhealthy';
+  /** Whether the server is currently ejected from the hash ring */
+  ejected: boolean;
+  /** Seconds since the server started */
+  uptime?: number;
+  /** Items currently stored on the server */
+  items?: number;
+  /** Error message if unhealthy */
+  error?: string;
+}
+
 /**
  * Memcached cache provider
  * 
@@ -68,6 +213,16 @@ import {
  * });
  * ```
  * 
+ * @example Weighted servers with ejection
+ * ```typescript
+ * const provider = new MemcachedProvider({
+ *   servers: { 'cache1.example.com:11211': 2, 'cache2.example.com:11211': 1 },
+ *   ejectFailedServers: true
+ * });
+ * 
+ * provider.getServer('user:123'); // 'cache1.example.com:11211'
+ * ```
+ * 
  * @example With key prefix
  * ```typescript
  * const provider = new MemcachedProvider({
@@ -90,13 +245,24 @@ export class MemcachedProvider implements ICacheProvider {
   readonly name = CacheProvider.MEMCACHED;
   private readonly client: any;
   private readonly keyPrefix: string;
+  private readonly serializer: CacheSerializer;
   private readonly logger: Logger;
+  private readonly weights: Map<string, number>;
+  private readonly ejectFailedServers: boolean;
+  private readonly ejected = new Set<string>();
+  private readonly serverErrors = new Map<string, string>();
 
   /**
    * Creates a new MemcachedProvider instance
    * 
+   * Keys are distributed over the servers with consistent hashing, in proportion
+   * to their weights. With `ejectFailedServers`, a server marked dead after
+   * `options.failures` failed retries is removed from the hash ring, so its keys
+   * move to the remaining servers, and is added back once it reconnects.
+   * 
    * @param config - Memcached configuration
    * @param logger - Optional logger for debugging and monitoring
+   * @throws {CacheValidationError} If server weights or ejection options are invalid
    * @throws {CacheProviderError} If memcached package is not installed
    * 
    * @example
@@ -107,16 +273,27 @@ export class MemcachedProvider implements ICacheProvider {
    * ```
    */
   constructor(config: MemcachedConfig = {}, logger: Logger = console) {
+    validateMemcachedConfig(config);
+
     this.logger = logger;
     this.keyPrefix = config.keyPrefix || process.env.MEMCACHED_KEY_PREFIX || '';
+    this.serializer = config.serializer ?? new JsonSerializer();
+    this.ejectFailedServers = config.ejectFailedServers ?? false;
     
     // Parse servers from config or environment
     const servers = this.parseServers(config.servers);
+    this.weights = new Map(
+      typeof servers === 'string'
+        ? [[servers, 1]]
+        : Array.isArray(servers) ? servers.map(server => [server, 1]) : Object.entries(servers)
+    );
     
     this.logger.debug('Basepack Cache: Initializing provider', { 
       provider: this.name, 
       servers,
-      keyPrefix: this.keyPrefix
+      keyPrefix: this.keyPrefix,
+      serializer: this.serializer.name,
+      ejectFailedServers: this.ejectFailedServers
     });
 
     try {
@@ -128,6 +305,8 @@ export class MemcachedProvider implements ICacheProvider {
         retry: config.options?.retryDelay || 100,
         timeout: config.options?.timeout || 5000,
         idle: config.options?.idle || 10000,
+        // The client waits hours between reconnection attempts by default, too long to re-add an ejected server
+        ...(this.ejectFailedServers ? { reconnect: 10000 } : {}),
         ...config.options,
       };
 
@@ -141,6 +320,7 @@ export class MemcachedProvider implements ICacheProvider {
           tokens: details.tokens,
           messages: details.messages
         });
+        this.recordServerError(details);
       });
 
       this.client.on('failure', (details: any) => {
@@ -150,6 +330,8 @@ export class MemcachedProvider implements ICacheProvider {
           tokens: details.tokens,
           messages: details.messages
         });
+        this.recordServerError(details);
+        this.ejectServer(details.server);
       });
 
       this.client.on('reconnecting', (details: any) => {
@@ -165,6 +347,8 @@ export class MemcachedProvider implements ICacheProvider {
           provider: this.name, 
           server: details.server
         });
+        this.serverErrors.delete(details.server);
+        this.restoreServer(details.server);
       });
 
     } catch (error) {
@@ -182,7 +366,7 @@ export class MemcachedProvider implements ICacheProvider {
    * @param servers - Server configuration
    * @returns Array of server addresses
    */
-  private parseServers(servers?: string | string[]): string | string[] {
+  private parseServers(servers?: string | string[] | Record<string, number>): string | string[] | Record<string, number> {
     if (servers) {
       return servers;
     }
@@ -199,6 +383,78 @@ export class MemcachedProvider implements ICacheProvider {
     return 'localhost:11211';
   }
 
+  /**
+   * Remember the last error reported for a server
+   * 
+   * @param details - Issue or failure details from the client
+   */
+  private recordServerError(details: any): void {
+    if (details?.server) {
+      const messages: unknown[] = Array.isArray(details.messages) ? details.messages : [];
+      this.serverErrors.set(details.server, messages.length > 0 ? messages.map(String).join('; ') : 'Server failure');
+    }
+  }
+
+  /**
+   * Remove a dead server from the hash ring
+   * 
+   * The last server on the ring is never ejected, so operations keep failing
+   * with connection errors instead of having nowhere to go.
+   * 
+   * @param server - Server address as `host:port`
+   */
+  private ejectServer(server: string): void {
+    if (!this.ejectFailedServers || !this.weights.has(server) || this.ejected.has(server)) {
+      return;
+    }
+
+    const remaining = this.weights.size - this.ejected.size - 1;
+    if (remaining === 0) {
+      this.logger.warn('Basepack Cache: Not ejecting the last server', { provider: this.name, server });
+      return;
+    }
+
+    this.client.HashRing.remove(server);
+    this.ejected.add(server);
+    this.logger.warn('Basepack Cache: Server ejected', { provider: this.name, server, remaining });
+  }
+
+  /**
+   * Add an ejected server back to the hash ring
+   * 
+   * @param server - Server address as `host:port`
+   */
+  private restoreServer(server: string): void {
+    if (!this.ejected.has(server)) {
+      return;
+    }
+
+    this.client.HashRing.add({ [server]: this.weights.get(server) });
+    this.ejected.delete(server);
+    this.logger.info('Basepack Cache: Server re-added', { provider: this.name, server });
+  }
+
+  /**
+   * Get the server a key is stored on
+   * 
+   * Follows the current hash ring, so keys of an ejected server resolve to the
+   * server now holding them.
+   * 
+   * @param key - Cache key
+   * @returns Server address as `host:port`
+   * @throws {CacheValidationError} If the key is invalid
+   * 
+   * @example
+   * ```typescript
+   * const server = provider.getServer('user:123');
+   * console.log(`user:123 lives on ${server}`);
+   * ```
+   */
+  getServer(key: string): string {
+    validateCacheKey(key);
+    return this.client.HashRing.get(this.buildKey(key));
+  }
+
   /**
    * Build full key with prefix
    * 
@@ -228,6 +484,122 @@ export class MemcachedProvider implements ICacheProvider {
     });
   }
 
+  /**
+   * Build the key of a tag version counter
+   * 
+   * @param tag - Tag name
+   * @returns Full key of the tag's version counter
+   */
+  private buildTagKey(tag: string): string {
+    return this.buildKey(`${TAG_KEY_SEGMENT}${tag}`);
+  }
+
+  /**
+   * Read the current version of each tag, creating missing counters
+   * 
+   * New counters start at the current time so a counter that was evicted and
+   * recreated never matches versions stored before the eviction.
+   * 
+   * @param tags - Tag names
+   * @returns Current version of each tag
+   */
+  private async resolveTagVersions(tags: string[]): Promise<Record<string, string>> {
+    const uniqueTags = [...new Set(tags)];
+    const stored = await this.promisify<Record<string, string> | undefined>(
+      'getMulti',
+      uniqueTags.map(tag => this.buildTagKey(tag))
+    ) || {};
+
+    const versions: Record<string, string> = {};
+    for (const tag of uniqueTags) {
+      const tagKey = this.buildTagKey(tag);
+      const current = stored[tagKey];
+
+      if (current !== undefined && current !== null) {
+        versions[tag] = String(current);
+        continue;
+      }
+
+      const initial = String(Date.now());
+      try {
+        await this.promisify<boolean>('add', tagKey, initial, 0);
+        versions[tag] = initial;
+      } catch (error) {
+        if (!this.isNotStoredError(error)) {
+          throw error;
+        }
+        // Another client created the counter first
+        versions[tag] = String(await this.promisify<string>('get', tagKey));
+      }
+    }
+
+    return versions;
+  }
+
+  /**
+   * Serialize a value, wrapping it with its tag versions when tagged
+   * 
+   * @param value - Value to serialize
+   * @param tags - Tags to store the value with
+   * @param versions - Current tag versions
+   * @returns Serialized value
+   */
+  private serializeTagged(value: any, tags: string[] | undefined, versions: Record<string, string>): string | Buffer {
+    if (!tags) {
+      return this.serializer.serialize(value);
+    }
+
+    const tagVersions: Record<string, string> = {};
+    for (const tag of tags) {
+      tagVersions[tag] = versions[tag];
+    }
+    return this.serializer.serialize({ [TAGGED_VALUE_FIELD]: tagVersions, value });
+  }
+
+  /**
+   * Parse stored values, dropping tagged values whose tags were invalidated
+   * 
+   * The current versions of every tag referenced by the values are fetched
+   * with a single multi-get.
+   * 
+   * @param rawValues - Raw values as returned by Memcached
+   * @returns Parsed values in the same order
+   */
+  private async readStoredValues<T>(rawValues: Array<string | Buffer | undefined | null>): Promise<StoredValue<T>[]> {
+    const parsed = rawValues.map(raw => raw === undefined || raw === null ? undefined : this.serializer.deserialize<any>(raw));
+    const tags = new Set<string>();
+    for (const value of parsed) {
+      if (isTaggedValue(value)) {
+        Object.keys(value[TAGGED_VALUE_FIELD]).forEach(tag => tags.add(tag));
+      }
+    }
+
+    let currentVersions: Record<string, string> = {};
+    if (tags.size > 0) {
+      currentVersions = await this.promisify<Record<string, string> | undefined>(
+        'getMulti',
+        [...tags].map(tag => this.buildTagKey(tag))
+      ) || {};
+    }
+
+    return parsed.map((value, index) => {
+      if (rawValues[index] === undefined || rawValues[index] === null) {
+        return { found: false };
+      }
+      if (!isTaggedValue(value)) {
+        return { found: true, value };
+      }
+
+      const tagVersions: Record<string, string> = value[TAGGED_VALUE_FIELD];
+      const current = Object.entries(tagVersions).every(([tag, version]) => {
+        const currentVersion = currentVersions[this.buildTagKey(tag)];
+        return currentVersion !== undefined && currentVersion !== null && String(currentVersion) === version;
+      });
+
+      return current ? { found: true, value: value.value, tagVersions } : { found: false };
+    });
+  }
+
   /**
    * Get a value from cache
    * 
@@ -250,9 +622,10 @@ export class MemcachedProvider implements ICacheProvider {
     this.logger.debug('Basepack Cache: Provider getting value', { provider: this.name, key: fullKey });
 
     try {
-      const value = await this.promisify<string | undefined>('get', fullKey);
+      const value = await this.promisify<string | Buffer | undefined>('get', fullKey);
+      const [stored] = await this.readStoredValues<T>([value]);
 
-      if (value === undefined || value === null) {
+      if (!stored.found) {
         this.logger.debug('Basepack Cache: Provider key not found', { provider: this.name, key: fullKey });
         return {
           success: true,
@@ -262,14 +635,7 @@ export class MemcachedProvider implements ICacheProvider {
         };
       }
 
-      // Try to parse JSON
-      let parsedValue: T;
-      try {
-        parsedValue = JSON.parse(value);
-      } catch {
-        // If not JSON, return as is
-        parsedValue = value as T;
-      }
+      const parsedValue = stored.value as T;
 
       this.logger.debug('Basepack Cache: Provider value retrieved', { provider: this.name, key: fullKey });
 
@@ -290,6 +656,7 @@ export class MemcachedProvider implements ICacheProvider {
         found: false,
         provider: this.name,
         error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
@@ -317,10 +684,8 @@ export class MemcachedProvider implements ICacheProvider {
     this.logger.debug('Basepack Cache: Provider setting value', { provider: this.name, key: fullKey, ttl: config.ttl });
 
     try {
-      // Serialize value to JSON if it's an object
-      const serialized = typeof config.value === 'object' 
-        ? JSON.stringify(config.value) 
-        : String(config.value);
+      const versions = config.tags ? await this.resolveTagVersions(config.tags) : {};
+      const serialized = this.serializeTagged(config.value, config.tags, versions);
 
       // Memcached TTL is in seconds, 0 means no expiration
       const ttl = config.ttl || 0;
@@ -345,6 +710,68 @@ export class MemcachedProvider implements ICacheProvider {
         provider: this.name,
         timestamp: new Date(),
         error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Set a value only if the key does not already exist
+   * 
+   * @param config - Set configuration with value and optional TTL
+   * @returns Add result indicating whether the value was stored
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.add({ key: 'lock:job', value: 1, ttl: 30 });
+   * if (result.added) {
+   *   console.log('Lock acquired');
+   * }
+   * ```
+   */
+  async add(config: CacheSetConfig): Promise<CacheAddResult> {
+    validateCacheSetConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider adding value', { provider: this.name, key: fullKey, ttl: config.ttl });
+
+    try {
+      const versions = config.tags ? await this.resolveTagVersions(config.tags) : {};
+      const serialized = this.serializeTagged(config.value, config.tags, versions);
+      let added = true;
+
+      try {
+        // Memcached ADD is atomic and fails when the key already exists
+        await this.promisify<boolean>('add', fullKey, serialized, config.ttl || 0);
+      } catch (error) {
+        if (!this.isNotStoredError(error)) {
+          throw error;
+        }
+        added = false;
+      }
+
+      this.logger.debug('Basepack Cache: Provider value added', { provider: this.name, key: fullKey, added });
+
+      return {
+        success: true,
+        key: config.key,
+        added,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider add failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+      
+      return {
+        success: false,
+        key: config.key,
+        added: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
@@ -368,13 +795,14 @@ export class MemcachedProvider implements ICacheProvider {
     this.logger.debug('Basepack Cache: Provider deleting value', { provider: this.name, key: fullKey });
 
     try {
-      await this.promisify<boolean>('del', fullKey);
+      const deleted = await this.promisify<boolean>('del', fullKey);
 
       this.logger.debug('Basepack Cache: Provider value deleted', { provider: this.name, key: fullKey });
 
       return {
         success: true,
         key: config.key,
+        deleted: Boolean(deleted),
         provider: this.name,
         timestamp: new Date(),
       };
@@ -388,6 +816,7 @@ export class MemcachedProvider implements ICacheProvider {
         provider: this.name,
         timestamp: new Date(),
         error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
@@ -418,8 +847,9 @@ export class MemcachedProvider implements ICacheProvider {
 
     try {
       // Memcached doesn't have an EXISTS command, so we use GET
-      const value = await this.promisify<string | undefined>('get', fullKey);
-      const exists = value !== undefined && value !== null;
+      const value = await this.promisify<string | Buffer | undefined>('get', fullKey);
+      const [stored] = await this.readStoredValues([value]);
+      const exists = stored.found;
 
       this.logger.debug('Basepack Cache: Provider existence checked', { provider: this.name, key: fullKey, exists });
 
@@ -439,118 +869,1154 @@ export class MemcachedProvider implements ICacheProvider {
         exists: false,
         provider: this.name,
         error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
 
   /**
-   * Clear all values from cache
+   * Read the remaining time to live of a key
    * 
-   * Note: This flushes the entire Memcached server(s).
-   * There's no way to selectively clear only keys with a specific prefix.
+   * Not supported: Memcached has no command to read a key's expiry.
    * 
-   * @returns Clear result
+   * @param config - TTL configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async ttl(config: CacheTtlConfig): Promise<CacheTtlResult> {
+    validateCacheTtlConfig(config);
+
+    throw new CacheNotSupportedError('Memcached cannot read the TTL of a key', this.name, 'ttl');
+  }
+
+  /**
+   * Set a new time to live on an existing key with TOUCH
+   * 
+   * @param config - Expire configuration
+   * @returns Expire result indicating whether the key existed
+   * @throws {CacheValidationError} If configuration is invalid
    * 
    * @example
    * ```typescript
-   * await provider.clear();
-   * console.log('Cache cleared');
+   * await provider.expire({ key: 'session:abc', ttl: 1800 });
    * ```
    */
-  async clear(): Promise<CacheClearResult> {
-    this.logger.warn('Basepack Cache: Provider clearing entire cache', { 
-      provider: this.name,
-      note: 'This will flush all keys on all servers'
-    });
+  async expire(config: CacheExpireConfig): Promise<CacheExpireResult> {
+    validateCacheExpireConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider expire key', { provider: this.name, key: fullKey, ttl: config.ttl });
 
     try {
-      await this.promisify<boolean[]>('flush');
+      // TOUCH replies NOT_FOUND, reported as false, for missing keys
+      const exists = Boolean(await this.promisify<boolean>('touch', fullKey, config.ttl));
 
-      this.logger.info('Basepack Cache: Provider cache cleared', { provider: this.name });
+      this.logger.debug('Basepack Cache: Provider expire applied', { provider: this.name, key: fullKey, exists });
 
       return {
         success: true,
+        key: config.key,
+        exists,
         provider: this.name,
         timestamp: new Date(),
       };
     } catch (error) {
-      this.logger.error('Basepack Cache: Provider clear failed', { provider: this.name, error });
+      this.logger.error('Basepack Cache: Provider expire failed', { provider: this.name, key: fullKey, error });
       const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
-      
+
       return {
         success: false,
+        key: config.key,
+        exists: false,
         provider: this.name,
         timestamp: new Date(),
         error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
 
   /**
-   * Check provider health status
+   * Refresh an existing key
    * 
-   * @returns Health information
+   * With a TTL this is TOUCH, for sliding expiration. Memcached's TOUCH always
+   * sets a new expiry, so without a TTL the key is read with GET instead, which
+   * keeps its expiry and moves it to the front of the LRU.
+   * 
+   * @param config - Touch configuration
+   * @returns Expire result indicating whether the key existed
+   * @throws {CacheValidationError} If configuration is invalid
    * 
    * @example
    * ```typescript
-   * const health = await provider.health();
-   * if (health.status === 'healthy') {
-   *   console.log(`Memcached is healthy (${health.responseTime}ms)`);
-   * }
+   * await provider.touch({ key: 'session:abc', ttl: 1800 });
    * ```
    */
-  async health(): Promise<CacheHealthInfo> {
-    this.logger.debug('Basepack Cache: Provider health check', { provider: this.name });
-    
-    const startTime = Date.now();
-    const testKey = '__health_check__';
+  async touch(config: CacheTouchConfig): Promise<CacheExpireResult> {
+    validateCacheTouchConfig(config);
 
-    try {
-      // Try to set and get a test value
-      await this.promisify<boolean>('set', testKey, 'ping', 10);
-      const value = await this.promisify<string>('get', testKey);
-      await this.promisify<boolean>('del', testKey);
+    if (config.ttl !== undefined) {
+      return this.expire({ key: config.key, ttl: config.ttl });
+    }
 
-      const responseTime = Date.now() - startTime;
-      const isHealthy = value === 'ping';
+    const result = await this.has({ key: config.key });
 
-      this.logger.debug('Basepack Cache: Provider health checked', { 
-        provider: this.name, 
-        status: isHealthy ? 'healthy' : 'unhealthy',
-        responseTimeMs: responseTime
-      });
+    return {
+      success: result.success,
+      key: config.key,
+      exists: result.exists,
+      provider: this.name,
+      timestamp: new Date(),
+      error: result.error,
+      retryable: result.retryable,
+    };
+  }
 
-      return {
+  /**
+   * Get multiple values from cache with a single multi-get
+   * 
+   * @param config - Get-many configuration
+   * @returns Get results in the same order as the keys
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const results = await provider.getMany({ keys: ['user:1', 'user:2'] });
+   * results.filter(r => r.found).forEach(r => console.log(r.key, r.value));
+   * ```
+   */
+  async getMany<T = any>(config: CacheGetManyConfig): Promise<CacheGetResult<T>[]> {
+    validateCacheGetManyConfig(config);
+
+    const fullKeys = config.keys.map(key => this.buildKey(key));
+    this.logger.debug('Basepack Cache: Provider getting values', { provider: this.name, count: fullKeys.length });
+
+    try {
+      const values = await this.promisify<Record<string, string | Buffer> | undefined>('getMulti', fullKeys) || {};
+      const stored = await this.readStoredValues<T>(fullKeys.map(fullKey => values[fullKey]));
+
+      this.logger.debug('Basepack Cache: Provider values retrieved', {
         provider: this.name,
-        status: isHealthy ? 'healthy' : 'unhealthy',
-        responseTime,
-        timestamp: new Date(),
-        details: {
-          testPassed: isHealthy,
-        },
-      };
+        count: fullKeys.length,
+        found: stored.filter(entry => entry.found).length
+      });
+
+      return config.keys.map((key, index) => {
+        if (!stored[index].found) {
+          return { success: true, key, found: false, provider: this.name };
+        }
+        return { success: true, key, value: stored[index].value as T, found: true, provider: this.name };
+      });
     } catch (error) {
-      const responseTime = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      this.logger.error('Basepack Cache: Provider health check failed', { provider: this.name, error: errorMessage });
+      this.logger.error('Basepack Cache: Provider get many failed', { provider: this.name, count: fullKeys.length, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
 
-      return {
+      return config.keys.map(key => ({
+        success: false,
+        key,
+        found: false,
         provider: this.name,
-        status: 'unhealthy',
-        responseTime,
-        error: errorMessage,
-        timestamp: new Date(),
-      };
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      }));
     }
   }
 
   /**
-   * Close connection to Memcached
+   * Set multiple values in cache
+   * 
+   * Note: The Memcached protocol has no multi-set, so the values are sent as
+   * concurrent SET commands over the connection pool.
+   * 
+   * @param config - Set-many configuration
+   * @returns Set results in the same order as the entries
+   * @throws {CacheValidationError} If configuration is invalid
    * 
    * @example
    * ```typescript
-   * await provider.close();
+   * await provider.setMany({
+   *   entries: [
+   *     { key: 'user:1', value: { name: 'John' } },
+   *     { key: 'user:2', value: { name: 'Jane' } }
+   *   ],
+   *   ttl: 3600
+   * });
+   * ```
+   */
+  async setMany(config: CacheSetManyConfig): Promise<CacheSetResult[]> {
+    validateCacheSetManyConfig(config);
+
+    this.logger.debug('Basepack Cache: Provider setting values', { provider: this.name, count: config.entries.length });
+
+    let versions: Record<string, string> = {};
+    const tags = config.entries.flatMap(entry => entry.tags ?? []);
+
+    if (tags.length > 0) {
+      try {
+        versions = await this.resolveTagVersions(tags);
+      } catch (error) {
+        this.logger.error('Basepack Cache: Provider set many failed', { provider: this.name, count: config.entries.length, error });
+        const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+        return config.entries.map(entry => ({
+          success: false,
+          key: entry.key,
+          provider: this.name,
+          timestamp: new Date(),
+          error: cacheError.message,
+          retryable: cacheError.isRetryable,
+        }));
+      }
+    }
+
+    const settled = await Promise.allSettled(
+      config.entries.map(entry => this.promisify<boolean>(
+        'set',
+        this.buildKey(entry.key),
+        this.serializeTagged(entry.value, entry.tags, versions),
+        entry.ttl ?? config.ttl ?? 0
+      ))
+    );
+
+    return config.entries.map((entry, index) => {
+      const outcome = settled[index];
+      if (outcome.status === 'fulfilled') {
+        return { success: true, key: entry.key, provider: this.name, timestamp: new Date() };
+      }
+
+      this.logger.error('Basepack Cache: Provider set failed', { provider: this.name, key: entry.key, error: outcome.reason });
+      const cacheError = CacheError.from(outcome.reason, this.name, this.isRetryableError(outcome.reason));
+      return { success: false, key: entry.key, provider: this.name, timestamp: new Date(), error: cacheError.message, retryable: cacheError.isRetryable };
+    });
+  }
+
+  /**
+   * Delete multiple values from cache
+   * 
+   * Note: The Memcached protocol has no multi-delete, so the keys are sent as
+   * concurrent DELETE commands over the connection pool.
+   * 
+   * @param config - Delete-many configuration
+   * @returns Delete results in the same order as the keys
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.deleteMany({ keys: ['user:1', 'user:2'] });
+   * ```
+   */
+  async deleteMany(config: CacheDeleteManyConfig): Promise<CacheDeleteResult[]> {
+    validateCacheDeleteManyConfig(config);
+
+    this.logger.debug('Basepack Cache: Provider deleting values', { provider: this.name, count: config.keys.length });
+
+    const settled = await Promise.allSettled(
+      config.keys.map(key => this.promisify<boolean>('del', this.buildKey(key)))
+    );
+
+    return config.keys.map((key, index) => {
+      const outcome = settled[index];
+      if (outcome.status === 'fulfilled') {
+        return { success: true, key, deleted: Boolean(outcome.value), provider: this.name, timestamp: new Date() };
+      }
+
+      this.logger.error('Basepack Cache: Provider delete failed', { provider: this.name, key, error: outcome.reason });
+      const cacheError = CacheError.from(outcome.reason, this.name, this.isRetryableError(outcome.reason));
+      return { success: false, key, provider: this.name, timestamp: new Date(), error: cacheError.message, retryable: cacheError.isRetryable };
+    });
+  }
+
+  /**
+   * Atomically increment a numeric value with INCR
+   * 
+   * A missing key is created with ADD using the TTL, so concurrent first
+   * increments cannot overwrite each other.
+   * 
+   * @param config - Increment configuration
+   * @returns Increment result with the new value
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.increment({ key: 'page:views' });
+   * console.log('Views:', result.value);
+   * ```
+   */
+  async increment(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    validateCacheIncrementConfig(config);
+    return this.updateCounter(config, 'incr');
+  }
+
+  /**
+   * Atomically decrement a numeric value with DECR
+   * 
+   * Note: Memcached counters are unsigned, so the value stops at 0 and a
+   * missing key is created as 0.
+   * 
+   * @param config - Decrement configuration
+   * @returns Decrement result with the new value
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.decrement({ key: 'stock:sku-1', by: 2 });
+   * ```
+   */
+  async decrement(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    validateCacheIncrementConfig(config);
+    return this.updateCounter(config, 'decr');
+  }
+
+  /**
+   * Apply INCR or DECR to a counter, creating it if it does not exist
+   * 
+   * @param config - Increment configuration
+   * @param command - Memcached command to run
+   * @returns Increment result with the new value
+   */
+  private async updateCounter(config: CacheIncrementConfig, command: 'incr' | 'decr'): Promise<CacheIncrementResult> {
+    const fullKey = this.buildKey(config.key);
+    const by = config.by ?? 1;
+    const operation = command === 'incr' ? 'increment' : 'decrement';
+    this.logger.debug('Basepack Cache: Provider updating counter', { provider: this.name, key: fullKey, delta: command === 'incr' ? by : -by });
+
+    try {
+      const value = await this.applyCounter(fullKey, command, by, config.ttl);
+
+      this.logger.debug('Basepack Cache: Provider counter updated', { provider: this.name, key: fullKey, value });
+
+      return {
+        success: true,
+        key: config.key,
+        value: Number(value),
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(`Basepack Cache: Provider ${operation} failed`, { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key: config.key,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Apply INCR or DECR to a counter, creating it with ADD if it is missing
+   * 
+   * @param fullKey - Full cache key
+   * @param command - Counter command
+   * @param by - Amount to change the counter by
+   * @param ttl - Time to live in seconds, applied only when the counter is created
+   * @returns Counter value after the change
+   */
+  private async applyCounter(fullKey: string, command: 'incr' | 'decr', by: number, ttl?: number): Promise<number> {
+    let value = await this.promisify<number | false>(command, fullKey, by);
+
+    if (value === false) {
+      const initial = command === 'incr' ? by : 0;
+      try {
+        await this.promisify<boolean>('add', fullKey, String(initial), ttl || 0);
+        value = initial;
+      } catch (error) {
+        if (!this.isNotStoredError(error)) {
+          throw error;
+        }
+        // Another client created the counter first
+        value = await this.promisify<number | false>(command, fullKey, by);
+      }
+    }
+
+    if (value === false) {
+      throw new Error('Counter was removed while updating');
+    }
+
+    return Number(value);
+  }
+
+  /**
+   * Replace a value only if it currently equals the expected value
+   * 
+   * Reads the value and its CAS token with GETS, then writes with CAS so the
+   * swap is rejected if another client changed the key in between. Values are
+   * compared by their serialized form.
+   * 
+   * Note: Memcached cannot keep the current expiry, so without a TTL the new
+   * value does not expire.
+   * 
+   * @param config - Compare-and-set configuration
+   * @returns Compare-and-set result indicating whether the value was swapped
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.compareAndSet({ key: 'config:version', expected: 1, value: 2 });
+   * if (!result.swapped) {
+   *   console.log('Version changed, retry');
+   * }
+   * ```
+   */
+  async compareAndSet(config: CacheCompareAndSetConfig): Promise<CacheCompareAndSetResult> {
+    validateCacheCompareAndSetConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider comparing and setting value', { provider: this.name, key: fullKey });
+
+    try {
+      const data = await this.promisify<Record<string, string | Buffer> | undefined>('gets', fullKey);
+      const [current] = await this.readStoredValues([data?.[fullKey]]);
+
+      let swapped = false;
+      if (current.found && isSameSerializedValue(this.serializer, current.value, config.expected)) {
+        // Keep the tags of the current value
+        const tagVersions = current.tagVersions ?? {};
+        const tags = current.tagVersions ? Object.keys(tagVersions) : undefined;
+
+        try {
+          swapped = Boolean(await this.promisify<boolean>(
+            'cas',
+            fullKey,
+            this.serializeTagged(config.value, tags, tagVersions),
+            data!.cas,
+            config.ttl || 0
+          ));
+        } catch (error) {
+          if (!this.isNotStoredError(error)) {
+            throw error;
+          }
+        }
+      }
+
+      this.logger.debug('Basepack Cache: Provider value compared and set', { provider: this.name, key: fullKey, swapped });
+
+      return {
+        success: true,
+        key: config.key,
+        swapped,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider compare and set failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key: config.key,
+        swapped: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Extend a lock only if it is still held with the given token
+   * 
+   * Reads the lock and its CAS token with GETS, then rewrites it with CAS and
+   * the new TTL, so a lock taken by another holder in between is not extended.
+   * 
+   * @param config - Extend configuration
+   * @returns Lock result indicating whether the lock was extended
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.extendLock({ key: 'jobs:nightly:__lock', token, ttl: 30 });
+   * if (!result.owned) {
+   *   console.log('Lock was lost');
+   * }
+   * ```
+   */
+  async extendLock(config: CacheExtendLockConfig): Promise<CacheLockResult> {
+    validateCacheExtendLockConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider extending lock', { provider: this.name, key: fullKey, ttl: config.ttl });
+
+    try {
+      const owned = await this.casLock(fullKey, config.token, config.ttl);
+
+      this.logger.debug('Basepack Cache: Provider lock extended', { provider: this.name, key: fullKey, owned });
+
+      return {
+        success: true,
+        key: config.key,
+        owned,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider extend lock failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key: config.key,
+        owned: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Release a lock only if it is still held with the given token
+   * 
+   * Memcached has no conditional delete, so the lock is first claimed with
+   * GETS and CAS (shortening its TTL to one second) and then deleted. A lock
+   * taken by another holder in between is left untouched.
+   * 
+   * @param config - Release configuration
+   * @returns Lock result indicating whether the lock was released
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.releaseLock({ key: 'jobs:nightly:__lock', token });
+   * ```
+   */
+  async releaseLock(config: CacheReleaseLockConfig): Promise<CacheLockResult> {
+    validateCacheReleaseLockConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider releasing lock', { provider: this.name, key: fullKey });
+
+    try {
+      const owned = await this.casLock(fullKey, config.token, 1);
+      if (owned) {
+        await this.promisify<boolean>('del', fullKey);
+      }
+
+      this.logger.debug('Basepack Cache: Provider lock released', { provider: this.name, key: fullKey, owned });
+
+      return {
+        success: true,
+        key: config.key,
+        owned,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider release lock failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key: config.key,
+        owned: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Rewrite a lock with a new TTL if it still holds the given token
+   * 
+   * @param fullKey - Full cache key of the lock
+   * @param token - Token the lock was acquired with
+   * @param ttl - New time to live in seconds
+   * @returns True if the lock held the token and was rewritten
+   */
+  private async casLock(fullKey: string, token: string, ttl: number): Promise<boolean> {
+    const data = await this.promisify<Record<string, string | Buffer> | undefined>('gets', fullKey);
+    const current = data?.[fullKey];
+
+    if (current === undefined || current === null || this.serializer.deserialize(current) !== token) {
+      return false;
+    }
+
+    try {
+      return Boolean(await this.promisify<boolean>('cas', fullKey, current, data!.cas, ttl));
+    } catch (error) {
+      if (!this.isNotStoredError(error)) {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Consume quota from a rate limit
+   * 
+   * - `fixed-window`: an INCR counter per clock-aligned window; a rejected
+   *   request gives its quota back with DECR
+   * - `sliding-window`: the current window counter plus the previous one,
+   *   weighted by how much of it still overlaps the sliding window (an
+   *   approximation of an exact sliding log)
+   * - `token-bucket`: the bucket state is updated with GETS/CAS, retried a few
+   *   times under contention
+   * 
+   * Note: windows and refills use the local clock, so keep instance clocks in sync.
+   * 
+   * @param config - Rate limit configuration
+   * @returns Rate limit result with the remaining quota and reset time
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.rateLimit({
+   *   key: 'ratelimit:api:user:123',
+   *   algorithm: 'fixed-window',
+   *   limit: 100,
+   *   window: 60
+   * });
+   * ```
+   */
+  async rateLimit(config: CacheRateLimitConfig): Promise<CacheRateLimitResult> {
+    validateCacheRateLimitConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider applying rate limit', { provider: this.name, key: fullKey, algorithm: config.algorithm });
+
+    try {
+      const state = config.algorithm === 'token-bucket'
+        ? await this.consumeTokenBucket(fullKey, config)
+        : await this.consumeWindow(fullKey, config);
+
+      this.logger.debug('Basepack Cache: Provider rate limit applied', { provider: this.name, key: fullKey, allowed: state.allowed, remaining: state.remaining });
+
+      return {
+        success: true,
+        key: config.key,
+        limit: config.limit,
+        ...state,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider rate limit failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key: config.key,
+        allowed: false,
+        limit: config.limit,
+        remaining: 0,
+        resetAt: new Date(),
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Consume quota from a fixed or sliding window
+   * 
+   * @param fullKey - Full cache key of the rate limit
+   * @param config - Rate limit configuration
+   * @returns Quota state after the request
+   */
+  private async consumeWindow(fullKey: string, config: CacheRateLimitConfig): Promise<RateLimitState> {
+    const cost = config.cost ?? 1;
+    const windowMs = config.window * 1000;
+    const now = Date.now();
+    const index = Math.floor(now / windowMs);
+    const windowEnd = (index + 1) * windowMs;
+    const sliding = config.algorithm === 'sliding-window';
+
+    // Counters live for two windows so the next window can still weight them
+    const count = await this.applyCounter(`${fullKey}:${index}`, 'incr', cost, config.window * 2);
+
+    let previous = 0;
+    let weight = 0;
+    if (sliding) {
+      previous = Number(await this.promisify<string | number | undefined>('get', `${fullKey}:${index - 1}`)) || 0;
+      weight = (windowEnd - now) / windowMs;
+    }
+
+    const used = Math.floor(previous * weight) + count;
+    const resetAt = new Date(sliding ? windowEnd + windowMs : windowEnd);
+
+    if (used <= config.limit) {
+      return { allowed: true, remaining: config.limit - used, resetAt };
+    }
+
+    // Give back the quota of the rejected request
+    await this.promisify<number | false>('decr', `${fullKey}:${index}`, cost);
+
+    let retryAt = windowEnd;
+    const free = config.limit - count;
+    if (sliding && free >= 0 && previous > 0) {
+      // Wait until enough of the previous window has slid out
+      retryAt = windowEnd - windowMs * (free / previous);
+    }
+
+    return {
+      allowed: false,
+      remaining: Math.max(config.limit - (used - cost), 0),
+      resetAt,
+      retryAfter: Math.max(Math.ceil(retryAt - now), 0),
+    };
+  }
+
+  /**
+   * Consume tokens from a token bucket
+   * 
+   * @param fullKey - Full cache key of the bucket
+   * @param config - Rate limit configuration
+   * @returns Quota state after the request
+   * @throws {Error} If the bucket kept changing concurrently
+   */
+  private async consumeTokenBucket(fullKey: string, config: CacheRateLimitConfig): Promise<RateLimitState> {
+    const cost = config.cost ?? 1;
+    const rate = config.limit / (config.window * 1000);
+
+    for (let attempt = 0; attempt < TOKEN_BUCKET_CAS_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      const data = await this.promisify<Record<string, string | Buffer> | undefined>('gets', fullKey);
+      const raw = data?.[fullKey];
+      const bucket = raw === undefined || raw === null
+        ? undefined
+        : this.serializer.deserialize<{ tokens: number; updatedAt: number }>(raw);
+
+      let tokens = bucket
+        ? Math.min(config.limit, bucket.tokens + Math.max(now - bucket.updatedAt, 0) * rate)
+        : config.limit;
+      const allowed = tokens >= cost;
+      if (allowed) {
+        tokens -= cost;
+      }
+
+      const resetMs = Math.ceil((config.limit - tokens) / rate);
+      const serialized = this.serializer.serialize({ tokens, updatedAt: now });
+      const ttl = Math.max(Math.ceil(resetMs / 1000), 1);
+
+      try {
+        const stored = bucket
+          ? await this.promisify<boolean>('cas', fullKey, serialized, data!.cas, ttl)
+          : await this.promisify<boolean>('add', fullKey, serialized, ttl);
+
+        if (stored) {
+          return {
+            allowed,
+            remaining: Math.floor(tokens),
+            resetAt: new Date(now + resetMs),
+            retryAfter: allowed ? undefined : Math.ceil((cost - tokens) / rate),
+          };
+        }
+      } catch (error) {
+        if (!this.isNotStoredError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error('Token bucket changed concurrently too many times');
+  }
+
+  /**
+   * Invalidate every value stored with any of the given tags
+   * 
+   * Memcached cannot enumerate keys, so each tag has a version counter. Tagged
+   * values store the versions they were written with, and INCR on a tag makes
+   * every older value read as a miss. The stale values are left to expire or be
+   * evicted, so `invalidated` is not reported.
+   * 
+   * @param tags - Tags to invalidate
+   * @returns Invalidation result
+   * @throws {CacheValidationError} If tags are invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.set({ key: 'user:42:orders', value: orders, tags: ['user:42'] });
+   * await provider.invalidateTags(['user:42']);
+   * ```
+   */
+  async invalidateTags(tags: string[]): Promise<CacheInvalidateTagsResult> {
+    validateCacheTags(tags);
+
+    this.logger.debug('Basepack Cache: Provider invalidating tags', { provider: this.name, tags });
+
+    try {
+      // A missing counter already invalidates every value that references it
+      await Promise.all(tags.map(tag => this.promisify<number | false>('incr', this.buildTagKey(tag), 1)));
+
+      this.logger.debug('Basepack Cache: Provider tags invalidated', { provider: this.name, tags });
+
+      return {
+        success: true,
+        tags,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider invalidate tags failed', { provider: this.name, tags, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        tags,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Fetch one page of keys matching a pattern
+   * 
+   * Not supported: Memcached has no command to enumerate keys.
+   * 
+   * @param config - Scan configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async scan(config: CacheKeysConfig): Promise<CacheScanResult> {
+    validateCacheKeysConfig(config);
+
+    throw new CacheNotSupportedError('Memcached cannot enumerate keys', this.name, 'scan');
+  }
+
+  /**
+   * Read fields of a hash
+   * 
+   * Not supported: Memcached only stores opaque values.
+   * 
+   * @param config - Hash get configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async hashGet<T = any>(config: CacheHashGetConfig): Promise<CacheHashGetResult<T>> {
+    validateCacheHashGetConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support hashes', this.name, 'hashGet');
+  }
+
+  /**
+   * Write fields of a hash
+   * 
+   * Not supported: Memcached only stores opaque values.
+   * 
+   * @param config - Hash set configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async hashSet(config: CacheHashSetConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheHashSetConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support hashes', this.name, 'hashSet');
+  }
+
+  /**
+   * Push values onto a list
+   * 
+   * Not supported: Memcached only stores opaque values.
+   * 
+   * @param config - List push configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async listPush(config: CacheListPushConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheListPushConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support lists', this.name, 'listPush');
+  }
+
+  /**
+   * Pop values from a list
+   * 
+   * Not supported: Memcached only stores opaque values.
+   * 
+   * @param config - List pop configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async listPop<T = any>(config: CacheListPopConfig): Promise<CacheListResult<T>> {
+    validateCacheListPopConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support lists', this.name, 'listPop');
+  }
+
+  /**
+   * Read a range of a list
+   * 
+   * Not supported: Memcached only stores opaque values.
+   * 
+   * @param config - List range configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async listRange<T = any>(config: CacheListRangeConfig): Promise<CacheListResult<T>> {
+    validateCacheListRangeConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support lists', this.name, 'listRange');
+  }
+
+  /**
+   * Add members to a set
+   * 
+   * Not supported: Memcached only stores opaque values.
+   * 
+   * @param config - Set add configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async setAdd(config: CacheSetAddConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheSetAddConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support sets', this.name, 'setAdd');
+  }
+
+  /**
+   * Read the members of a set
+   * 
+   * Not supported: Memcached only stores opaque values.
+   * 
+   * @param config - Set members configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async setMembers(config: CacheSetMembersConfig): Promise<CacheSetMembersResult> {
+    validateCacheSetMembersConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support sets', this.name, 'setMembers');
+  }
+
+  /**
+   * Add members to a sorted set
+   * 
+   * Not supported: Memcached only stores opaque values.
+   * 
+   * @param config - Sorted set add configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async sortedSetAdd(config: CacheSortedSetAddConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheSortedSetAddConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support sorted sets', this.name, 'sortedSetAdd');
+  }
+
+  /**
+   * Read members of a sorted set by score
+   * 
+   * Not supported: Memcached only stores opaque values.
+   * 
+   * @param config - Sorted set range configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async sortedSetRange(config: CacheSortedSetRangeConfig): Promise<CacheSortedSetRangeResult> {
+    validateCacheSortedSetRangeConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support sorted sets', this.name, 'sortedSetRange');
+  }
+
+  /**
+   * Publish a message on a pub/sub channel
+   * 
+   * Not supported: Memcached has no pub/sub.
+   * 
+   * @param config - Publish configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async publish(config: CachePublishConfig): Promise<CachePublishResult> {
+    validateCachePublishConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support pub/sub', this.name, 'publish');
+  }
+
+  /**
+   * Subscribe to a pub/sub channel
+   * 
+   * Not supported: Memcached has no pub/sub.
+   * 
+   * @param config - Subscribe configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async subscribe(config: CacheSubscribeConfig): Promise<CacheSubscription> {
+    validateCacheSubscribeConfig(config);
+
+    throw new CacheNotSupportedError('Memcached does not support pub/sub', this.name, 'subscribe');
+  }
+
+  /**
+   * Clear all values from cache
+   * 
+   * Note: This flushes the entire Memcached server(s).
+   * There's no way to selectively clear only keys with a specific prefix.
+   * 
+   * @returns Clear result
+   * 
+   * @example
+   * ```typescript
+   * await provider.clear();
+   * console.log('Cache cleared');
+   * ```
+   */
+  async clear(): Promise<CacheClearResult> {
+    this.logger.warn('Basepack Cache: Provider clearing entire cache', { 
+      provider: this.name,
+      note: 'This will flush all keys on all servers'
+    });
+
+    try {
+      await this.promisify<boolean[]>('flush');
+
+      this.logger.info('Basepack Cache: Provider cache cleared', { provider: this.name });
+
+      return {
+        success: true,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider clear failed', { provider: this.name, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+      
+      return {
+        success: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Check provider health status
+   * 
+   * `details.servers` lists every configured server with its weight, whether it is
+   * ejected, and its uptime and item count when it answers STATS. The provider is
+   * unhealthy if the test value cannot be round-tripped or a server that is still
+   * on the hash ring does not respond.
+   * 
+   * @returns Health information
+   * 
+   * @example
+   * ```typescript
+   * const health = await provider.health();
+   * if (health.status === 'healthy') {
+   *   console.log(`Memcached is healthy (${health.responseTime}ms)`);
+   * }
+   * 
+   * for (const server of health.details?.servers ?? []) {
+   *   console.log(server.server, server.status, server.ejected);
+   * }
+   * ```
+   */
+  async health(): Promise<CacheHealthInfo> {
+    this.logger.debug('Basepack Cache: Provider health check', { provider: this.name });
+    
+    const startTime = Date.now();
+    const testKey = '__health_check__';
+
+    try {
+      // Try to set and get a test value
+      await this.promisify<boolean>('set', testKey, 'ping', 10);
+      const value = await this.promisify<string>('get', testKey);
+      await this.promisify<boolean>('del', testKey);
+      const servers = await this.checkServers();
+
+      const responseTime = Date.now() - startTime;
+      const unhealthyServers = servers.filter(server => server.status !== 'healthy' && !server.ejected);
+      const isHealthy = value === 'ping' && unhealthyServers.length === 0;
+
+      this.logger.debug('Basepack Cache: Provider health checked', { 
+        provider: this.name, 
+        status: isHealthy ? 'healthy' : 'unhealthy',
+        responseTimeMs: responseTime
+      });
+
+      return {
+        provider: this.name,
+        status: isHealthy ? 'healthy' : 'unhealthy',
+        responseTime,
+        ...(unhealthyServers.length > 0
+          ? { error: `Unhealthy servers: ${unhealthyServers.map(server => server.server).join(', ')}` }
+          : {}),
+        timestamp: new Date(),
+        details: {
+          testPassed: value === 'ping',
+          servers,
+        },
+      };
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      
+      this.logger.error('Basepack Cache: Provider health check failed', { provider: this.name, error: errorMessage });
+
+      return {
+        provider: this.name,
+        status: 'unhealthy',
+        responseTime,
+        error: errorMessage,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Check the health of individual servers with STATS
+   * 
+   * Never rejects: servers that do not answer are reported as unhealthy with
+   * the last error the client reported for them.
+   * 
+   * @returns Health of every configured server
+   */
+  private checkServers(): Promise<MemcachedServerHealth[]> {
+    return new Promise(resolve => {
+      this.client.stats((_error: unknown, results: any[]) => {
+        const stats = new Map<string, any>(
+          (Array.isArray(results) ? results : []).filter(entry => entry?.server).map(entry => [entry.server, entry])
+        );
+
+        resolve([...this.weights].map(([server, weight]): MemcachedServerHealth => {
+          const entry = stats.get(server);
+          const ejected = this.ejected.has(server);
+
+          if (!entry) {
+            return {
+              server,
+              weight,
+              status: 'unhealthy',
+              ejected,
+              error: this.serverErrors.get(server) ?? 'No response to STATS',
+            };
+          }
+
+          return {
+            server,
+            weight,
+            status: 'healthy',
+            ejected,
+            uptime: Number(entry.uptime),
+            items: Number(entry.curr_items),
+          };
+        }));
+      });
+    });
+  }
+
+  /**
+   * Close connection to Memcached
+   * 
+   * @example
+   * ```typescript
+   * await provider.close();
    * console.log('Memcached connection closed');
    * ```
    */
@@ -563,6 +2029,20 @@ export class MemcachedProvider implements ICacheProvider {
     }
   }
 
+  /**
+   * Determine if an error means the item was not stored (e.g. ADD on an existing key)
+   * 
+   * @param error - Error to check
+   * @returns True if the item was not stored
+   */
+  private isNotStoredError(error: unknown): boolean {
+    if (typeof error === 'object' && error !== null && 'notStored' in error && error.notStored) {
+      return true;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return message.toLowerCase().includes('not stored');
+  }
+
   /**
    * Determine if an error is retryable
    * 
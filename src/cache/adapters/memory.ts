@@ -0,0 +1,1487 @@
+/**
+ * In-process memory cache adapter
+ * @module cache/adapters/memory
+ */
+
+import type {
+  ICacheProvider,
+  MemoryConfig,
+  CacheSetConfig,
+  CacheGetConfig,
+  CacheDeleteConfig,
+  CacheHasConfig,
+  CacheGetResult,
+  CacheSetResult,
+  CacheAddResult,
+  CacheDeleteResult,
+  CacheHasResult,
+  CacheClearResult,
+  CacheHealthInfo,
+  CacheGetManyConfig,
+  CacheSetManyConfig,
+  CacheDeleteManyConfig,
+  CacheIncrementConfig,
+  CacheIncrementResult,
+  CacheCompareAndSetConfig,
+  CacheCompareAndSetResult,
+  CacheInvalidateTagsResult,
+  CacheExtendLockConfig,
+  CacheReleaseLockConfig,
+  CacheLockResult,
+  CacheRateLimitConfig,
+  CacheRateLimitResult,
+  CacheKeysConfig,
+  CacheScanResult,
+  CacheTtlConfig,
+  CacheExpireConfig,
+  CacheTouchConfig,
+  CacheTtlResult,
+  CacheExpireResult,
+  CacheHashGetConfig,
+  CacheHashSetConfig,
+  CacheListPushConfig,
+  CacheListPopConfig,
+  CacheListRangeConfig,
+  CacheSetAddConfig,
+  CacheSetMembersConfig,
+  CacheSortedSetAddConfig,
+  CacheSortedSetRangeConfig,
+  CacheHashGetResult,
+  CacheCollectionWriteResult,
+  CacheListResult,
+  CacheSetMembersResult,
+  CacheSortedSetRangeResult,
+  CachePublishConfig,
+  CachePublishResult,
+  CacheSubscribeConfig,
+  CacheSubscription,
+  CacheMessageListener,
+  CacheSerializer,
+} from '../types';
+import { CacheProvider } from '../types';
+import type { Logger } from '../../logger';
+import { JsonSerializer, isSameSerializedValue } from '../serializers';
+import { CacheError, CacheNotSupportedError } from '../errors';
+import {
+  validateCacheGetConfig,
+  validateCacheSetConfig,
+  validateCacheDeleteConfig,
+  validateCacheHasConfig,
+  validateCacheGetManyConfig,
+  validateCacheSetManyConfig,
+  validateCacheDeleteManyConfig,
+  validateCacheIncrementConfig,
+  validateCacheCompareAndSetConfig,
+  validateCacheTags,
+  validateCacheExtendLockConfig,
+  validateCacheReleaseLockConfig,
+  validateCacheRateLimitConfig,
+  validateCacheKeysConfig,
+  validateCacheTtlConfig,
+  validateCacheExpireConfig,
+  validateCacheTouchConfig,
+  validateCacheHashGetConfig,
+  validateCacheHashSetConfig,
+  validateCacheListPushConfig,
+  validateCacheListPopConfig,
+  validateCacheListRangeConfig,
+  validateCacheSetAddConfig,
+  validateCacheSetMembersConfig,
+  validateCacheSortedSetAddConfig,
+  validateCacheSortedSetRangeConfig,
+  validateCachePublishConfig,
+  validateCacheSubscribeConfig,
+} from '../validation';
+
+/**
+ * Stored memory cache entry
+ */
+interface MemoryEntry {
+  /** Serialized value */
+  value: string | Buffer;
+  /** Size of the serialized value in bytes */
+  size: number;
+  /** Expiration timestamp in milliseconds (undefined means no expiration) */
+  expiresAt?: number;
+  /** Tags the entry was stored with */
+  tags?: string[];
+}
+
+/**
+ * Convert a Redis-style glob pattern to a regular expression
+ *
+ * Supports `*`, `?`, `[abc]`, `[a-z]`, `[^a]` and backslash escapes.
+ *
+ * @param pattern - Glob pattern
+ * @returns Regular expression matching whole keys
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    const classEnd = char === '[' ? pattern.indexOf(']', index + 2) : -1;
+
+    if (char === '\\' && index + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++index]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (classEnd !== -1) {
+      const body = pattern.slice(index + 1, classEnd).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${body}]`;
+      index = classEnd;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Escape regular expression special characters
+ *
+ * @param value - Literal string
+ * @returns Escaped string
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * In-process memory cache provider
+ *
+ * Provides caching operations backed by a `Map` in the current process.
+ * No additional packages are required.
+ *
+ * Entries expire lazily on access and are swept periodically. When `maxEntries`
+ * or `maxSize` is configured, the least recently used entries are evicted first.
+ * Values are serialized on write, so callers always get a copy back.
+ *
+ * @example Basic usage
+ * ```typescript
+ * const provider = new MemoryProvider();
+ *
+ * await provider.set({
+ *   key: 'user:123',
+ *   value: { name: 'John', email: 'john@example.com' },
+ *   ttl: 3600
+ * });
+ *
+ * const result = await provider.get({ key: 'user:123' });
+ * if (result.found) {
+ *   console.log(result.value);
+ * }
+ * ```
+ *
+ * @example Bounded cache with key prefix
+ * ```typescript
+ * const provider = new MemoryProvider({
+ *   keyPrefix: 'myapp:',
+ *   maxEntries: 10000,
+ *   maxSize: 50 * 1024 * 1024
+ * });
+ * ```
+ */
+export class MemoryProvider implements ICacheProvider {
+  readonly name = CacheProvider.MEMORY;
+  private readonly store = new Map<string, MemoryEntry>();
+  /** Full keys stored under each tag */
+  private readonly tagIndex = new Map<string, Set<string>>();
+  /** Listeners subscribed to each pub/sub channel */
+  private readonly channels = new Map<string, Set<CacheMessageListener>>();
+  private readonly keyPrefix: string;
+  private readonly serializer: CacheSerializer;
+  private readonly maxEntries?: number;
+  private readonly maxSize?: number;
+  private readonly logger: Logger;
+  private readonly cleanupTimer?: ReturnType<typeof setInterval>;
+  private currentSize: number = 0;
+
+  /**
+   * Creates a new MemoryProvider instance
+   *
+   * @param config - Memory cache configuration
+   * @param logger - Optional logger for debugging and monitoring
+   *
+   * @example
+   * ```typescript
+   * const provider = new MemoryProvider({ maxEntries: 1000 });
+   * ```
+   */
+  constructor(config: MemoryConfig = {}, logger: Logger = console) {
+    this.logger = logger;
+    this.keyPrefix = config.keyPrefix || '';
+    this.serializer = config.serializer ?? new JsonSerializer();
+    this.maxEntries = config.maxEntries;
+    this.maxSize = config.maxSize;
+
+    this.logger.debug('Basepack Cache: Initializing provider', {
+      provider: this.name,
+      keyPrefix: this.keyPrefix,
+      maxEntries: this.maxEntries,
+      maxSize: this.maxSize,
+      serializer: this.serializer.name
+    });
+
+    const cleanupInterval = config.cleanupInterval ?? 60000;
+    if (cleanupInterval > 0) {
+      this.cleanupTimer = setInterval(() => this.removeExpired(), cleanupInterval);
+      // Do not keep the process alive just for the sweep
+      this.cleanupTimer.unref?.();
+    }
+  }
+
+  /**
+   * Build full key with prefix
+   *
+   * @param key - Cache key
+   * @returns Full key with prefix
+   */
+  private buildKey(key: string): string {
+    return this.keyPrefix ? `${this.keyPrefix}${key}` : key;
+  }
+
+  /**
+   * Read a live entry, dropping it if it has expired
+   *
+   * @param fullKey - Full cache key
+   * @returns Entry if present and not expired
+   */
+  private readEntry(fullKey: string): MemoryEntry | undefined {
+    const entry = this.store.get(fullKey);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.removeEntry(fullKey);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Remove an entry and release its size
+   *
+   * @param fullKey - Full cache key
+   * @returns True if an entry was removed
+   */
+  private removeEntry(fullKey: string): boolean {
+    const entry = this.store.get(fullKey);
+    if (!entry) {
+      return false;
+    }
+
+    this.store.delete(fullKey);
+    this.currentSize -= entry.size;
+
+    for (const tag of entry.tags ?? []) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(fullKey);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Sweep all expired entries
+   */
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [fullKey, entry] of this.store) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.removeEntry(fullKey);
+      }
+    }
+  }
+
+  /**
+   * Evict least recently used entries until the configured bounds are met
+   */
+  private evict(): void {
+    while (
+      (this.maxEntries !== undefined && this.store.size > this.maxEntries) ||
+      (this.maxSize !== undefined && this.currentSize > this.maxSize)
+    ) {
+      // Map iteration order is insertion order, and reads re-insert entries,
+      // so the first key is always the least recently used one
+      const oldestKey = this.store.keys().next().value;
+      if (oldestKey === undefined) {
+        return;
+      }
+      this.removeEntry(oldestKey);
+      this.logger.debug('Basepack Cache: Provider evicted key', { provider: this.name, key: oldestKey });
+    }
+  }
+
+  /**
+   * Resolve the expiry timestamp for a TTL
+   *
+   * @param ttl - Time to live in seconds
+   * @returns Expiry timestamp in milliseconds, or undefined for no expiry
+   */
+  private resolveExpiry(ttl?: number): number | undefined {
+    return ttl ? Date.now() + ttl * 1000 : undefined;
+  }
+
+  /**
+   * Serialize and store an entry, evicting others if bounds are exceeded
+   *
+   * @param fullKey - Full cache key
+   * @param value - Value to store
+   * @param expiresAt - Expiry timestamp in milliseconds
+   * @param tags - Tags to index the entry under
+   * @throws {Error} If the value cannot be serialized or is larger than maxSize
+   */
+  private writeEntry(fullKey: string, value: any, expiresAt?: number, tags?: string[]): void {
+    const serialized = this.serializer.serialize(value);
+    const size = Buffer.byteLength(serialized);
+
+    if (this.maxSize !== undefined && size > this.maxSize) {
+      throw new Error(`Value size (${size} bytes) exceeds maxSize (${this.maxSize} bytes)`);
+    }
+
+    this.removeEntry(fullKey);
+    this.store.set(fullKey, {
+      value: serialized,
+      size,
+      expiresAt,
+      tags,
+    });
+    this.currentSize += size;
+
+    for (const tag of tags ?? []) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(fullKey);
+    }
+
+    this.evict();
+  }
+
+  /**
+   * Get a value from cache
+   *
+   * @param config - Get configuration
+   * @returns Get result with value if found
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await provider.get({ key: 'user:123' });
+   * if (result.found && result.value) {
+   *   console.log('User:', result.value);
+   * }
+   * ```
+   */
+  async get<T = any>(config: CacheGetConfig): Promise<CacheGetResult<T>> {
+    validateCacheGetConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider getting value', { provider: this.name, key: fullKey });
+
+    const entry = this.readEntry(fullKey);
+    if (!entry) {
+      this.logger.debug('Basepack Cache: Provider key not found', { provider: this.name, key: fullKey });
+      return {
+        success: true,
+        key: config.key,
+        found: false,
+        provider: this.name,
+      };
+    }
+
+    // Move the entry to the most recently used position
+    this.store.delete(fullKey);
+    this.store.set(fullKey, entry);
+
+    this.logger.debug('Basepack Cache: Provider value retrieved', { provider: this.name, key: fullKey });
+
+    return {
+      success: true,
+      key: config.key,
+      value: this.serializer.deserialize<T>(entry.value),
+      found: true,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * Set a value in cache
+   *
+   * @param config - Set configuration with value and optional TTL
+   * @returns Set result
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * await provider.set({
+   *   key: 'user:123',
+   *   value: { name: 'John' },
+   *   ttl: 3600 // 1 hour
+   * });
+   * ```
+   */
+  async set(config: CacheSetConfig): Promise<CacheSetResult> {
+    validateCacheSetConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider setting value', { provider: this.name, key: fullKey, ttl: config.ttl });
+
+    try {
+      this.writeEntry(fullKey, config.value, this.resolveExpiry(config.ttl), config.tags);
+
+      this.logger.debug('Basepack Cache: Provider value set', { provider: this.name, key: fullKey });
+
+      return {
+        success: true,
+        key: config.key,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider set failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name);
+
+      return {
+        success: false,
+        key: config.key,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Set a value only if the key does not already exist
+   *
+   * @param config - Set configuration with value and optional TTL
+   * @returns Add result indicating whether the value was stored
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await provider.add({ key: 'lock:job', value: 1, ttl: 30 });
+   * if (result.added) {
+   *   console.log('Lock acquired');
+   * }
+   * ```
+   */
+  async add(config: CacheSetConfig): Promise<CacheAddResult> {
+    validateCacheSetConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider adding value', { provider: this.name, key: fullKey, ttl: config.ttl });
+
+    try {
+      const added = this.readEntry(fullKey) === undefined;
+      if (added) {
+        this.writeEntry(fullKey, config.value, this.resolveExpiry(config.ttl), config.tags);
+      }
+
+      this.logger.debug('Basepack Cache: Provider value added', { provider: this.name, key: fullKey, added });
+
+      return {
+        success: true,
+        key: config.key,
+        added,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider add failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name);
+
+      return {
+        success: false,
+        key: config.key,
+        added: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Delete a value from cache
+   *
+   * @param config - Delete configuration
+   * @returns Delete result
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * await provider.delete({ key: 'user:123' });
+   * ```
+   */
+  async delete(config: CacheDeleteConfig): Promise<CacheDeleteResult> {
+    validateCacheDeleteConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider deleting value', { provider: this.name, key: fullKey });
+
+    const deleted = this.readEntry(fullKey) !== undefined && this.removeEntry(fullKey);
+
+    this.logger.debug('Basepack Cache: Provider value deleted', { provider: this.name, key: fullKey });
+
+    return {
+      success: true,
+      key: config.key,
+      deleted,
+      provider: this.name,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Check if a key exists in cache
+   *
+   * @param config - Has configuration
+   * @returns Has result indicating existence
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await provider.has({ key: 'user:123' });
+   * if (result.exists) {
+   *   console.log('Key exists in cache');
+   * }
+   * ```
+   */
+  async has(config: CacheHasConfig): Promise<CacheHasResult> {
+    validateCacheHasConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider checking existence', { provider: this.name, key: fullKey });
+
+    const exists = this.readEntry(fullKey) !== undefined;
+
+    this.logger.debug('Basepack Cache: Provider existence checked', { provider: this.name, key: fullKey, exists });
+
+    return {
+      success: true,
+      key: config.key,
+      exists,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * Read the remaining time to live of a key
+   *
+   * @param config - TTL configuration
+   * @returns TTL result with the milliseconds until the key expires
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await provider.ttl({ key: 'session:abc' });
+   * ```
+   */
+  async ttl(config: CacheTtlConfig): Promise<CacheTtlResult> {
+    validateCacheTtlConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    const entry = this.readEntry(fullKey);
+
+    this.logger.debug('Basepack Cache: Provider TTL read', { provider: this.name, key: fullKey, expiresAt: entry?.expiresAt });
+
+    return {
+      success: true,
+      key: config.key,
+      exists: entry !== undefined,
+      expiresIn: entry?.expiresAt !== undefined ? entry.expiresAt - Date.now() : undefined,
+      provider: this.name,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Set a new time to live on an existing key
+   *
+   * @param config - Expire configuration
+   * @returns Expire result indicating whether the key existed
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * await provider.expire({ key: 'session:abc', ttl: 1800 });
+   * ```
+   */
+  async expire(config: CacheExpireConfig): Promise<CacheExpireResult> {
+    validateCacheExpireConfig(config);
+
+    return this.touch(config);
+  }
+
+  /**
+   * Refresh an existing key
+   *
+   * Moves the key to the most recently used position and, with a TTL, restarts
+   * its expiry from now.
+   *
+   * @param config - Touch configuration
+   * @returns Expire result indicating whether the key existed
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * await provider.touch({ key: 'session:abc', ttl: 1800 });
+   * ```
+   */
+  async touch(config: CacheTouchConfig): Promise<CacheExpireResult> {
+    validateCacheTouchConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    const entry = this.readEntry(fullKey);
+
+    if (entry) {
+      if (config.ttl !== undefined) {
+        entry.expiresAt = this.resolveExpiry(config.ttl);
+      }
+      this.store.delete(fullKey);
+      this.store.set(fullKey, entry);
+    }
+
+    this.logger.debug('Basepack Cache: Provider key touched', { provider: this.name, key: fullKey, ttl: config.ttl, exists: entry !== undefined });
+
+    return {
+      success: true,
+      key: config.key,
+      exists: entry !== undefined,
+      provider: this.name,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Get multiple values from cache
+   *
+   * @param config - Get-many configuration
+   * @returns Get results in the same order as the keys
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const results = await provider.getMany({ keys: ['user:1', 'user:2'] });
+   * ```
+   */
+  async getMany<T = any>(config: CacheGetManyConfig): Promise<CacheGetResult<T>[]> {
+    validateCacheGetManyConfig(config);
+
+    const results: CacheGetResult<T>[] = [];
+    for (const key of config.keys) {
+      results.push(await this.get<T>({ key }));
+    }
+    return results;
+  }
+
+  /**
+   * Set multiple values in cache
+   *
+   * @param config - Set-many configuration
+   * @returns Set results in the same order as the entries
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * await provider.setMany({
+   *   entries: [{ key: 'user:1', value: 'John' }, { key: 'user:2', value: 'Jane' }],
+   *   ttl: 60
+   * });
+   * ```
+   */
+  async setMany(config: CacheSetManyConfig): Promise<CacheSetResult[]> {
+    validateCacheSetManyConfig(config);
+
+    const results: CacheSetResult[] = [];
+    for (const entry of config.entries) {
+      results.push(await this.set({ ...entry, ttl: entry.ttl ?? config.ttl }));
+    }
+    return results;
+  }
+
+  /**
+   * Delete multiple values from cache
+   *
+   * @param config - Delete-many configuration
+   * @returns Delete results in the same order as the keys
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * await provider.deleteMany({ keys: ['user:1', 'user:2'] });
+   * ```
+   */
+  async deleteMany(config: CacheDeleteManyConfig): Promise<CacheDeleteResult[]> {
+    validateCacheDeleteManyConfig(config);
+
+    const results: CacheDeleteResult[] = [];
+    for (const key of config.keys) {
+      results.push(await this.delete({ key }));
+    }
+    return results;
+  }
+
+  /**
+   * Atomically increment a numeric value
+   *
+   * A missing key starts at 0. The TTL is only applied when the counter is created.
+   *
+   * @param config - Increment configuration
+   * @returns Increment result with the new value
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await provider.increment({ key: 'page:views' });
+   * console.log('Views:', result.value);
+   * ```
+   */
+  async increment(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    validateCacheIncrementConfig(config);
+    return this.updateCounter(config, config.by ?? 1, 'increment');
+  }
+
+  /**
+   * Atomically decrement a numeric value
+   *
+   * A missing key starts at 0, so the result can be negative.
+   *
+   * @param config - Decrement configuration
+   * @returns Decrement result with the new value
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await provider.decrement({ key: 'stock:sku-1', by: 2 });
+   * ```
+   */
+  async decrement(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    validateCacheIncrementConfig(config);
+    return this.updateCounter(config, -(config.by ?? 1), 'decrement');
+  }
+
+  /**
+   * Apply a signed change to a counter
+   *
+   * @param config - Increment configuration
+   * @param delta - Signed amount to add
+   * @param operation - Operation name for logging
+   * @returns Increment result with the new value
+   */
+  private updateCounter(
+    config: CacheIncrementConfig,
+    delta: number,
+    operation: 'increment' | 'decrement'
+  ): CacheIncrementResult {
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider updating counter', { provider: this.name, key: fullKey, delta });
+
+    try {
+      const entry = this.readEntry(fullKey);
+      const current = entry ? this.serializer.deserialize(entry.value) : 0;
+
+      if (!Number.isSafeInteger(current)) {
+        throw new Error('Value is not an integer');
+      }
+
+      const value = current + delta;
+      this.writeEntry(fullKey, value, entry ? entry.expiresAt : this.resolveExpiry(config.ttl), entry?.tags);
+
+      this.logger.debug('Basepack Cache: Provider counter updated', { provider: this.name, key: fullKey, value });
+
+      return {
+        success: true,
+        key: config.key,
+        value,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(`Basepack Cache: Provider ${operation} failed`, { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name);
+
+      return {
+        success: false,
+        key: config.key,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Replace a value only if it currently equals the expected value
+   *
+   * Values are compared by their serialized form. Without a TTL the current
+   * expiry is kept.
+   *
+   * @param config - Compare-and-set configuration
+   * @returns Compare-and-set result indicating whether the value was swapped
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await provider.compareAndSet({ key: 'config:version', expected: 1, value: 2 });
+   * if (!result.swapped) {
+   *   console.log('Version changed, retry');
+   * }
+   * ```
+   */
+  async compareAndSet(config: CacheCompareAndSetConfig): Promise<CacheCompareAndSetResult> {
+    validateCacheCompareAndSetConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider comparing and setting value', { provider: this.name, key: fullKey });
+
+    try {
+      const entry = this.readEntry(fullKey);
+      const swapped = entry !== undefined && isSameSerializedValue(this.serializer, this.serializer.deserialize(entry.value), config.expected);
+
+      if (swapped) {
+        this.writeEntry(fullKey, config.value, config.ttl ? this.resolveExpiry(config.ttl) : entry.expiresAt, entry.tags);
+      }
+
+      this.logger.debug('Basepack Cache: Provider value compared and set', { provider: this.name, key: fullKey, swapped });
+
+      return {
+        success: true,
+        key: config.key,
+        swapped,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider compare and set failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name);
+
+      return {
+        success: false,
+        key: config.key,
+        swapped: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Extend a lock only if it is still held with the given token
+   *
+   * @param config - Extend configuration
+   * @returns Lock result indicating whether the lock was extended
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await provider.extendLock({ key: 'jobs:nightly:__lock', token, ttl: 30 });
+   * if (!result.owned) {
+   *   console.log('Lock was lost');
+   * }
+   * ```
+   */
+  async extendLock(config: CacheExtendLockConfig): Promise<CacheLockResult> {
+    validateCacheExtendLockConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider extending lock', { provider: this.name, key: fullKey, ttl: config.ttl });
+
+    try {
+      const entry = this.readEntry(fullKey);
+      const owned = entry !== undefined && this.serializer.deserialize(entry.value) === config.token;
+
+      if (owned) {
+        entry.expiresAt = this.resolveExpiry(config.ttl);
+      }
+
+      this.logger.debug('Basepack Cache: Provider lock extended', { provider: this.name, key: fullKey, owned });
+
+      return {
+        success: true,
+        key: config.key,
+        owned,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider extend lock failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name);
+
+      return {
+        success: false,
+        key: config.key,
+        owned: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Release a lock only if it is still held with the given token
+   *
+   * @param config - Release configuration
+   * @returns Lock result indicating whether the lock was released
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * await provider.releaseLock({ key: 'jobs:nightly:__lock', token });
+   * ```
+   */
+  async releaseLock(config: CacheReleaseLockConfig): Promise<CacheLockResult> {
+    validateCacheReleaseLockConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider releasing lock', { provider: this.name, key: fullKey });
+
+    try {
+      const entry = this.readEntry(fullKey);
+      const owned = entry !== undefined && this.serializer.deserialize(entry.value) === config.token;
+
+      if (owned) {
+        this.removeEntry(fullKey);
+      }
+
+      this.logger.debug('Basepack Cache: Provider lock released', { provider: this.name, key: fullKey, owned });
+
+      return {
+        success: true,
+        key: config.key,
+        owned,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider release lock failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name);
+
+      return {
+        success: false,
+        key: config.key,
+        owned: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Consume quota from a rate limit
+   *
+   * Fixed windows start with the first request, sliding windows keep a log of
+   * request times and token buckets refill continuously.
+   *
+   * @param config - Rate limit configuration
+   * @returns Rate limit result with the remaining quota and reset time
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await provider.rateLimit({ key: 'ratelimit:login:1.2.3.4', algorithm: 'fixed-window', limit: 5, window: 60 });
+   * ```
+   */
+  async rateLimit(config: CacheRateLimitConfig): Promise<CacheRateLimitResult> {
+    validateCacheRateLimitConfig(config);
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider applying rate limit', { provider: this.name, key: fullKey, algorithm: config.algorithm });
+
+    try {
+      const now = Date.now();
+      const cost = config.cost ?? 1;
+      const windowMs = config.window * 1000;
+      const entry = this.readEntry(fullKey);
+
+      let allowed: boolean;
+      let remaining: number;
+      let resetMs: number;
+      let retryAfter: number | undefined;
+
+      if (config.algorithm === 'fixed-window') {
+        const count: number = entry ? this.serializer.deserialize(entry.value) : 0;
+        const expiresAt = entry?.expiresAt ?? now + windowMs;
+        allowed = count + cost <= config.limit;
+        if (allowed) {
+          this.writeEntry(fullKey, count + cost, expiresAt);
+        }
+        remaining = config.limit - (allowed ? count + cost : count);
+        resetMs = expiresAt - now;
+        retryAfter = allowed ? undefined : resetMs;
+      } else if (config.algorithm === 'sliding-window') {
+        const log = (entry ? this.serializer.deserialize<number[]>(entry.value) : [])
+          .filter(requestedAt => requestedAt > now - windowMs);
+        allowed = log.length + cost <= config.limit;
+        if (allowed) {
+          log.push(...new Array(cost).fill(now));
+          this.writeEntry(fullKey, log, now + windowMs);
+        }
+        remaining = config.limit - log.length;
+        resetMs = log.length > 0 ? log[log.length - 1] + windowMs - now : 0;
+        retryAfter = allowed ? undefined : log[log.length + cost - config.limit - 1] + windowMs - now;
+      } else {
+        const rate = config.limit / windowMs;
+        const bucket = entry ? this.serializer.deserialize<{ tokens: number; updatedAt: number }>(entry.value) : undefined;
+        let tokens = bucket
+          ? Math.min(config.limit, bucket.tokens + Math.max(now - bucket.updatedAt, 0) * rate)
+          : config.limit;
+        allowed = tokens >= cost;
+        if (allowed) {
+          tokens -= cost;
+        }
+        resetMs = Math.ceil((config.limit - tokens) / rate);
+        this.writeEntry(fullKey, { tokens, updatedAt: now }, now + Math.max(resetMs, 1));
+        remaining = Math.floor(tokens);
+        retryAfter = allowed ? undefined : Math.ceil((cost - tokens) / rate);
+      }
+
+      this.logger.debug('Basepack Cache: Provider rate limit applied', { provider: this.name, key: fullKey, allowed, remaining });
+
+      return {
+        success: true,
+        key: config.key,
+        allowed,
+        limit: config.limit,
+        remaining: Math.max(remaining, 0),
+        resetAt: new Date(now + resetMs),
+        retryAfter,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider rate limit failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name);
+
+      return {
+        success: false,
+        key: config.key,
+        allowed: false,
+        limit: config.limit,
+        remaining: 0,
+        resetAt: new Date(),
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Remove every value stored with any of the given tags
+   *
+   * @param tags - Tags to invalidate
+   * @returns Invalidation result with the number of keys removed
+   * @throws {CacheValidationError} If tags are invalid
+   *
+   * @example
+   * ```typescript
+   * await provider.set({ key: 'user:42:orders', value: orders, tags: ['user:42'] });
+   * await provider.invalidateTags(['user:42']);
+   * ```
+   */
+  async invalidateTags(tags: string[]): Promise<CacheInvalidateTagsResult> {
+    validateCacheTags(tags);
+
+    this.logger.debug('Basepack Cache: Provider invalidating tags', { provider: this.name, tags });
+
+    let invalidated = 0;
+    for (const tag of tags) {
+      for (const fullKey of [...(this.tagIndex.get(tag) ?? [])]) {
+        if (this.removeEntry(fullKey)) {
+          invalidated++;
+        }
+      }
+    }
+
+    this.logger.debug('Basepack Cache: Provider tags invalidated', { provider: this.name, tags, invalidated });
+
+    return {
+      success: true,
+      tags,
+      invalidated,
+      provider: this.name,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Fetch one page of keys matching a pattern
+   *
+   * Keys are returned in sorted order, and the cursor is the last key of the
+   * page, so keys added or removed between pages do not shift the scan.
+   *
+   * @param config - Scan configuration
+   * @returns Scan result with the keys and the cursor for the next page
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const page = await provider.scan({ pattern: 'session:*', limit: 500 });
+   * ```
+   */
+  async scan(config: CacheKeysConfig): Promise<CacheScanResult> {
+    validateCacheKeysConfig(config);
+
+    const matcher = globToRegExp(config.pattern ?? '*');
+    const limit = config.limit ?? 100;
+    const now = Date.now();
+
+    const keys: string[] = [];
+    for (const [fullKey, entry] of this.store) {
+      if (!fullKey.startsWith(this.keyPrefix) || (entry.expiresAt !== undefined && entry.expiresAt <= now)) {
+        continue;
+      }
+
+      const key = fullKey.slice(this.keyPrefix.length);
+      if (matcher.test(key) && (config.cursor === undefined || key > config.cursor)) {
+        keys.push(key);
+      }
+    }
+    keys.sort();
+
+    const page = keys.slice(0, limit);
+    this.logger.debug('Basepack Cache: Provider keys scanned', { provider: this.name, pattern: config.pattern, count: page.length });
+
+    return {
+      success: true,
+      keys: page,
+      cursor: keys.length > limit ? page[page.length - 1] : undefined,
+      provider: this.name,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Read fields of a hash
+   *
+   * Not supported: the memory provider only stores serialized values.
+   *
+   * @param config - Hash get configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async hashGet<T = any>(config: CacheHashGetConfig): Promise<CacheHashGetResult<T>> {
+    validateCacheHashGetConfig(config);
+
+    throw new CacheNotSupportedError('Memory provider does not support hashes', this.name, 'hashGet');
+  }
+
+  /**
+   * Write fields of a hash
+   *
+   * Not supported: the memory provider only stores serialized values.
+   *
+   * @param config - Hash set configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async hashSet(config: CacheHashSetConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheHashSetConfig(config);
+
+    throw new CacheNotSupportedError('Memory provider does not support hashes', this.name, 'hashSet');
+  }
+
+  /**
+   * Push values onto a list
+   *
+   * Not supported: the memory provider only stores serialized values.
+   *
+   * @param config - List push configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async listPush(config: CacheListPushConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheListPushConfig(config);
+
+    throw new CacheNotSupportedError('Memory provider does not support lists', this.name, 'listPush');
+  }
+
+  /**
+   * Pop values from a list
+   *
+   * Not supported: the memory provider only stores serialized values.
+   *
+   * @param config - List pop configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async listPop<T = any>(config: CacheListPopConfig): Promise<CacheListResult<T>> {
+    validateCacheListPopConfig(config);
+
+    throw new CacheNotSupportedError('Memory provider does not support lists', this.name, 'listPop');
+  }
+
+  /**
+   * Read a range of a list
+   *
+   * Not supported: the memory provider only stores serialized values.
+   *
+   * @param config - List range configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async listRange<T = any>(config: CacheListRangeConfig): Promise<CacheListResult<T>> {
+    validateCacheListRangeConfig(config);
+
+    throw new CacheNotSupportedError('Memory provider does not support lists', this.name, 'listRange');
+  }
+
+  /**
+   * Add members to a set
+   *
+   * Not supported: the memory provider only stores serialized values.
+   *
+   * @param config - Set add configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async setAdd(config: CacheSetAddConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheSetAddConfig(config);
+
+    throw new CacheNotSupportedError('Memory provider does not support sets', this.name, 'setAdd');
+  }
+
+  /**
+   * Read the members of a set
+   *
+   * Not supported: the memory provider only stores serialized values.
+   *
+   * @param config - Set members configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async setMembers(config: CacheSetMembersConfig): Promise<CacheSetMembersResult> {
+    validateCacheSetMembersConfig(config);
+
+    throw new CacheNotSupportedError('Memory provider does not support sets', this.name, 'setMembers');
+  }
+
+  /**
+   * Add members to a sorted set
+   *
+   * Not supported: the memory provider only stores serialized values.
+   *
+   * @param config - Sorted set add configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async sortedSetAdd(config: CacheSortedSetAddConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheSortedSetAddConfig(config);
+
+    throw new CacheNotSupportedError('Memory provider does not support sorted sets', this.name, 'sortedSetAdd');
+  }
+
+  /**
+   * Read members of a sorted set by score
+   *
+   * Not supported: the memory provider only stores serialized values.
+   *
+   * @param config - Sorted set range configuration
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} Always
+   */
+  async sortedSetRange(config: CacheSortedSetRangeConfig): Promise<CacheSortedSetRangeResult> {
+    validateCacheSortedSetRangeConfig(config);
+
+    throw new CacheNotSupportedError('Memory provider does not support sorted sets', this.name, 'sortedSetRange');
+  }
+
+  /**
+   * Publish a message to the listeners subscribed through this provider
+   *
+   * Messages stay in this process. Listeners are called before `publish`
+   * returns; errors they throw are logged and do not reach the publisher.
+   *
+   * @param config - Publish configuration
+   * @returns Publish result with the number of listeners called
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * await provider.publish({ channel: 'orders', message: '{"id":42}' });
+   * ```
+   */
+  async publish(config: CachePublishConfig): Promise<CachePublishResult> {
+    validateCachePublishConfig(config);
+
+    const listeners = [...(this.channels.get(config.channel) ?? [])];
+    this.logger.debug('Basepack Cache: Provider publishing message', { provider: this.name, channel: config.channel, receivers: listeners.length });
+
+    for (const listener of listeners) {
+      try {
+        Promise.resolve(listener(config.message, config.channel)).catch(error =>
+          this.logger.error('Basepack Cache: Message listener failed', { provider: this.name, channel: config.channel, error })
+        );
+      } catch (error) {
+        this.logger.error('Basepack Cache: Message listener failed', { provider: this.name, channel: config.channel, error });
+      }
+    }
+
+    return {
+      success: true,
+      channel: config.channel,
+      receivers: listeners.length,
+      provider: this.name,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Subscribe to messages published through this provider
+   *
+   * @param config - Subscribe configuration
+   * @returns Subscription handle
+   * @throws {CacheValidationError} If configuration is invalid
+   *
+   * @example
+   * ```typescript
+   * const subscription = await provider.subscribe({
+   *   channel: 'orders',
+   *   listener: message => console.log(message)
+   * });
+   * await subscription.unsubscribe();
+   * ```
+   */
+  async subscribe(config: CacheSubscribeConfig): Promise<CacheSubscription> {
+    validateCacheSubscribeConfig(config);
+
+    const { channel } = config;
+    // Wrap the listener so the same function can be subscribed twice
+    const listener: CacheMessageListener = (message, from) => config.listener(message, from);
+
+    let listeners = this.channels.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(channel, listeners);
+    }
+    listeners.add(listener);
+
+    this.logger.debug('Basepack Cache: Provider subscribed', { provider: this.name, channel });
+
+    return {
+      channel,
+      unsubscribe: async () => {
+        const current = this.channels.get(channel);
+        if (current?.delete(listener) && current.size === 0) {
+          this.channels.delete(channel);
+        }
+      },
+    };
+  }
+
+  /**
+   * Clear all values from cache
+   *
+   * Note: If a key prefix is configured, only keys with that prefix will be cleared.
+   * Otherwise, every entry is removed.
+   *
+   * @returns Clear result
+   *
+   * @example
+   * ```typescript
+   * await provider.clear();
+   * console.log('Cache cleared');
+   * ```
+   */
+  async clear(): Promise<CacheClearResult> {
+    this.logger.info('Basepack Cache: Provider clearing cache', { provider: this.name, keyPrefix: this.keyPrefix || 'all' });
+
+    if (this.keyPrefix) {
+      let keysFound = 0;
+      for (const fullKey of [...this.store.keys()]) {
+        if (fullKey.startsWith(this.keyPrefix)) {
+          this.removeEntry(fullKey);
+          keysFound++;
+        }
+      }
+      this.logger.info('Basepack Cache: Provider cache cleared', { provider: this.name, keysDeleted: keysFound });
+    } else {
+      this.store.clear();
+      this.tagIndex.clear();
+      this.currentSize = 0;
+      this.logger.info('Basepack Cache: Provider store flushed', { provider: this.name });
+    }
+
+    return {
+      success: true,
+      provider: this.name,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Check provider health status
+   *
+   * The memory provider is always healthy; details report current usage.
+   *
+   * @returns Health information
+   *
+   * @example
+   * ```typescript
+   * const health = await provider.health();
+   * console.log(health.details?.entries);
+   * ```
+   */
+  async health(): Promise<CacheHealthInfo> {
+    this.logger.debug('Basepack Cache: Provider health check', { provider: this.name });
+
+    return {
+      provider: this.name,
+      status: 'healthy',
+      responseTime: 0,
+      timestamp: new Date(),
+      details: {
+        entries: this.store.size,
+        size: this.currentSize,
+        maxEntries: this.maxEntries,
+        maxSize: this.maxSize,
+      },
+    };
+  }
+
+  /**
+   * Stop the expiry sweep and release all entries
+   *
+   * @example
+   * ```typescript
+   * await provider.close();
+   * ```
+   */
+  async close(): Promise<void> {
+    this.logger.debug('Basepack Cache: Provider closing connection', { provider: this.name });
+
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+    }
+    this.store.clear();
+    this.tagIndex.clear();
+    this.channels.clear();
+    this.currentSize = 0;
+
+    this.logger.debug('Basepack Cache: Provider connection closed', { provider: this.name });
+  }
+}
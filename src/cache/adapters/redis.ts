@@ -3,6 +3,7 @@
  * @module cache/adapters/redis
  */
 
+import { randomUUID } from 'crypto';
 import type {
   ICacheProvider,
   RedisConfig,
@@ -12,21 +13,326 @@ import type {
   CacheHasConfig,
   CacheGetResult,
   CacheSetResult,
+  CacheAddResult,
   CacheDeleteResult,
   CacheHasResult,
   CacheClearResult,
   CacheHealthInfo,
+  CacheGetManyConfig,
+  CacheSetManyConfig,
+  CacheDeleteManyConfig,
+  CacheIncrementConfig,
+  CacheIncrementResult,
+  CacheCompareAndSetConfig,
+  CacheCompareAndSetResult,
+  CacheInvalidateTagsResult,
+  CacheExtendLockConfig,
+  CacheReleaseLockConfig,
+  CacheLockResult,
+  CacheRateLimitAlgorithm,
+  CacheRateLimitConfig,
+  CacheRateLimitResult,
+  CacheKeysConfig,
+  CacheScanResult,
+  CacheTtlConfig,
+  CacheExpireConfig,
+  CacheTouchConfig,
+  CacheTtlResult,
+  CacheExpireResult,
+  CacheHashGetConfig,
+  CacheHashSetConfig,
+  CacheListPushConfig,
+  CacheListPopConfig,
+  CacheListRangeConfig,
+  CacheSetAddConfig,
+  CacheSetMembersConfig,
+  CacheSortedSetAddConfig,
+  CacheSortedSetRangeConfig,
+  CacheSortedSetMember,
+  CacheHashGetResult,
+  CacheCollectionWriteResult,
+  CacheListResult,
+  CacheSetMembersResult,
+  CacheSortedSetRangeResult,
+  CachePublishConfig,
+  CachePublishResult,
+  CacheSubscribeConfig,
+  CacheSubscription,
+  CacheMessageListener,
+  CacheSerializer,
 } from '../types';
 import { CacheProvider } from '../types';
 import type { Logger } from '../../logger';
+import { JsonSerializer } from '../serializers';
 import { CacheError, CacheProviderError, CacheConnectionError, CacheTimeoutError } from '../errors';
 import {
   validateCacheGetConfig,
   validateCacheSetConfig,
   validateCacheDeleteConfig,
   validateCacheHasConfig,
+  validateCacheGetManyConfig,
+  validateCacheSetManyConfig,
+  validateCacheDeleteManyConfig,
+  validateCacheIncrementConfig,
+  validateCacheCompareAndSetConfig,
+  validateCacheTags,
+  validateCacheExtendLockConfig,
+  validateCacheReleaseLockConfig,
+  validateCacheRateLimitConfig,
+  validateCacheKeysConfig,
+  validateCacheTtlConfig,
+  validateCacheExpireConfig,
+  validateCacheTouchConfig,
+  validateCacheHashGetConfig,
+  validateCacheHashSetConfig,
+  validateCacheListPushConfig,
+  validateCacheListPopConfig,
+  validateCacheListRangeConfig,
+  validateCacheSetAddConfig,
+  validateCacheSetMembersConfig,
+  validateCacheSortedSetAddConfig,
+  validateCacheSortedSetRangeConfig,
+  validateCachePublishConfig,
+  validateCacheSubscribeConfig,
+  validateRedisConfig,
 } from '../validation';
 
+/**
+ * How the provider connects: one server, a Sentinel-managed master or a Cluster
+ */
+type RedisMode = 'standalone' | 'sentinel' | 'cluster';
+
+/**
+ * Health of a single node, reported in `health().details.nodes`
+ */
+interface RedisNodeHealth {
+  /** Node address as `host:port` */
+  node: string;
+  /** Replication role */
+  role: 'master' | 'replica';
+  /** Node health status */
+  status: 'healthy' | 'unhealthy';
+  /** Ping response time in milliseconds */
+  responseTime?: number;
+  /** Error message if unhealthy */
+  error?: string;
+}
+
+/**
+ * Key segment for tag sets, which hold the full keys stored with a tag
+ */
+const TAG_KEY_SEGMENT = '__tag:';
+
+/**
+ * Lua script that adds a key to a tag set and keeps the set alive at least as
+ * long as its longest-lived member. A TTL of 0 (a member without expiry)
+ * makes the set persistent.
+ */
+const TAG_ADD_SCRIPT = `
+local created = redis.call('EXISTS', KEYS[1]) == 0
+redis.call('SADD', KEYS[1], ARGV[1])
+local ttl = tonumber(ARGV[2])
+if ttl == 0 then
+  redis.call('PERSIST', KEYS[1])
+elseif created or (redis.call('TTL', KEYS[1]) >= 0 and redis.call('TTL', KEYS[1]) < ttl) then
+  redis.call('EXPIRE', KEYS[1], ttl)
+end
+return 1
+`;
+
+/**
+ * Format a node address for logs and health details
+ * 
+ * @param node - Node address
+ * @returns Address as `host:port`
+ */
+function formatNode(node: { host?: string; port?: number }): string {
+  return `${node.host}:${node.port}`;
+}
+
+/**
+ * Format a sorted set score for ZADD and ZRANGEBYSCORE
+ * 
+ * @param score - Score, possibly infinite
+ * @returns Score as Redis expects it
+ */
+function formatScore(score: number): string {
+  if (score === Infinity) {
+    return '+inf';
+  }
+  return score === -Infinity ? '-inf' : String(score);
+}
+
+/**
+ * Parse a sorted set score from a Redis reply
+ * 
+ * @param score - Score as returned by Redis
+ * @returns Score as a number
+ */
+function parseScore(score: string): number {
+  if (score === 'inf' || score === '+inf') {
+    return Infinity;
+  }
+  return score === '-inf' ? -Infinity : Number(score);
+}
+
+/**
+ * Escape glob special characters so the key prefix matches literally in SCAN patterns
+ * 
+ * @param value - Literal string
+ * @returns String with `*`, `?`, brackets and backslashes escaped
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Lua script that applies INCRBY and sets the TTL only when the counter is created
+ */
+const INCREMENT_WITH_TTL_SCRIPT = `
+local created = redis.call('EXISTS', KEYS[1]) == 0
+local value = redis.call('INCRBY', KEYS[1], ARGV[1])
+if created then
+  redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return value
+`;
+
+/**
+ * Lua script that replaces a value only if it currently holds the expected
+ * serialized value. A TTL of 0 keeps the current expiry (SET KEEPTTL).
+ */
+const COMPARE_AND_SET_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+if tonumber(ARGV[3]) > 0 then
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+else
+  redis.call('SET', KEYS[1], ARGV[2], 'KEEPTTL')
+end
+return 1
+`;
+
+/**
+ * Lua script that sets a new TTL only if the key still holds the lock token
+ */
+const EXTEND_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Lua script that deletes the key only if it still holds the lock token
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Lua script for fixed-window rate limiting
+ * 
+ * The window starts with the first request. Returns
+ * `{ allowed, remaining, resetMs, retryAfterMs }`.
+ */
+const FIXED_WINDOW_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+local ttl = redis.call('PTTL', KEYS[1])
+if count + cost > limit then
+  return {0, limit - count, math.max(ttl, 0), math.max(ttl, 0)}
+end
+count = redis.call('INCRBY', KEYS[1], cost)
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], window)
+  ttl = window
+end
+return {1, limit - count, ttl, 0}
+`;
+
+/**
+ * Lua script for sliding-window rate limiting
+ * 
+ * Keeps a sorted set of request timestamps (Redis server time) and counts the
+ * ones inside the window. Returns `{ allowed, remaining, resetMs, retryAfterMs }`.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+local retry = 0
+if count + cost <= limit then
+  for i = 1, cost do
+    redis.call('ZADD', KEYS[1], now, ARGV[4] .. ':' .. i)
+  end
+  redis.call('PEXPIRE', KEYS[1], window)
+  count = count + cost
+  allowed = 1
+else
+  local index = count + cost - limit - 1
+  local blocking = redis.call('ZRANGE', KEYS[1], index, index, 'WITHSCORES')
+  retry = tonumber(blocking[2]) + window - now
+end
+local reset = 0
+local newest = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+if newest[2] then
+  reset = tonumber(newest[2]) + window - now
+end
+return {allowed, limit - count, reset, retry}
+`;
+
+/**
+ * Lua script for token-bucket rate limiting
+ * 
+ * Stores the token count and last refill time (Redis server time) in a hash.
+ * Returns `{ allowed, remaining, resetMs, retryAfterMs }`.
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local rate = limit / window
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or limit
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(limit, tokens + math.max(now - updatedAt, 0) * rate)
+local allowed = 0
+local retry = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retry = math.ceil((cost - tokens) / rate)
+end
+local reset = math.ceil((limit - tokens) / rate)
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.max(reset, 1))
+return {allowed, math.floor(tokens), reset, retry}
+`;
+
+/**
+ * Lua script for each rate limiting algorithm
+ */
+const RATE_LIMIT_SCRIPTS: Record<CacheRateLimitAlgorithm, string> = {
+  'fixed-window': FIXED_WINDOW_SCRIPT,
+  'sliding-window': SLIDING_WINDOW_SCRIPT,
+  'token-bucket': TOKEN_BUCKET_SCRIPT,
+};
+
 /**
  * Redis cache provider
  * 
@@ -38,7 +344,11 @@ import {
  * - Amazon ElastiCache for Redis - AWS managed Redis service
  * - Any Redis-compatible cache server
  * 
- * Supports cluster mode, TLS encryption, and Redis AUTH tokens.
+ * Supports Redis Sentinel, Redis Cluster, TLS encryption, and Redis AUTH tokens.
+ * 
+ * In cluster mode, batch operations and tagged writes are sent as separate
+ * commands, because a pipeline or transaction can only touch keys served by one
+ * node. They are not atomic there. `clear()` and `scan()` walk every master.
  * 
  * @example Basic usage
  * ```typescript
@@ -88,6 +398,30 @@ import {
  * });
  * ```
  * 
+ * @example Redis Sentinel
+ * ```typescript
+ * const provider = new RedisProvider({
+ *   sentinels: [
+ *     { host: 'sentinel-1.example.com', port: 26379 },
+ *     { host: 'sentinel-2.example.com', port: 26379 }
+ *   ],
+ *   name: 'mymaster',
+ *   password: 'secret'
+ * });
+ * ```
+ * 
+ * @example Redis Cluster
+ * ```typescript
+ * const provider = new RedisProvider({
+ *   cluster: {
+ *     nodes: [
+ *       { host: 'redis-1.example.com', port: 6379 },
+ *       { host: 'redis-2.example.com', port: 6379 }
+ *     ]
+ *   }
+ * });
+ * ```
+ * 
  * @example Valkey (Redis-compatible)
  * ```typescript
  * const provider = new RedisProvider({
@@ -111,7 +445,13 @@ export class RedisProvider implements ICacheProvider {
   readonly name = CacheProvider.REDIS;
   private readonly client: any;
   private readonly keyPrefix: string;
+  private readonly serializer: CacheSerializer;
+  private readonly mode: RedisMode;
   private readonly logger: Logger;
+  /** Listeners subscribed to each pub/sub channel */
+  private readonly channels = new Map<string, Set<CacheMessageListener>>();
+  /** Connection used for subscriptions, created on the first subscribe */
+  private subscriber?: any;
   private isConnected: boolean = false;
 
   /**
@@ -119,6 +459,7 @@ export class RedisProvider implements ICacheProvider {
    * 
    * @param config - Redis configuration
    * @param logger - Optional logger for debugging and monitoring
+   * @throws {CacheValidationError} If the Sentinel or Cluster options are invalid
    * @throws {CacheProviderError} If ioredis package is not installed
    * @throws {CacheConnectionError} If connection fails
    * 
@@ -131,13 +472,25 @@ export class RedisProvider implements ICacheProvider {
    * ```
    */
   constructor(config: RedisConfig = {}, logger: Logger = console) {
+    validateRedisConfig(config);
+
     this.logger = logger;
     this.keyPrefix = config.keyPrefix || process.env.REDIS_KEY_PREFIX || '';
+    this.serializer = config.serializer ?? new JsonSerializer();
+    this.mode = config.cluster ? 'cluster' : config.sentinels ? 'sentinel' : 'standalone';
     
     this.logger.debug('Basepack Cache: Initializing provider', { 
       provider: this.name, 
-      host: config.host || process.env.REDIS_HOST || 'localhost',
-      port: config.port || parseInt(process.env.REDIS_PORT || '6379', 10)
+      mode: this.mode,
+      ...(this.mode === 'cluster'
+        ? { nodes: config.cluster!.nodes.map(formatNode) }
+        : this.mode === 'sentinel'
+          ? { sentinels: config.sentinels!.map(formatNode), name: config.name }
+          : {
+            host: config.host || process.env.REDIS_HOST || 'localhost',
+            port: config.port || parseInt(process.env.REDIS_PORT || '6379', 10),
+          }),
+      serializer: this.serializer.name
     });
 
     try {
@@ -173,8 +526,29 @@ export class RedisProvider implements ICacheProvider {
         options.tls = {};
       }
 
-      // Use URL if provided (overrides other options)
-      if (config.url || process.env.REDIS_URL) {
+      if (config.cluster) {
+        // Cluster nodes share one logical database, so db is not passed on
+        this.client = new Redis.Cluster(config.cluster.nodes, {
+          scaleReads: config.cluster.scaleReads ?? 'master',
+          clusterRetryStrategy: options.retryStrategy,
+          lazyConnect: true,
+          redisOptions: {
+            password: options.password,
+            tls: options.tls,
+            connectTimeout: options.connectTimeout,
+            commandTimeout: options.commandTimeout,
+          },
+        });
+      } else if (config.sentinels) {
+        // The sentinels report the current master, so host and port are not used
+        this.client = new Redis({
+          ...options,
+          sentinels: config.sentinels,
+          name: config.name,
+          sentinelPassword: config.sentinelPassword,
+        });
+      } else if (config.url || process.env.REDIS_URL) {
+        // Use URL if provided (overrides other options)
         this.client = new Redis(config.url || process.env.REDIS_URL, {
           connectTimeout: options.connectTimeout,
           commandTimeout: options.commandTimeout,
@@ -243,6 +617,71 @@ export class RedisProvider implements ICacheProvider {
     return this.keyPrefix ? `${this.keyPrefix}${key}` : key;
   }
 
+  /**
+   * Run commands in one pipeline, or in one MULTI/EXEC transaction
+   * 
+   * A cluster pipeline or transaction only accepts keys served by one node, so
+   * in cluster mode the commands are sent concurrently instead and are not
+   * atomic. ioredis still batches them per node.
+   * 
+   * @param commands - Commands as `[name, ...args]`
+   * @param transaction - Whether to wrap the commands in MULTI/EXEC
+   * @returns One `[error, result]` reply per command
+   */
+  private async execBatch(
+    commands: Array<[string, ...unknown[]]>,
+    transaction: boolean = false
+  ): Promise<Array<[Error | null, unknown]>> {
+    if (this.mode === 'cluster') {
+      return Promise.all(commands.map(([command, ...args]) =>
+        this.client[command](...args).then(
+          (result: unknown): [null, unknown] => [null, result],
+          (error: Error): [Error, null] => [error, null]
+        )
+      ));
+    }
+
+    const batch = transaction ? this.client.multi(commands) : this.client.pipeline(commands);
+    return batch.exec();
+  }
+
+  /**
+   * Master connections in a stable order
+   * 
+   * @returns Every master node in cluster mode, otherwise the client itself
+   */
+  private getMasters(): any[] {
+    if (this.mode !== 'cluster') {
+      return [this.client];
+    }
+
+    return this.client.nodes('master').sort((a: any, b: any) =>
+      formatNode(a.options).localeCompare(formatNode(b.options))
+    );
+  }
+
+  /**
+   * Build the key of a tag set
+   * 
+   * @param tag - Tag name
+   * @returns Full key of the set holding the keys stored with the tag
+   */
+  private buildTagKey(tag: string): string {
+    return this.buildKey(`${TAG_KEY_SEGMENT}${tag}`);
+  }
+
+  /**
+   * Build the commands that index a key under its tags
+   * 
+   * @param fullKey - Full key being stored
+   * @param tags - Tags to index the key under
+   * @param ttl - TTL of the stored value in seconds (none for values without expiry)
+   * @returns One TAG_ADD_SCRIPT command per tag
+   */
+  private buildTagCommands(fullKey: string, tags: string[], ttl?: number): Array<[string, ...unknown[]]> {
+    return tags.map(tag => ['eval', TAG_ADD_SCRIPT, 1, this.buildTagKey(tag), fullKey, ttl ?? 0]);
+  }
+
   /**
    * Get a value from cache
    * 
@@ -266,7 +705,7 @@ export class RedisProvider implements ICacheProvider {
     this.logger.debug('Basepack Cache: Provider getting value', { provider: this.name, key: fullKey });
 
     try {
-      const value = await this.client.get(fullKey);
+      const value: Buffer | null = await this.client.getBuffer(fullKey);
 
       if (value === null || value === undefined) {
         this.logger.debug('Basepack Cache: Provider key not found', { provider: this.name, key: fullKey });
@@ -278,14 +717,7 @@ export class RedisProvider implements ICacheProvider {
         };
       }
 
-      // Try to parse JSON
-      let parsedValue: T;
-      try {
-        parsedValue = JSON.parse(value);
-      } catch {
-        // If not JSON, return as is
-        parsedValue = value as T;
-      }
+      const parsedValue = this.serializer.deserialize<T>(value);
 
       this.logger.debug('Basepack Cache: Provider value retrieved', { provider: this.name, key: fullKey });
 
@@ -306,6 +738,7 @@ export class RedisProvider implements ICacheProvider {
         found: false,
         provider: this.name,
         error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
@@ -334,12 +767,18 @@ export class RedisProvider implements ICacheProvider {
     this.logger.debug('Basepack Cache: Provider setting value', { provider: this.name, key: fullKey, ttl: config.ttl });
 
     try {
-      // Serialize value to JSON if it's an object
-      const serialized = typeof config.value === 'object' 
-        ? JSON.stringify(config.value) 
-        : String(config.value);
+      const serialized = this.serializer.serialize(config.value);
 
-      if (config.ttl) {
+      if (config.tags) {
+        // Store the value and index it under its tags in one transaction
+        const [[setError]] = await this.execBatch([
+          config.ttl ? ['setex', fullKey, config.ttl, serialized] : ['set', fullKey, serialized],
+          ...this.buildTagCommands(fullKey, config.tags, config.ttl),
+        ], true);
+        if (setError) {
+          throw setError;
+        }
+      } else if (config.ttl) {
         await this.client.setex(fullKey, config.ttl, serialized);
       } else {
         await this.client.set(fullKey, serialized);
@@ -363,6 +802,67 @@ export class RedisProvider implements ICacheProvider {
         provider: this.name,
         timestamp: new Date(),
         error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Set a value only if the key does not already exist
+   * 
+   * @param config - Set configuration with value and optional TTL
+   * @returns Add result indicating whether the value was stored
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.add({ key: 'lock:job', value: 1, ttl: 30 });
+   * if (result.added) {
+   *   console.log('Lock acquired');
+   * }
+   * ```
+   */
+  async add(config: CacheSetConfig): Promise<CacheAddResult> {
+    validateCacheSetConfig(config);
+    await this.ensureConnected();
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider adding value', { provider: this.name, key: fullKey, ttl: config.ttl });
+
+    try {
+      const serialized = this.serializer.serialize(config.value);
+
+      // SET NX is atomic, so only one caller can add a given key
+      const response = config.ttl
+        ? await this.client.set(fullKey, serialized, 'EX', config.ttl, 'NX')
+        : await this.client.set(fullKey, serialized, 'NX');
+      const added = response === 'OK';
+
+      if (added && config.tags) {
+        await this.execBatch(this.buildTagCommands(fullKey, config.tags, config.ttl));
+      }
+
+      this.logger.debug('Basepack Cache: Provider value added', { provider: this.name, key: fullKey, added });
+
+      return {
+        success: true,
+        key: config.key,
+        added,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider add failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+      
+      return {
+        success: false,
+        key: config.key,
+        added: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
@@ -387,13 +887,14 @@ export class RedisProvider implements ICacheProvider {
     this.logger.debug('Basepack Cache: Provider deleting value', { provider: this.name, key: fullKey });
 
     try {
-      await this.client.del(fullKey);
+      const removed = await this.client.del(fullKey);
 
       this.logger.debug('Basepack Cache: Provider value deleted', { provider: this.name, key: fullKey });
 
       return {
         success: true,
         key: config.key,
+        deleted: removed > 0,
         provider: this.name,
         timestamp: new Date(),
       };
@@ -407,6 +908,7 @@ export class RedisProvider implements ICacheProvider {
         provider: this.name,
         timestamp: new Date(),
         error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
@@ -454,148 +956,1513 @@ export class RedisProvider implements ICacheProvider {
         exists: false,
         provider: this.name,
         error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
 
   /**
-   * Clear all values from cache
+   * Read the remaining time to live of a key with PTTL
    * 
-   * Note: If a key prefix is configured, only keys with that prefix will be cleared.
-   * Otherwise, this will clear the entire Redis database.
-   * 
-   * @returns Clear result
+   * @param config - TTL configuration
+   * @returns TTL result with the milliseconds until the key expires
+   * @throws {CacheValidationError} If configuration is invalid
    * 
    * @example
    * ```typescript
-   * await provider.clear();
-   * console.log('Cache cleared');
+   * const result = await provider.ttl({ key: 'session:abc' });
+   * if (result.exists && result.expiresIn === undefined) {
+   *   console.log('Key never expires');
+   * }
    * ```
    */
-  async clear(): Promise<CacheClearResult> {
+  async ttl(config: CacheTtlConfig): Promise<CacheTtlResult> {
+    validateCacheTtlConfig(config);
     await this.ensureConnected();
-    
-    this.logger.info('Basepack Cache: Provider clearing cache', { provider: this.name, keyPrefix: this.keyPrefix || 'all' });
-
-    try {
-      if (this.keyPrefix) {
-        // Only delete keys with the prefix
-        const pattern = `${this.keyPrefix}*`;
-        const stream = this.client.scanStream({ match: pattern, count: 100 });
-        
-        const pipeline = this.client.pipeline();
-        let keysFound = 0;
 
-        for await (const keys of stream) {
-          for (const key of keys) {
-            pipeline.del(key);
-            keysFound++;
-          }
-        }
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider reading TTL', { provider: this.name, key: fullKey });
 
-        if (keysFound > 0) {
-          await pipeline.exec();
-        }
+    try {
+      // PTTL returns -2 for missing keys and -1 for keys without an expiry
+      const pttl = await this.client.pttl(fullKey);
 
-        this.logger.info('Basepack Cache: Provider cache cleared', { provider: this.name, keysDeleted: keysFound });
-      } else {
-        // No prefix, flush entire database
-        await this.client.flushdb();
-        this.logger.info('Basepack Cache: Provider database flushed', { provider: this.name });
-      }
+      this.logger.debug('Basepack Cache: Provider TTL read', { provider: this.name, key: fullKey, pttl });
 
       return {
         success: true,
+        key: config.key,
+        exists: pttl !== -2,
+        expiresIn: pttl >= 0 ? pttl : undefined,
         provider: this.name,
         timestamp: new Date(),
       };
     } catch (error) {
-      this.logger.error('Basepack Cache: Provider clear failed', { provider: this.name, error });
+      this.logger.error('Basepack Cache: Provider TTL failed', { provider: this.name, key: fullKey, error });
       const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
-      
+
       return {
         success: false,
+        key: config.key,
+        exists: false,
         provider: this.name,
         timestamp: new Date(),
         error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
 
   /**
-   * Check provider health status
+   * Set a new time to live on an existing key with PEXPIRE
    * 
-   * @returns Health information
+   * @param config - Expire configuration
+   * @returns Expire result indicating whether the key existed
+   * @throws {CacheValidationError} If configuration is invalid
    * 
    * @example
    * ```typescript
-   * const health = await provider.health();
-   * if (health.status === 'healthy') {
-   *   console.log(`Redis is healthy (${health.responseTime}ms)`);
-   * }
+   * await provider.expire({ key: 'session:abc', ttl: 1800 });
    * ```
    */
-  async health(): Promise<CacheHealthInfo> {
-    this.logger.debug('Basepack Cache: Provider health check', { provider: this.name });
-    
-    const startTime = Date.now();
+  async expire(config: CacheExpireConfig): Promise<CacheExpireResult> {
+    validateCacheExpireConfig(config);
+    await this.ensureConnected();
 
-    try {
-      await this.ensureConnected();
-      
-      // Send PING command
-      const response = await this.client.ping();
-      const responseTime = Date.now() - startTime;
+    return this.updateExpiry(config.key, 'expire', fullKey => this.client.pexpire(fullKey, config.ttl * 1000));
+  }
+
+  /**
+   * Refresh an existing key
+   * 
+   * With a TTL this is PEXPIRE, for sliding expiration. Without one it is
+   * TOUCH, which keeps the expiry and only updates the key's last access time
+   * used by LRU eviction.
+   * 
+   * @param config - Touch configuration
+   * @returns Expire result indicating whether the key existed
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.touch({ key: 'session:abc', ttl: 1800 });
+   * ```
+   */
+  async touch(config: CacheTouchConfig): Promise<CacheExpireResult> {
+    validateCacheTouchConfig(config);
+    await this.ensureConnected();
 
-      const isHealthy = response === 'PONG';
+    return this.updateExpiry(config.key, 'touch', fullKey =>
+      config.ttl !== undefined ? this.client.pexpire(fullKey, config.ttl * 1000) : this.client.touch(fullKey)
+    );
+  }
 
-      this.logger.debug('Basepack Cache: Provider health checked', { 
-        provider: this.name, 
-        status: isHealthy ? 'healthy' : 'unhealthy',
-        responseTimeMs: responseTime
-      });
+  /**
+   * Run an expiry command and map its reply to an expire result
+   * 
+   * @param key - Cache key
+   * @param operation - Operation name for logging
+   * @param command - Command returning the number of keys updated
+   * @returns Expire result indicating whether the key existed
+   */
+  private async updateExpiry(
+    key: string,
+    operation: 'expire' | 'touch',
+    command: (fullKey: string) => Promise<number>
+  ): Promise<CacheExpireResult> {
+    const fullKey = this.buildKey(key);
+    this.logger.debug(`Basepack Cache: Provider ${operation} key`, { provider: this.name, key: fullKey });
+
+    try {
+      const exists = (await command(fullKey)) > 0;
+
+      this.logger.debug(`Basepack Cache: Provider ${operation} applied`, { provider: this.name, key: fullKey, exists });
 
       return {
+        success: true,
+        key,
+        exists,
         provider: this.name,
-        status: isHealthy ? 'healthy' : 'unhealthy',
-        responseTime,
         timestamp: new Date(),
-        details: {
-          ping: response,
-          connected: this.isConnected,
-        },
       };
     } catch (error) {
-      const responseTime = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      this.logger.error('Basepack Cache: Provider health check failed', { provider: this.name, error: errorMessage });
+      this.logger.error(`Basepack Cache: Provider ${operation} failed`, { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
 
       return {
+        success: false,
+        key,
+        exists: false,
         provider: this.name,
-        status: 'unhealthy',
-        responseTime,
-        error: errorMessage,
         timestamp: new Date(),
-        details: {
-          connected: this.isConnected,
-        },
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
       };
     }
   }
 
   /**
-   * Close connection to Redis
+   * Get multiple values from cache with a single MGET
+   * 
+   * @param config - Get-many configuration
+   * @returns Get results in the same order as the keys
+   * @throws {CacheValidationError} If configuration is invalid
    * 
    * @example
    * ```typescript
-   * await provider.close();
-   * console.log('Redis connection closed');
+   * const results = await provider.getMany({ keys: ['user:1', 'user:2'] });
+   * results.filter(r => r.found).forEach(r => console.log(r.key, r.value));
    * ```
    */
-  async close(): Promise<void> {
-    this.logger.debug('Basepack Cache: Provider closing connection', { provider: this.name });
-    
+  async getMany<T = any>(config: CacheGetManyConfig): Promise<CacheGetResult<T>[]> {
+    validateCacheGetManyConfig(config);
+    await this.ensureConnected();
+
+    const fullKeys = config.keys.map(key => this.buildKey(key));
+    this.logger.debug('Basepack Cache: Provider getting values', { provider: this.name, count: fullKeys.length });
+
+    try {
+      // MGET only accepts keys from one hash slot in cluster mode
+      const values: Array<Buffer | null> = this.mode === 'cluster'
+        ? await Promise.all(fullKeys.map(fullKey => this.client.getBuffer(fullKey)))
+        : await this.client.mgetBuffer(...fullKeys);
+
+      this.logger.debug('Basepack Cache: Provider values retrieved', {
+        provider: this.name,
+        count: fullKeys.length,
+        found: values.filter(value => value !== null).length
+      });
+
+      return config.keys.map((key, index) => {
+        const value = values[index];
+        if (value === null || value === undefined) {
+          return { success: true, key, found: false, provider: this.name };
+        }
+        return { success: true, key, value: this.serializer.deserialize<T>(value), found: true, provider: this.name };
+      });
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider get many failed', { provider: this.name, count: fullKeys.length, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return config.keys.map(key => ({
+        success: false,
+        key,
+        found: false,
+        provider: this.name,
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      }));
+    }
+  }
+
+  /**
+   * Set multiple values in cache with a single pipeline
+   * 
+   * @param config - Set-many configuration
+   * @returns Set results in the same order as the entries
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.setMany({
+   *   entries: [
+   *     { key: 'user:1', value: { name: 'John' } },
+   *     { key: 'user:2', value: { name: 'Jane' } }
+   *   ],
+   *   ttl: 3600
+   * });
+   * ```
+   */
+  async setMany(config: CacheSetManyConfig): Promise<CacheSetResult[]> {
+    validateCacheSetManyConfig(config);
+    await this.ensureConnected();
+
+    this.logger.debug('Basepack Cache: Provider setting values', { provider: this.name, count: config.entries.length });
+
+    try {
+      const commands: Array<[string, ...unknown[]]> = [];
+      // Position of each entry's SET reply, as tag commands are interleaved
+      const replyIndexes: number[] = [];
+
+      for (const entry of config.entries) {
+        const fullKey = this.buildKey(entry.key);
+        const serialized = this.serializer.serialize(entry.value);
+        const ttl = entry.ttl ?? config.ttl;
+
+        replyIndexes.push(commands.length);
+        commands.push(ttl ? ['setex', fullKey, ttl, serialized] : ['set', fullKey, serialized]);
+
+        commands.push(...this.buildTagCommands(fullKey, entry.tags ?? [], ttl));
+      }
+
+      const replies = await this.execBatch(commands);
+
+      this.logger.debug('Basepack Cache: Provider values set', { provider: this.name, count: config.entries.length });
+
+      return config.entries.map((entry, index) => {
+        const [replyError] = replies[replyIndexes[index]] || [];
+        return {
+          success: !replyError,
+          key: entry.key,
+          provider: this.name,
+          timestamp: new Date(),
+          ...(replyError ? { error: replyError.message } : {}),
+        };
+      });
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider set many failed', { provider: this.name, count: config.entries.length, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return config.entries.map(entry => ({
+        success: false,
+        key: entry.key,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      }));
+    }
+  }
+
+  /**
+   * Delete multiple values from cache with a single pipeline
+   * 
+   * @param config - Delete-many configuration
+   * @returns Delete results in the same order as the keys
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.deleteMany({ keys: ['user:1', 'user:2'] });
+   * ```
+   */
+  async deleteMany(config: CacheDeleteManyConfig): Promise<CacheDeleteResult[]> {
+    validateCacheDeleteManyConfig(config);
+    await this.ensureConnected();
+
+    this.logger.debug('Basepack Cache: Provider deleting values', { provider: this.name, count: config.keys.length });
+
+    try {
+      const replies = await this.execBatch(config.keys.map(key => ['del', this.buildKey(key)]));
+
+      this.logger.debug('Basepack Cache: Provider values deleted', { provider: this.name, count: config.keys.length });
+
+      return config.keys.map((key, index) => {
+        const [replyError, removed] = replies[index] || [];
+        return {
+          success: !replyError,
+          key,
+          deleted: !replyError && Number(removed) > 0,
+          provider: this.name,
+          timestamp: new Date(),
+          ...(replyError ? { error: replyError.message } : {}),
+        };
+      });
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider delete many failed', { provider: this.name, count: config.keys.length, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return config.keys.map(key => ({
+        success: false,
+        key,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      }));
+    }
+  }
+
+  /**
+   * Atomically increment a numeric value with INCRBY
+   * 
+   * A missing key starts at 0. The TTL is only applied when the counter is created.
+   * 
+   * @param config - Increment configuration
+   * @returns Increment result with the new value
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.increment({ key: 'page:views' });
+   * console.log('Views:', result.value);
+   * ```
+   */
+  async increment(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    validateCacheIncrementConfig(config);
+    return this.updateCounter(config, config.by ?? 1, 'increment');
+  }
+
+  /**
+   * Atomically decrement a numeric value with INCRBY
+   * 
+   * A missing key starts at 0, so the result can be negative.
+   * 
+   * @param config - Decrement configuration
+   * @returns Decrement result with the new value
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.decrement({ key: 'stock:sku-1', by: 2 });
+   * ```
+   */
+  async decrement(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    validateCacheIncrementConfig(config);
+    return this.updateCounter(config, -(config.by ?? 1), 'decrement');
+  }
+
+  /**
+   * Apply a signed change to a counter
+   * 
+   * @param config - Increment configuration
+   * @param delta - Signed amount to add
+   * @param operation - Operation name for logging
+   * @returns Increment result with the new value
+   */
+  private async updateCounter(
+    config: CacheIncrementConfig,
+    delta: number,
+    operation: 'increment' | 'decrement'
+  ): Promise<CacheIncrementResult> {
+    await this.ensureConnected();
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider updating counter', { provider: this.name, key: fullKey, delta });
+
+    try {
+      const value = config.ttl
+        ? await this.client.eval(INCREMENT_WITH_TTL_SCRIPT, 1, fullKey, delta, config.ttl)
+        : await this.client.incrby(fullKey, delta);
+
+      this.logger.debug('Basepack Cache: Provider counter updated', { provider: this.name, key: fullKey, value });
+
+      return {
+        success: true,
+        key: config.key,
+        value: Number(value),
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(`Basepack Cache: Provider ${operation} failed`, { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key: config.key,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Replace a value only if it currently equals the expected value
+   * 
+   * The comparison and the write run in a single Lua script, so no other
+   * command can change the key in between. Values are compared byte-for-byte
+   * in their serialized form. Without a TTL the current expiry is kept
+   * (SET KEEPTTL, Redis 6.0+).
+   * 
+   * @param config - Compare-and-set configuration
+   * @returns Compare-and-set result indicating whether the value was swapped
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.compareAndSet({ key: 'config:version', expected: 1, value: 2 });
+   * if (!result.swapped) {
+   *   console.log('Version changed, retry');
+   * }
+   * ```
+   */
+  async compareAndSet(config: CacheCompareAndSetConfig): Promise<CacheCompareAndSetResult> {
+    validateCacheCompareAndSetConfig(config);
+    await this.ensureConnected();
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider comparing and setting value', { provider: this.name, key: fullKey });
+
+    try {
+      const swapped = Number(await this.client.eval(
+        COMPARE_AND_SET_SCRIPT,
+        1,
+        fullKey,
+        this.serializer.serialize(config.expected),
+        this.serializer.serialize(config.value),
+        config.ttl ?? 0
+      )) === 1;
+
+      this.logger.debug('Basepack Cache: Provider value compared and set', { provider: this.name, key: fullKey, swapped });
+
+      return {
+        success: true,
+        key: config.key,
+        swapped,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider compare and set failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key: config.key,
+        swapped: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Extend a lock only if it is still held with the given token
+   * 
+   * The token check and EXPIRE run in a single Lua script, so a lock that
+   * expired and was taken by another holder is never extended.
+   * 
+   * @param config - Extend configuration
+   * @returns Lock result indicating whether the lock was extended
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.extendLock({ key: 'jobs:nightly:__lock', token, ttl: 30 });
+   * if (!result.owned) {
+   *   console.log('Lock was lost');
+   * }
+   * ```
+   */
+  async extendLock(config: CacheExtendLockConfig): Promise<CacheLockResult> {
+    validateCacheExtendLockConfig(config);
+    await this.ensureConnected();
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider extending lock', { provider: this.name, key: fullKey, ttl: config.ttl });
+
+    try {
+      const owned = Number(await this.client.eval(
+        EXTEND_LOCK_SCRIPT,
+        1,
+        fullKey,
+        this.serializer.serialize(config.token),
+        config.ttl
+      )) === 1;
+
+      this.logger.debug('Basepack Cache: Provider lock extended', { provider: this.name, key: fullKey, owned });
+
+      return {
+        success: true,
+        key: config.key,
+        owned,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider extend lock failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key: config.key,
+        owned: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Release a lock only if it is still held with the given token
+   * 
+   * The token check and DEL run in a single Lua script, so a lock that
+   * expired and was taken by another holder is never released.
+   * 
+   * @param config - Release configuration
+   * @returns Lock result indicating whether the lock was released
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.releaseLock({ key: 'jobs:nightly:__lock', token });
+   * ```
+   */
+  async releaseLock(config: CacheReleaseLockConfig): Promise<CacheLockResult> {
+    validateCacheReleaseLockConfig(config);
+    await this.ensureConnected();
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider releasing lock', { provider: this.name, key: fullKey });
+
+    try {
+      const owned = Number(await this.client.eval(
+        RELEASE_LOCK_SCRIPT,
+        1,
+        fullKey,
+        this.serializer.serialize(config.token)
+      )) === 1;
+
+      this.logger.debug('Basepack Cache: Provider lock released', { provider: this.name, key: fullKey, owned });
+
+      return {
+        success: true,
+        key: config.key,
+        owned,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider release lock failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key: config.key,
+        owned: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Consume quota from a rate limit
+   * 
+   * Each algorithm runs as a single Lua script, so concurrent requests from
+   * every instance share the limit exactly. Sliding windows and token buckets
+   * use the Redis server clock.
+   * 
+   * @param config - Rate limit configuration
+   * @returns Rate limit result with the remaining quota and reset time
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.rateLimit({
+   *   key: 'ratelimit:api:user:123',
+   *   algorithm: 'token-bucket',
+   *   limit: 10,
+   *   window: 1
+   * });
+   * ```
+   */
+  async rateLimit(config: CacheRateLimitConfig): Promise<CacheRateLimitResult> {
+    validateCacheRateLimitConfig(config);
+    await this.ensureConnected();
+
+    const fullKey = this.buildKey(config.key);
+    this.logger.debug('Basepack Cache: Provider applying rate limit', { provider: this.name, key: fullKey, algorithm: config.algorithm });
+
+    try {
+      const [allowed, remaining, resetMs, retryAfterMs]: number[] = await this.client.eval(
+        RATE_LIMIT_SCRIPTS[config.algorithm],
+        1,
+        fullKey,
+        config.limit,
+        config.window * 1000,
+        config.cost ?? 1,
+        randomUUID()
+      );
+
+      this.logger.debug('Basepack Cache: Provider rate limit applied', { provider: this.name, key: fullKey, allowed: allowed === 1, remaining });
+
+      return {
+        success: true,
+        key: config.key,
+        allowed: allowed === 1,
+        limit: config.limit,
+        remaining: Math.max(Number(remaining), 0),
+        resetAt: new Date(Date.now() + Number(resetMs)),
+        retryAfter: allowed === 1 ? undefined : Number(retryAfterMs),
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider rate limit failed', { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key: config.key,
+        allowed: false,
+        limit: config.limit,
+        remaining: 0,
+        resetAt: new Date(),
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Fetch one page of keys matching a pattern
+   * 
+   * Uses SCAN, so large keyspaces are walked without blocking the server. The
+   * key prefix is added to the pattern and stripped from the returned keys,
+   * and the `__tag:` sets used for tag invalidation are left out. SCAN treats `limit` as a hint: pages may hold more or fewer keys, and a
+   * page may be empty before the scan is finished.
+   * 
+   * In cluster mode the masters are scanned one after another, and the cursor
+   * has the form `<master index>:<node cursor>`.
+   * 
+   * @param config - Scan configuration
+   * @returns Scan result with the keys and the cursor for the next page
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const page = await provider.scan({ pattern: 'session:*', limit: 500 });
+   * const next = await provider.scan({ pattern: 'session:*', limit: 500, cursor: page.cursor });
+   * ```
+   */
+  async scan(config: CacheKeysConfig): Promise<CacheScanResult> {
+    validateCacheKeysConfig(config);
+    await this.ensureConnected();
+
+    const match = `${escapeGlob(this.keyPrefix)}${config.pattern ?? '*'}`;
+    this.logger.debug('Basepack Cache: Provider scanning keys', { provider: this.name, pattern: match, cursor: config.cursor });
+
+    try {
+      const masters = this.getMasters();
+      let masterIndex = 0;
+      let nodeCursor = config.cursor ?? '0';
+
+      if (this.mode === 'cluster' && config.cursor) {
+        const separator = config.cursor.indexOf(':');
+        masterIndex = Number(config.cursor.slice(0, separator));
+        nodeCursor = config.cursor.slice(separator + 1);
+      }
+
+      const master = masters[masterIndex];
+      if (!master) {
+        throw new Error(`Invalid scan cursor: ${config.cursor}`);
+      }
+
+      const [next, keys]: [string, string[]] = await master.scan(nodeCursor, 'MATCH', match, 'COUNT', config.limit ?? 100);
+
+      let cursor: string | undefined;
+      if (next !== '0') {
+        cursor = this.mode === 'cluster' ? `${masterIndex}:${next}` : next;
+      } else if (masterIndex + 1 < masters.length) {
+        cursor = `${masterIndex + 1}:0`;
+      }
+
+      return {
+        success: true,
+        keys: keys
+          .map(key => key.slice(this.keyPrefix.length))
+          .filter(key => !key.startsWith(TAG_KEY_SEGMENT)),
+        cursor,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider scan failed', { provider: this.name, pattern: match, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        keys: [],
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Read fields of a hash with HGETALL, or HMGET when fields are given
+   * 
+   * @param config - Hash get configuration
+   * @returns Hash result with the fields found
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.hashGet({ key: 'user:123:profile', fields: ['name', 'email'] });
+   * console.log(result.fields.name);
+   * ```
+   */
+  async hashGet<T = any>(config: CacheHashGetConfig): Promise<CacheHashGetResult<T>> {
+    validateCacheHashGetConfig(config);
+    await this.ensureConnected();
+
+    return this.readCollection(config.key, 'hash get', { fields: {} }, async fullKey => {
+      const fields: Record<string, T> = {};
+
+      if (config.fields) {
+        const values: Array<Buffer | null> = await this.client.hmgetBuffer(fullKey, ...config.fields);
+        config.fields.forEach((field, index) => {
+          const value = values[index];
+          if (value !== null && value !== undefined) {
+            fields[field] = this.serializer.deserialize<T>(value);
+          }
+        });
+      } else {
+        const values: Record<string, Buffer> = await this.client.hgetallBuffer(fullKey);
+        for (const [field, value] of Object.entries(values)) {
+          fields[field] = this.serializer.deserialize<T>(value);
+        }
+      }
+
+      return { fields };
+    });
+  }
+
+  /**
+   * Write fields of a hash with HSET
+   * 
+   * @param config - Hash set configuration
+   * @returns Write result with the number of new fields
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.hashSet({ key: 'user:123:profile', fields: { name: 'John', visits: 42 }, ttl: 3600 });
+   * ```
+   */
+  async hashSet(config: CacheHashSetConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheHashSetConfig(config);
+    await this.ensureConnected();
+
+    const args = Object.entries(config.fields).flatMap(([field, value]) => [field, this.serializer.serialize(value)]);
+    return this.writeCollection(config.key, 'hash set', ['hset', ...args], config.ttl);
+  }
+
+  /**
+   * Push values onto a list with RPUSH or LPUSH
+   * 
+   * With `side: 'left'`, values are pushed one after another, so the last value
+   * ends up first in the list.
+   * 
+   * @param config - List push configuration
+   * @returns Write result with the list length after the push
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.listPush({ key: 'jobs:pending', values: [{ id: 1 }, { id: 2 }] });
+   * ```
+   */
+  async listPush(config: CacheListPushConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheListPushConfig(config);
+    await this.ensureConnected();
+
+    const values = config.values.map(value => this.serializer.serialize(value));
+    const command = config.side === 'left' ? 'lpush' : 'rpush';
+    return this.writeCollection(config.key, 'list push', [command, ...values], config.ttl);
+  }
+
+  /**
+   * Pop values from a list with RPOP or LPOP
+   * 
+   * Note: popping more than one value requires Redis 6.2 or later.
+   * 
+   * @param config - List pop configuration
+   * @returns List result with the popped values, in pop order
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.listPop({ key: 'jobs:pending', side: 'left' });
+   * const [job] = result.values;
+   * ```
+   */
+  async listPop<T = any>(config: CacheListPopConfig): Promise<CacheListResult<T>> {
+    validateCacheListPopConfig(config);
+    await this.ensureConnected();
+
+    const command = config.side === 'left' ? 'lpopBuffer' : 'rpopBuffer';
+    return this.readCollection(config.key, 'list pop', { values: [] as T[] }, async fullKey => {
+      // Without a count, LPOP and RPOP reply with a single value instead of an array
+      const reply: Buffer | Buffer[] | null = config.count === undefined
+        ? await this.client[command](fullKey)
+        : await this.client[command](fullKey, config.count);
+      const popped = reply === null || reply === undefined ? [] : Array.isArray(reply) ? reply : [reply];
+
+      return { values: popped.map(value => this.serializer.deserialize<T>(value)) };
+    });
+  }
+
+  /**
+   * Read a range of a list with LRANGE
+   * 
+   * @param config - List range configuration
+   * @returns List result with the values in range
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.listRange({ key: 'events:recent', start: 0, stop: 9 });
+   * ```
+   */
+  async listRange<T = any>(config: CacheListRangeConfig): Promise<CacheListResult<T>> {
+    validateCacheListRangeConfig(config);
+    await this.ensureConnected();
+
+    return this.readCollection(config.key, 'list range', { values: [] as T[] }, async fullKey => {
+      const values: Buffer[] = await this.client.lrangeBuffer(fullKey, config.start ?? 0, config.stop ?? -1);
+      return { values: values.map(value => this.serializer.deserialize<T>(value)) };
+    });
+  }
+
+  /**
+   * Add members to a set with SADD
+   * 
+   * @param config - Set add configuration
+   * @returns Write result with the number of new members
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.setAdd({ key: 'post:42:likes', members: ['user:1'] });
+   * ```
+   */
+  async setAdd(config: CacheSetAddConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheSetAddConfig(config);
+    await this.ensureConnected();
+
+    return this.writeCollection(config.key, 'set add', ['sadd', ...config.members], config.ttl);
+  }
+
+  /**
+   * Read the members of a set with SMEMBERS
+   * 
+   * @param config - Set members configuration
+   * @returns Set result with the members
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.setMembers({ key: 'post:42:likes' });
+   * console.log(result.members.length, 'likes');
+   * ```
+   */
+  async setMembers(config: CacheSetMembersConfig): Promise<CacheSetMembersResult> {
+    validateCacheSetMembersConfig(config);
+    await this.ensureConnected();
+
+    return this.readCollection(config.key, 'set members', { members: [] as string[] }, async fullKey => ({
+      members: await this.client.smembers(fullKey),
+    }));
+  }
+
+  /**
+   * Add members to a sorted set, or update their scores, with ZADD
+   * 
+   * @param config - Sorted set add configuration
+   * @returns Write result with the number of new members
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.sortedSetAdd({ key: 'leaderboard', members: [{ member: 'alice', score: 120 }] });
+   * ```
+   */
+  async sortedSetAdd(config: CacheSortedSetAddConfig): Promise<CacheCollectionWriteResult> {
+    validateCacheSortedSetAddConfig(config);
+    await this.ensureConnected();
+
+    const args = config.members.flatMap(({ member, score }) => [formatScore(score), member]);
+    return this.writeCollection(config.key, 'sorted set add', ['zadd', ...args], config.ttl);
+  }
+
+  /**
+   * Read members of a sorted set by score with ZRANGEBYSCORE or ZREVRANGEBYSCORE
+   * 
+   * @param config - Sorted set range configuration
+   * @returns Sorted set result with the members in range, in score order
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example Top 10
+   * ```typescript
+   * const result = await provider.sortedSetRange({ key: 'leaderboard', reverse: true, limit: 10 });
+   * result.members.forEach(({ member, score }) => console.log(member, score));
+   * ```
+   */
+  async sortedSetRange(config: CacheSortedSetRangeConfig): Promise<CacheSortedSetRangeResult> {
+    validateCacheSortedSetRangeConfig(config);
+    await this.ensureConnected();
+
+    const min = formatScore(config.min ?? -Infinity);
+    const max = formatScore(config.max ?? Infinity);
+    const command = config.reverse ? 'zrevrangebyscore' : 'zrangebyscore';
+    const range = config.reverse ? [max, min] : [min, max];
+    const limit = config.offset !== undefined || config.limit !== undefined
+      ? ['LIMIT', config.offset ?? 0, config.limit ?? -1]
+      : [];
+
+    return this.readCollection(config.key, 'sorted set range', { members: [] as CacheSortedSetMember[] }, async fullKey => {
+      const reply: string[] = await this.client[command](fullKey, ...range, 'WITHSCORES', ...limit);
+      const members: CacheSortedSetMember[] = [];
+      for (let index = 0; index < reply.length; index += 2) {
+        members.push({ member: reply[index], score: parseScore(reply[index + 1]) });
+      }
+      return { members };
+    });
+  }
+
+  /**
+   * Run a read against a data structure and map it to a result
+   * 
+   * @param key - Cache key
+   * @param operation - Operation name for logging
+   * @param empty - Data returned when the read fails
+   * @param read - Read returning the result data
+   * @returns Result with the data, or the empty data and an error
+   */
+  private async readCollection<D extends object>(
+    key: string,
+    operation: string,
+    empty: D,
+    read: (fullKey: string) => Promise<D>
+  ): Promise<D & { success: boolean; key: string; provider: CacheProvider; timestamp: Date; error?: string }> {
+    const fullKey = this.buildKey(key);
+    this.logger.debug(`Basepack Cache: Provider ${operation}`, { provider: this.name, key: fullKey });
+
+    try {
+      const data = await read(fullKey);
+
+      this.logger.debug(`Basepack Cache: Provider ${operation} completed`, { provider: this.name, key: fullKey });
+
+      return { success: true, key, ...data, provider: this.name, timestamp: new Date() };
+    } catch (error) {
+      this.logger.error(`Basepack Cache: Provider ${operation} failed`, { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key,
+        ...empty,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Run a write against a data structure, then set its expiry in the same transaction
+   * 
+   * @param key - Cache key
+   * @param operation - Operation name for logging
+   * @param command - Write command as `[name, ...args]`, without the key
+   * @param ttl - Time to live in seconds for the whole data structure
+   * @returns Write result with the count the command replied with
+   */
+  private async writeCollection(
+    key: string,
+    operation: string,
+    command: [string, ...unknown[]],
+    ttl?: number
+  ): Promise<CacheCollectionWriteResult> {
+    const fullKey = this.buildKey(key);
+    this.logger.debug(`Basepack Cache: Provider ${operation}`, { provider: this.name, key: fullKey, ttl });
+
+    try {
+      const [name, ...args] = command;
+      const commands: Array<[string, ...unknown[]]> = [[name, fullKey, ...args]];
+      if (ttl) {
+        commands.push(['pexpire', fullKey, ttl * 1000]);
+      }
+
+      const [[writeError, count]] = await this.execBatch(commands, true);
+      if (writeError) {
+        throw writeError;
+      }
+
+      this.logger.debug(`Basepack Cache: Provider ${operation} completed`, { provider: this.name, key: fullKey, count });
+
+      return {
+        success: true,
+        key,
+        count: Number(count),
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(`Basepack Cache: Provider ${operation} failed`, { provider: this.name, key: fullKey, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        key,
+        count: 0,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Publish a message on a pub/sub channel
+   * 
+   * Channels are not prefixed with `keyPrefix`. In cluster mode the message
+   * reaches subscribers on every node, but `receivers` only counts the
+   * subscribers connected to the node that accepted it.
+   * 
+   * @param config - Publish configuration
+   * @returns Publish result with the number of receivers
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheConnectionError} If connection fails
+   * 
+   * @example
+   * ```typescript
+   * const result = await provider.publish({ channel: 'orders', message: '{"id":42}' });
+   * console.log(`Delivered to ${result.receivers} subscribers`);
+   * ```
+   */
+  async publish(config: CachePublishConfig): Promise<CachePublishResult> {
+    validateCachePublishConfig(config);
+    await this.ensureConnected();
+
+    this.logger.debug('Basepack Cache: Provider publishing message', { provider: this.name, channel: config.channel });
+
+    try {
+      const receivers = Number(await this.client.publish(config.channel, config.message));
+
+      this.logger.debug('Basepack Cache: Provider message published', { provider: this.name, channel: config.channel, receivers });
+
+      return {
+        success: true,
+        channel: config.channel,
+        receivers,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider publish failed', { provider: this.name, channel: config.channel, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        channel: config.channel,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Subscribe to a pub/sub channel
+   * 
+   * A subscribed Redis connection cannot run other commands, so subscriptions
+   * share a second connection opened on the first subscribe. Channels are
+   * resubscribed automatically after a reconnect; messages published while
+   * disconnected are lost.
+   * 
+   * @param config - Subscribe configuration
+   * @returns Subscription handle
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheError} If the SUBSCRIBE command fails
+   * 
+   * @example
+   * ```typescript
+   * const subscription = await provider.subscribe({
+   *   channel: 'orders',
+   *   listener: message => console.log(JSON.parse(message))
+   * });
+   * 
+   * // Later
+   * await subscription.unsubscribe();
+   * ```
+   */
+  async subscribe(config: CacheSubscribeConfig): Promise<CacheSubscription> {
+    validateCacheSubscribeConfig(config);
+
+    const { channel } = config;
+    // Wrap the listener so the same function can be subscribed twice
+    const listener: CacheMessageListener = (message, from) => config.listener(message, from);
+    const subscriber = this.getSubscriber();
+
+    this.logger.debug('Basepack Cache: Provider subscribing', { provider: this.name, channel });
+
+    if (!this.channels.has(channel)) {
+      try {
+        await subscriber.subscribe(channel);
+      } catch (error) {
+        this.logger.error('Basepack Cache: Provider subscribe failed', { provider: this.name, channel, error });
+        throw CacheError.from(error, this.name, this.isRetryableError(error));
+      }
+    }
+
+    let listeners = this.channels.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(channel, listeners);
+    }
+    listeners.add(listener);
+
+    this.logger.debug('Basepack Cache: Provider subscribed', { provider: this.name, channel });
+
+    return {
+      channel,
+      unsubscribe: async () => {
+        const current = this.channels.get(channel);
+        if (!current?.delete(listener) || current.size > 0) {
+          return;
+        }
+
+        this.channels.delete(channel);
+        try {
+          await this.subscriber?.unsubscribe(channel);
+          this.logger.debug('Basepack Cache: Provider unsubscribed', { provider: this.name, channel });
+        } catch (error) {
+          this.logger.warn('Basepack Cache: Provider unsubscribe failed', { provider: this.name, channel, error });
+        }
+      },
+    };
+  }
+
+  /**
+   * Get the subscriber connection, creating it on first use
+   * 
+   * @returns Subscriber connection
+   */
+  private getSubscriber(): any {
+    if (!this.subscriber) {
+      this.subscriber = this.client.duplicate();
+
+      this.subscriber.on('message', (channel: string, message: string) => this.dispatch(channel, message));
+      this.subscriber.on('error', (error: Error) => {
+        this.logger.error('Basepack Cache: Subscriber error', { provider: this.name, error: error.message });
+      });
+    }
+
+    return this.subscriber;
+  }
+
+  /**
+   * Deliver a received message to the channel's listeners
+   * 
+   * Errors thrown by a listener are logged and do not affect other listeners.
+   * 
+   * @param channel - Channel the message was received on
+   * @param message - Message payload
+   */
+  private dispatch(channel: string, message: string): void {
+    for (const listener of this.channels.get(channel) ?? []) {
+      try {
+        Promise.resolve(listener(message, channel)).catch(error =>
+          this.logger.error('Basepack Cache: Message listener failed', { provider: this.name, channel, error })
+        );
+      } catch (error) {
+        this.logger.error('Basepack Cache: Message listener failed', { provider: this.name, channel, error });
+      }
+    }
+  }
+
+  /**
+   * Remove every value stored with any of the given tags
+   * 
+   * Reads each tag set with SMEMBERS, deletes the member keys and removes them
+   * from the set. Members added concurrently stay in the set for the next call.
+   * 
+   * Tag sets expire with their longest-lived member, so they do not outgrow
+   * the keys they index. Membership is not removed when a key is deleted or
+   * overwritten without the tag: such a key is still deleted by the next
+   * invalidation of that tag, until the tag set expires. Extending a key with
+   * `expire` or `touch` does not extend its tag sets.
+   * 
+   * @param tags - Tags to invalidate
+   * @returns Invalidation result with the number of keys removed
+   * @throws {CacheValidationError} If tags are invalid
+   * 
+   * @example
+   * ```typescript
+   * await provider.set({ key: 'user:42:orders', value: orders, tags: ['user:42'] });
+   * await provider.invalidateTags(['user:42']);
+   * ```
+   */
+  async invalidateTags(tags: string[]): Promise<CacheInvalidateTagsResult> {
+    validateCacheTags(tags);
+    await this.ensureConnected();
+
+    this.logger.debug('Basepack Cache: Provider invalidating tags', { provider: this.name, tags });
+
+    try {
+      let invalidated = 0;
+
+      for (const tag of tags) {
+        const tagKey = this.buildTagKey(tag);
+        const members: string[] = await this.client.smembers(tagKey);
+        if (members.length === 0) {
+          continue;
+        }
+
+        const replies = await this.execBatch([
+          ...members.map((member): [string, ...unknown[]] => ['del', member]),
+          ['srem', tagKey, ...members],
+        ]);
+        invalidated += replies
+          .slice(0, members.length)
+          .reduce((total, [, deleted]) => total + (Number(deleted) || 0), 0);
+      }
+
+      this.logger.debug('Basepack Cache: Provider tags invalidated', { provider: this.name, tags, invalidated });
+
+      return {
+        success: true,
+        tags,
+        invalidated,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider invalidate tags failed', { provider: this.name, tags, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+
+      return {
+        success: false,
+        tags,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Clear all values from cache
+   * 
+   * Note: If a key prefix is configured, only keys with that prefix will be cleared.
+   * Otherwise, this will clear the entire Redis database. In cluster mode every
+   * master is scanned or flushed.
+   * 
+   * @returns Clear result
+   * 
+   * @example
+   * ```typescript
+   * await provider.clear();
+   * console.log('Cache cleared');
+   * ```
+   */
+  async clear(): Promise<CacheClearResult> {
+    await this.ensureConnected();
+    
+    this.logger.info('Basepack Cache: Provider clearing cache', { provider: this.name, keyPrefix: this.keyPrefix || 'all' });
+
+    try {
+      const masters = this.getMasters();
+
+      if (this.keyPrefix) {
+        // Only delete keys with the prefix
+        const pattern = `${escapeGlob(this.keyPrefix)}*`;
+        let keysFound = 0;
+
+        for (const master of masters) {
+          const stream = master.scanStream({ match: pattern, count: 100 });
+          // Keys found on a master are served by it, so one pipeline per master is safe
+          const pipeline = master.pipeline();
+          let masterKeys = 0;
+
+          for await (const keys of stream) {
+            for (const key of keys) {
+              pipeline.del(key);
+              masterKeys++;
+            }
+          }
+
+          if (masterKeys > 0) {
+            await pipeline.exec();
+          }
+          keysFound += masterKeys;
+        }
+
+        this.logger.info('Basepack Cache: Provider cache cleared', { provider: this.name, keysDeleted: keysFound });
+      } else {
+        // No prefix, flush entire database
+        await Promise.all(masters.map(master => master.flushdb()));
+        this.logger.info('Basepack Cache: Provider database flushed', { provider: this.name, masters: masters.length });
+      }
+
+      return {
+        success: true,
+        provider: this.name,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Provider clear failed', { provider: this.name, error });
+      const cacheError = CacheError.from(error, this.name, this.isRetryableError(error));
+      
+      return {
+        success: false,
+        provider: this.name,
+        timestamp: new Date(),
+        error: cacheError.message,
+        retryable: cacheError.isRetryable,
+      };
+    }
+  }
+
+  /**
+   * Check provider health status
+   * 
+   * With Sentinel, `details.nodes` lists the connected master and its replicas
+   * (from ROLE). In cluster mode it lists every node with its own ping; the
+   * provider is healthy while every master responds.
+   * 
+   * @returns Health information
+   * 
+   * @example
+   * ```typescript
+   * const health = await provider.health();
+   * if (health.status === 'healthy') {
+   *   console.log(`Redis is healthy (${health.responseTime}ms)`);
+   * }
+   * ```
+   */
+  async health(): Promise<CacheHealthInfo> {
+    this.logger.debug('Basepack Cache: Provider health check', { provider: this.name });
+    
+    const startTime = Date.now();
+
+    try {
+      await this.ensureConnected();
+      
+      // Send PING command
+      const response = await this.client.ping();
+      const nodes = await this.checkNodes();
+      const responseTime = Date.now() - startTime;
+
+      const unhealthyMasters = nodes.filter(node => node.role === 'master' && node.status !== 'healthy');
+      const isHealthy = response === 'PONG' && unhealthyMasters.length === 0;
+
+      this.logger.debug('Basepack Cache: Provider health checked', { 
+        provider: this.name, 
+        status: isHealthy ? 'healthy' : 'unhealthy',
+        responseTimeMs: responseTime
+      });
+
+      return {
+        provider: this.name,
+        status: isHealthy ? 'healthy' : 'unhealthy',
+        responseTime,
+        ...(unhealthyMasters.length > 0
+          ? { error: `Unhealthy masters: ${unhealthyMasters.map(node => node.node).join(', ')}` }
+          : {}),
+        timestamp: new Date(),
+        details: {
+          ping: response,
+          connected: this.isConnected,
+          mode: this.mode,
+          ...(nodes.length > 0 ? { nodes } : {}),
+        },
+      };
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      
+      this.logger.error('Basepack Cache: Provider health check failed', { provider: this.name, error: errorMessage });
+
+      return {
+        provider: this.name,
+        status: 'unhealthy',
+        responseTime,
+        error: errorMessage,
+        timestamp: new Date(),
+        details: {
+          connected: this.isConnected,
+          mode: this.mode,
+        },
+      };
+    }
+  }
+
+  /**
+   * Check the health of individual nodes
+   * 
+   * @returns Node health for Sentinel and cluster mode, empty for a single server
+   */
+  private async checkNodes(): Promise<RedisNodeHealth[]> {
+    if (this.mode === 'sentinel') {
+      // ROLE on the master lists its connected replicas as [host, port, offset]
+      const [role, , replicas = []]: [string, unknown, Array<[string, string, string]>] = await this.client.role();
+      const stream = this.client.stream;
+
+      return [
+        {
+          node: formatNode({ host: stream?.remoteAddress, port: stream?.remotePort }),
+          role: 'master',
+          status: role === 'master' ? 'healthy' : 'unhealthy',
+          ...(role === 'master' ? {} : { error: `Connected node has role ${role}` }),
+        },
+        ...replicas.map(([host, port]): RedisNodeHealth => ({
+          node: formatNode({ host, port: Number(port) }),
+          role: 'replica',
+          status: 'healthy',
+        })),
+      ];
+    }
+
+    if (this.mode === 'cluster') {
+      const masters = new Set(this.client.nodes('master'));
+
+      return Promise.all(this.client.nodes('all').map(async (node: any): Promise<RedisNodeHealth> => {
+        const role = masters.has(node) ? 'master' : 'replica';
+        const startTime = Date.now();
+
+        try {
+          const response = await node.ping();
+          return {
+            node: formatNode(node.options),
+            role,
+            status: response === 'PONG' ? 'healthy' : 'unhealthy',
+            responseTime: Date.now() - startTime,
+          };
+        } catch (error) {
+          return {
+            node: formatNode(node.options),
+            role,
+            status: 'unhealthy',
+            responseTime: Date.now() - startTime,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }));
+    }
+
+    return [];
+  }
+
+  /**
+   * Close connection to Redis
+   * 
+   * @example
+   * ```typescript
+   * await provider.close();
+   * console.log('Redis connection closed');
+   * ```
+   */
+  async close(): Promise<void> {
+    this.logger.debug('Basepack Cache: Provider closing connection', { provider: this.name });
+    
+    if (this.subscriber) {
+      this.subscriber.removeAllListeners();
+      await this.subscriber.quit();
+      this.subscriber = undefined;
+      this.channels.clear();
+    }
+
     if (this.client) {
       this.client.removeAllListeners();
       await this.client.quit();
@@ -614,13 +2481,17 @@ export class RedisProvider implements ICacheProvider {
     const message = error instanceof Error ? error.message : String(error);
     const lowerMessage = message.toLowerCase();
 
-    // Network and connection errors are retryable
+    // Network and connection errors are retryable, as are the errors seen
+    // while a Sentinel or Cluster failover is in progress
     return (
       lowerMessage.includes('timeout') ||
       lowerMessage.includes('connection') ||
       lowerMessage.includes('econnrefused') ||
       lowerMessage.includes('enotfound') ||
-      lowerMessage.includes('network')
+      lowerMessage.includes('network') ||
+      lowerMessage.includes('clusterdown') ||
+      lowerMessage.includes('tryagain') ||
+      lowerMessage.startsWith('readonly')
     );
   }
 }
@@ -155,6 +155,56 @@ export class CacheTimeoutError extends CacheError {
   }
 }
 
+/**
+ * Error thrown when a distributed lock cannot be acquired
+ */
+export class CacheLockError extends CacheError {
+  /**
+   * Creates a new CacheLockError
+   * 
+   * @param message - Error message
+   * @param provider - Cache provider name
+   * @param key - Lock name that could not be acquired
+   */
+  constructor(
+    message: string,
+    provider: CacheProvider,
+    public readonly key: string
+  ) {
+    super(message, provider);
+    this.name = 'CacheLockError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CacheLockError);
+    }
+  }
+}
+
+/**
+ * Error thrown when a cache provider does not support an operation
+ */
+export class CacheNotSupportedError extends CacheError {
+  /**
+   * Creates a new CacheNotSupportedError
+   * 
+   * @param message - Error message
+   * @param provider - Cache provider name
+   * @param operation - Operation that is not supported
+   */
+  constructor(
+    message: string,
+    provider: CacheProvider,
+    public readonly operation: string
+  ) {
+    super(message, provider);
+    this.name = 'CacheNotSupportedError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CacheNotSupportedError);
+    }
+  }
+}
+
 /**
  * Type guard to check if an error is a CacheError
  * 
@@ -205,3 +255,22 @@ export function isCacheTimeoutError(error: unknown): error is CacheTimeoutError
   return error instanceof CacheTimeoutError;
 }
 
+/**
+ * Type guard to check if an error is a CacheLockError
+ * 
+ * @param error - Error to check
+ * @returns True if error is a CacheLockError
+ */
+export function isCacheLockError(error: unknown): error is CacheLockError {
+  return error instanceof CacheLockError;
+}
+
+/**
+ * Type guard to check if an error is a CacheNotSupportedError
+ * 
+ * @param error - Error to check
+ * @returns True if error is a CacheNotSupportedError
+ */
+export function isCacheNotSupportedError(error: unknown): error is CacheNotSupportedError {
+  return error instanceof CacheNotSupportedError;
+}
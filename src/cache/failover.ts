@@ -0,0 +1,620 @@
+/**
+ * Failover cache provider
+ * @module cache/failover
+ */
+
+import type {
+  ICacheProvider,
+  CacheFailoverConfig,
+  CacheSetConfig,
+  CacheGetConfig,
+  CacheDeleteConfig,
+  CacheHasConfig,
+  CacheGetResult,
+  CacheSetResult,
+  CacheAddResult,
+  CacheDeleteResult,
+  CacheHasResult,
+  CacheClearResult,
+  CacheHealthInfo,
+  CacheGetManyConfig,
+  CacheSetManyConfig,
+  CacheDeleteManyConfig,
+  CacheIncrementConfig,
+  CacheIncrementResult,
+  CacheCompareAndSetConfig,
+  CacheCompareAndSetResult,
+  CacheInvalidateTagsResult,
+  CacheExtendLockConfig,
+  CacheReleaseLockConfig,
+  CacheLockResult,
+  CacheRateLimitConfig,
+  CacheRateLimitResult,
+  CacheKeysConfig,
+  CacheScanResult,
+  CacheTtlConfig,
+  CacheExpireConfig,
+  CacheTouchConfig,
+  CacheTtlResult,
+  CacheExpireResult,
+  CacheHashGetConfig,
+  CacheHashSetConfig,
+  CacheListPushConfig,
+  CacheListPopConfig,
+  CacheListRangeConfig,
+  CacheSetAddConfig,
+  CacheSetMembersConfig,
+  CacheSortedSetAddConfig,
+  CacheSortedSetRangeConfig,
+  CacheHashGetResult,
+  CacheCollectionWriteResult,
+  CacheListResult,
+  CacheSetMembersResult,
+  CacheSortedSetRangeResult,
+  CachePublishConfig,
+  CachePublishResult,
+  CacheSubscribeConfig,
+  CacheSubscription,
+} from './types';
+import type { Logger } from '../logger';
+import { CacheConnectionError, isCacheError } from './errors';
+
+/**
+ * Failover cache provider
+ *
+ * Routes operations to the primary provider and fails over to backup providers,
+ * in order, when a provider throws a retryable `CacheError` such as
+ * `CacheConnectionError` or `CacheTimeoutError`, or returns a failed result
+ * marked `retryable` (adapters report lost connections and timeouts this way).
+ *
+ * A provider that fails opens its circuit and is skipped by later operations.
+ * Its `health()` is checked again at most once per `healthCheckInterval`, and
+ * once healthy its circuit closes so traffic returns to it.
+ *
+ * Note: values written to a backup while the primary is down are not copied
+ * back to the primary when it recovers.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FailoverCacheProvider(
+ *   new RedisProvider({ host: 'redis-primary' }),
+ *   [new MemcachedProvider({ servers: ['memcached:11211'] })],
+ *   { healthCheckInterval: 10000 }
+ * );
+ * ```
+ */
+export class FailoverCacheProvider implements ICacheProvider {
+  private readonly providers: ICacheProvider[];
+  private readonly healthCheckInterval: number;
+  private readonly logger: Logger;
+  /** Providers with an open circuit, mapped to the time of their next health check */
+  private readonly openCircuits = new Map<ICacheProvider, number>();
+
+  /**
+   * Creates a new FailoverCacheProvider instance
+   *
+   * @param primary - Primary provider
+   * @param backups - Backup providers, tried in order
+   * @param options - Failover options
+   * @param logger - Optional logger for debugging and monitoring
+   */
+  constructor(
+    private readonly primary: ICacheProvider,
+    backups: ICacheProvider[],
+    options: CacheFailoverConfig = {},
+    logger: Logger = console
+  ) {
+    this.providers = [primary, ...backups];
+    this.healthCheckInterval = options.healthCheckInterval ?? 30000;
+    this.logger = logger;
+  }
+
+  /**
+   * Provider name of the currently active provider
+   */
+  get name() {
+    return this.activeProvider().name;
+  }
+
+  /**
+   * Get the first provider whose circuit is closed
+   *
+   * @returns Active provider (the primary if every circuit is open)
+   */
+  private activeProvider(): ICacheProvider {
+    return this.providers.find(provider => !this.openCircuits.has(provider)) ?? this.primary;
+  }
+
+  /**
+   * Open the circuit for a failed provider
+   *
+   * @param provider - Provider that failed
+   * @param error - Error that caused the failure
+   */
+  private openCircuit(provider: ICacheProvider, error: unknown): void {
+    if (this.openCircuits.has(provider)) {
+      return;
+    }
+
+    this.openCircuits.set(provider, Date.now() + this.healthCheckInterval);
+    this.logger.warn('Basepack Cache: Provider circuit opened', {
+      provider: provider.name,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  /**
+   * Close the circuit for a recovered provider
+   *
+   * @param provider - Provider that recovered
+   */
+  private closeCircuit(provider: ICacheProvider): void {
+    if (!this.openCircuits.delete(provider)) {
+      return;
+    }
+
+    this.logger.info('Basepack Cache: Provider circuit closed', {
+      provider: provider.name,
+      primary: provider === this.primary
+    });
+  }
+
+  /**
+   * Check the health of providers with an open circuit that are due for a check
+   */
+  private async checkRecovery(): Promise<void> {
+    const now = Date.now();
+
+    for (const [provider, nextCheckAt] of this.openCircuits) {
+      if (nextCheckAt > now) {
+        continue;
+      }
+
+      this.openCircuits.set(provider, now + this.healthCheckInterval);
+      this.logger.debug('Basepack Cache: Checking failed provider', { provider: provider.name });
+
+      try {
+        const health = await provider.health();
+        if (health.status === 'healthy') {
+          this.closeCircuit(provider);
+        }
+      } catch (error) {
+        this.logger.debug('Basepack Cache: Failed provider still unhealthy', { provider: provider.name, error });
+      }
+    }
+  }
+
+  /**
+   * Get the error of a result that failed with a retryable error
+   *
+   * Batch results count as failed only when every entry failed retryably, so
+   * one unreachable Memcached server does not fail over the whole pool.
+   *
+   * @param result - Operation result
+   * @returns Error message, or undefined if the result should not fail over
+   */
+  private retryableFailure(result: unknown): string | undefined {
+    const results = Array.isArray(result) ? result : [result];
+    const failed = results.length > 0 && results.every(entry =>
+      typeof entry === 'object' && entry !== null && entry.success === false && entry.retryable === true
+    );
+    return failed ? (results[0].error ?? 'Operation failed') : undefined;
+  }
+
+  /**
+   * Run an operation against providers in failover order
+   *
+   * @param operation - Operation name for logging
+   * @param fn - Operation to run against a provider
+   * @returns Result from the first provider that did not fail over, or the last
+   * retryable failed result if every provider failed
+   * @throws {CacheConnectionError} If every provider threw a retryable error
+   */
+  private async execute<R>(operation: string, fn: (provider: ICacheProvider) => Promise<R>): Promise<R> {
+    await this.checkRecovery();
+
+    const available = this.providers.filter(provider => !this.openCircuits.has(provider));
+    const candidates = available.length > 0 ? available : this.providers;
+    const errors: Array<{ provider: string; error: string }> = [];
+    let failedResult: { value: R } | undefined;
+
+    for (const [index, provider] of candidates.entries()) {
+      try {
+        const result = await fn(provider);
+        const failure = this.retryableFailure(result);
+        if (failure === undefined) {
+          return result;
+        }
+
+        failedResult = { value: result };
+        this.openCircuit(provider, failure);
+        errors.push({ provider: provider.name, error: failure });
+      } catch (error) {
+        if (!isCacheError(error) || !error.isRetryable) {
+          throw error;
+        }
+
+        this.openCircuit(provider, error);
+        errors.push({ provider: provider.name, error: error.message });
+      }
+
+      const nextProvider = candidates[index + 1];
+      if (nextProvider) {
+        this.logger.info('Basepack Cache: Failing over to backup provider', {
+          operation,
+          from: provider.name,
+          to: nextProvider.name
+        });
+      }
+    }
+
+    this.logger.error('Basepack Cache: All providers failed', { operation, errors });
+    if (failedResult) {
+      return failedResult.value;
+    }
+    throw new CacheConnectionError(
+      `All cache providers failed. Errors: ${errors.map(e => `${e.provider}: ${e.error}`).join('; ')}`,
+      this.primary.name,
+      errors
+    );
+  }
+
+  /**
+   * Get a value from the active provider
+   *
+   * @param config - Get configuration
+   * @returns Get result
+   */
+  async get<T = any>(config: CacheGetConfig): Promise<CacheGetResult<T>> {
+    return this.execute('get', provider => provider.get<T>(config));
+  }
+
+  /**
+   * Set a value in the active provider
+   *
+   * @param config - Set configuration
+   * @returns Set result
+   */
+  async set(config: CacheSetConfig): Promise<CacheSetResult> {
+    return this.execute('set', provider => provider.set(config));
+  }
+
+  /**
+   * Add a value in the active provider if the key does not exist
+   *
+   * @param config - Set configuration
+   * @returns Add result
+   */
+  async add(config: CacheSetConfig): Promise<CacheAddResult> {
+    return this.execute('add', provider => provider.add(config));
+  }
+
+  /**
+   * Increment a counter in the active provider
+   *
+   * @param config - Increment configuration
+   * @returns Increment result
+   */
+  async increment(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    return this.execute('increment', provider => provider.increment(config));
+  }
+
+  /**
+   * Decrement a counter in the active provider
+   *
+   * @param config - Decrement configuration
+   * @returns Decrement result
+   */
+  async decrement(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    return this.execute('decrement', provider => provider.decrement(config));
+  }
+
+  /**
+   * Compare and set a value in the active provider
+   *
+   * @param config - Compare-and-set configuration
+   * @returns Compare-and-set result
+   */
+  async compareAndSet(config: CacheCompareAndSetConfig): Promise<CacheCompareAndSetResult> {
+    return this.execute('compareAndSet', provider => provider.compareAndSet(config));
+  }
+
+  /**
+   * Delete a value from the active provider
+   *
+   * @param config - Delete configuration
+   * @returns Delete result
+   */
+  async delete(config: CacheDeleteConfig): Promise<CacheDeleteResult> {
+    return this.execute('delete', provider => provider.delete(config));
+  }
+
+  /**
+   * Check if a key exists in the active provider
+   *
+   * @param config - Has configuration
+   * @returns Has result
+   */
+  async has(config: CacheHasConfig): Promise<CacheHasResult> {
+    return this.execute('has', provider => provider.has(config));
+  }
+
+  /**
+   * Get multiple values from the active provider
+   *
+   * @param config - Get-many configuration
+   * @returns Get results
+   */
+  async getMany<T = any>(config: CacheGetManyConfig): Promise<CacheGetResult<T>[]> {
+    return this.execute('getMany', provider => provider.getMany<T>(config));
+  }
+
+  /**
+   * Set multiple values in the active provider
+   *
+   * @param config - Set-many configuration
+   * @returns Set results
+   */
+  async setMany(config: CacheSetManyConfig): Promise<CacheSetResult[]> {
+    return this.execute('setMany', provider => provider.setMany(config));
+  }
+
+  /**
+   * Delete multiple values from the active provider
+   *
+   * @param config - Delete-many configuration
+   * @returns Delete results
+   */
+  async deleteMany(config: CacheDeleteManyConfig): Promise<CacheDeleteResult[]> {
+    return this.execute('deleteMany', provider => provider.deleteMany(config));
+  }
+
+  /**
+   * Invalidate tags in the active provider
+   *
+   * @param tags - Tags to invalidate
+   * @returns Invalidation result
+   */
+  async invalidateTags(tags: string[]): Promise<CacheInvalidateTagsResult> {
+    return this.execute('invalidateTags', provider => provider.invalidateTags(tags));
+  }
+
+  /**
+   * Extend a lock in the active provider
+   *
+   * @param config - Extend configuration
+   * @returns Lock result
+   */
+  async extendLock(config: CacheExtendLockConfig): Promise<CacheLockResult> {
+    return this.execute('extendLock', provider => provider.extendLock(config));
+  }
+
+  /**
+   * Release a lock in the active provider
+   *
+   * @param config - Release configuration
+   * @returns Lock result
+   */
+  async releaseLock(config: CacheReleaseLockConfig): Promise<CacheLockResult> {
+    return this.execute('releaseLock', provider => provider.releaseLock(config));
+  }
+
+  /**
+   * Consume quota from a rate limit in the active provider
+   *
+   * @param config - Rate limit configuration
+   * @returns Rate limit result
+   */
+  async rateLimit(config: CacheRateLimitConfig): Promise<CacheRateLimitResult> {
+    return this.execute('rateLimit', provider => provider.rateLimit(config));
+  }
+
+  /**
+   * Fetch one page of keys from the active provider
+   *
+   * @param config - Scan configuration
+   * @returns Scan result
+   */
+  async scan(config: CacheKeysConfig): Promise<CacheScanResult> {
+    return this.execute('scan', provider => provider.scan(config));
+  }
+
+  /**
+   * Read the remaining time to live from the active provider
+   *
+   * @param config - TTL configuration
+   * @returns TTL result
+   */
+  async ttl(config: CacheTtlConfig): Promise<CacheTtlResult> {
+    return this.execute('ttl', provider => provider.ttl(config));
+  }
+
+  /**
+   * Set a new time to live in the active provider
+   *
+   * @param config - Expire configuration
+   * @returns Expire result
+   */
+  async expire(config: CacheExpireConfig): Promise<CacheExpireResult> {
+    return this.execute('expire', provider => provider.expire(config));
+  }
+
+  /**
+   * Refresh a key in the active provider
+   *
+   * @param config - Touch configuration
+   * @returns Expire result
+   */
+  async touch(config: CacheTouchConfig): Promise<CacheExpireResult> {
+    return this.execute('touch', provider => provider.touch(config));
+  }
+
+  /**
+   * Read fields of a hash in the active provider
+   *
+   * @param config - Hash get configuration
+   * @returns Hash result
+   */
+  async hashGet<T = any>(config: CacheHashGetConfig): Promise<CacheHashGetResult<T>> {
+    return this.execute('hashGet', provider => provider.hashGet<T>(config));
+  }
+
+  /**
+   * Write fields of a hash in the active provider
+   *
+   * @param config - Hash set configuration
+   * @returns Write result
+   */
+  async hashSet(config: CacheHashSetConfig): Promise<CacheCollectionWriteResult> {
+    return this.execute('hashSet', provider => provider.hashSet(config));
+  }
+
+  /**
+   * Push values onto a list in the active provider
+   *
+   * @param config - List push configuration
+   * @returns Write result
+   */
+  async listPush(config: CacheListPushConfig): Promise<CacheCollectionWriteResult> {
+    return this.execute('listPush', provider => provider.listPush(config));
+  }
+
+  /**
+   * Pop values from a list in the active provider
+   *
+   * @param config - List pop configuration
+   * @returns List result
+   */
+  async listPop<T = any>(config: CacheListPopConfig): Promise<CacheListResult<T>> {
+    return this.execute('listPop', provider => provider.listPop<T>(config));
+  }
+
+  /**
+   * Read a range of a list in the active provider
+   *
+   * @param config - List range configuration
+   * @returns List result
+   */
+  async listRange<T = any>(config: CacheListRangeConfig): Promise<CacheListResult<T>> {
+    return this.execute('listRange', provider => provider.listRange<T>(config));
+  }
+
+  /**
+   * Add members to a set in the active provider
+   *
+   * @param config - Set add configuration
+   * @returns Write result
+   */
+  async setAdd(config: CacheSetAddConfig): Promise<CacheCollectionWriteResult> {
+    return this.execute('setAdd', provider => provider.setAdd(config));
+  }
+
+  /**
+   * Read the members of a set in the active provider
+   *
+   * @param config - Set members configuration
+   * @returns Set result
+   */
+  async setMembers(config: CacheSetMembersConfig): Promise<CacheSetMembersResult> {
+    return this.execute('setMembers', provider => provider.setMembers(config));
+  }
+
+  /**
+   * Add members to a sorted set in the active provider
+   *
+   * @param config - Sorted set add configuration
+   * @returns Write result
+   */
+  async sortedSetAdd(config: CacheSortedSetAddConfig): Promise<CacheCollectionWriteResult> {
+    return this.execute('sortedSetAdd', provider => provider.sortedSetAdd(config));
+  }
+
+  /**
+   * Read members of a sorted set by score in the active provider
+   *
+   * @param config - Sorted set range configuration
+   * @returns Sorted set result
+   */
+  async sortedSetRange(config: CacheSortedSetRangeConfig): Promise<CacheSortedSetRangeResult> {
+    return this.execute('sortedSetRange', provider => provider.sortedSetRange(config));
+  }
+
+  /**
+   * Publish a message through the active provider
+   *
+   * @param config - Publish configuration
+   * @returns Publish result
+   */
+  async publish(config: CachePublishConfig): Promise<CachePublishResult> {
+    return this.execute('publish', provider => provider.publish(config));
+  }
+
+  /**
+   * Subscribe to a channel through the active provider
+   *
+   * The subscription stays with the provider that accepted it, so messages
+   * published to another provider after a failover are not received.
+   *
+   * @param config - Subscribe configuration
+   * @returns Subscription handle
+   */
+  async subscribe(config: CacheSubscribeConfig): Promise<CacheSubscription> {
+    return this.execute('subscribe', provider => provider.subscribe(config));
+  }
+
+  /**
+   * Clear the active provider
+   *
+   * @returns Clear result
+   */
+  async clear(): Promise<CacheClearResult> {
+    return this.execute('clear', provider => provider.clear());
+  }
+
+  /**
+   * Check the health of every provider
+   *
+   * Healthy providers with an open circuit are closed again, so a health check
+   * also returns traffic to a recovered primary. The service is healthy while
+   * any provider is healthy.
+   *
+   * @returns Health information with per-provider details
+   */
+  async health(): Promise<CacheHealthInfo> {
+    const healths = await Promise.all(this.providers.map(provider => provider.health()));
+
+    healths.forEach((health, index) => {
+      if (health.status === 'healthy') {
+        this.closeCircuit(this.providers[index]);
+      }
+    });
+
+    const active = this.activeProvider();
+    const activeHealth = healths[this.providers.indexOf(active)];
+
+    return {
+      provider: active.name,
+      status: healths.some(health => health.status === 'healthy') ? 'healthy' : 'unhealthy',
+      responseTime: activeHealth.responseTime,
+      error: activeHealth.error,
+      timestamp: new Date(),
+      details: {
+        active: active.name,
+        primary: healths[0],
+        backups: healths.slice(1),
+        openCircuits: this.providers
+          .filter(provider => this.openCircuits.has(provider))
+          .map(provider => provider.name),
+      },
+    };
+  }
+
+  /**
+   * Close every provider
+   */
+  async close(): Promise<void> {
+    for (const provider of this.providers) {
+      await provider.close();
+    }
+  }
+}
@@ -6,6 +6,16 @@
 export * from './service';
 export * from './types';
 export * from './adapters';
+export * from './tiered';
+export * from './failover';
+export * from './metrics';
+export * from './size-limit';
+export * from './invalidation';
+export * from './serializers';
+export * from './lock';
+export * from './rate-limiter';
+export * from './memoize';
+export * from './namespace';
 export * from './errors';
 export * from './validation';
 
@@ -0,0 +1,167 @@
+/**
+ * Local tier invalidation over pub/sub
+ * @module cache/invalidation
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  ICacheProvider,
+  CacheInvalidationConfig,
+  CacheInvalidationEvent,
+  CacheSubscription,
+} from './types';
+import type { Logger } from '../logger';
+import { CacheNotSupportedError } from './errors';
+import { validateCacheChannel } from './validation';
+
+/**
+ * Message published on the invalidation channel
+ */
+interface InvalidationMessage extends CacheInvalidationEvent {
+  /** Broadcaster that published the message */
+  source: string;
+}
+
+/**
+ * Broadcasts local tier invalidations between instances
+ *
+ * Each instance publishes the keys it changed on a shared pub/sub channel,
+ * and every listener receives the events published by other broadcasters.
+ * Events published by this broadcaster are never delivered back to its own
+ * listeners, since the local tier that wrote them is already up to date.
+ *
+ * Pub/sub delivery is at most once: events published while an instance is
+ * disconnected are lost, so local copies still expire with the local TTL.
+ * Publish failures are logged and never fail the write that caused them.
+ *
+ * @example
+ * ```typescript
+ * const broadcaster = new CacheInvalidationBroadcaster(redisProvider, { channel: 'myapp:invalidation' });
+ *
+ * await broadcaster.listen(event => {
+ *   if (event.clear) {
+ *     localCache.clear();
+ *   } else {
+ *     localCache.deleteMany({ keys: event.keys! });
+ *   }
+ * });
+ *
+ * await broadcaster.publish({ keys: ['user:42'] });
+ * ```
+ */
+export class CacheInvalidationBroadcaster {
+  /** Pub/sub channel shared by all instances */
+  readonly channel: string;
+  /** Random identifier of this broadcaster, used to skip its own events */
+  readonly source = randomUUID();
+  private readonly logger: Logger;
+  private unsupported = false;
+
+  /**
+   * Creates a new CacheInvalidationBroadcaster instance
+   *
+   * @param provider - Provider carrying the pub/sub messages, usually the remote tier
+   * @param options - Invalidation options
+   * @param logger - Optional logger for debugging and monitoring
+   * @throws {CacheValidationError} If the channel is invalid
+   */
+  constructor(
+    private readonly provider: ICacheProvider,
+    options: CacheInvalidationConfig = {},
+    logger: Logger = console
+  ) {
+    this.channel = options.channel ?? 'basepack:cache:invalidation';
+    validateCacheChannel(this.channel, 'invalidation.channel');
+    this.logger = logger;
+  }
+
+  /**
+   * Publish an invalidation event to other instances
+   *
+   * Never throws. If the provider has no pub/sub, the error is logged once and
+   * later events are dropped.
+   *
+   * @param event - Keys to drop, or `clear: true` to clear every local tier
+   */
+  async publish(event: CacheInvalidationEvent): Promise<void> {
+    if (this.unsupported || (!event.clear && (event.keys?.length ?? 0) === 0)) {
+      return;
+    }
+
+    const message: InvalidationMessage = { source: this.source, ...event };
+
+    try {
+      const result = await this.provider.publish({ channel: this.channel, message: JSON.stringify(message) });
+      if (!result.success) {
+        this.logger.warn('Basepack Cache: Invalidation publish failed', { channel: this.channel, error: result.error });
+      }
+    } catch (error) {
+      this.handleError('Basepack Cache: Invalidation publish failed', error);
+    }
+  }
+
+  /**
+   * Receive invalidation events published by other instances
+   *
+   * Malformed messages are logged and skipped.
+   *
+   * @param handler - Called for every event from another broadcaster
+   * @returns Subscription handle, or undefined if the subscription failed
+   */
+  async listen(handler: (event: CacheInvalidationEvent) => void | Promise<void>): Promise<CacheSubscription | undefined> {
+    try {
+      const subscription = await this.provider.subscribe({
+        channel: this.channel,
+        listener: async message => {
+          const event = this.parse(message);
+          if (event && event.source !== this.source) {
+            await handler({ keys: event.keys, clear: event.clear });
+          }
+        },
+      });
+
+      this.logger.debug('Basepack Cache: Listening for invalidations', { channel: this.channel });
+      return subscription;
+    } catch (error) {
+      this.handleError('Basepack Cache: Invalidation subscribe failed', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Parse a message received on the invalidation channel
+   *
+   * @param message - Raw message
+   * @returns Parsed message, or undefined if it is malformed
+   */
+  private parse(message: string): InvalidationMessage | undefined {
+    try {
+      const parsed = JSON.parse(message);
+      const valid = parsed && typeof parsed.source === 'string' &&
+        (parsed.clear === true || (Array.isArray(parsed.keys) && parsed.keys.every((key: unknown) => typeof key === 'string')));
+
+      if (valid) {
+        return parsed;
+      }
+    } catch {
+      // Logged below
+    }
+
+    this.logger.warn('Basepack Cache: Ignoring malformed invalidation message', { channel: this.channel });
+    return undefined;
+  }
+
+  /**
+   * Log a pub/sub error, disabling the broadcaster if pub/sub is not supported
+   *
+   * @param message - Log message
+   * @param error - Error thrown by the provider
+   */
+  private handleError(message: string, error: unknown): void {
+    if (error instanceof CacheNotSupportedError) {
+      this.unsupported = true;
+    }
+
+    this.logger.error(message, { channel: this.channel, error });
+  }
+}
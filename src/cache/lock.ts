@@ -0,0 +1,88 @@
+/**
+ * Distributed lock handle
+ * @module cache/lock
+ */
+
+import type { ICacheProvider, CacheLockResult } from './types';
+import type { Logger } from '../logger';
+
+/**
+ * Distributed lock handle
+ *
+ * Returned by `CacheService.acquireLock()`. The lock is stored under its
+ * `lockKey` with a random token, and `extend()` and `release()` only act while
+ * the lock still holds that token, so a holder whose lock expired can never
+ * extend or release a lock taken by someone else.
+ *
+ * @example
+ * ```typescript
+ * const lock = await cache.acquireLock({ key: 'jobs:nightly', ttl: 60 });
+ * try {
+ *   await runNightlyJob();
+ *   await lock.extend();
+ *   await sendReport();
+ * } finally {
+ *   await lock.release();
+ * }
+ * ```
+ */
+export class CacheLock {
+  /**
+   * Creates a new CacheLock instance
+   *
+   * @param provider - Provider holding the lock
+   * @param key - Lock name
+   * @param lockKey - Cache key holding the lock
+   * @param token - Random token the lock was acquired with
+   * @param ttl - Lock time to live in seconds, reused by `extend()`
+   * @param logger - Logger for debugging and monitoring
+   */
+  constructor(
+    private readonly provider: ICacheProvider,
+    readonly key: string,
+    readonly lockKey: string,
+    readonly token: string,
+    readonly ttl: number,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Extend the lock, if it is still held
+   *
+   * @param ttl - New time to live in seconds, counted from now (default: the acquire TTL)
+   * @returns Lock result; `owned` is false if the lock expired or was taken by another holder
+   * @throws {CacheValidationError} If the TTL is invalid
+   */
+  async extend(ttl: number = this.ttl): Promise<CacheLockResult> {
+    const result = await this.provider.extendLock({ key: this.lockKey, token: this.token, ttl });
+
+    if (!result.success) {
+      this.logger.error('Basepack Cache: Lock extend failed', { key: this.key, error: result.error });
+    } else if (result.owned) {
+      this.logger.debug('Basepack Cache: Lock extended', { key: this.key, ttl });
+    } else {
+      this.logger.warn('Basepack Cache: Lock lost before extend', { key: this.key });
+    }
+
+    return result;
+  }
+
+  /**
+   * Release the lock, if it is still held
+   *
+   * @returns Lock result; `owned` is false if the lock had already expired, been released or been taken
+   */
+  async release(): Promise<CacheLockResult> {
+    const result = await this.provider.releaseLock({ key: this.lockKey, token: this.token });
+
+    if (!result.success) {
+      this.logger.error('Basepack Cache: Lock release failed', { key: this.key, error: result.error });
+    } else if (result.owned) {
+      this.logger.debug('Basepack Cache: Lock released', { key: this.key });
+    } else {
+      this.logger.warn('Basepack Cache: Lock lost before release', { key: this.key });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Cache-aside function memoization
+ * @module cache/memoize
+ */
+
+import { createHash } from 'crypto';
+import type { CacheDeleteResult } from './types';
+import type { CacheService } from './service';
+import { CacheValidationError, isCacheError } from './errors';
+import { validateCacheKey, validateTTL } from './validation';
+
+/**
+ * Memoization options
+ */
+export interface MemoizeOptions<A extends unknown[]> {
+  /** Cache service holding the results, or a function returning it on first use */
+  cache: CacheService | (() => CacheService);
+  /** Time to live in seconds for cached results (optional, provider default if not specified) */
+  ttl?: number;
+  /** Prefix for the cache keys of this function (default: 'memoize:' followed by the function name) */
+  namespace?: string;
+  /** Build the key suffix from the arguments (default: a hash of the arguments) */
+  keyFn?: (...args: A) => string;
+}
+
+/**
+ * Memoized function
+ *
+ * Calls the original function on a cache miss and caches its result. Adds
+ * `key()` and `invalidate()` for the same arguments.
+ */
+export interface MemoizedFunction<A extends unknown[], R> {
+  (...args: A): Promise<R>;
+  /**
+   * Cache key used for a call
+   *
+   * @param args - Call arguments
+   * @returns Full cache key
+   */
+  key(...args: A): string;
+  /**
+   * Remove the cached result of a call
+   *
+   * @param args - Call arguments
+   * @returns Delete result
+   */
+  invalidate(...args: A): Promise<CacheDeleteResult>;
+}
+
+/**
+ * Serialize a value so that equal values always produce the same string
+ *
+ * Object keys are sorted, Map entries and Set members are sorted by their
+ * serialized form, and Dates, Buffers and BigInts are tagged so they do not
+ * collide with strings or numbers.
+ *
+ * @param value - Value to serialize
+ * @param seen - Objects on the current path, to detect cycles
+ * @returns Deterministic string form of the value
+ * @throws {CacheValidationError} If the value contains a function, a symbol or a cycle
+ */
+function stableSerialize(value: unknown, seen: Set<object> = new Set()): string {
+  switch (typeof value) {
+    case 'undefined':
+      return 'undefined';
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+    case 'boolean':
+      return String(value);
+    case 'bigint':
+      return `${value}n`;
+    case 'function':
+    case 'symbol':
+      throw new CacheValidationError(`Cannot serialize memoized argument of type ${typeof value}`, 'args');
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return `Date(${value.getTime()})`;
+  }
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+    return `Buffer(${Buffer.from(value).toString('base64')})`;
+  }
+
+  const object = value as object;
+  if (seen.has(object)) {
+    throw new CacheValidationError('Cannot serialize circular memoized argument', 'args');
+  }
+  seen.add(object);
+
+  let serialized: string;
+  if (Array.isArray(object)) {
+    serialized = `[${object.map(item => stableSerialize(item, seen)).join(',')}]`;
+  } else if (object instanceof Map) {
+    const entries = [...object].map(([key, item]) => `${stableSerialize(key, seen)}=>${stableSerialize(item, seen)}`);
+    serialized = `Map{${entries.sort().join(',')}}`;
+  } else if (object instanceof Set) {
+    serialized = `Set[${[...object].map(item => stableSerialize(item, seen)).sort().join(',')}]`;
+  } else {
+    const entries = Object.keys(object)
+      .filter(key => (object as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableSerialize((object as Record<string, unknown>)[key], seen)}`);
+    serialized = `{${entries.join(',')}}`;
+  }
+
+  seen.delete(object);
+  return serialized;
+}
+
+/**
+ * Memoize a function with cache-aside caching
+ *
+ * Results are read with `CacheService.get` and stored with `CacheService.set`
+ * under `<namespace>:<key>`, where the key is `keyFn(...args)` or a SHA-256
+ * hash of the arguments serialized deterministically (object key order does
+ * not matter). Concurrent calls with the same key in this process share one
+ * call to `fn`.
+ *
+ * If the cache is unavailable, `fn` is called and its result returned as
+ * usual. Errors thrown by `fn` are not cached, and neither are `undefined`
+ * results.
+ *
+ * @param fn - Function to memoize; `this` is passed through
+ * @param options - Memoization options
+ * @returns Memoized function with `key()` and `invalidate()`
+ * @throws {CacheValidationError} If the options are invalid or `fn` is anonymous without a namespace
+ *
+ * @example
+ * ```typescript
+ * const getUser = memoize(
+ *   async (id: string) => db.users.findById(id),
+ *   { cache, ttl: 300, namespace: 'users' }
+ * );
+ *
+ * const user = await getUser('123'); // Loads and caches
+ * await getUser('123'); // Served from cache
+ * await getUser.invalidate('123'); // Next call loads again
+ * ```
+ *
+ * @example Custom keys
+ * ```typescript
+ * const search = memoize(searchProducts, {
+ *   cache,
+ *   ttl: 60,
+ *   keyFn: (query: SearchQuery) => `${query.term}:${query.page}`
+ * });
+ * ```
+ */
+export function memoize<A extends unknown[], R>(
+  fn: (...args: A) => R | Promise<R>,
+  options: MemoizeOptions<A>
+): MemoizedFunction<A, R> {
+  const namespace = options.namespace ?? (fn.name ? `memoize:${fn.name}` : undefined);
+  if (!namespace) {
+    throw new CacheValidationError('Memoize namespace is required for anonymous functions', 'namespace');
+  }
+  validateCacheKey(namespace, 'namespace');
+
+  if (options.ttl !== undefined) {
+    validateTTL(options.ttl);
+  }
+
+  const pending = new Map<string, Promise<R>>();
+  const resolveCache = (): CacheService =>
+    typeof options.cache === 'function' ? options.cache() : options.cache;
+
+  const key = (...args: A): string => {
+    const suffix = options.keyFn
+      ? options.keyFn(...args)
+      : createHash('sha256').update(stableSerialize(args)).digest('hex');
+    const fullKey = `${namespace}:${suffix}`;
+    validateCacheKey(fullKey, 'key');
+    return fullKey;
+  };
+
+  const load = async (thisArg: unknown, fullKey: string, args: A): Promise<R> => {
+    const cache = resolveCache();
+
+    try {
+      const cached = await cache.get<R>({ key: fullKey });
+      if (cached.success && cached.found) {
+        return cached.value as R;
+      }
+    } catch (error) {
+      // The cache service has logged the failure; fall back to calling fn
+      if (!isCacheError(error)) {
+        throw error;
+      }
+    }
+
+    const value = await fn.apply(thisArg, args);
+
+    if (value !== undefined) {
+      try {
+        await cache.set({ key: fullKey, value, ttl: options.ttl });
+      } catch (error) {
+        if (!isCacheError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    return value;
+  };
+
+  const memoized = function (this: unknown, ...args: A): Promise<R> {
+    const fullKey = key(...args);
+
+    const existing = pending.get(fullKey);
+    if (existing) {
+      return existing;
+    }
+
+    const promise = load(this, fullKey, args).finally(() => pending.delete(fullKey));
+    pending.set(fullKey, promise);
+    return promise;
+  } as MemoizedFunction<A, R>;
+
+  memoized.key = key;
+  memoized.invalidate = (...args: A) => resolveCache().delete({ key: key(...args) });
+
+  return memoized;
+}
+
+/**
+ * Method decorator that memoizes a class method with cache-aside caching
+ *
+ * Uses standard (TC39) decorators, available since TypeScript 5.0 without
+ * `experimentalDecorators`. `namespace` is required: method decorators cannot
+ * see the class name, and a method name alone would collide across classes.
+ * Results are shared across instances, since `this` is not part of the key.
+ *
+ * The decorated method is a `MemoizedFunction`, so a call can be invalidated
+ * through it.
+ *
+ * @param options - Memoization options, including the namespace
+ * @returns Method decorator
+ * @throws {CacheValidationError} If the namespace is missing or invalid
+ *
+ * @example
+ * ```typescript
+ * class UserService {
+ *   @Memoize({ cache: () => cache, ttl: 300, namespace: 'users' })
+ *   async getUser(id: string): Promise<User> {
+ *     return db.users.findById(id);
+ *   }
+ * }
+ *
+ * const service = new UserService();
+ * await service.getUser('123');
+ * await (service.getUser as MemoizedFunction<[string], User>).invalidate('123');
+ * ```
+ */
+export function Memoize<A extends unknown[]>(options: MemoizeOptions<A> & { namespace: string }) {
+  validateCacheKey(options.namespace, 'namespace');
+
+  return function <This, R>(
+    method: (this: This, ...args: A) => Promise<R>,
+    _context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => Promise<R>>
+  ): (this: This, ...args: A) => Promise<R> {
+    return memoize(method, options);
+  };
+}
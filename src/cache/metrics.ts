@@ -0,0 +1,675 @@
+/**
+ * Cache metrics
+ * @module cache/metrics
+ */
+
+import { performance } from 'perf_hooks';
+import type {
+  ICacheProvider,
+  CacheProvider,
+  CacheMetricsConfig,
+  CacheOperationEvent,
+  CacheStats,
+  CacheProviderStats,
+  CacheLatencyStats,
+  CacheSetConfig,
+  CacheGetConfig,
+  CacheDeleteConfig,
+  CacheHasConfig,
+  CacheGetResult,
+  CacheSetResult,
+  CacheAddResult,
+  CacheDeleteResult,
+  CacheHasResult,
+  CacheClearResult,
+  CacheHealthInfo,
+  CacheGetManyConfig,
+  CacheSetManyConfig,
+  CacheDeleteManyConfig,
+  CacheIncrementConfig,
+  CacheIncrementResult,
+  CacheCompareAndSetConfig,
+  CacheCompareAndSetResult,
+  CacheInvalidateTagsResult,
+  CacheExtendLockConfig,
+  CacheReleaseLockConfig,
+  CacheLockResult,
+  CacheRateLimitConfig,
+  CacheRateLimitResult,
+  CacheKeysConfig,
+  CacheScanResult,
+  CacheTtlConfig,
+  CacheExpireConfig,
+  CacheTouchConfig,
+  CacheTtlResult,
+  CacheExpireResult,
+  CacheHashGetConfig,
+  CacheHashSetConfig,
+  CacheListPushConfig,
+  CacheListPopConfig,
+  CacheListRangeConfig,
+  CacheSetAddConfig,
+  CacheSetMembersConfig,
+  CacheSortedSetAddConfig,
+  CacheSortedSetRangeConfig,
+  CacheHashGetResult,
+  CacheCollectionWriteResult,
+  CacheListResult,
+  CacheSetMembersResult,
+  CacheSortedSetRangeResult,
+  CachePublishConfig,
+  CachePublishResult,
+  CacheSubscribeConfig,
+  CacheSubscription,
+} from './types';
+import type { Logger } from '../logger';
+import { CacheValidationError } from './errors';
+
+/**
+ * Fields every provider result carries
+ */
+interface OperationResult {
+  success: boolean;
+  provider: CacheProvider;
+  error?: string;
+}
+
+/**
+ * Counters and recent latency samples for one operation on one provider
+ */
+interface OperationSeries {
+  calls: number;
+  hits: number;
+  misses: number;
+  errors: number;
+  samples: number[];
+  /** Index of the oldest sample once `samples` is full */
+  next: number;
+}
+
+/**
+ * Get a percentile from sorted samples using the nearest-rank method
+ *
+ * @param sorted - Samples in ascending order
+ * @param percentile - Percentile between 0 and 100
+ * @returns Sample at the percentile
+ */
+function percentileOf(sorted: number[], percentile: number): number {
+  return sorted[Math.max(Math.ceil((percentile / 100) * sorted.length) - 1, 0)];
+}
+
+/**
+ * Summarize latency samples
+ *
+ * @param samples - Latency samples in milliseconds
+ * @returns Latency distribution, all zeros without samples
+ */
+function toLatencyStats(samples: number[]): CacheLatencyStats {
+  if (samples.length === 0) {
+    return { count: 0, min: 0, max: 0, mean: 0, p50: 0, p90: 0, p95: 0, p99: 0 };
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, sample) => sum + sample, 0) / sorted.length,
+    p50: percentileOf(sorted, 50),
+    p90: percentileOf(sorted, 90),
+    p95: percentileOf(sorted, 95),
+    p99: percentileOf(sorted, 99),
+  };
+}
+
+/**
+ * Combine operation series into provider stats
+ *
+ * @param series - Series mapped by operation, possibly several per operation
+ * @returns Provider stats with per-operation counters and latency
+ */
+function toProviderStats(series: Array<[string, OperationSeries]>): CacheProviderStats {
+  const totals = new Map<string, { calls: number; hits: number; misses: number; errors: number; samples: number[] }>();
+
+  for (const [operation, entry] of series) {
+    const total = totals.get(operation) ?? { calls: 0, hits: 0, misses: 0, errors: 0, samples: [] };
+    total.calls += entry.calls;
+    total.hits += entry.hits;
+    total.misses += entry.misses;
+    total.errors += entry.errors;
+    total.samples.push(...entry.samples);
+    totals.set(operation, total);
+  }
+
+  const stats: CacheProviderStats = { calls: 0, hits: 0, misses: 0, errors: 0, hitRate: 0, operations: {} };
+  for (const [operation, { samples, ...counters }] of totals) {
+    stats.operations[operation] = { ...counters, latency: toLatencyStats(samples) };
+    stats.calls += counters.calls;
+    stats.hits += counters.hits;
+    stats.misses += counters.misses;
+    stats.errors += counters.errors;
+  }
+
+  const reads = stats.hits + stats.misses;
+  stats.hitRate = reads > 0 ? stats.hits / reads : 0;
+  return stats;
+}
+
+/**
+ * Cache metrics collector
+ *
+ * Counts calls, hits, misses and errors per operation and provider, and keeps
+ * the most recent latency samples of each for percentiles. Every recorded
+ * operation is also passed to `onOperation`, so it can be forwarded to
+ * Prometheus, StatsD or another metrics backend.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new CacheMetrics({ maxSamples: 500 });
+ * const provider = new MetricsCacheProvider(new RedisProvider(), metrics);
+ *
+ * await provider.get({ key: 'user:123' });
+ * console.log(metrics.stats().hitRate);
+ * ```
+ */
+export class CacheMetrics {
+  private readonly maxSamples: number;
+  private readonly onOperation?: (event: CacheOperationEvent) => void;
+  private readonly logger: Logger;
+  private series = new Map<CacheProvider, Map<string, OperationSeries>>();
+  private since = new Date();
+
+  /**
+   * Creates a new CacheMetrics instance
+   *
+   * @param options - Metrics options
+   * @param logger - Optional logger for debugging and monitoring
+   * @throws {CacheValidationError} If maxSamples is not a positive integer
+   */
+  constructor(options: CacheMetricsConfig = {}, logger: Logger = console) {
+    this.maxSamples = options.maxSamples ?? 1000;
+    this.onOperation = options.onOperation;
+    this.logger = logger;
+
+    if (!Number.isInteger(this.maxSamples) || this.maxSamples <= 0) {
+      throw new CacheValidationError('Metrics maxSamples must be a positive integer', 'maxSamples');
+    }
+  }
+
+  /**
+   * Record an operation and pass it to the `onOperation` hook
+   *
+   * Errors thrown by the hook are logged and never reach the cache operation.
+   *
+   * @param event - Operation to record
+   */
+  record(event: CacheOperationEvent): void {
+    let operations = this.series.get(event.provider);
+    if (!operations) {
+      operations = new Map();
+      this.series.set(event.provider, operations);
+    }
+
+    let entry = operations.get(event.operation);
+    if (!entry) {
+      entry = { calls: 0, hits: 0, misses: 0, errors: 0, samples: [], next: 0 };
+      operations.set(event.operation, entry);
+    }
+
+    entry.calls++;
+    entry.hits += event.hits ?? 0;
+    entry.misses += event.misses ?? 0;
+    if (!event.success) {
+      entry.errors++;
+    }
+
+    if (entry.samples.length < this.maxSamples) {
+      entry.samples.push(event.duration);
+    } else {
+      entry.samples[entry.next] = event.duration;
+      entry.next = (entry.next + 1) % this.maxSamples;
+    }
+
+    if (!this.onOperation) {
+      return;
+    }
+
+    try {
+      this.onOperation(event);
+    } catch (error) {
+      this.logger.warn('Basepack Cache: Metrics hook failed', { operation: event.operation, error });
+    }
+  }
+
+  /**
+   * Get collected metrics
+   *
+   * @returns Counters and latency percentiles overall, per operation and per provider
+   */
+  stats(): CacheStats {
+    const all: Array<[string, OperationSeries]> = [];
+    const providers: CacheStats['providers'] = {};
+
+    for (const [provider, operations] of this.series) {
+      const entries = [...operations];
+      providers[provider] = toProviderStats(entries);
+      all.push(...entries);
+    }
+
+    return { ...toProviderStats(all), providers, since: this.since };
+  }
+
+  /**
+   * Discard collected metrics and start counting again
+   */
+  reset(): void {
+    this.series = new Map();
+    this.since = new Date();
+  }
+}
+
+/**
+ * Cache provider that records metrics for another provider
+ *
+ * Each operation is attributed to the provider named in its result, so hits
+ * served by a local tier or a failover backup are counted against that
+ * provider. `get` and `getMany` record hits and misses; any unsuccessful or
+ * thrown operation counts as an error. `health()` and `close()` are not
+ * recorded.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new CacheMetrics({ onOperation: event => statsd.timing(event.operation, event.duration) });
+ * const provider = new MetricsCacheProvider(new RedisProvider({ host: 'localhost' }), metrics);
+ * ```
+ */
+export class MetricsCacheProvider implements ICacheProvider {
+  /**
+   * Creates a new MetricsCacheProvider instance
+   *
+   * @param provider - Provider to record metrics for
+   * @param metrics - Collector receiving the metrics
+   */
+  constructor(
+    private readonly provider: ICacheProvider,
+    private readonly metrics: CacheMetrics
+  ) {}
+
+  /**
+   * Provider name of the wrapped provider
+   */
+  get name() {
+    return this.provider.name;
+  }
+
+  /**
+   * Run an operation and record its outcome and latency
+   *
+   * @param operation - Operation name
+   * @param fn - Operation to run
+   * @returns Result of the operation
+   */
+  private async measure<R extends OperationResult | OperationResult[]>(
+    operation: string,
+    fn: () => Promise<R>
+  ): Promise<R> {
+    const start = performance.now();
+
+    try {
+      const result = await fn();
+      const results: OperationResult[] = Array.isArray(result) ? result : [result];
+      const failed = results.find(entry => !entry.success);
+      const reads = operation === 'get' || operation === 'getMany'
+        ? (results as CacheGetResult[]).filter(entry => entry.success)
+        : undefined;
+
+      this.metrics.record({
+        operation,
+        provider: results[0]?.provider ?? this.provider.name,
+        duration: performance.now() - start,
+        success: !failed,
+        hits: reads?.filter(entry => entry.found).length,
+        misses: reads?.filter(entry => !entry.found).length,
+        error: failed?.error,
+        timestamp: new Date(),
+      });
+
+      return result;
+    } catch (error) {
+      this.metrics.record({
+        operation,
+        provider: this.provider.name,
+        duration: performance.now() - start,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date(),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a value, recording a hit or miss
+   *
+   * @param config - Get configuration
+   * @returns Get result
+   */
+  async get<T = any>(config: CacheGetConfig): Promise<CacheGetResult<T>> {
+    return this.measure('get', () => this.provider.get<T>(config));
+  }
+
+  /**
+   * Set a value
+   *
+   * @param config - Set configuration
+   * @returns Set result
+   */
+  async set(config: CacheSetConfig): Promise<CacheSetResult> {
+    return this.measure('set', () => this.provider.set(config));
+  }
+
+  /**
+   * Add a value if the key does not exist
+   *
+   * @param config - Set configuration
+   * @returns Add result
+   */
+  async add(config: CacheSetConfig): Promise<CacheAddResult> {
+    return this.measure('add', () => this.provider.add(config));
+  }
+
+  /**
+   * Delete a value
+   *
+   * @param config - Delete configuration
+   * @returns Delete result
+   */
+  async delete(config: CacheDeleteConfig): Promise<CacheDeleteResult> {
+    return this.measure('delete', () => this.provider.delete(config));
+  }
+
+  /**
+   * Check if a key exists
+   *
+   * @param config - Has configuration
+   * @returns Has result
+   */
+  async has(config: CacheHasConfig): Promise<CacheHasResult> {
+    return this.measure('has', () => this.provider.has(config));
+  }
+
+  /**
+   * Get the remaining time to live of a key
+   *
+   * @param config - TTL configuration
+   * @returns TTL result
+   */
+  async ttl(config: CacheTtlConfig): Promise<CacheTtlResult> {
+    return this.measure('ttl', () => this.provider.ttl(config));
+  }
+
+  /**
+   * Set a new time to live on an existing key
+   *
+   * @param config - Expire configuration
+   * @returns Expire result
+   */
+  async expire(config: CacheExpireConfig): Promise<CacheExpireResult> {
+    return this.measure('expire', () => this.provider.expire(config));
+  }
+
+  /**
+   * Refresh the time to live of an existing key
+   *
+   * @param config - Touch configuration
+   * @returns Expire result
+   */
+  async touch(config: CacheTouchConfig): Promise<CacheExpireResult> {
+    return this.measure('touch', () => this.provider.touch(config));
+  }
+
+  /**
+   * Get multiple values, recording a hit or miss per key
+   *
+   * @param config - Get many configuration
+   * @returns Get results in the same order as the keys
+   */
+  async getMany<T = any>(config: CacheGetManyConfig): Promise<CacheGetResult<T>[]> {
+    return this.measure('getMany', () => this.provider.getMany<T>(config));
+  }
+
+  /**
+   * Set multiple values
+   *
+   * @param config - Set many configuration
+   * @returns Set results in the same order as the entries
+   */
+  async setMany(config: CacheSetManyConfig): Promise<CacheSetResult[]> {
+    return this.measure('setMany', () => this.provider.setMany(config));
+  }
+
+  /**
+   * Delete multiple values
+   *
+   * @param config - Delete many configuration
+   * @returns Delete results in the same order as the keys
+   */
+  async deleteMany(config: CacheDeleteManyConfig): Promise<CacheDeleteResult[]> {
+    return this.measure('deleteMany', () => this.provider.deleteMany(config));
+  }
+
+  /**
+   * Increment a counter
+   *
+   * @param config - Increment configuration
+   * @returns Increment result
+   */
+  async increment(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    return this.measure('increment', () => this.provider.increment(config));
+  }
+
+  /**
+   * Decrement a counter
+   *
+   * @param config - Decrement configuration
+   * @returns Increment result
+   */
+  async decrement(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    return this.measure('decrement', () => this.provider.decrement(config));
+  }
+
+  /**
+   * Replace a value only if it matches the expected value
+   *
+   * @param config - Compare-and-set configuration
+   * @returns Compare-and-set result
+   */
+  async compareAndSet(config: CacheCompareAndSetConfig): Promise<CacheCompareAndSetResult> {
+    return this.measure('compareAndSet', () => this.provider.compareAndSet(config));
+  }
+
+  /**
+   * Remove every value stored with any of the given tags
+   *
+   * @param tags - Tags to invalidate
+   * @returns Invalidation result
+   */
+  async invalidateTags(tags: string[]): Promise<CacheInvalidateTagsResult> {
+    return this.measure('invalidateTags', () => this.provider.invalidateTags(tags));
+  }
+
+  /**
+   * Extend a lock only if it is still held with the given token
+   *
+   * @param config - Extend configuration
+   * @returns Lock result
+   */
+  async extendLock(config: CacheExtendLockConfig): Promise<CacheLockResult> {
+    return this.measure('extendLock', () => this.provider.extendLock(config));
+  }
+
+  /**
+   * Release a lock only if it is still held with the given token
+   *
+   * @param config - Release configuration
+   * @returns Lock result
+   */
+  async releaseLock(config: CacheReleaseLockConfig): Promise<CacheLockResult> {
+    return this.measure('releaseLock', () => this.provider.releaseLock(config));
+  }
+
+  /**
+   * Consume quota from a rate limit
+   *
+   * @param config - Rate limit configuration
+   * @returns Rate limit result
+   */
+  async rateLimit(config: CacheRateLimitConfig): Promise<CacheRateLimitResult> {
+    return this.measure('rateLimit', () => this.provider.rateLimit(config));
+  }
+
+  /**
+   * Fetch one page of keys matching a pattern
+   *
+   * @param config - Scan configuration
+   * @returns Scan result
+   */
+  async scan(config: CacheKeysConfig): Promise<CacheScanResult> {
+    return this.measure('scan', () => this.provider.scan(config));
+  }
+
+  /**
+   * Read fields of a hash
+   *
+   * @param config - Hash get configuration
+   * @returns Hash result
+   */
+  async hashGet<T = any>(config: CacheHashGetConfig): Promise<CacheHashGetResult<T>> {
+    return this.measure('hashGet', () => this.provider.hashGet<T>(config));
+  }
+
+  /**
+   * Write fields of a hash
+   *
+   * @param config - Hash set configuration
+   * @returns Write result
+   */
+  async hashSet(config: CacheHashSetConfig): Promise<CacheCollectionWriteResult> {
+    return this.measure('hashSet', () => this.provider.hashSet(config));
+  }
+
+  /**
+   * Push values onto a list
+   *
+   * @param config - List push configuration
+   * @returns Write result
+   */
+  async listPush(config: CacheListPushConfig): Promise<CacheCollectionWriteResult> {
+    return this.measure('listPush', () => this.provider.listPush(config));
+  }
+
+  /**
+   * Pop values from a list
+   *
+   * @param config - List pop configuration
+   * @returns List result
+   */
+  async listPop<T = any>(config: CacheListPopConfig): Promise<CacheListResult<T>> {
+    return this.measure('listPop', () => this.provider.listPop<T>(config));
+  }
+
+  /**
+   * Read a range of a list
+   *
+   * @param config - List range configuration
+   * @returns List result
+   */
+  async listRange<T = any>(config: CacheListRangeConfig): Promise<CacheListResult<T>> {
+    return this.measure('listRange', () => this.provider.listRange<T>(config));
+  }
+
+  /**
+   * Add members to a set
+   *
+   * @param config - Set add configuration
+   * @returns Write result
+   */
+  async setAdd(config: CacheSetAddConfig): Promise<CacheCollectionWriteResult> {
+    return this.measure('setAdd', () => this.provider.setAdd(config));
+  }
+
+  /**
+   * Read the members of a set
+   *
+   * @param config - Set members configuration
+   * @returns Set result
+   */
+  async setMembers(config: CacheSetMembersConfig): Promise<CacheSetMembersResult> {
+    return this.measure('setMembers', () => this.provider.setMembers(config));
+  }
+
+  /**
+   * Add members to a sorted set
+   *
+   * @param config - Sorted set add configuration
+   * @returns Write result
+   */
+  async sortedSetAdd(config: CacheSortedSetAddConfig): Promise<CacheCollectionWriteResult> {
+    return this.measure('sortedSetAdd', () => this.provider.sortedSetAdd(config));
+  }
+
+  /**
+   * Read members of a sorted set by score
+   *
+   * @param config - Sorted set range configuration
+   * @returns Sorted set result
+   */
+  async sortedSetRange(config: CacheSortedSetRangeConfig): Promise<CacheSortedSetRangeResult> {
+    return this.measure('sortedSetRange', () => this.provider.sortedSetRange(config));
+  }
+
+  /**
+   * Publish a message on a channel
+   *
+   * @param config - Publish configuration
+   * @returns Publish result
+   */
+  async publish(config: CachePublishConfig): Promise<CachePublishResult> {
+    return this.measure('publish', () => this.provider.publish(config));
+  }
+
+  /**
+   * Subscribe to a channel (not recorded)
+   *
+   * @param config - Subscribe configuration
+   * @returns Subscription handle
+   */
+  async subscribe(config: CacheSubscribeConfig): Promise<CacheSubscription> {
+    return this.provider.subscribe(config);
+  }
+
+  /**
+   * Clear all values
+   *
+   * @returns Clear result
+   */
+  async clear(): Promise<CacheClearResult> {
+    return this.measure('clear', () => this.provider.clear());
+  }
+
+  /**
+   * Check health of the wrapped provider (not recorded)
+   *
+   * @returns Health information
+   */
+  async health(): Promise<CacheHealthInfo> {
+    return this.provider.health();
+  }
+
+  /**
+   * Close the wrapped provider
+   */
+  async close(): Promise<void> {
+    return this.provider.close();
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Namespaced view of a cache service
+ * @module cache/namespace
+ */
+
+import { randomBytes } from 'crypto';
+import type {
+  CacheGetConfig,
+  CacheSetConfig,
+  CacheDeleteConfig,
+  CacheHasConfig,
+  CacheGetManyConfig,
+  CacheSetManyConfig,
+  CacheDeleteManyConfig,
+  CacheIncrementConfig,
+  CacheCompareAndSetConfig,
+  CacheGetOrSetConfig,
+  CacheTtlConfig,
+  CacheExpireConfig,
+  CacheTouchConfig,
+  CacheGetResult,
+  CacheSetResult,
+  CacheDeleteResult,
+  CacheHasResult,
+  CacheIncrementResult,
+  CacheCompareAndSetResult,
+  CacheGetOrSetResult,
+  CacheTtlResult,
+  CacheExpireResult,
+  CacheClearResult,
+} from './types';
+import { CacheProvider } from './types';
+import type { CacheService } from './service';
+import { CacheValidationError } from './errors';
+import { validateCacheKey, validateTTL } from './validation';
+
+/**
+ * Default time in seconds a versioned namespace keeps its version in memory
+ */
+const DEFAULT_VERSION_TTL = 5;
+
+/**
+ * Namespace options
+ */
+export interface CacheNamespaceOptions {
+  /** Time to live in seconds for writes without their own TTL (default: provider default) */
+  defaultTtl?: number;
+  /**
+   * Clear by switching to a new key version instead of deleting keys
+   * (default: true for Memcached, which cannot enumerate keys, false otherwise)
+   */
+  versioned?: boolean;
+  /**
+   * Time in seconds a versioned namespace keeps its version in memory before
+   * reading it again (default: 5). A `clear()` from another process is seen
+   * within this time
+   */
+  versionTtl?: number;
+}
+
+/**
+ * Escape glob special characters so a name matches literally in a pattern
+ *
+ * @param value - Literal text
+ * @returns Text with `*`, `?`, `[`, `]` and `\` escaped
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Namespaced view of a `CacheService`
+ *
+ * Returned by `CacheService.namespace()`. Keys are stored as
+ * `<name>:<key>` through the service's provider, so every namespace shares
+ * one connection. Results report the key without the namespace. Names cannot
+ * contain `:`, so one namespace never holds another's keys.
+ *
+ * `clear()` only removes the namespace's keys:
+ *
+ * - By default it deletes every key matching `<name>:*` (Redis and Memory)
+ * - Versioned namespaces store keys as `<name>:<version>:<key>` and clear by
+ *   switching to a new random version, so older keys become unreachable and
+ *   expire on their own. The version is kept under `<name>:__version` and
+ *   cached in memory for `versionTtl` seconds, so other processes pick up a
+ *   clear within that time. Memcached namespaces are versioned by default
+ *
+ * @example
+ * ```typescript
+ * const sessions = cache.namespace('sessions', { defaultTtl: 1800 });
+ *
+ * await sessions.set({ key: 'abc123', value: { userId: 42 } }); // Stored as sessions:abc123 for 30 minutes
+ * const session = await sessions.get({ key: 'abc123' });
+ *
+ * await sessions.clear(); // Other namespaces keep their keys
+ * ```
+ */
+export class CacheNamespace {
+  private readonly defaultTtl?: number;
+  private readonly versioned: boolean;
+  private readonly versionKey: string;
+  private readonly versionTtl: number;
+  private version?: { value: string; expiresAt: number };
+
+  /**
+   * Creates a new CacheNamespace instance
+   *
+   * @param cache - Cache service holding the keys
+   * @param name - Namespace name, used as the key prefix
+   * @param options - Namespace options
+   * @throws {CacheValidationError} If the name, default TTL or version TTL is invalid
+   */
+  constructor(
+    private readonly cache: CacheService,
+    readonly name: string,
+    options: CacheNamespaceOptions = {}
+  ) {
+    validateCacheKey(name, 'namespace');
+    if (name.includes(':')) {
+      throw new CacheValidationError('Namespace name cannot contain ":"', 'namespace');
+    }
+    if (options.defaultTtl !== undefined) {
+      validateTTL(options.defaultTtl, 'defaultTtl');
+    }
+    if (options.versionTtl !== undefined) {
+      validateTTL(options.versionTtl, 'versionTtl');
+    }
+
+    this.defaultTtl = options.defaultTtl;
+    this.versioned = options.versioned ?? cache.getProviderName() === CacheProvider.MEMCACHED;
+    this.versionKey = `${name}:__version`;
+    this.versionTtl = options.versionTtl ?? DEFAULT_VERSION_TTL;
+  }
+
+  /**
+   * Remember the current version for `versionTtl` seconds
+   *
+   * @param value - Version read or written
+   */
+  private cacheVersion(value: string): void {
+    this.version = { value, expiresAt: Date.now() + this.versionTtl * 1000 };
+  }
+
+  /**
+   * Resolve the prefix of the namespace's keys
+   *
+   * @returns `<name>:` or, for versioned namespaces, `<name>:<version>:`
+   */
+  private async prefix(): Promise<string> {
+    if (!this.versioned) {
+      return `${this.name}:`;
+    }
+
+    if (this.version && this.version.expiresAt > Date.now()) {
+      return `${this.name}:${this.version.value}:`;
+    }
+
+    const version = await this.cache.getOrSet<string>({
+      key: this.versionKey,
+      loader: () => randomBytes(4).toString('hex'),
+    });
+    if (version.success) {
+      this.cacheVersion(version.value);
+    }
+    return `${this.name}:${version.value}:`;
+  }
+
+  /**
+   * Validate keys and add the namespace prefix
+   *
+   * @param keys - Keys within the namespace
+   * @returns Full keys, in the same order
+   * @throws {CacheValidationError} If a key is invalid
+   */
+  private async resolve(keys: string[]): Promise<string[]> {
+    keys.forEach(key => validateCacheKey(key, 'key'));
+    const prefix = await this.prefix();
+    return keys.map(key => `${prefix}${key}`);
+  }
+
+  /**
+   * Get a value
+   *
+   * @param config - Get configuration
+   * @returns Get result
+   */
+  async get<T = any>(config: CacheGetConfig): Promise<CacheGetResult<T>> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.get<T>({ ...config, key })), key: config.key };
+  }
+
+  /**
+   * Set a value, using the default TTL if none is given
+   *
+   * @param config - Set configuration
+   * @returns Set result
+   */
+  async set(config: CacheSetConfig): Promise<CacheSetResult> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.set({ ...config, key, ttl: config.ttl ?? this.defaultTtl })), key: config.key };
+  }
+
+  /**
+   * Get a value, loading and storing it on a miss
+   *
+   * @param config - Get-or-set configuration
+   * @returns Get-or-set result
+   */
+  async getOrSet<T = any>(config: CacheGetOrSetConfig<T>): Promise<CacheGetOrSetResult<T>> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.getOrSet<T>({ ...config, key, ttl: config.ttl ?? this.defaultTtl })), key: config.key };
+  }
+
+  /**
+   * Get multiple values
+   *
+   * @param config - Get-many configuration
+   * @returns Get results in the same order as the keys
+   */
+  async getMany<T = any>(config: CacheGetManyConfig): Promise<CacheGetResult<T>[]> {
+    const keys = await this.resolve(config.keys);
+    const results = await this.cache.getMany<T>({ keys });
+    return results.map((result, index) => ({ ...result, key: config.keys[index] }));
+  }
+
+  /**
+   * Set multiple values, using the default TTL for entries without one
+   *
+   * @param config - Set-many configuration
+   * @returns Set results in the same order as the entries
+   */
+  async setMany(config: CacheSetManyConfig): Promise<CacheSetResult[]> {
+    const keys = await this.resolve(config.entries.map(entry => entry.key));
+    const results = await this.cache.setMany({
+      entries: config.entries.map((entry, index) => ({ ...entry, key: keys[index] })),
+      ttl: config.ttl ?? this.defaultTtl,
+    });
+    return results.map((result, index) => ({ ...result, key: config.entries[index].key }));
+  }
+
+  /**
+   * Delete a value
+   *
+   * @param config - Delete configuration
+   * @returns Delete result
+   */
+  async delete(config: CacheDeleteConfig): Promise<CacheDeleteResult> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.delete({ key })), key: config.key };
+  }
+
+  /**
+   * Delete multiple values
+   *
+   * @param config - Delete-many configuration
+   * @returns Delete results in the same order as the keys
+   */
+  async deleteMany(config: CacheDeleteManyConfig): Promise<CacheDeleteResult[]> {
+    const keys = await this.resolve(config.keys);
+    const results = await this.cache.deleteMany({ keys });
+    return results.map((result, index) => ({ ...result, key: config.keys[index] }));
+  }
+
+  /**
+   * Check if a key exists
+   *
+   * @param config - Has configuration
+   * @returns Has result
+   */
+  async has(config: CacheHasConfig): Promise<CacheHasResult> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.has({ key })), key: config.key };
+  }
+
+  /**
+   * Increment a counter, using the default TTL when it is created
+   *
+   * @param config - Increment configuration
+   * @returns Increment result
+   */
+  async increment(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.increment({ ...config, key, ttl: config.ttl ?? this.defaultTtl })), key: config.key };
+  }
+
+  /**
+   * Decrement a counter, using the default TTL when it is created
+   *
+   * @param config - Decrement configuration
+   * @returns Decrement result
+   */
+  async decrement(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.decrement({ ...config, key, ttl: config.ttl ?? this.defaultTtl })), key: config.key };
+  }
+
+  /**
+   * Replace a value only if it currently equals the expected value
+   *
+   * @param config - Compare-and-set configuration
+   * @returns Compare-and-set result
+   */
+  async compareAndSet(config: CacheCompareAndSetConfig): Promise<CacheCompareAndSetResult> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.compareAndSet({ ...config, key, ttl: config.ttl ?? this.defaultTtl })), key: config.key };
+  }
+
+  /**
+   * Read the remaining time to live of a key
+   *
+   * @param config - TTL configuration
+   * @returns TTL result
+   */
+  async ttl(config: CacheTtlConfig): Promise<CacheTtlResult> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.ttl({ key })), key: config.key };
+  }
+
+  /**
+   * Set a new time to live on a key
+   *
+   * @param config - Expire configuration
+   * @returns Expire result
+   */
+  async expire(config: CacheExpireConfig): Promise<CacheExpireResult> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.expire({ ...config, key })), key: config.key };
+  }
+
+  /**
+   * Refresh a key, optionally with a new time to live
+   *
+   * @param config - Touch configuration
+   * @returns Expire result
+   */
+  async touch(config: CacheTouchConfig): Promise<CacheExpireResult> {
+    const [key] = await this.resolve([config.key]);
+    return { ...(await this.cache.touch({ ...config, key })), key: config.key };
+  }
+
+  /**
+   * Remove every key in the namespace
+   *
+   * Deletes the keys matching `<name>:*`, or switches a versioned namespace
+   * to a new version. Keys outside the namespace are never touched.
+   *
+   * @returns Clear result
+   * @throws {CacheNotSupportedError} If the namespace is not versioned and the provider cannot scan keys
+   */
+  async clear(): Promise<CacheClearResult> {
+    if (this.versioned) {
+      const version = randomBytes(4).toString('hex');
+      const result = await this.cache.set({ key: this.versionKey, value: version });
+      if (result.success) {
+        this.cacheVersion(version);
+      } else {
+        this.version = undefined;
+      }
+      return { success: result.success, provider: result.provider, timestamp: new Date(), error: result.error };
+    }
+
+    const result = await this.cache.deleteByPattern(`${escapeGlob(this.name)}:*`);
+    return { success: result.success, provider: result.provider, timestamp: new Date(), error: result.error };
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Cache-backed rate limiter
+ * @module cache/rate-limiter
+ */
+
+import type { CacheRateLimitAlgorithm, CacheRateLimitResult } from './types';
+import type { CacheService } from './service';
+
+/**
+ * Rate limiter options
+ */
+export interface RateLimiterOptions {
+  /** Rate limiting algorithm (default: 'fixed-window') */
+  algorithm?: CacheRateLimitAlgorithm;
+  /** Maximum requests per window, or bucket capacity for `token-bucket` */
+  limit: number;
+  /** Window length in seconds, or time to refill an empty bucket for `token-bucket` */
+  window: number;
+  /** Prefix for rate limit keys (default: 'ratelimit:') */
+  keyPrefix?: string;
+}
+
+/**
+ * Rate limiter shared across instances through a `CacheService`
+ *
+ * - `fixed-window`: at most `limit` requests per window
+ * - `sliding-window`: at most `limit` requests in any span of `window` seconds
+ *   (exact with Redis, a weighted two-window approximation with Memcached)
+ * - `token-bucket`: bursts of up to `limit` requests, refilled evenly over `window` seconds
+ *
+ * Rejected requests do not consume quota. If the cache fails, the result has
+ * `success: false` and `allowed: false`, so callers can choose to fail open by
+ * checking `success`.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter(cache, { algorithm: 'sliding-window', limit: 100, window: 60 });
+ *
+ * app.use(async (req, res, next) => {
+ *   const result = await limiter.consume(req.ip);
+ *   res.set(RateLimiter.headers(result));
+ *   if (result.success && !result.allowed) {
+ *     return res.status(429).send('Too Many Requests');
+ *   }
+ *   next();
+ * });
+ * ```
+ */
+export class RateLimiter {
+  private readonly algorithm: CacheRateLimitAlgorithm;
+  private readonly limit: number;
+  private readonly window: number;
+  private readonly keyPrefix: string;
+
+  /**
+   * Creates a new RateLimiter instance
+   *
+   * @param cache - Cache service holding the rate limit state
+   * @param options - Rate limiter options
+   */
+  constructor(
+    private readonly cache: CacheService,
+    options: RateLimiterOptions
+  ) {
+    this.algorithm = options.algorithm ?? 'fixed-window';
+    this.limit = options.limit;
+    this.window = options.window;
+    this.keyPrefix = options.keyPrefix ?? 'ratelimit:';
+  }
+
+  /**
+   * Consume quota for a caller
+   *
+   * @param key - Caller identifier, such as a user ID, API key or IP address
+   * @param cost - Quota consumed by this request (default: 1)
+   * @returns Rate limit result with the remaining quota and reset time
+   * @throws {CacheValidationError} If the key, cost or limiter options are invalid
+   */
+  async consume(key: string, cost: number = 1): Promise<CacheRateLimitResult> {
+    return this.cache.rateLimit({
+      key: `${this.keyPrefix}${key}`,
+      algorithm: this.algorithm,
+      limit: this.limit,
+      window: this.window,
+      cost,
+    });
+  }
+
+  /**
+   * Build HTTP rate limit headers for a result
+   *
+   * Sets `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset`
+   * (seconds until the full quota is available), plus `Retry-After` (seconds)
+   * when the request was rejected.
+   *
+   * @param result - Rate limit result
+   * @returns Header names mapped to values
+   */
+  static headers(result: CacheRateLimitResult): Record<string, string> {
+    const headers: Record<string, string> = {
+      'RateLimit-Limit': String(result.limit),
+      'RateLimit-Remaining': String(result.remaining),
+      'RateLimit-Reset': String(Math.max(Math.ceil((result.resetAt.getTime() - Date.now()) / 1000), 0)),
+    };
+
+    if (result.retryAfter !== undefined) {
+      headers['Retry-After'] = String(Math.ceil(result.retryAfter / 1000));
+    }
+
+    return headers;
+  }
+}
@@ -0,0 +1,744 @@
+/**
+ * Cache value serializers
+ * @module cache/serializers
+ */
+
+import { brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync } from 'zlib';
+import type { CacheSerializer } from './types';
+import { CacheValidationError } from './errors';
+
+/**
+ * First byte of MessagePack serializer output (0xc1 is never used by MessagePack)
+ */
+const MESSAGE_PACK_MARKER = 0xc1;
+
+/**
+ * First byte of compressed serializer output (JSON text never starts with it)
+ */
+const COMPRESSED_MARKER = 0x00;
+
+/**
+ * Compression algorithm identifiers stored after the compressed marker
+ */
+const COMPRESSION_ALGORITHMS = {
+  gzip: 0x01,
+  brotli: 0x02,
+} as const;
+
+/**
+ * MessagePack extension type for timestamps (defined by the MessagePack spec)
+ */
+const TIMESTAMP_EXT_TYPE = -1;
+
+/**
+ * MessagePack extension type for BigInt values
+ */
+const BIGINT_EXT_TYPE = 1;
+
+/**
+ * Key marking a JSON type envelope (namespaced so it does not collide with user data)
+ */
+const JSON_TYPE_KEY = '__basepack$type';
+
+/**
+ * Convert stored data to a string
+ *
+ * @param data - Stored data
+ * @returns UTF-8 string
+ */
+function toText(data: string | Buffer): string {
+  return typeof data === 'string' ? data : data.toString('utf8');
+}
+
+/**
+ * JSON serializer
+ *
+ * Stores values as JSON text. Dates, Buffers and BigInts are written as
+ * `{ "__basepack$type": ..., "value": ... }` objects and revived on read, so they come
+ * back with their original types. Strings are stored quoted, so a cached
+ * `'123'` is returned as a string rather than a number.
+ *
+ * Data that is not valid JSON (for example values written by older versions)
+ * is returned as a plain string.
+ *
+ * @example
+ * ```typescript
+ * const serializer = new JsonSerializer();
+ * const data = serializer.serialize({ createdAt: new Date() });
+ * const value = serializer.deserialize<{ createdAt: Date }>(data);
+ * value.createdAt instanceof Date; // true
+ * ```
+ */
+export class JsonSerializer implements CacheSerializer {
+  readonly name = 'json';
+
+  /**
+   * Serialize a value to JSON text
+   *
+   * @param value - Value to serialize
+   * @returns JSON text
+   */
+  serialize(value: any): string {
+    return JSON.stringify(value, function (this: any, key: string, current: any) {
+      // toJSON has already run on `current`, so inspect the original value
+      const original = this[key];
+
+      if (original instanceof Date) {
+        return { [JSON_TYPE_KEY]: 'Date', value: original.toISOString() };
+      }
+      if (Buffer.isBuffer(original)) {
+        return { [JSON_TYPE_KEY]: 'Buffer', value: original.toString('base64') };
+      }
+      if (typeof original === 'bigint') {
+        return { [JSON_TYPE_KEY]: 'BigInt', value: original.toString() };
+      }
+
+      return current;
+    });
+  }
+
+  /**
+   * Deserialize JSON text, reviving Dates, Buffers and BigInts
+   *
+   * @param data - Stored data
+   * @returns Parsed value, or the raw string if it is not JSON
+   */
+  deserialize<T = any>(data: string | Buffer): T {
+    const text = toText(data);
+
+    try {
+      return JSON.parse(text, (_key, value) => {
+        if (value === null || typeof value !== 'object' || typeof value[JSON_TYPE_KEY] !== 'string') {
+          return value;
+        }
+
+        switch (value[JSON_TYPE_KEY]) {
+          case 'Date':
+            return new Date(value.value);
+          case 'Buffer':
+            return Buffer.from(value.value, 'base64');
+          case 'BigInt':
+            return BigInt(value.value);
+          default:
+            return value;
+        }
+      });
+    } catch {
+      // If not JSON, return as is
+      return text as T;
+    }
+  }
+}
+
+/**
+ * MessagePack encoder state
+ */
+class MessagePackEncoder {
+  private readonly chunks: Buffer[] = [];
+
+  /**
+   * Get the encoded bytes
+   *
+   * @returns Encoded buffer
+   */
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+
+  /**
+   * Write raw bytes
+   *
+   * @param bytes - Bytes to write
+   */
+  private write(...bytes: number[]): void {
+    this.chunks.push(Buffer.from(bytes));
+  }
+
+  /**
+   * Write a type byte followed by an unsigned length of the given width
+   *
+   * @param type - Type byte
+   * @param length - Length to write
+   * @param width - Width of the length in bytes (1, 2 or 4)
+   */
+  private writeHeader(type: number, length: number, width: 1 | 2 | 4): void {
+    const buffer = Buffer.alloc(1 + width);
+    buffer[0] = type;
+    if (width === 1) {
+      buffer.writeUInt8(length, 1);
+    } else if (width === 2) {
+      buffer.writeUInt16BE(length, 1);
+    } else {
+      buffer.writeUInt32BE(length, 1);
+    }
+    this.chunks.push(buffer);
+  }
+
+  /**
+   * Encode a value
+   *
+   * Values JSON would drop (undefined, functions, symbols) are encoded as nil
+   * in arrays and skipped in maps.
+   *
+   * @param value - Value to encode
+   */
+  encode(value: any): void {
+    if (value === null || value === undefined || typeof value === 'function' || typeof value === 'symbol') {
+      this.write(0xc0);
+    } else if (typeof value === 'boolean') {
+      this.write(value ? 0xc3 : 0xc2);
+    } else if (typeof value === 'number') {
+      this.encodeNumber(value);
+    } else if (typeof value === 'bigint') {
+      this.encodeExt(BIGINT_EXT_TYPE, Buffer.from(value.toString(), 'utf8'));
+    } else if (typeof value === 'string') {
+      this.encodeString(value);
+    } else if (value instanceof Date) {
+      this.encodeDate(value);
+    } else if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+      this.encodeBinary(Buffer.from(value));
+    } else if (Array.isArray(value)) {
+      this.encodeArray(value);
+    } else if (typeof value.toJSON === 'function') {
+      this.encode(value.toJSON());
+    } else {
+      this.encodeMap(value);
+    }
+  }
+
+  /**
+   * Encode a number using the smallest integer format, or a float64
+   *
+   * @param value - Number to encode
+   */
+  private encodeNumber(value: number): void {
+    if (!Number.isSafeInteger(value)) {
+      const buffer = Buffer.alloc(9);
+      buffer[0] = 0xcb;
+      buffer.writeDoubleBE(value, 1);
+      this.chunks.push(buffer);
+      return;
+    }
+
+    if (value >= 0) {
+      if (value < 0x80) {
+        this.write(value);
+      } else if (value <= 0xff) {
+        this.write(0xcc, value);
+      } else if (value <= 0xffff) {
+        this.writeHeader(0xcd, value, 2);
+      } else if (value <= 0xffffffff) {
+        this.writeHeader(0xce, value, 4);
+      } else {
+        const buffer = Buffer.alloc(9);
+        buffer[0] = 0xcf;
+        buffer.writeBigUInt64BE(BigInt(value), 1);
+        this.chunks.push(buffer);
+      }
+      return;
+    }
+
+    if (value >= -0x20) {
+      this.write(value & 0xff);
+    } else if (value >= -0x80) {
+      const buffer = Buffer.alloc(2);
+      buffer[0] = 0xd0;
+      buffer.writeInt8(value, 1);
+      this.chunks.push(buffer);
+    } else if (value >= -0x8000) {
+      const buffer = Buffer.alloc(3);
+      buffer[0] = 0xd1;
+      buffer.writeInt16BE(value, 1);
+      this.chunks.push(buffer);
+    } else if (value >= -0x80000000) {
+      const buffer = Buffer.alloc(5);
+      buffer[0] = 0xd2;
+      buffer.writeInt32BE(value, 1);
+      this.chunks.push(buffer);
+    } else {
+      const buffer = Buffer.alloc(9);
+      buffer[0] = 0xd3;
+      buffer.writeBigInt64BE(BigInt(value), 1);
+      this.chunks.push(buffer);
+    }
+  }
+
+  /**
+   * Encode a UTF-8 string
+   *
+   * @param value - String to encode
+   */
+  private encodeString(value: string): void {
+    const bytes = Buffer.from(value, 'utf8');
+
+    if (bytes.length < 0x20) {
+      this.write(0xa0 | bytes.length);
+    } else if (bytes.length <= 0xff) {
+      this.writeHeader(0xd9, bytes.length, 1);
+    } else if (bytes.length <= 0xffff) {
+      this.writeHeader(0xda, bytes.length, 2);
+    } else {
+      this.writeHeader(0xdb, bytes.length, 4);
+    }
+    this.chunks.push(bytes);
+  }
+
+  /**
+   * Encode binary data
+   *
+   * @param value - Bytes to encode
+   */
+  private encodeBinary(value: Buffer): void {
+    if (value.length <= 0xff) {
+      this.writeHeader(0xc4, value.length, 1);
+    } else if (value.length <= 0xffff) {
+      this.writeHeader(0xc5, value.length, 2);
+    } else {
+      this.writeHeader(0xc6, value.length, 4);
+    }
+    this.chunks.push(value);
+  }
+
+  /**
+   * Encode a Date as a timestamp extension
+   *
+   * @param value - Date to encode
+   */
+  private encodeDate(value: Date): void {
+    // Timestamp 96: nanoseconds (uint32) followed by seconds (int64)
+    const milliseconds = value.getTime();
+    const seconds = Math.floor(milliseconds / 1000);
+    const payload = Buffer.alloc(12);
+    payload.writeUInt32BE((milliseconds - seconds * 1000) * 1e6, 0);
+    payload.writeBigInt64BE(BigInt(seconds), 4);
+    this.encodeExt(TIMESTAMP_EXT_TYPE, payload);
+  }
+
+  /**
+   * Encode an extension value
+   *
+   * @param type - Extension type
+   * @param payload - Extension payload
+   */
+  private encodeExt(type: number, payload: Buffer): void {
+    const fixedTypes: Record<number, number> = { 1: 0xd4, 2: 0xd5, 4: 0xd6, 8: 0xd7, 16: 0xd8 };
+    const fixedType = fixedTypes[payload.length];
+
+    if (fixedType !== undefined) {
+      this.write(fixedType);
+    } else if (payload.length <= 0xff) {
+      this.writeHeader(0xc7, payload.length, 1);
+    } else if (payload.length <= 0xffff) {
+      this.writeHeader(0xc8, payload.length, 2);
+    } else {
+      this.writeHeader(0xc9, payload.length, 4);
+    }
+
+    this.write(type & 0xff);
+    this.chunks.push(payload);
+  }
+
+  /**
+   * Encode an array and its items
+   *
+   * @param value - Array to encode
+   */
+  private encodeArray(value: any[]): void {
+    if (value.length < 0x10) {
+      this.write(0x90 | value.length);
+    } else if (value.length <= 0xffff) {
+      this.writeHeader(0xdc, value.length, 2);
+    } else {
+      this.writeHeader(0xdd, value.length, 4);
+    }
+
+    for (const item of value) {
+      this.encode(item);
+    }
+  }
+
+  /**
+   * Encode an object as a map, skipping values JSON would drop
+   *
+   * @param value - Object to encode
+   */
+  private encodeMap(value: Record<string, any>): void {
+    const entries = Object.entries(value).filter(([, item]) =>
+      item !== undefined && typeof item !== 'function' && typeof item !== 'symbol'
+    );
+
+    if (entries.length < 0x10) {
+      this.write(0x80 | entries.length);
+    } else if (entries.length <= 0xffff) {
+      this.writeHeader(0xde, entries.length, 2);
+    } else {
+      this.writeHeader(0xdf, entries.length, 4);
+    }
+
+    for (const [key, item] of entries) {
+      this.encodeString(key);
+      this.encode(item);
+    }
+  }
+}
+
+/**
+ * MessagePack decoder state
+ */
+class MessagePackDecoder {
+  private offset: number;
+
+  /**
+   * @param buffer - Buffer to decode
+   * @param offset - Offset of the first byte to decode
+   */
+  constructor(private readonly buffer: Buffer, offset: number = 0) {
+    this.offset = offset;
+  }
+
+  /**
+   * Decode the next value
+   *
+   * @returns Decoded value
+   * @throws {Error} If the data is truncated or uses an unsupported type
+   */
+  decode(): any {
+    const type = this.readUInt(1);
+
+    if (type < 0x80) {
+      return type;
+    }
+    if (type >= 0xe0) {
+      return type - 0x100;
+    }
+    if (type >= 0x80 && type <= 0x8f) {
+      return this.decodeMap(type & 0x0f);
+    }
+    if (type >= 0x90 && type <= 0x9f) {
+      return this.decodeArray(type & 0x0f);
+    }
+    if (type >= 0xa0 && type <= 0xbf) {
+      return this.readString(type & 0x1f);
+    }
+
+    switch (type) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xc4: return Buffer.from(this.read(this.readUInt(1)));
+      case 0xc5: return Buffer.from(this.read(this.readUInt(2)));
+      case 0xc6: return Buffer.from(this.read(this.readUInt(4)));
+      case 0xc7: return this.decodeExt(this.readUInt(1));
+      case 0xc8: return this.decodeExt(this.readUInt(2));
+      case 0xc9: return this.decodeExt(this.readUInt(4));
+      case 0xca: return this.read(4).readFloatBE(0);
+      case 0xcb: return this.read(8).readDoubleBE(0);
+      case 0xcc: return this.readUInt(1);
+      case 0xcd: return this.readUInt(2);
+      case 0xce: return this.readUInt(4);
+      case 0xcf: return this.toNumber(this.read(8).readBigUInt64BE(0));
+      case 0xd0: return this.read(1).readInt8(0);
+      case 0xd1: return this.read(2).readInt16BE(0);
+      case 0xd2: return this.read(4).readInt32BE(0);
+      case 0xd3: return this.toNumber(this.read(8).readBigInt64BE(0));
+      case 0xd4: return this.decodeExt(1);
+      case 0xd5: return this.decodeExt(2);
+      case 0xd6: return this.decodeExt(4);
+      case 0xd7: return this.decodeExt(8);
+      case 0xd8: return this.decodeExt(16);
+      case 0xd9: return this.readString(this.readUInt(1));
+      case 0xda: return this.readString(this.readUInt(2));
+      case 0xdb: return this.readString(this.readUInt(4));
+      case 0xdc: return this.decodeArray(this.readUInt(2));
+      case 0xdd: return this.decodeArray(this.readUInt(4));
+      case 0xde: return this.decodeMap(this.readUInt(2));
+      case 0xdf: return this.decodeMap(this.readUInt(4));
+      default:
+        throw new Error(`Unsupported MessagePack type 0x${type.toString(16)}`);
+    }
+  }
+
+  /**
+   * Read raw bytes and advance the offset
+   *
+   * @param length - Number of bytes to read
+   * @returns Bytes read
+   * @throws {Error} If the data is truncated
+   */
+  private read(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Unexpected end of MessagePack data');
+    }
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  /**
+   * Read a big-endian unsigned integer
+   *
+   * @param width - Width in bytes (1, 2 or 4)
+   * @returns Integer read
+   */
+  private readUInt(width: 1 | 2 | 4): number {
+    return this.read(width).readUIntBE(0, width);
+  }
+
+  /**
+   * Read a UTF-8 string
+   *
+   * @param length - Length of the string in bytes
+   * @returns String read
+   */
+  private readString(length: number): string {
+    return this.read(length).toString('utf8');
+  }
+
+  /**
+   * Convert a 64-bit integer to a number when it is safe to do so
+   *
+   * @param value - Integer read from the data
+   * @returns Number, or the BigInt if it is outside the safe integer range
+   */
+  private toNumber(value: bigint): number | bigint {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value;
+  }
+
+  /**
+   * Decode an array
+   *
+   * @param length - Number of items
+   * @returns Decoded array
+   */
+  private decodeArray(length: number): any[] {
+    const result: any[] = [];
+    for (let index = 0; index < length; index++) {
+      result.push(this.decode());
+    }
+    return result;
+  }
+
+  /**
+   * Decode a map into an object
+   *
+   * @param length - Number of entries
+   * @returns Decoded object
+   */
+  private decodeMap(length: number): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (let index = 0; index < length; index++) {
+      const key = this.decode();
+      result[String(key)] = this.decode();
+    }
+    return result;
+  }
+
+  /**
+   * Decode an extension value (timestamps and BigInts)
+   *
+   * @param length - Length of the payload in bytes
+   * @returns Decoded value
+   * @throws {Error} If the extension type is not supported
+   */
+  private decodeExt(length: number): any {
+    const type = this.read(1).readInt8(0);
+    const payload = this.read(length);
+
+    if (type === BIGINT_EXT_TYPE) {
+      return BigInt(payload.toString('utf8'));
+    }
+
+    if (type === TIMESTAMP_EXT_TYPE) {
+      if (length === 4) {
+        return new Date(payload.readUInt32BE(0) * 1000);
+      }
+      if (length === 8) {
+        const high = payload.readUInt32BE(0);
+        const low = payload.readUInt32BE(4);
+        const nanoseconds = Math.floor(high / 4);
+        const seconds = (high & 0x3) * 0x100000000 + low;
+        return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+      }
+      if (length === 12) {
+        const nanoseconds = payload.readUInt32BE(0);
+        const seconds = Number(payload.readBigInt64BE(4));
+        return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+      }
+    }
+
+    throw new Error(`Unsupported MessagePack extension type ${type}`);
+  }
+}
+
+/**
+ * MessagePack serializer
+ *
+ * Stores values in MessagePack binary format, which is usually smaller and
+ * faster to parse than JSON. Dates use the MessagePack timestamp extension,
+ * Buffers are stored as binary and BigInts as an extension type.
+ *
+ * Output starts with a marker byte, so data without it (such as counters
+ * written by `increment` or values stored before switching serializers) is
+ * read with the JSON serializer instead.
+ *
+ * @example
+ * ```typescript
+ * const cache = new CacheService({
+ *   provider: CacheProvider.REDIS,
+ *   serializer: new MessagePackSerializer()
+ * });
+ * ```
+ */
+export class MessagePackSerializer implements CacheSerializer {
+  readonly name = 'msgpack';
+  private readonly fallback = new JsonSerializer();
+
+  /**
+   * Serialize a value to MessagePack
+   *
+   * @param value - Value to serialize
+   * @returns Marker byte followed by MessagePack data
+   */
+  serialize(value: any): Buffer {
+    const encoder = new MessagePackEncoder();
+    encoder.encode(value);
+    return Buffer.concat([Buffer.from([MESSAGE_PACK_MARKER]), encoder.toBuffer()]);
+  }
+
+  /**
+   * Deserialize MessagePack data
+   *
+   * @param data - Stored data
+   * @returns Decoded value
+   * @throws {Error} If marked data is not valid MessagePack
+   */
+  deserialize<T = any>(data: string | Buffer): T {
+    if (!Buffer.isBuffer(data) || data[0] !== MESSAGE_PACK_MARKER) {
+      return this.fallback.deserialize<T>(data);
+    }
+
+    return new MessagePackDecoder(data, 1).decode();
+  }
+}
+
+/**
+ * Compressed serializer options
+ */
+export interface CompressedSerializerOptions {
+  /** Serializer for values before compression (default: JsonSerializer) */
+  serializer?: CacheSerializer;
+  /** Compression algorithm (default: 'gzip') */
+  algorithm?: keyof typeof COMPRESSION_ALGORITHMS;
+  /** Minimum serialized size in bytes before values are compressed (default: 1024) */
+  threshold?: number;
+}
+
+/**
+ * Compressed serializer
+ *
+ * Wraps another serializer and compresses its output with gzip or brotli when
+ * it reaches a size threshold. Smaller values are stored uncompressed, since
+ * compression rarely pays off for them.
+ *
+ * Compressed data records its algorithm, so values stay readable after the
+ * algorithm is changed.
+ *
+ * @example
+ * ```typescript
+ * const cache = new CacheService({
+ *   provider: CacheProvider.REDIS,
+ *   serializer: new CompressedSerializer({
+ *     serializer: new MessagePackSerializer(),
+ *     algorithm: 'brotli',
+ *     threshold: 2048
+ *   })
+ * });
+ * ```
+ */
+export class CompressedSerializer implements CacheSerializer {
+  readonly name: string;
+  private readonly serializer: CacheSerializer;
+  private readonly algorithm: keyof typeof COMPRESSION_ALGORITHMS;
+  private readonly threshold: number;
+
+  /**
+   * Creates a new CompressedSerializer instance
+   *
+   * @param options - Compression options
+   * @throws {CacheValidationError} If the algorithm or threshold is invalid
+   */
+  constructor(options: CompressedSerializerOptions = {}) {
+    this.serializer = options.serializer ?? new JsonSerializer();
+    this.algorithm = options.algorithm ?? 'gzip';
+    this.threshold = options.threshold ?? 1024;
+
+    if (!(this.algorithm in COMPRESSION_ALGORITHMS)) {
+      throw new CacheValidationError(`Unsupported compression algorithm: ${this.algorithm}`, 'algorithm');
+    }
+
+    if (!Number.isInteger(this.threshold) || this.threshold < 0) {
+      throw new CacheValidationError('Compression threshold must be a non-negative integer', 'threshold');
+    }
+
+    this.name = `${this.serializer.name}+${this.algorithm}`;
+  }
+
+  /**
+   * Serialize a value, compressing it if it reaches the threshold
+   *
+   * @param value - Value to serialize
+   * @returns Inner serializer output, or a marked compressed buffer
+   */
+  serialize(value: any): string | Buffer {
+    const serialized = this.serializer.serialize(value);
+    const bytes = typeof serialized === 'string' ? Buffer.from(serialized, 'utf8') : serialized;
+
+    if (bytes.length < this.threshold) {
+      return serialized;
+    }
+
+    const compressed = this.algorithm === 'brotli' ? brotliCompressSync(bytes) : gzipSync(bytes);
+    return Buffer.concat([
+      Buffer.from([COMPRESSED_MARKER, COMPRESSION_ALGORITHMS[this.algorithm]]),
+      compressed,
+    ]);
+  }
+
+  /**
+   * Deserialize data, decompressing it first if it is compressed
+   *
+   * @param data - Stored data
+   * @returns Deserialized value
+   */
+  deserialize<T = any>(data: string | Buffer): T {
+    if (!Buffer.isBuffer(data) || data.length < 2 || data[0] !== COMPRESSED_MARKER) {
+      return this.serializer.deserialize<T>(data);
+    }
+
+    const payload = data.subarray(2);
+    switch (data[1]) {
+      case COMPRESSION_ALGORITHMS.gzip:
+        return this.serializer.deserialize<T>(gunzipSync(payload));
+      case COMPRESSION_ALGORITHMS.brotli:
+        return this.serializer.deserialize<T>(brotliDecompressSync(payload));
+      default:
+        return this.serializer.deserialize<T>(data);
+    }
+  }
+}
+
+/**
+ * Check whether two values have the same serialized form
+ *
+ * @param serializer - Serializer to compare with
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if both values serialize to the same bytes
+ */
+export function isSameSerializedValue(serializer: CacheSerializer, a: any, b: any): boolean {
+  const first = serializer.serialize(a);
+  const second = serializer.serialize(b);
+  return Buffer.from(first).equals(Buffer.from(second));
+}
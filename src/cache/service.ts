@@ -3,11 +3,14 @@
  * @module cache/service
  */
 
+import { randomUUID } from 'crypto';
 import type {
   ICacheProvider,
   CacheServiceConfig,
+  CacheSingleProviderConfig,
   RedisConfig,
   MemcachedConfig,
+  MemoryConfig,
   CacheSetConfig,
   CacheGetConfig,
   CacheDeleteConfig,
@@ -18,17 +21,90 @@ import type {
   CacheHasResult,
   CacheClearResult,
   CacheHealthInfo,
+  CacheStats,
+  CacheGetOrSetConfig,
+  CacheGetOrSetResult,
+  CacheLoadLockOptions,
+  CacheGetManyConfig,
+  CacheSetManyConfig,
+  CacheDeleteManyConfig,
+  CacheIncrementConfig,
+  CacheIncrementResult,
+  CacheCompareAndSetConfig,
+  CacheCompareAndSetResult,
+  CacheInvalidateTagsResult,
+  CacheSerializer,
+  CacheAddResult,
+  CacheLockConfig,
+  CacheRateLimitConfig,
+  CacheRateLimitResult,
+  CacheKeysConfig,
+  CacheKeysPage,
+  CacheScanResult,
+  CacheDeleteByPatternResult,
+  CacheTtlConfig,
+  CacheExpireConfig,
+  CacheTouchConfig,
+  CacheTtlResult,
+  CacheExpireResult,
+  CacheHashGetConfig,
+  CacheHashSetConfig,
+  CacheListPushConfig,
+  CacheListPopConfig,
+  CacheListRangeConfig,
+  CacheSetAddConfig,
+  CacheSetMembersConfig,
+  CacheSortedSetAddConfig,
+  CacheSortedSetRangeConfig,
+  CacheHashGetResult,
+  CacheCollectionWriteResult,
+  CacheListResult,
+  CacheSetMembersResult,
+  CacheSortedSetRangeResult,
+  CachePublishConfig,
+  CachePublishResult,
+  CacheSubscribeConfig,
+  CacheSubscription,
 } from './types';
 import { CacheProvider } from './types';
 import type { Logger } from '../logger';
 import { consoleLogger } from '../logger';
-import { RedisProvider, MemcachedProvider } from './adapters';
+import { RedisProvider, MemcachedProvider, MemoryProvider } from './adapters';
+import { TieredCacheProvider } from './tiered';
+import { FailoverCacheProvider } from './failover';
+import { CacheMetrics, MetricsCacheProvider } from './metrics';
+import { CacheInvalidationBroadcaster } from './invalidation';
+import { SizeLimitCacheProvider } from './size-limit';
+import { CacheLock } from './lock';
+import { CacheNamespace } from './namespace';
+import type { CacheNamespaceOptions } from './namespace';
+import { validateCacheGetOrSetConfig, validateCacheLockConfig, validateCacheKey } from './validation';
+import { isCacheError, CacheError, CacheLockError } from './errors';
+
+/** Suffix of the marker key that tracks the soft TTL of a read-through value */
+const FRESH_KEY_SUFFIX = ':__fresh';
+
+/** Suffix of the lock key taken while loading a read-through value */
+const LOAD_LOCK_KEY_SUFFIX = ':__loading';
+
+/** Suffix of the key holding a lock taken with `acquireLock` */
+const LOCK_KEY_SUFFIX = ':__lock';
+
+/**
+ * Check whether a key is one the service writes for its own bookkeeping
+ *
+ * @param key - Key without the key prefix
+ * @returns True for soft TTL markers and lock keys
+ */
+function isInternalKey(key: string): boolean {
+  return [FRESH_KEY_SUFFIX, LOAD_LOCK_KEY_SUFFIX, LOCK_KEY_SUFFIX].some(suffix => key.endsWith(suffix));
+}
 
 /**
  * Cache service for caching operations
  * 
  * Provides a unified interface for caching operations across different providers.
- * Currently supports Redis and Memcached.
+ * Currently supports Redis, Memcached and an in-process memory store.
  * 
  * @example Redis
  * ```typescript
@@ -80,6 +156,45 @@ import { RedisProvider, MemcachedProvider } from './adapters';
  * });
  * ```
  * 
+ * @example In-process memory
+ * ```typescript
+ * const cache = new CacheService({
+ *   provider: CacheProvider.MEMORY,
+ *   config: {
+ *     maxEntries: 10000
+ *   }
+ * });
+ * ```
+ * 
+ * @example Tiered (local memory in front of Redis)
+ * ```typescript
+ * const cache = new CacheService({
+ *   provider: CacheProvider.REDIS,
+ *   config: { host: 'localhost', port: 6379 },
+ *   local: { ttl: 30, maxEntries: 5000 }
+ * });
+ * ```
+ * 
+ * @example With automatic failover
+ * ```typescript
+ * const cache = new CacheService({
+ *   primary: { provider: CacheProvider.REDIS, config: { host: 'redis-primary' } },
+ *   backups: [
+ *     { provider: CacheProvider.MEMCACHED, config: { servers: ['memcached:11211'] } }
+ *   ]
+ * });
+ * ```
+ * 
+ * @example With metrics
+ * ```typescript
+ * const cache = new CacheService({
+ *   provider: CacheProvider.REDIS,
+ *   metrics: { onOperation: event => statsd.timing(`cache.${event.operation}`, event.duration) }
+ * });
+ * 
+ * console.log(cache.stats()?.hitRate);
+ * ```
+ * 
  * @example With logging
  * ```typescript
  * const cache = new CacheService({
@@ -103,10 +218,17 @@ import { RedisProvider, MemcachedProvider } from './adapters';
 export class CacheService {
   private readonly provider: ICacheProvider;
   private readonly logger: Logger;
+  private readonly serializer?: CacheSerializer;
+  private readonly metrics?: CacheMetrics;
+  private readonly pendingLoads = new Map<string, Promise<CacheGetOrSetResult<any>>>();
 
   /**
    * Creates a new CacheService instance
    * 
+   * With `primary` and `backups`, operations fail over to the next backup when a
+   * provider throws a retryable error such as `CacheConnectionError`, and return
+   * to the primary once its health check passes again.
+   * 
    * @param config - Cache service configuration
    * @throws {CacheProviderError} If provider is not supported or configuration is invalid
    * 
@@ -123,8 +245,48 @@ export class CacheService {
    */
   constructor(config: CacheServiceConfig) {
     this.logger = config.logger || consoleLogger();
-    this.logger.debug('Basepack Cache: Initializing service', { provider: config.provider });
-    this.provider = this.createProvider(config);
+    this.serializer = config.serializer;
+    let provider: ICacheProvider;
+
+    if ('primary' in config) {
+      this.logger.debug('Basepack Cache: Initializing service', {
+        primary: config.primary.provider,
+        backups: config.backups?.map(b => b.provider) || []
+      });
+      const primary = this.createProvider(config.primary);
+      const backups = (config.backups || []).map(backup => this.createProvider(backup));
+      provider = backups.length > 0
+        ? new FailoverCacheProvider(primary, backups, config.failover, this.logger)
+        : primary;
+    } else {
+      this.logger.debug('Basepack Cache: Initializing service', { provider: config.provider });
+      provider = this.createProvider(config);
+    }
+
+    if (config.maxValueSize !== undefined) {
+      const sizeConfig = typeof config.maxValueSize === 'number' ? { limit: config.maxValueSize } : config.maxValueSize;
+      provider = new SizeLimitCacheProvider(provider, sizeConfig, this.serializer, this.logger);
+    }
+
+    if (config.local) {
+      const { ttl, invalidation, ...localConfig } = config.local;
+      const broadcaster = invalidation
+        ? new CacheInvalidationBroadcaster(provider, invalidation === true ? {} : invalidation, this.logger)
+        : undefined;
+      provider = new TieredCacheProvider(
+        new MemoryProvider(this.withSerializer(localConfig), this.logger),
+        provider,
+        { ttl, broadcaster },
+        this.logger
+      );
+    }
+
+    if (config.metrics) {
+      this.metrics = new CacheMetrics(config.metrics === true ? {} : config.metrics, this.logger);
+      provider = new MetricsCacheProvider(provider, this.metrics);
+    }
+
+    this.provider = provider;
   }
 
   /**
@@ -228,6 +390,89 @@ export class CacheService {
     }
   }
 
+  /**
+   * Get a value from cache, loading and storing it on a miss
+   * 
+   * Concurrent misses for the same key in this process share a single loader call.
+   * 
+   * - `lock`: takes a distributed lock so only one instance runs the loader; other
+   *   instances wait up to `waitTimeout` for the value and then load it themselves
+   * - `softTtl`: once a value is older than `softTtl`, it is returned as stale and
+   *   refreshed in the background, until the hard `ttl` expires it
+   * 
+   * Cache errors never hide the loaded value: they are reported in `error`.
+   * Errors thrown by the loader are rethrown.
+   * 
+   * @param config - Get-or-set configuration with key, TTLs and loader
+   * @returns Result with the cached or loaded value
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example Read-through
+   * ```typescript
+   * const { value: user } = await cache.getOrSet({
+   *   key: 'user:123',
+   *   ttl: 3600,
+   *   loader: () => db.users.findById('123')
+   * });
+   * ```
+   * 
+   * @example Stale-while-revalidate across instances
+   * ```typescript
+   * const result = await cache.getOrSet({
+   *   key: 'report:daily',
+   *   ttl: 3600,
+   *   softTtl: 300,
+   *   lock: { ttl: 30, waitTimeout: 2000 },
+   *   loader: () => buildDailyReport()
+   * });
+   * console.log(result.cached, result.stale);
+   * ```
+   */
+  async getOrSet<T = any>(config: CacheGetOrSetConfig<T>): Promise<CacheGetOrSetResult<T>> {
+    validateCacheGetOrSetConfig(config);
+    this.logger.info('Basepack Cache: Getting or setting value', { key: config.key, ttl: config.ttl });
+
+    try {
+      const cached = await this.provider.get<T>({ key: config.key }).catch(error => this.toFailedGet<T>(config.key, error));
+
+      if (cached.success && cached.found) {
+        let stale = false;
+
+        if (config.softTtl) {
+          const fresh = await this.provider.has({ key: `${config.key}${FRESH_KEY_SUFFIX}` });
+          stale = fresh.success && !fresh.exists;
+        }
+
+        if (stale) {
+          this.logger.debug('Basepack Cache: Serving stale value', { key: config.key });
+          this.load(config).catch(error => {
+            this.logger.error('Basepack Cache: Background refresh failed', { key: config.key, error });
+          });
+        } else {
+          this.logger.info('Basepack Cache: Value retrieved', { key: config.key, provider: cached.provider });
+        }
+
+        return {
+          success: true,
+          key: config.key,
+          value: cached.value as T,
+          cached: true,
+          stale,
+          provider: cached.provider,
+        };
+      }
+
+      if (!cached.success) {
+        this.logger.error('Basepack Cache: Get failed', { key: config.key, error: cached.error });
+      }
+
+      return await this.load(config);
+    } catch (error) {
+      this.logger.error('Basepack Cache: Get or set exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
   /**
    * Delete a value from cache
    * 
@@ -304,129 +549,1299 @@ export class CacheService {
   }
 
   /**
-   * Clear all values from cache
+   * Read the remaining time to live of a key
    * 
-   * Removes all values from the cache provider.
+   * Uses PTTL in Redis. Memcached cannot read TTLs and throws
+   * `CacheNotSupportedError`.
    * 
-   * **Important:**
-   * - For Redis with a key prefix, only keys with that prefix are cleared
-   * - For Redis without a prefix, the entire database is flushed
-   * - For Memcached, the entire server is flushed (no selective clearing)
+   * @param config - TTL configuration
+   * @returns TTL result; `expiresIn` is undefined for keys that never expire
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider cannot read TTLs
    * 
-   * @returns Clear result
+   * @example
+   * ```typescript
+   * const result = await cache.ttl({ key: 'session:abc' });
+   * if (result.exists && result.expiresIn !== undefined) {
+   *   console.log(`Session expires in ${Math.round(result.expiresIn / 1000)}s`);
+   * }
+   * ```
+   */
+  async ttl(config: CacheTtlConfig): Promise<CacheTtlResult> {
+    this.logger.debug('Basepack Cache: Reading TTL', { key: config.key });
+    try {
+      const result = await this.provider.ttl(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: TTL read', { key: config.key, exists: result.exists, expiresIn: result.expiresIn });
+      } else {
+        this.logger.error('Basepack Cache: TTL failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: TTL exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Set a new time to live on an existing key without rewriting its value
+   * 
+   * Uses PEXPIRE in Redis and TOUCH in Memcached.
+   * 
+   * @param config - Key and new TTL in seconds, counted from now
+   * @returns Expire result; `exists` is false if the key was not found
+   * @throws {CacheValidationError} If configuration is invalid
    * 
    * @example
    * ```typescript
-   * const result = await cache.clear();
+   * await cache.expire({ key: 'session:abc', ttl: 1800 });
+   * ```
+   */
+  async expire(config: CacheExpireConfig): Promise<CacheExpireResult> {
+    this.logger.debug('Basepack Cache: Setting expiry', { key: config.key, ttl: config.ttl });
+    try {
+      const result = await this.provider.expire(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Expiry set', { key: config.key, exists: result.exists });
+      } else {
+        this.logger.error('Basepack Cache: Expire failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Expire exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh an existing key without rewriting its value
    * 
-   * if (result.success) {
-   *   console.log('Cache cleared successfully');
+   * With a TTL the expiry restarts from now, for sliding expiration. Without one
+   * the key keeps its expiry and is only marked as recently used.
+   * 
+   * @param config - Key and optional new TTL in seconds
+   * @returns Expire result; `exists` is false if the key was not found
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * // Keep an active session alive for another 30 minutes
+   * await cache.touch({ key: 'session:abc', ttl: 1800 });
+   * ```
+   */
+  async touch(config: CacheTouchConfig): Promise<CacheExpireResult> {
+    this.logger.debug('Basepack Cache: Touching key', { key: config.key, ttl: config.ttl });
+    try {
+      const result = await this.provider.touch(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Key touched', { key: config.key, exists: result.exists });
+      } else {
+        this.logger.error('Basepack Cache: Touch failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Touch exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically increment a counter
+   * 
+   * A missing key starts at 0. The TTL is only applied when the counter is created,
+   * so later increments do not extend it.
+   * 
+   * @param config - Increment configuration
+   * @returns Increment result with the new value
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await cache.increment({ key: 'login-attempts:user:123', ttl: 900 });
+   * 
+   * if (result.success && result.value! > 5) {
+   *   throw new Error('Too many login attempts');
    * }
    * ```
    */
-  async clear(): Promise<CacheClearResult> {
-    this.logger.info('Basepack Cache: Clearing cache');
+  async increment(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    this.logger.debug('Basepack Cache: Incrementing value', { key: config.key, by: config.by });
     try {
-      const result = await this.provider.clear();
+      const result = await this.provider.increment(config);
       if (result.success) {
-        this.logger.info('Basepack Cache: Cache cleared successfully', { provider: result.provider });
+        this.logger.debug('Basepack Cache: Value incremented', { key: config.key, value: result.value, provider: result.provider });
       } else {
-        this.logger.error('Basepack Cache: Clear failed', { error: result.error });
+        this.logger.error('Basepack Cache: Increment failed', { key: config.key, error: result.error });
       }
       return result;
     } catch (error) {
-      this.logger.error('Basepack Cache: Clear exception', { error });
+      this.logger.error('Basepack Cache: Increment exception', { key: config.key, error });
       throw error;
     }
   }
 
   /**
-   * Check cache provider health
+   * Atomically decrement a counter
    * 
-   * Performs a lightweight operation to verify connectivity and access to the cache provider.
+   * A missing key starts at 0. On Memcached counters are unsigned and stop at 0;
+   * other providers can go negative.
    * 
-   * @returns Health information
+   * @param config - Decrement configuration
+   * @returns Decrement result with the new value
+   * @throws {CacheValidationError} If configuration is invalid
    * 
    * @example
    * ```typescript
-   * const health = await cache.health();
+   * const result = await cache.decrement({ key: 'stock:sku-1', by: 2 });
+   * ```
+   */
+  async decrement(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    this.logger.debug('Basepack Cache: Decrementing value', { key: config.key, by: config.by });
+    try {
+      const result = await this.provider.decrement(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Value decremented', { key: config.key, value: result.value, provider: result.provider });
+      } else {
+        this.logger.error('Basepack Cache: Decrement failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Decrement exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a value only if it currently equals the expected value
    * 
-   * if (health.status === 'healthy') {
-   *   console.log(`Cache is healthy (${health.responseTime}ms)`);
-   * } else {
-   *   console.error(`Cache is unhealthy: ${health.error}`);
+   * Useful for optimistic updates: read a value, compute a new one, and only
+   * write it if nobody changed the key in the meantime. Values are compared by
+   * their serialized form, and a missing key never matches.
+   * 
+   * @param config - Compare-and-set configuration
+   * @returns Compare-and-set result indicating whether the value was swapped
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const current = await cache.get<Cart>({ key: 'cart:123' });
+   * const updated = { ...current.value, items: [...current.value.items, item] };
+   * 
+   * const result = await cache.compareAndSet({ key: 'cart:123', expected: current.value, value: updated });
+   * 
+   * if (!result.swapped) {
+   *   // Someone else changed the cart; reload and retry
    * }
    * ```
    */
-  async health(): Promise<CacheHealthInfo> {
-    this.logger.debug('Basepack Cache: Checking health');
+  async compareAndSet(config: CacheCompareAndSetConfig): Promise<CacheCompareAndSetResult> {
+    this.logger.debug('Basepack Cache: Comparing and setting value', { key: config.key, ttl: config.ttl });
     try {
-      const health = await this.provider.health();
-      this.logger.debug('Basepack Cache: Health check completed', { 
-        provider: health.provider,
-        status: health.status,
-        responseTimeMs: health.responseTime
+      const result = await this.provider.compareAndSet(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Value compared and set', {
+          key: config.key,
+          swapped: result.swapped,
+          provider: result.provider
+        });
+      } else {
+        this.logger.error('Basepack Cache: Compare and set failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Compare and set exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get multiple values from cache
+   * 
+   * Retrieves several keys in one round trip where the provider supports it
+   * (Redis MGET, Memcached multi-get). Results are returned in key order, one per key.
+   * 
+   * @param config - Get-many configuration
+   * @returns Get results in the same order as the keys
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const results = await cache.getMany<User>({ keys: ['user:1', 'user:2', 'user:3'] });
+   * 
+   * for (const result of results) {
+   *   if (result.found) {
+   *     console.log(result.key, result.value);
+   *   }
+   * }
+   * ```
+   */
+  async getMany<T = any>(config: CacheGetManyConfig): Promise<CacheGetResult<T>[]> {
+    this.logger.debug('Basepack Cache: Getting values', { keys: config.keys });
+    try {
+      const results = await this.provider.getMany<T>(config);
+      this.logger.debug('Basepack Cache: Values retrieved', {
+        count: results.length,
+        found: results.filter(result => result.found).length,
+        failed: results.filter(result => !result.success).length
       });
-      return health;
+      return results;
     } catch (error) {
-      this.logger.error('Basepack Cache: Health check exception', { error });
+      this.logger.error('Basepack Cache: Get many exception', { keys: config.keys, error });
       throw error;
     }
   }
 
   /**
-   * Close connection to cache provider
+   * Set multiple values in cache
    * 
-   * Gracefully closes the connection to the cache provider.
-   * Should be called when the application is shutting down.
+   * Writes several entries in one round trip where the provider supports it
+   * (Redis pipeline). Each entry may set its own TTL; entries without one use
+   * the batch `ttl`.
+   * 
+   * @param config - Set-many configuration
+   * @returns Set results in the same order as the entries
+   * @throws {CacheValidationError} If configuration is invalid
    * 
    * @example
    * ```typescript
-   * // On application shutdown
-   * await cache.close();
-   * console.log('Cache connection closed');
+   * const results = await cache.setMany({
+   *   entries: [
+   *     { key: 'user:1', value: { name: 'John' } },
+   *     { key: 'user:2', value: { name: 'Jane' }, ttl: 60 }
+   *   ],
+   *   ttl: 3600
+   * });
+   * 
+   * const failed = results.filter(result => !result.success);
    * ```
    */
-  async close(): Promise<void> {
-    this.logger.debug('Basepack Cache: Closing connection');
+  async setMany(config: CacheSetManyConfig): Promise<CacheSetResult[]> {
+    const keys = config.entries?.map(entry => entry?.key);
+    this.logger.info('Basepack Cache: Setting values', { keys, ttl: config.ttl });
     try {
-      await this.provider.close();
-      this.logger.debug('Basepack Cache: Connection closed successfully');
+      const results = await this.provider.setMany(config);
+      const failed = results.filter(result => !result.success);
+      if (failed.length === 0) {
+        this.logger.info('Basepack Cache: Values set successfully', { count: results.length });
+      } else {
+        this.logger.error('Basepack Cache: Set many partially failed', {
+          count: results.length,
+          failed: failed.map(result => ({ key: result.key, error: result.error }))
+        });
+      }
+      return results;
     } catch (error) {
-      this.logger.error('Basepack Cache: Close exception', { error });
+      this.logger.error('Basepack Cache: Set many exception', { keys, error });
       throw error;
     }
   }
 
   /**
-   * Get the current provider name
+   * Delete multiple values from cache
    * 
-   * @returns Provider name
+   * @param config - Delete-many configuration
+   * @returns Delete results in the same order as the keys
+   * @throws {CacheValidationError} If configuration is invalid
    * 
    * @example
    * ```typescript
-   * const providerName = cache.getProviderName();
-   * console.log(`Using provider: ${providerName}`);
+   * await cache.deleteMany({ keys: ['user:1', 'user:2'] });
    * ```
    */
-  getProviderName(): string {
-    return this.provider.name;
+  async deleteMany(config: CacheDeleteManyConfig): Promise<CacheDeleteResult[]> {
+    this.logger.info('Basepack Cache: Deleting values', { keys: config.keys });
+    try {
+      const results = await this.provider.deleteMany(config);
+      const failed = results.filter(result => !result.success);
+      if (failed.length === 0) {
+        this.logger.info('Basepack Cache: Values deleted successfully', { count: results.length });
+      } else {
+        this.logger.error('Basepack Cache: Delete many partially failed', {
+          count: results.length,
+          failed: failed.map(result => ({ key: result.key, error: result.error }))
+        });
+      }
+      return results;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Delete many exception', { keys: config.keys, error });
+      throw error;
+    }
   }
 
   /**
-   * Create a cache provider instance
+   * Iterate over keys matching a pattern, one page at a time
    * 
-   * @param config - Provider configuration
-   * @returns Provider instance
-   * @throws {CacheProviderError} If provider is not supported
+   * Patterns are glob-style (`*`, `?`, `[abc]`) and match keys without the key
+   * prefix. Each page carries a cursor that can be passed back as `cursor` to
+   * resume the scan later. Keys written or deleted during a scan may or may not
+   * be returned. Keys the cache uses internally (locks and soft TTL markers)
+   * are left out, so a page may hold fewer keys than `limit`.
+   * 
+   * Memcached cannot enumerate keys, so the iterator throws
+   * `CacheNotSupportedError` there.
+   * 
+   * @param config - Pattern, page size and cursor to resume from
+   * @returns Async iterator of key pages
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider cannot enumerate keys
+   * @throws {CacheError} If a page could not be fetched
+   * 
+   * @example
+   * ```typescript
+   * for await (const page of cache.keys({ pattern: 'session:*', limit: 500 })) {
+   *   console.log(page.keys);
+   * }
+   * ```
    */
-  private createProvider(config: CacheServiceConfig): ICacheProvider {
-    switch (config.provider) {
-      case CacheProvider.REDIS:
-        return new RedisProvider((config.config || {}) as RedisConfig, this.logger);
+  async *keys(config: CacheKeysConfig = {}): AsyncGenerator<CacheKeysPage> {
+    this.logger.debug('Basepack Cache: Scanning keys', { pattern: config.pattern, cursor: config.cursor });
+
+    let cursor = config.cursor;
+    do {
+      let result: CacheScanResult;
+      try {
+        result = await this.provider.scan({ ...config, cursor });
+      } catch (error) {
+        this.logger.error('Basepack Cache: Scan keys exception', { pattern: config.pattern, error });
+        throw error;
+      }
+
+      if (!result.success) {
+        this.logger.error('Basepack Cache: Scan keys failed', { pattern: config.pattern, error: result.error });
+        throw new CacheError(`Failed to scan keys: ${result.error}`, result.provider);
+      }
+
+      cursor = result.cursor;
+      const keys = result.keys.filter(key => !isInternalKey(key));
+      if (keys.length > 0) {
+        yield { keys, cursor };
+      }
+    } while (cursor !== undefined);
+  }
+
+  /**
+   * Delete every key matching a pattern
+   * 
+   * Scans the keys page by page and deletes each page with `deleteMany`. The
+   * pattern is glob-style and matches keys without the key prefix. Locks and
+   * soft TTL markers are skipped; markers expire on their own. Memcached
+   * cannot enumerate keys, so this throws `CacheNotSupportedError` there.
+   * 
+   * @param pattern - Glob-style key pattern
+   * @returns Result with the number of keys that existed and were deleted
+   * @throws {CacheValidationError} If the pattern is invalid
+   * @throws {CacheNotSupportedError} If the provider cannot enumerate keys
+   * 
+   * @example
+   * ```typescript
+   * const result = await cache.deleteByPattern('session:*');
+   * console.log(`Deleted ${result.deleted} sessions`);
+   * ```
+   */
+  async deleteByPattern(pattern: string): Promise<CacheDeleteByPatternResult> {
+    validateCacheKey(pattern, 'pattern');
+
+    this.logger.info('Basepack Cache: Deleting by pattern', { pattern });
+    let deleted = 0;
+    let cursor: string | undefined;
+    try {
+      do {
+        const page = await this.provider.scan({ pattern, cursor });
+        const keys = page.success ? page.keys.filter(key => !isInternalKey(key)) : [];
+        const results = keys.length > 0 ? await this.provider.deleteMany({ keys }) : [];
+        const failed = results.find(result => !result.success);
+        deleted += results.filter(result => result.success && result.deleted).length;
+
+        if (!page.success || failed) {
+          const error = page.success ? failed!.error : page.error;
+          this.logger.error('Basepack Cache: Delete by pattern failed', { pattern, deleted, error });
+          return { success: false, pattern, deleted, provider: page.provider, timestamp: new Date(), error };
+        }
+
+        cursor = page.cursor;
+      } while (cursor !== undefined);
+
+      this.logger.info('Basepack Cache: Deleted by pattern', { pattern, deleted });
+      return { success: true, pattern, deleted, provider: this.provider.name, timestamp: new Date() };
+    } catch (error) {
+      this.logger.error('Basepack Cache: Delete by pattern exception', { pattern, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Read fields of a hash
+   * 
+   * Data structure operations are supported by Redis and Valkey. Memcached and
+   * the memory provider throw `CacheNotSupportedError`.
+   * 
+   * @param config - Hash get configuration; omit `fields` to read every field
+   * @returns Hash result with the fields found
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no hashes
+   * 
+   * @example
+   * ```typescript
+   * const result = await cache.hashGet<string>({ key: 'user:123:profile', fields: ['name', 'email'] });
+   * console.log(result.fields.name);
+   * ```
+   */
+  async hashGet<T = any>(config: CacheHashGetConfig): Promise<CacheHashGetResult<T>> {
+    this.logger.debug('Basepack Cache: Reading hash', { key: config.key, fields: config.fields });
+    try {
+      const result = await this.provider.hashGet<T>(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Hash read', { key: config.key, count: Object.keys(result.fields).length });
+      } else {
+        this.logger.error('Basepack Cache: Hash get failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Hash get exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Write fields of a hash
+   * 
+   * Other fields of the hash are kept. With `ttl`, the expiry of the whole hash
+   * is reset.
+   * 
+   * @param config - Hash set configuration
+   * @returns Write result; `count` is the number of new fields
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no hashes
+   * 
+   * @example
+   * ```typescript
+   * await cache.hashSet({ key: 'user:123:profile', fields: { name: 'John', visits: 42 }, ttl: 3600 });
+   * ```
+   */
+  async hashSet(config: CacheHashSetConfig): Promise<CacheCollectionWriteResult> {
+    this.logger.debug('Basepack Cache: Writing hash', { key: config.key, fields: Object.keys(config.fields ?? {}), ttl: config.ttl });
+    try {
+      const result = await this.provider.hashSet(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Hash written', { key: config.key, added: result.count });
+      } else {
+        this.logger.error('Basepack Cache: Hash set failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Hash set exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Push values onto a list
+   * 
+   * @param config - List push configuration; values go to the right end unless `side: 'left'`
+   * @returns Write result; `count` is the list length after the push
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no lists
+   * 
+   * @example
+   * ```typescript
+   * await cache.listPush({ key: 'events:recent', values: [event], side: 'left' });
+   * ```
+   */
+  async listPush(config: CacheListPushConfig): Promise<CacheCollectionWriteResult> {
+    this.logger.debug('Basepack Cache: Pushing to list', { key: config.key, count: config.values?.length, side: config.side });
+    try {
+      const result = await this.provider.listPush(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: List pushed', { key: config.key, length: result.count });
+      } else {
+        this.logger.error('Basepack Cache: List push failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: List push exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Pop values from a list
+   * 
+   * @param config - List pop configuration; pops from the right end unless `side: 'left'`
+   * @returns List result with the popped values, empty if the list is empty
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no lists
+   * 
+   * @example Queue (push right, pop left)
+   * ```typescript
+   * await cache.listPush({ key: 'jobs', values: [job] });
+   * const { values: [next] } = await cache.listPop({ key: 'jobs', side: 'left' });
+   * ```
+   */
+  async listPop<T = any>(config: CacheListPopConfig): Promise<CacheListResult<T>> {
+    this.logger.debug('Basepack Cache: Popping from list', { key: config.key, count: config.count, side: config.side });
+    try {
+      const result = await this.provider.listPop<T>(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: List popped', { key: config.key, count: result.values.length });
+      } else {
+        this.logger.error('Basepack Cache: List pop failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: List pop exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Read a range of a list
+   * 
+   * @param config - List range configuration; indexes are inclusive and negative indexes count from the end
+   * @returns List result with the values in range
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no lists
+   * 
+   * @example
+   * ```typescript
+   * const { values } = await cache.listRange({ key: 'events:recent', start: 0, stop: 9 });
+   * ```
+   */
+  async listRange<T = any>(config: CacheListRangeConfig): Promise<CacheListResult<T>> {
+    this.logger.debug('Basepack Cache: Reading list range', { key: config.key, start: config.start, stop: config.stop });
+    try {
+      const result = await this.provider.listRange<T>(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: List range read', { key: config.key, count: result.values.length });
+      } else {
+        this.logger.error('Basepack Cache: List range failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: List range exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Add members to a set
+   * 
+   * @param config - Set add configuration
+   * @returns Write result; `count` is the number of new members
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no sets
+   * 
+   * @example
+   * ```typescript
+   * await cache.setAdd({ key: 'post:42:likes', members: ['user:1'] });
+   * ```
+   */
+  async setAdd(config: CacheSetAddConfig): Promise<CacheCollectionWriteResult> {
+    this.logger.debug('Basepack Cache: Adding set members', { key: config.key, count: config.members?.length, ttl: config.ttl });
+    try {
+      const result = await this.provider.setAdd(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Set members added', { key: config.key, added: result.count });
+      } else {
+        this.logger.error('Basepack Cache: Set add failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Set add exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Read the members of a set
+   * 
+   * @param config - Set members configuration
+   * @returns Set result with the members, in no particular order
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no sets
+   * 
+   * @example
+   * ```typescript
+   * const { members } = await cache.setMembers({ key: 'post:42:likes' });
+   * ```
+   */
+  async setMembers(config: CacheSetMembersConfig): Promise<CacheSetMembersResult> {
+    this.logger.debug('Basepack Cache: Reading set members', { key: config.key });
+    try {
+      const result = await this.provider.setMembers(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Set members read', { key: config.key, count: result.members.length });
+      } else {
+        this.logger.error('Basepack Cache: Set members failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Set members exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Add members to a sorted set, or update their scores
+   * 
+   * @param config - Sorted set add configuration
+   * @returns Write result; `count` is the number of new members
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no sorted sets
+   * 
+   * @example
+   * ```typescript
+   * await cache.sortedSetAdd({ key: 'leaderboard', members: [{ member: 'alice', score: 120 }] });
+   * ```
+   */
+  async sortedSetAdd(config: CacheSortedSetAddConfig): Promise<CacheCollectionWriteResult> {
+    this.logger.debug('Basepack Cache: Adding sorted set members', { key: config.key, count: config.members?.length, ttl: config.ttl });
+    try {
+      const result = await this.provider.sortedSetAdd(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Sorted set members added', { key: config.key, added: result.count });
+      } else {
+        this.logger.error('Basepack Cache: Sorted set add failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Sorted set add exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Read members of a sorted set by score
+   * 
+   * @param config - Sorted set range configuration; `min` and `max` are inclusive
+   * @returns Sorted set result with members and scores, lowest first unless `reverse`
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no sorted sets
+   * 
+   * @example Top 10
+   * ```typescript
+   * const { members } = await cache.sortedSetRange({ key: 'leaderboard', reverse: true, limit: 10 });
+   * members.forEach(({ member, score }, rank) => console.log(rank + 1, member, score));
+   * ```
+   */
+  async sortedSetRange(config: CacheSortedSetRangeConfig): Promise<CacheSortedSetRangeResult> {
+    this.logger.debug('Basepack Cache: Reading sorted set range', { key: config.key, min: config.min, max: config.max });
+    try {
+      const result = await this.provider.sortedSetRange(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Sorted set range read', { key: config.key, count: result.members.length });
+      } else {
+        this.logger.error('Basepack Cache: Sorted set range failed', { key: config.key, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Sorted set range exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Publish a message on a pub/sub channel
+   * 
+   * Supported by Redis and Valkey, and within one process by the memory
+   * provider. Messages are strings; encode objects with `JSON.stringify`.
+   * Delivery is at most once: subscribers that are disconnected miss the message.
+   * 
+   * @param config - Publish configuration
+   * @returns Publish result with the number of receivers
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no pub/sub (Memcached)
+   * 
+   * @example
+   * ```typescript
+   * await cache.publish({
+   *   channel: 'orders',
+   *   message: JSON.stringify({ id: 42, status: 'shipped' })
+   * });
+   * ```
+   */
+  async publish(config: CachePublishConfig): Promise<CachePublishResult> {
+    this.logger.debug('Basepack Cache: Publishing message', { channel: config.channel });
+    try {
+      const result = await this.provider.publish(config);
+      if (result.success) {
+        this.logger.debug('Basepack Cache: Message published', { channel: config.channel, receivers: result.receivers });
+      } else {
+        this.logger.error('Basepack Cache: Publish failed', { channel: config.channel, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Publish exception', { channel: config.channel, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to a pub/sub channel
+   * 
+   * Redis subscriptions use a second connection, opened on the first subscribe
+   * and closed by `close()`. Errors thrown by the listener are logged.
+   * 
+   * @param config - Subscribe configuration
+   * @returns Subscription handle; call `unsubscribe()` to stop receiving messages
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheNotSupportedError} If the provider has no pub/sub (Memcached)
+   * @throws {CacheError} If the subscription fails
+   * 
+   * @example
+   * ```typescript
+   * const subscription = await cache.subscribe({
+   *   channel: 'orders',
+   *   listener: message => {
+   *     const order = JSON.parse(message);
+   *     console.log(`Order ${order.id} is ${order.status}`);
+   *   }
+   * });
+   * 
+   * // Later
+   * await subscription.unsubscribe();
+   * ```
+   */
+  async subscribe(config: CacheSubscribeConfig): Promise<CacheSubscription> {
+    this.logger.debug('Basepack Cache: Subscribing', { channel: config.channel });
+    try {
+      const subscription = await this.provider.subscribe(config);
+      this.logger.debug('Basepack Cache: Subscribed', { channel: config.channel });
+      return subscription;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Subscribe exception', { channel: config.channel, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove every value stored with any of the given tags
+   * 
+   * Attach tags when setting values, then invalidate a whole group at once
+   * without tracking keys yourself.
+   * 
+   * - Redis keeps a set of keys per tag and deletes them
+   * - Memcached keeps a version counter per tag; values stored with an older
+   *   version read as misses, and `invalidated` is not reported
+   * - Memory keeps an in-process index of keys per tag
+   * 
+   * @param tags - Tags to invalidate
+   * @returns Invalidation result
+   * @throws {CacheValidationError} If tags are invalid
+   * 
+   * @example
+   * ```typescript
+   * await cache.set({ key: 'user:42:profile', value: profile, tags: ['user:42'] });
+   * await cache.set({ key: 'user:42:orders', value: orders, tags: ['user:42', 'orders'] });
+   * 
+   * // Remove everything related to user 42
+   * await cache.invalidateTags(['user:42']);
+   * ```
+   */
+  async invalidateTags(tags: string[]): Promise<CacheInvalidateTagsResult> {
+    this.logger.info('Basepack Cache: Invalidating tags', { tags });
+    try {
+      const result = await this.provider.invalidateTags(tags);
+      if (result.success) {
+        this.logger.info('Basepack Cache: Tags invalidated successfully', {
+          tags,
+          invalidated: result.invalidated,
+          provider: result.provider
+        });
+      } else {
+        this.logger.error('Basepack Cache: Invalidate tags failed', { tags, error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Invalidate tags exception', { tags, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Consume quota from a rate limit
+   * 
+   * Usually called through `RateLimiter`, which fixes the algorithm, limit and
+   * window. Redis applies every algorithm atomically with a Lua script;
+   * Memcached uses INCR counters and GETS/CAS.
+   * 
+   * @param config - Rate limit configuration
+   * @returns Rate limit result with the remaining quota and reset time
+   * @throws {CacheValidationError} If configuration is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await cache.rateLimit({
+   *   key: 'ratelimit:api:user:123',
+   *   algorithm: 'sliding-window',
+   *   limit: 100,
+   *   window: 60
+   * });
+   * if (!result.allowed) {
+   *   console.log(`Retry in ${result.retryAfter} ms`);
+   * }
+   * ```
+   */
+  async rateLimit(config: CacheRateLimitConfig): Promise<CacheRateLimitResult> {
+    this.logger.debug('Basepack Cache: Applying rate limit', { key: config.key, algorithm: config.algorithm });
+    try {
+      const result = await this.provider.rateLimit(config);
+      if (!result.success) {
+        this.logger.error('Basepack Cache: Rate limit failed', { key: config.key, error: result.error });
+      } else if (result.allowed) {
+        this.logger.debug('Basepack Cache: Rate limit allowed', { key: config.key, remaining: result.remaining });
+      } else {
+        this.logger.info('Basepack Cache: Rate limit exceeded', { key: config.key, retryAfter: result.retryAfter });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Rate limit exception', { key: config.key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Acquire a distributed lock
+   * 
+   * The lock is taken with an atomic `add` (Redis `SET NX`, Memcached `add`) of a
+   * random token under `<key>:__lock`. While another holder has the lock, the
+   * attempt is repeated every `retryDelay` until `waitTimeout` has passed.
+   * 
+   * The returned handle's `extend()` and `release()` only act while the lock
+   * still holds its token (a Lua script in Redis, GETS/CAS in Memcached).
+   * 
+   * @param config - Lock configuration with key, TTL and wait timeout
+   * @returns Lock handle
+   * @throws {CacheValidationError} If configuration is invalid
+   * @throws {CacheLockError} If the lock is still held elsewhere after `waitTimeout`, or the provider failed
+   * 
+   * @example
+   * ```typescript
+   * const lock = await cache.acquireLock({ key: 'jobs:nightly', ttl: 60, waitTimeout: 5000 });
+   * try {
+   *   await runNightlyJob();
+   * } finally {
+   *   await lock.release();
+   * }
+   * ```
+   */
+  async acquireLock(config: CacheLockConfig): Promise<CacheLock> {
+    validateCacheLockConfig(config);
+
+    const ttl = config.ttl ?? 30;
+    const waitTimeout = config.waitTimeout ?? 0;
+    const retryDelay = config.retryDelay ?? 50;
+    const lockKey = `${config.key}${LOCK_KEY_SUFFIX}`;
+    const token = randomUUID();
+
+    this.logger.info('Basepack Cache: Acquiring lock', { key: config.key, ttl, waitTimeout });
+
+    let result: CacheAddResult;
+    try {
+      const deadline = Date.now() + waitTimeout;
+      result = await this.provider.add({ key: lockKey, value: token, ttl });
+
+      while (result.success && !result.added && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, retryDelay));
+        result = await this.provider.add({ key: lockKey, value: token, ttl });
+      }
+    } catch (error) {
+      this.logger.error('Basepack Cache: Acquire lock exception', { key: config.key, error });
+      throw error;
+    }
+
+    if (result.added) {
+      this.logger.info('Basepack Cache: Lock acquired', { key: config.key, provider: result.provider });
+      return new CacheLock(this.provider, config.key, lockKey, token, ttl, this.logger);
+    }
+
+    if (!result.success) {
+      this.logger.error('Basepack Cache: Acquire lock failed', { key: config.key, error: result.error });
+      throw new CacheLockError(`Failed to acquire lock "${config.key}": ${result.error}`, result.provider, config.key);
+    }
+
+    this.logger.warn('Basepack Cache: Lock is held elsewhere', { key: config.key, waitTimeout });
+    throw new CacheLockError(`Lock "${config.key}" is held by another holder`, result.provider, config.key);
+  }
+
+  /**
+   * Run a function while holding a distributed lock
+   * 
+   * The lock is released once the function settles, even if it throws. A
+   * release failure is logged and does not hide the function's result.
+   * 
+   * @param key - Lock name
+   * @param fn - Function to run; receives the lock handle so it can extend the lock
+   * @param options - Lock TTL and wait options
+   * @returns Result of the function
+   * @throws {CacheLockError} If the lock could not be acquired
+   * 
+   * @example
+   * ```typescript
+   * await cache.withLock('jobs:nightly', async () => {
+   *   await runNightlyJob();
+   * }, { ttl: 300 });
+   * ```
+   */
+  async withLock<T>(
+    key: string,
+    fn: (lock: CacheLock) => Promise<T> | T,
+    options: Omit<CacheLockConfig, 'key'> = {}
+  ): Promise<T> {
+    const lock = await this.acquireLock({ ...options, key });
+
+    try {
+      return await fn(lock);
+    } finally {
+      await lock.release().catch(error => {
+        this.logger.error('Basepack Cache: Lock release exception', { key, error });
+      });
+    }
+  }
+
+  /**
+   * Clear all values from cache
+   * 
+   * Removes all values from the cache provider.
+   * 
+   * **Important:**
+   * - For Redis with a key prefix, only keys with that prefix are cleared
+   * - For Redis without a prefix, the entire database is flushed
+   * - For Memcached, the entire server is flushed (no selective clearing)
+   * - For memory, only keys with the configured prefix (or all keys) are removed
+   * 
+   * @returns Clear result
+   * 
+   * @example
+   * ```typescript
+   * const result = await cache.clear();
+   * 
+   * if (result.success) {
+   *   console.log('Cache cleared successfully');
+   * }
+   * ```
+   */
+  async clear(): Promise<CacheClearResult> {
+    this.logger.info('Basepack Cache: Clearing cache');
+    try {
+      const result = await this.provider.clear();
+      if (result.success) {
+        this.logger.info('Basepack Cache: Cache cleared successfully', { provider: result.provider });
+      } else {
+        this.logger.error('Basepack Cache: Clear failed', { error: result.error });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Clear exception', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a namespaced view of the cache
+   * 
+   * The view prefixes its keys with `<name>:` and shares this service's provider,
+   * so creating one is cheap. Its `clear()` only removes keys in the namespace:
+   * by pattern on Redis and Memory, and by switching to a new key version on Memcached.
+   * 
+   * @param name - Namespace name, used as the key prefix; cannot contain `:`
+   * @param options - Namespace options
+   * @returns Namespaced view
+   * @throws {CacheValidationError} If the name or options are invalid
+   * 
+   * @example
+   * ```typescript
+   * const sessions = cache.namespace('sessions', { defaultTtl: 1800 });
+   * 
+   * await sessions.set({ key: 'abc123', value: session }); // sessions:abc123, 30 minutes
+   * await sessions.clear(); // Only removes sessions:*
+   * ```
+   */
+  namespace(name: string, options?: CacheNamespaceOptions): CacheNamespace {
+    return new CacheNamespace(this, name, options);
+  }
+
+  /**
+   * Check cache provider health
+   * 
+   * Performs a lightweight operation to verify connectivity and access to the cache provider.
+   * With a local tier configured, `details.local` and `details.remote` hold each tier's health.
+   * 
+   * @returns Health information
+   * 
+   * @example
+   * ```typescript
+   * const health = await cache.health();
+   * 
+   * if (health.status === 'healthy') {
+   *   console.log(`Cache is healthy (${health.responseTime}ms)`);
+   * } else {
+   *   console.error(`Cache is unhealthy: ${health.error}`);
+   * }
+   * ```
+   */
+  async health(): Promise<CacheHealthInfo> {
+    this.logger.debug('Basepack Cache: Checking health');
+    try {
+      const health = await this.provider.health();
+      this.logger.debug('Basepack Cache: Health check completed', { 
+        provider: health.provider,
+        status: health.status,
+        responseTimeMs: health.responseTime
+      });
+      return health;
+    } catch (error) {
+      this.logger.error('Basepack Cache: Health check exception', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Close connection to cache provider
+   * 
+   * Gracefully closes the connection to the cache provider.
+   * Should be called when the application is shutting down.
+   * 
+   * @example
+   * ```typescript
+   * // On application shutdown
+   * await cache.close();
+   * console.log('Cache connection closed');
+   * ```
+   */
+  async close(): Promise<void> {
+    this.logger.debug('Basepack Cache: Closing connection');
+    try {
+      await this.provider.close();
+      this.logger.debug('Basepack Cache: Connection closed successfully');
+    } catch (error) {
+      this.logger.error('Basepack Cache: Close exception', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get collected cache metrics
+   * 
+   * Requires `metrics` in the service configuration. Counts every provider
+   * operation, including the reads and writes made by `getOrSet`, locks and
+   * rate limits. Hits and misses are counted per key from `get` and `getMany`
+   * calls, including those made by `getOrSet`.
+   * 
+   * @returns Hit, miss, error and latency metrics overall, per operation and per provider, or undefined if metrics are disabled
+   * 
+   * @example
+   * ```typescript
+   * const cache = new CacheService({ provider: CacheProvider.REDIS, metrics: true });
+   * 
+   * const stats = cache.stats();
+   * console.log(`Hit rate: ${(stats!.hitRate * 100).toFixed(1)}%`);
+   * console.log('p99 get latency:', stats!.operations.get?.latency.p99, 'ms');
+   * ```
+   */
+  stats(): CacheStats | undefined {
+    return this.metrics?.stats();
+  }
+
+  /**
+   * Discard collected cache metrics and start counting again
+   * 
+   * Does nothing if metrics are disabled.
+   */
+  resetStats(): void {
+    this.metrics?.reset();
+  }
+
+  /**
+   * Get the current provider name
+   * 
+   * With failover configured, this is the provider currently serving operations.
+   * 
+   * @returns Provider name
+   * 
+   * @example
+   * ```typescript
+   * const providerName = cache.getProviderName();
+   * console.log(`Using provider: ${providerName}`);
+   * ```
+   */
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Run the loader for a key, sharing one call between concurrent callers
+   * 
+   * @param config - Get-or-set configuration
+   * @returns Result with the loaded value
+   */
+  private load<T>(config: CacheGetOrSetConfig<T>): Promise<CacheGetOrSetResult<T>> {
+    const pending = this.pendingLoads.get(config.key);
+    if (pending) {
+      this.logger.debug('Basepack Cache: Joining pending load', { key: config.key });
+      return pending;
+    }
+
+    const promise = this.loadWithLock(config).finally(() => {
+      this.pendingLoads.delete(config.key);
+    });
+    this.pendingLoads.set(config.key, promise);
+    return promise;
+  }
+
+  /**
+   * Load and store a value, holding a distributed lock if configured
+   * 
+   * @param config - Get-or-set configuration
+   * @returns Result with the loaded value
+   */
+  private async loadWithLock<T>(config: CacheGetOrSetConfig<T>): Promise<CacheGetOrSetResult<T>> {
+    if (!config.lock) {
+      return this.loadAndStore(config);
+    }
+
+    const options: CacheLoadLockOptions = config.lock === true ? {} : config.lock;
+    const lockKey = `${config.key}${LOAD_LOCK_KEY_SUFFIX}`;
+    // A random token lets the release skip a lock another instance took after ours expired
+    const token = randomUUID();
+    const lock = await this.provider.add({ key: lockKey, value: token, ttl: options.ttl ?? 10 }).catch(error => {
+      if (!isCacheError(error)) {
+        throw error;
+      }
+      return { success: false, added: false, error: error.message };
+    });
+
+    if (lock.added) {
+      try {
+        return await this.loadAndStore(config);
+      } finally {
+        const released = await this.provider.releaseLock({ key: lockKey, token }).catch(error => {
+          this.logger.error('Basepack Cache: Load lock release failed', { key: config.key, error });
+        });
+        if (released && released.success && !released.owned) {
+          this.logger.warn('Basepack Cache: Load lock expired before release', { key: config.key });
+        }
+      }
+    }
+
+    if (!lock.success) {
+      this.logger.error('Basepack Cache: Load lock failed', { key: config.key, error: lock.error });
+      return this.loadAndStore(config);
+    }
+
+    this.logger.debug('Basepack Cache: Waiting for another instance to load value', { key: config.key });
+    const waitTimeout = options.waitTimeout ?? 5000;
+    const retryDelay = options.retryDelay ?? 50;
+    const deadline = Date.now() + waitTimeout;
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, retryDelay));
+
+      const cached = await this.provider.get<T>({ key: config.key }).catch(error => this.toFailedGet<T>(config.key, error));
+      if (cached.success && cached.found) {
+        return {
+          success: true,
+          key: config.key,
+          value: cached.value as T,
+          cached: true,
+          stale: false,
+          provider: cached.provider,
+        };
+      }
+    }
+
+    this.logger.warn('Basepack Cache: Timed out waiting for value, loading locally', { key: config.key, waitTimeout });
+    return this.loadAndStore(config);
+  }
+
+  /**
+   * Run the loader and store its value (and soft TTL marker)
+   * 
+   * @param config - Get-or-set configuration
+   * @returns Result with the loaded value
+   */
+  private async loadAndStore<T>(config: CacheGetOrSetConfig<T>): Promise<CacheGetOrSetResult<T>> {
+    this.logger.debug('Basepack Cache: Loading value', { key: config.key });
+    const value = await config.loader();
+
+    let result: CacheSetResult;
+    try {
+      result = await this.provider.set({ key: config.key, value, ttl: config.ttl, tags: config.tags });
+      if (result.success && config.softTtl) {
+        await this.provider.set({ key: `${config.key}${FRESH_KEY_SUFFIX}`, value: 1, ttl: config.softTtl });
+      }
+    } catch (error) {
+      if (!isCacheError(error)) {
+        throw error;
+      }
+      result = { success: false, key: config.key, provider: error.provider, timestamp: new Date(), error: error.message };
+    }
+
+    if (result.success) {
+      this.logger.info('Basepack Cache: Value loaded and set', { key: config.key, provider: result.provider });
+    } else {
+      this.logger.error('Basepack Cache: Set failed', { key: config.key, error: result.error });
+    }
+
+    return {
+      success: result.success,
+      key: config.key,
+      value,
+      cached: false,
+      stale: false,
+      provider: result.provider,
+      error: result.error,
+    };
+  }
+
+  /**
+   * Convert a thrown cache error into a failed get result
+   * 
+   * @param key - Cache key
+   * @param error - Error thrown by the provider
+   * @returns Failed get result
+   * @throws The original error if it is not a CacheError
+   */
+  private toFailedGet<T>(key: string, error: unknown): CacheGetResult<T> {
+    if (!isCacheError(error)) {
+      throw error;
+    }
+
+    return { success: false, key, found: false, provider: error.provider, error: error.message };
+  }
+
+  /**
+   * Apply the service-level serializer to a provider configuration
+   * 
+   * A serializer set on the provider configuration itself takes precedence.
+   * 
+   * @param config - Provider configuration
+   * @returns Provider configuration with the serializer applied
+   */
+  private withSerializer<C extends { serializer?: CacheSerializer }>(config: C): C {
+    if (!this.serializer || config.serializer) {
+      return config;
+    }
+
+    return { ...config, serializer: this.serializer };
+  }
+
+  /**
+   * Create a cache provider instance
+   * 
+   * @param config - Provider configuration
+   * @returns Provider instance
+   * @throws {CacheProviderError} If provider is not supported
+   */
+  private createProvider(config: CacheSingleProviderConfig): ICacheProvider {
+    switch (config.provider) {
+      case CacheProvider.REDIS:
+        return new RedisProvider(this.withSerializer((config.config || {}) as RedisConfig), this.logger);
       
       case CacheProvider.MEMCACHED:
-        return new MemcachedProvider((config.config || {}) as MemcachedConfig, this.logger);
+        return new MemcachedProvider(this.withSerializer((config.config || {}) as MemcachedConfig), this.logger);
+      
+      case CacheProvider.MEMORY:
+        return new MemoryProvider(this.withSerializer((config.config || {}) as MemoryConfig), this.logger);
       
       default:
         throw new Error(
@@ -0,0 +1,746 @@
+/**
+ * Value size limits and chunking
+ * @module cache/size-limit
+ */
+
+import { randomBytes } from 'crypto';
+import type {
+  ICacheProvider,
+  CacheValueSizeConfig,
+  CacheSerializer,
+  CacheSetConfig,
+  CacheGetConfig,
+  CacheDeleteConfig,
+  CacheHasConfig,
+  CacheGetResult,
+  CacheSetResult,
+  CacheAddResult,
+  CacheDeleteResult,
+  CacheHasResult,
+  CacheClearResult,
+  CacheHealthInfo,
+  CacheGetManyConfig,
+  CacheSetManyConfig,
+  CacheDeleteManyConfig,
+  CacheIncrementConfig,
+  CacheIncrementResult,
+  CacheCompareAndSetConfig,
+  CacheCompareAndSetResult,
+  CacheInvalidateTagsResult,
+  CacheExtendLockConfig,
+  CacheReleaseLockConfig,
+  CacheLockResult,
+  CacheRateLimitConfig,
+  CacheRateLimitResult,
+  CacheKeysConfig,
+  CacheScanResult,
+  CacheTtlConfig,
+  CacheExpireConfig,
+  CacheTouchConfig,
+  CacheTtlResult,
+  CacheExpireResult,
+  CacheHashGetConfig,
+  CacheHashSetConfig,
+  CacheListPushConfig,
+  CacheListPopConfig,
+  CacheListRangeConfig,
+  CacheSetAddConfig,
+  CacheSetMembersConfig,
+  CacheSortedSetAddConfig,
+  CacheSortedSetRangeConfig,
+  CacheHashGetResult,
+  CacheCollectionWriteResult,
+  CacheListResult,
+  CacheSetMembersResult,
+  CacheSortedSetRangeResult,
+  CachePublishConfig,
+  CachePublishResult,
+  CacheSubscribeConfig,
+  CacheSubscription,
+} from './types';
+import type { Logger } from '../logger';
+import { JsonSerializer, isSameSerializedValue } from './serializers';
+import { CacheValidationError } from './errors';
+import { validateSerializable } from './validation';
+
+/** Field marking a stored value as the manifest of a chunked value (namespaced so it does not collide with user data) */
+const CHUNKED_VALUE_FIELD = '__basepack$chunks';
+
+/** Marker between a key and the suffix of its chunk keys */
+const CHUNK_KEY_MARKER = ':__chunk:';
+
+/** Bytes reserved in each chunk for the serializer's own framing */
+const CHUNK_OVERHEAD = 64;
+
+/** Smallest limit that leaves room for chunk data */
+const MIN_CHUNK_LIMIT = 1024;
+
+/**
+ * Manifest stored under the key of a chunked value
+ */
+interface ChunkManifest {
+  /** Random identifier shared by the chunk keys of this value */
+  id: string;
+  /** Number of chunks */
+  count: number;
+  /** Whether the serialized value was a string or a Buffer */
+  encoding: 'utf8' | 'buffer';
+}
+
+/**
+ * Read the chunk manifest from a stored value
+ *
+ * A value is only treated as chunked if the manifest has a hex `id`, a
+ * positive integer `count` and a known `encoding`.
+ *
+ * @param value - Stored value
+ * @returns Manifest, or undefined if the value is not chunked
+ */
+function toManifest(value: unknown): ChunkManifest | undefined {
+  if (!value || typeof value !== 'object' || !(CHUNKED_VALUE_FIELD in value)) {
+    return undefined;
+  }
+
+  const manifest = (value as Record<string, Partial<ChunkManifest> | null>)[CHUNKED_VALUE_FIELD];
+  if (
+    !manifest ||
+    typeof manifest.id !== 'string' || !/^[0-9a-f]+$/.test(manifest.id) ||
+    typeof manifest.count !== 'number' || !Number.isSafeInteger(manifest.count) || manifest.count <= 0 ||
+    (manifest.encoding !== 'utf8' && manifest.encoding !== 'buffer')
+  ) {
+    return undefined;
+  }
+  return manifest as ChunkManifest;
+}
+
+/**
+ * Build the keys holding the chunks of a value
+ *
+ * @param key - Key of the value
+ * @param manifest - Manifest of the value
+ * @returns Chunk keys in order
+ */
+function chunkKeys(key: string, manifest: ChunkManifest): string[] {
+  return Array.from({ length: manifest.count }, (_, index) => `${key}${CHUNK_KEY_MARKER}${manifest.id}:${index}`);
+}
+
+/**
+ * Cache provider that enforces a maximum value size
+ *
+ * Values are serialized with the service serializer and measured before they
+ * are written. With the 'reject' strategy, larger values throw a
+ * `CacheValidationError`. With the 'chunk' strategy, the serialized value is
+ * split across `<key>:__chunk:<id>:<n>` keys with the same TTL and tags, and a
+ * small manifest is stored under the key itself; `get` and `getMany`
+ * reassemble it, and `invalidateTags` removes the chunks with the manifest.
+ *
+ * Limits apply to `set`, `add`, `setMany` and `compareAndSet`. Chunked values
+ * cannot be compared and set, so an oversized `compareAndSet` value is always
+ * rejected. In chunk mode, `set`, `setMany`, `compareAndSet`, `delete`,
+ * `deleteMany`, `expire` and `touch` read the current entry first so the
+ * chunks of a previous value are removed or updated with it. Chunk keys are
+ * hidden from `scan`.
+ *
+ * @example
+ * ```typescript
+ * const provider = new SizeLimitCacheProvider(
+ *   new MemcachedProvider({ servers: ['localhost:11211'] }),
+ *   { limit: 1024 * 1024, strategy: 'chunk' }
+ * );
+ * ```
+ */
+export class SizeLimitCacheProvider implements ICacheProvider {
+  private readonly limit: number;
+  private readonly chunking: boolean;
+  private readonly serializer: CacheSerializer;
+  private readonly logger: Logger;
+
+  /**
+   * Creates a new SizeLimitCacheProvider instance
+   *
+   * @param provider - Provider storing the values
+   * @param options - Size limit options
+   * @param serializer - Serializer used to measure and chunk values (default: JsonSerializer)
+   * @param logger - Optional logger for debugging and monitoring
+   * @throws {CacheValidationError} If the limit is not a positive integer, or below 1024 bytes when chunking
+   */
+  constructor(
+    private readonly provider: ICacheProvider,
+    options: CacheValueSizeConfig,
+    serializer: CacheSerializer = new JsonSerializer(),
+    logger: Logger = console
+  ) {
+    this.limit = options.limit;
+    this.chunking = options.strategy === 'chunk';
+    this.serializer = serializer;
+    this.logger = logger;
+
+    if (!Number.isInteger(this.limit) || this.limit <= 0) {
+      throw new CacheValidationError('maxValueSize limit must be a positive integer', 'maxValueSize.limit');
+    }
+    if (this.chunking && this.limit < MIN_CHUNK_LIMIT) {
+      throw new CacheValidationError(`maxValueSize limit must be at least ${MIN_CHUNK_LIMIT} bytes when chunking`, 'maxValueSize.limit');
+    }
+    if (options.strategy !== undefined && options.strategy !== 'reject' && options.strategy !== 'chunk') {
+      throw new CacheValidationError("maxValueSize strategy must be 'reject' or 'chunk'", 'maxValueSize.strategy');
+    }
+  }
+
+  /**
+   * Provider name of the wrapped provider
+   */
+  get name() {
+    return this.provider.name;
+  }
+
+  /**
+   * Serialize a value and check it against the limit
+   *
+   * @param key - Cache key, for error messages
+   * @param value - Value to check
+   * @param canChunk - Whether an oversized value may be chunked
+   * @returns Serialized value if it is oversized and should be chunked, undefined if it fits
+   * @throws {CacheValidationError} If the value is oversized and cannot be chunked
+   */
+  private oversized(key: string, value: unknown, canChunk: boolean = true): string | Buffer | undefined {
+    if (value === undefined) {
+      // Rejected by the provider's own validation
+      return undefined;
+    }
+    validateSerializable(value);
+
+    const data = this.serializer.serialize(value);
+    const size = Buffer.byteLength(data);
+    if (size <= this.limit) {
+      return undefined;
+    }
+
+    if (!this.chunking || !canChunk) {
+      throw new CacheValidationError(
+        `Value for key "${key}" is ${size} bytes, above the maxValueSize of ${this.limit} bytes`,
+        'value'
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Find the chunk keys of the values currently stored under some keys
+   *
+   * Failures are logged and treated as no chunks, so a write never fails
+   * because the previous value could not be read.
+   *
+   * @param keys - Keys to check
+   * @returns Chunk keys of every chunked value
+   */
+  private async currentChunkKeys(keys: string[]): Promise<string[]> {
+    try {
+      const results = await this.provider.getMany({ keys });
+      return results.flatMap(result => {
+        const manifest = result.found ? toManifest(result.value) : undefined;
+        return manifest ? chunkKeys(result.key, manifest) : [];
+      });
+    } catch (error) {
+      this.logger.warn('Basepack Cache: Could not read previous chunks', { keys, error });
+      return [];
+    }
+  }
+
+  /**
+   * Delete the chunks of the values currently stored under some keys
+   *
+   * @param keys - Keys whose chunks to delete
+   */
+  private async removeChunks(keys: string[]): Promise<void> {
+    const chunks = await this.currentChunkKeys(keys);
+    if (chunks.length > 0) {
+      await this.provider.deleteMany({ keys: chunks });
+    }
+  }
+
+  /**
+   * Store the chunks of a serialized value
+   *
+   * @param key - Cache key
+   * @param data - Serialized value
+   * @param ttl - Time to live in seconds (optional)
+   * @param tags - Tags of the value, so invalidating them removes the chunks too (optional)
+   * @returns Manifest to store under the key, or the failed result
+   */
+  private async writeChunks(
+    key: string,
+    data: string | Buffer,
+    ttl?: number,
+    tags?: string[]
+  ): Promise<{ manifest: ChunkManifest; error?: undefined } | { manifest?: undefined; error: CacheSetResult }> {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+    // Chunks are stored as base64 text, which every serializer stores with little framing
+    const chunkSize = Math.floor((this.limit - CHUNK_OVERHEAD) / 4) * 3;
+    const manifest: ChunkManifest = {
+      id: randomBytes(4).toString('hex'),
+      count: Math.ceil(buffer.length / chunkSize),
+      encoding: typeof data === 'string' ? 'utf8' : 'buffer',
+    };
+    const keys = chunkKeys(key, manifest);
+
+    const results = await this.provider.setMany({
+      entries: keys.map((chunkKey, index) => ({
+        key: chunkKey,
+        value: buffer.subarray(index * chunkSize, (index + 1) * chunkSize).toString('base64'),
+        tags,
+      })),
+      ttl,
+    });
+
+    const failed = results.find(result => !result.success);
+    if (failed) {
+      await this.provider.deleteMany({ keys }).catch(() => undefined);
+      return { error: { ...failed, key } };
+    }
+
+    this.logger.debug('Basepack Cache: Value chunked', { key, size: buffer.length, chunks: manifest.count });
+    return { manifest };
+  }
+
+  /**
+   * Replace a chunk manifest in a get result with the reassembled value
+   *
+   * A value with missing chunks is reported as not found.
+   *
+   * @param result - Get result from the wrapped provider
+   * @returns Get result with the original value
+   */
+  private async reassemble<T>(result: CacheGetResult<T>): Promise<CacheGetResult<T>> {
+    const manifest = result.found ? toManifest(result.value) : undefined;
+    if (!manifest) {
+      return result;
+    }
+
+    const chunks = await this.provider.getMany<string>({ keys: chunkKeys(result.key, manifest) });
+    if (chunks.some(chunk => !chunk.success || !chunk.found)) {
+      this.logger.warn('Basepack Cache: Chunked value is incomplete, treating as a miss', { key: result.key });
+      return { ...result, found: false, value: undefined };
+    }
+
+    const buffer = Buffer.concat(chunks.map(chunk => Buffer.from(chunk.value as string, 'base64')));
+    const data = manifest.encoding === 'utf8' ? buffer.toString('utf8') : buffer;
+    return { ...result, value: this.serializer.deserialize<T>(data) };
+  }
+
+  /**
+   * Get a value, reassembling it if it was chunked
+   *
+   * @param config - Get configuration
+   * @returns Get result
+   */
+  async get<T = any>(config: CacheGetConfig): Promise<CacheGetResult<T>> {
+    return this.reassemble(await this.provider.get<T>(config));
+  }
+
+  /**
+   * Set a value, rejecting or chunking it if it is too large
+   *
+   * @param config - Set configuration
+   * @returns Set result
+   * @throws {CacheValidationError} If the value is too large and the strategy is 'reject'
+   */
+  async set(config: CacheSetConfig): Promise<CacheSetResult> {
+    const data = this.oversized(config.key, config.value);
+    if (!this.chunking) {
+      return this.provider.set(config);
+    }
+
+    await this.removeChunks([config.key]);
+    if (data === undefined) {
+      return this.provider.set(config);
+    }
+
+    const { manifest, error } = await this.writeChunks(config.key, data, config.ttl, config.tags);
+    if (!manifest) {
+      return error;
+    }
+    return this.provider.set({ ...config, value: { [CHUNKED_VALUE_FIELD]: manifest } });
+  }
+
+  /**
+   * Add a value if the key does not exist, rejecting or chunking it if it is too large
+   *
+   * @param config - Set configuration
+   * @returns Add result
+   * @throws {CacheValidationError} If the value is too large and the strategy is 'reject'
+   */
+  async add(config: CacheSetConfig): Promise<CacheAddResult> {
+    const data = this.oversized(config.key, config.value);
+    if (data === undefined) {
+      return this.provider.add(config);
+    }
+
+    const { manifest, error } = await this.writeChunks(config.key, data, config.ttl, config.tags);
+    if (!manifest) {
+      return { ...error, added: false };
+    }
+
+    const result = await this.provider.add({ ...config, value: { [CHUNKED_VALUE_FIELD]: manifest } });
+    if (!result.added) {
+      await this.provider.deleteMany({ keys: chunkKeys(config.key, manifest) });
+    }
+    return result;
+  }
+
+  /**
+   * Delete a value and its chunks
+   *
+   * @param config - Delete configuration
+   * @returns Delete result
+   */
+  async delete(config: CacheDeleteConfig): Promise<CacheDeleteResult> {
+    if (this.chunking) {
+      await this.removeChunks([config.key]);
+    }
+    return this.provider.delete(config);
+  }
+
+  /**
+   * Check if a key exists
+   *
+   * @param config - Has configuration
+   * @returns Has result
+   */
+  async has(config: CacheHasConfig): Promise<CacheHasResult> {
+    return this.provider.has(config);
+  }
+
+  /**
+   * Read the remaining time to live of a key
+   *
+   * @param config - TTL configuration
+   * @returns TTL result
+   */
+  async ttl(config: CacheTtlConfig): Promise<CacheTtlResult> {
+    return this.provider.ttl(config);
+  }
+
+  /**
+   * Set a new time to live on a key and its chunks
+   *
+   * @param config - Expire configuration
+   * @returns Expire result
+   */
+  async expire(config: CacheExpireConfig): Promise<CacheExpireResult> {
+    if (this.chunking) {
+      const chunks = await this.currentChunkKeys([config.key]);
+      await Promise.all(chunks.map(key => this.provider.expire({ ...config, key })));
+    }
+    return this.provider.expire(config);
+  }
+
+  /**
+   * Refresh a key and its chunks, optionally with a new time to live
+   *
+   * @param config - Touch configuration
+   * @returns Expire result
+   */
+  async touch(config: CacheTouchConfig): Promise<CacheExpireResult> {
+    if (this.chunking) {
+      const chunks = await this.currentChunkKeys([config.key]);
+      await Promise.all(chunks.map(key => this.provider.touch({ ...config, key })));
+    }
+    return this.provider.touch(config);
+  }
+
+  /**
+   * Get multiple values, reassembling chunked ones
+   *
+   * @param config - Get-many configuration
+   * @returns Get results in the same order as the keys
+   */
+  async getMany<T = any>(config: CacheGetManyConfig): Promise<CacheGetResult<T>[]> {
+    const results = await this.provider.getMany<T>(config);
+    return Promise.all(results.map(result => this.reassemble(result)));
+  }
+
+  /**
+   * Set multiple values, rejecting or chunking those that are too large
+   *
+   * Every entry is checked before anything is written.
+   *
+   * @param config - Set-many configuration
+   * @returns Set results in the same order as the entries
+   * @throws {CacheValidationError} If a value is too large and the strategy is 'reject'
+   */
+  async setMany(config: CacheSetManyConfig): Promise<CacheSetResult[]> {
+    const data = config.entries.map(entry => this.oversized(entry.key, entry.value));
+    if (!this.chunking) {
+      return this.provider.setMany(config);
+    }
+
+    await this.removeChunks(config.entries.map(entry => entry.key));
+
+    const entries = await Promise.all(config.entries.map(async (entry, index) => {
+      const serialized = data[index];
+      if (serialized === undefined) {
+        return entry;
+      }
+
+      const { manifest, error } = await this.writeChunks(entry.key, serialized, entry.ttl ?? config.ttl, entry.tags);
+      return manifest ? { ...entry, value: { [CHUNKED_VALUE_FIELD]: manifest } } : error;
+    }));
+
+    const pending = entries.filter((entry): entry is CacheSetConfig => 'value' in entry);
+    const written = pending.length > 0 ? await this.provider.setMany({ entries: pending, ttl: config.ttl }) : [];
+    return entries.map(entry => 'value' in entry ? written.shift()! : entry);
+  }
+
+  /**
+   * Delete multiple values and their chunks
+   *
+   * @param config - Delete-many configuration
+   * @returns Delete results in the same order as the keys
+   */
+  async deleteMany(config: CacheDeleteManyConfig): Promise<CacheDeleteResult[]> {
+    if (this.chunking) {
+      await this.removeChunks(config.keys);
+    }
+    return this.provider.deleteMany(config);
+  }
+
+  /**
+   * Increment a counter
+   *
+   * @param config - Increment configuration
+   * @returns Increment result
+   */
+  async increment(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    return this.provider.increment(config);
+  }
+
+  /**
+   * Decrement a counter
+   *
+   * @param config - Decrement configuration
+   * @returns Decrement result
+   */
+  async decrement(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    return this.provider.decrement(config);
+  }
+
+  /**
+   * Replace a value only if it currently equals the expected value
+   *
+   * In chunk mode, a chunked current value is reassembled and compared with
+   * `expected`; on a match the swap is made against its manifest, so a
+   * concurrent write still makes it fail. The chunks of the replaced value are
+   * removed once the swap succeeds.
+   *
+   * @param config - Compare-and-set configuration
+   * @returns Compare-and-set result
+   * @throws {CacheValidationError} If the new value is too large, whatever the strategy
+   */
+  async compareAndSet(config: CacheCompareAndSetConfig): Promise<CacheCompareAndSetResult> {
+    this.oversized(config.key, config.value, false);
+    if (!this.chunking) {
+      return this.provider.compareAndSet(config);
+    }
+
+    const current = await this.provider.get(config);
+    const manifest = current.found ? toManifest(current.value) : undefined;
+    if (!manifest) {
+      return this.provider.compareAndSet(config);
+    }
+
+    const reassembled = await this.reassemble(current);
+    const matches = reassembled.found && isSameSerializedValue(this.serializer, reassembled.value, config.expected);
+    const result = await this.provider.compareAndSet({ ...config, expected: matches ? current.value : config.expected });
+    if (result.swapped) {
+      await this.provider.deleteMany({ keys: chunkKeys(config.key, manifest) });
+    }
+    return result;
+  }
+
+  /**
+   * Invalidate tagged values
+   *
+   * @param tags - Tags to invalidate
+   * @returns Invalidation result
+   */
+  async invalidateTags(tags: string[]): Promise<CacheInvalidateTagsResult> {
+    return this.provider.invalidateTags(tags);
+  }
+
+  /**
+   * Extend a lock only if it is still held with the given token
+   *
+   * @param config - Extend configuration
+   * @returns Lock result
+   */
+  async extendLock(config: CacheExtendLockConfig): Promise<CacheLockResult> {
+    return this.provider.extendLock(config);
+  }
+
+  /**
+   * Release a lock only if it is still held with the given token
+   *
+   * @param config - Release configuration
+   * @returns Lock result
+   */
+  async releaseLock(config: CacheReleaseLockConfig): Promise<CacheLockResult> {
+    return this.provider.releaseLock(config);
+  }
+
+  /**
+   * Consume quota from a rate limit
+   *
+   * @param config - Rate limit configuration
+   * @returns Rate limit result
+   */
+  async rateLimit(config: CacheRateLimitConfig): Promise<CacheRateLimitResult> {
+    return this.provider.rateLimit(config);
+  }
+
+  /**
+   * Fetch one page of keys matching a pattern, without chunk keys
+   *
+   * @param config - Scan configuration
+   * @returns Scan result
+   */
+  async scan(config: CacheKeysConfig): Promise<CacheScanResult> {
+    const result = await this.provider.scan(config);
+    return { ...result, keys: result.keys.filter(key => !key.includes(CHUNK_KEY_MARKER)) };
+  }
+
+  /**
+   * Read fields of a hash
+   *
+   * @param config - Hash get configuration
+   * @returns Hash result
+   */
+  async hashGet<T = any>(config: CacheHashGetConfig): Promise<CacheHashGetResult<T>> {
+    return this.provider.hashGet<T>(config);
+  }
+
+  /**
+   * Write fields of a hash
+   *
+   * @param config - Hash set configuration
+   * @returns Write result
+   */
+  async hashSet(config: CacheHashSetConfig): Promise<CacheCollectionWriteResult> {
+    return this.provider.hashSet(config);
+  }
+
+  /**
+   * Push values onto a list
+   *
+   * @param config - List push configuration
+   * @returns Write result
+   */
+  async listPush(config: CacheListPushConfig): Promise<CacheCollectionWriteResult> {
+    return this.provider.listPush(config);
+  }
+
+  /**
+   * Pop values from a list
+   *
+   * @param config - List pop configuration
+   * @returns List result
+   */
+  async listPop<T = any>(config: CacheListPopConfig): Promise<CacheListResult<T>> {
+    return this.provider.listPop<T>(config);
+  }
+
+  /**
+   * Read a range of a list
+   *
+   * @param config - List range configuration
+   * @returns List result
+   */
+  async listRange<T = any>(config: CacheListRangeConfig): Promise<CacheListResult<T>> {
+    return this.provider.listRange<T>(config);
+  }
+
+  /**
+   * Add members to a set
+   *
+   * @param config - Set add configuration
+   * @returns Write result
+   */
+  async setAdd(config: CacheSetAddConfig): Promise<CacheCollectionWriteResult> {
+    return this.provider.setAdd(config);
+  }
+
+  /**
+   * Read the members of a set
+   *
+   * @param config - Set members configuration
+   * @returns Set result
+   */
+  async setMembers(config: CacheSetMembersConfig): Promise<CacheSetMembersResult> {
+    return this.provider.setMembers(config);
+  }
+
+  /**
+   * Add members to a sorted set
+   *
+   * @param config - Sorted set add configuration
+   * @returns Write result
+   */
+  async sortedSetAdd(config: CacheSortedSetAddConfig): Promise<CacheCollectionWriteResult> {
+    return this.provider.sortedSetAdd(config);
+  }
+
+  /**
+   * Read members of a sorted set by score
+   *
+   * @param config - Sorted set range configuration
+   * @returns Sorted set result
+   */
+  async sortedSetRange(config: CacheSortedSetRangeConfig): Promise<CacheSortedSetRangeResult> {
+    return this.provider.sortedSetRange(config);
+  }
+
+  /**
+   * Publish a message on a channel
+   *
+   * @param config - Publish configuration
+   * @returns Publish result
+   */
+  async publish(config: CachePublishConfig): Promise<CachePublishResult> {
+    return this.provider.publish(config);
+  }
+
+  /**
+   * Subscribe to a channel
+   *
+   * @param config - Subscribe configuration
+   * @returns Subscription handle
+   */
+  async subscribe(config: CacheSubscribeConfig): Promise<CacheSubscription> {
+    return this.provider.subscribe(config);
+  }
+
+  /**
+   * Clear all values
+   *
+   * @returns Clear result
+   */
+  async clear(): Promise<CacheClearResult> {
+    return this.provider.clear();
+  }
+
+  /**
+   * Check health of the wrapped provider
+   *
+   * @returns Health information
+   */
+  async health(): Promise<CacheHealthInfo> {
+    return this.provider.health();
+  }
+
+  /**
+   * Close the wrapped provider
+   */
+  async close(): Promise<void> {
+    return this.provider.close();
+  }
+}
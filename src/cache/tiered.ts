@@ -0,0 +1,713 @@
+/**
+ * Tiered cache provider
+ * @module cache/tiered
+ */
+
+import type {
+  ICacheProvider,
+  CacheSetConfig,
+  CacheGetConfig,
+  CacheDeleteConfig,
+  CacheHasConfig,
+  CacheGetResult,
+  CacheSetResult,
+  CacheAddResult,
+  CacheDeleteResult,
+  CacheHasResult,
+  CacheClearResult,
+  CacheHealthInfo,
+  CacheGetManyConfig,
+  CacheSetManyConfig,
+  CacheDeleteManyConfig,
+  CacheIncrementConfig,
+  CacheIncrementResult,
+  CacheCompareAndSetConfig,
+  CacheCompareAndSetResult,
+  CacheInvalidateTagsResult,
+  CacheExtendLockConfig,
+  CacheReleaseLockConfig,
+  CacheLockResult,
+  CacheRateLimitConfig,
+  CacheRateLimitResult,
+  CacheKeysConfig,
+  CacheScanResult,
+  CacheTtlConfig,
+  CacheExpireConfig,
+  CacheTouchConfig,
+  CacheTtlResult,
+  CacheExpireResult,
+  CacheHashGetConfig,
+  CacheHashSetConfig,
+  CacheListPushConfig,
+  CacheListPopConfig,
+  CacheListRangeConfig,
+  CacheSetAddConfig,
+  CacheSetMembersConfig,
+  CacheSortedSetAddConfig,
+  CacheSortedSetRangeConfig,
+  CacheHashGetResult,
+  CacheCollectionWriteResult,
+  CacheListResult,
+  CacheSetMembersResult,
+  CacheSortedSetRangeResult,
+  CachePublishConfig,
+  CachePublishResult,
+  CacheSubscribeConfig,
+  CacheSubscription,
+  CacheInvalidationEvent,
+} from './types';
+import type { Logger } from '../logger';
+import type { CacheInvalidationBroadcaster } from './invalidation';
+import { validateTTL } from './validation';
+import { CacheNotSupportedError } from './errors';
+
+/**
+ * Tiered cache provider
+ *
+ * Combines a local (L1) provider, usually an in-process `MemoryProvider`, with a
+ * remote (L2) provider such as Redis or Memcached.
+ *
+ * - `get` and `has` check the local tier first and fall through to the remote tier
+ * - Remote hits are back-filled into the local tier with the local TTL, capped
+ *   at the time the remote entry has left when the remote tier can report it
+ * - `getMany` only fetches local misses from the remote tier
+ * - `set`, `delete` and `clear` (and their batch forms) write through both tiers
+ * - `health` reports each tier separately in `details`
+ * - With a broadcaster, writes are published so other instances drop their
+ *   local copies, and keys published by other instances are dropped here
+ *
+ * Results report the provider that served them, so a local hit has
+ * `provider: CacheProvider.MEMORY`.
+ *
+ * @example
+ * ```typescript
+ * const provider = new TieredCacheProvider(
+ *   new MemoryProvider({ maxEntries: 5000 }),
+ *   new RedisProvider({ host: 'localhost' }),
+ *   { ttl: 30 }
+ * );
+ * ```
+ */
+export class TieredCacheProvider implements ICacheProvider {
+  private readonly localTtl: number;
+  private readonly logger: Logger;
+  private readonly broadcaster?: CacheInvalidationBroadcaster;
+  private readonly subscription?: Promise<CacheSubscription | undefined>;
+
+  /**
+   * Creates a new TieredCacheProvider instance
+   *
+   * @param local - Local (L1) provider
+   * @param remote - Remote (L2) provider
+   * @param options - Tier options
+   * @param options.ttl - Maximum TTL in seconds for values held in the local tier (default: 60)
+   * @param options.broadcaster - Broadcaster shared with other instances' local tiers (optional)
+   * @param logger - Optional logger for debugging and monitoring
+   * @throws {CacheValidationError} If the local TTL is invalid
+   */
+  constructor(
+    private readonly local: ICacheProvider,
+    private readonly remote: ICacheProvider,
+    options: { ttl?: number; broadcaster?: CacheInvalidationBroadcaster } = {},
+    logger: Logger = console
+  ) {
+    this.localTtl = options.ttl ?? 60;
+    validateTTL(this.localTtl, 'local.ttl');
+    this.logger = logger;
+    this.broadcaster = options.broadcaster;
+
+    this.logger.debug('Basepack Cache: Initializing tiered provider', {
+      local: local.name,
+      remote: remote.name,
+      localTtl: this.localTtl,
+      invalidationChannel: this.broadcaster?.channel
+    });
+
+    this.subscription = this.broadcaster?.listen(event => this.applyInvalidation(event));
+  }
+
+  /**
+   * Provider name of the remote tier
+   */
+  get name() {
+    return this.remote.name;
+  }
+
+  /**
+   * Resolve the TTL to use for the local tier
+   *
+   * @param ttl - Requested TTL in seconds
+   * @returns TTL capped at the local tier TTL
+   */
+  private resolveLocalTtl(ttl?: number): number {
+    return ttl ? Math.min(ttl, this.localTtl) : this.localTtl;
+  }
+
+  /**
+   * Resolve the TTL to back-fill a remote hit with
+   *
+   * Reads the remaining remote TTL so the local copy never outlives the remote
+   * entry. Providers that cannot report TTLs (Memcached) fall back to the local TTL.
+   *
+   * @param key - Cache key
+   * @returns TTL in seconds, or 0 if the remote entry is about to expire
+   */
+  private async resolveBackfillTtl(key: string): Promise<number> {
+    try {
+      const result = await this.remote.ttl({ key });
+      if (result.success && result.expiresIn !== undefined) {
+        return Math.min(Math.floor(result.expiresIn / 1000), this.localTtl);
+      }
+    } catch (error) {
+      if (!(error instanceof CacheNotSupportedError)) {
+        throw error;
+      }
+    }
+    return this.localTtl;
+  }
+
+  /**
+   * Tell other instances to drop their local copies
+   *
+   * @param event - Keys to drop, or `clear: true`
+   */
+  private async broadcast(event: CacheInvalidationEvent): Promise<void> {
+    await this.broadcaster?.publish(event);
+  }
+
+  /**
+   * Apply an invalidation published by another instance to the local tier
+   *
+   * @param event - Invalidation event
+   */
+  private async applyInvalidation(event: CacheInvalidationEvent): Promise<void> {
+    if (event.clear) {
+      this.logger.debug('Basepack Cache: Clearing local tier for remote invalidation');
+      await this.local.clear();
+    } else if (event.keys && event.keys.length > 0) {
+      this.logger.debug('Basepack Cache: Dropping local copies for remote invalidation', { keys: event.keys });
+      await this.local.deleteMany({ keys: event.keys });
+    }
+  }
+
+  /**
+   * Get a value, checking the local tier before the remote tier
+   *
+   * @param config - Get configuration
+   * @returns Get result from whichever tier served the value
+   */
+  async get<T = any>(config: CacheGetConfig): Promise<CacheGetResult<T>> {
+    const localResult = await this.local.get<T>(config);
+    if (localResult.success && localResult.found) {
+      this.logger.debug('Basepack Cache: Local tier hit', { key: config.key });
+      return localResult;
+    }
+
+    const remoteResult = await this.remote.get<T>(config);
+    if (remoteResult.success && remoteResult.found) {
+      const ttl = await this.resolveBackfillTtl(config.key);
+      if (ttl > 0) {
+        this.logger.debug('Basepack Cache: Back-filling local tier', { key: config.key, ttl });
+        await this.local.set({ key: config.key, value: remoteResult.value, ttl });
+      }
+    }
+
+    return remoteResult;
+  }
+
+  /**
+   * Set a value in both tiers
+   *
+   * The remote tier is written first. If it fails, the local copy is dropped
+   * so the local tier never holds a value the remote tier rejected.
+   *
+   * @param config - Set configuration
+   * @returns Set result from the remote tier
+   */
+  async set(config: CacheSetConfig): Promise<CacheSetResult> {
+    const result = await this.remote.set(config);
+
+    if (result.success) {
+      await this.local.set({ ...config, ttl: this.resolveLocalTtl(config.ttl) });
+      await this.broadcast({ keys: [config.key] });
+    } else {
+      await this.local.delete({ key: config.key });
+    }
+
+    return result;
+  }
+
+  /**
+   * Add a value in the remote tier only if the key does not exist
+   *
+   * The remote tier decides atomically. When the value is added, the local
+   * copy is dropped and other processes are told, so the next read sees the
+   * remote value. A key that already exists changes nothing, so lock polling
+   * does not publish invalidations.
+   *
+   * @param config - Set configuration
+   * @returns Add result from the remote tier
+   */
+  async add(config: CacheSetConfig): Promise<CacheAddResult> {
+    const result = await this.remote.add(config);
+    if (result.added) {
+      await this.local.delete({ key: config.key });
+      await this.broadcast({ keys: [config.key] });
+    }
+    return result;
+  }
+
+  /**
+   * Increment a counter in the remote tier and drop the local copy
+   *
+   * @param config - Increment configuration
+   * @returns Increment result from the remote tier
+   */
+  async increment(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    const result = await this.remote.increment(config);
+    await this.local.delete({ key: config.key });
+    if (result.success) {
+      await this.broadcast({ keys: [config.key] });
+    }
+    return result;
+  }
+
+  /**
+   * Decrement a counter in the remote tier and drop the local copy
+   *
+   * @param config - Decrement configuration
+   * @returns Decrement result from the remote tier
+   */
+  async decrement(config: CacheIncrementConfig): Promise<CacheIncrementResult> {
+    const result = await this.remote.decrement(config);
+    await this.local.delete({ key: config.key });
+    if (result.success) {
+      await this.broadcast({ keys: [config.key] });
+    }
+    return result;
+  }
+
+  /**
+   * Compare and set in the remote tier and drop the local copy
+   *
+   * The comparison always runs against the remote value, never a local copy
+   * that may be stale.
+   *
+   * @param config - Compare-and-set configuration
+   * @returns Compare-and-set result from the remote tier
+   */
+  async compareAndSet(config: CacheCompareAndSetConfig): Promise<CacheCompareAndSetResult> {
+    const result = await this.remote.compareAndSet(config);
+    await this.local.delete({ key: config.key });
+    if (result.success) {
+      await this.broadcast({ keys: [config.key] });
+    }
+    return result;
+  }
+
+  /**
+   * Delete a value from both tiers
+   *
+   * @param config - Delete configuration
+   * @returns Delete result from the remote tier
+   */
+  async delete(config: CacheDeleteConfig): Promise<CacheDeleteResult> {
+    await this.local.delete(config);
+    const result = await this.remote.delete(config);
+    if (result.success) {
+      await this.broadcast({ keys: [config.key] });
+    }
+    return result;
+  }
+
+  /**
+   * Check if a key exists in either tier
+   *
+   * @param config - Has configuration
+   * @returns Has result from whichever tier answered
+   */
+  async has(config: CacheHasConfig): Promise<CacheHasResult> {
+    const localResult = await this.local.has(config);
+    if (localResult.success && localResult.exists) {
+      return localResult;
+    }
+
+    return this.remote.has(config);
+  }
+
+  /**
+   * Get multiple values, fetching only local misses from the remote tier
+   *
+   * @param config - Get-many configuration
+   * @returns Get results in the same order as the keys
+   */
+  async getMany<T = any>(config: CacheGetManyConfig): Promise<CacheGetResult<T>[]> {
+    const results = await this.local.getMany<T>(config);
+    const missing = config.keys.filter((_, index) => !(results[index].success && results[index].found));
+
+    if (missing.length === 0) {
+      this.logger.debug('Basepack Cache: Local tier hit', { keys: config.keys });
+      return results;
+    }
+
+    const remoteResults = await this.remote.getMany<T>({ keys: missing });
+    const hits = remoteResults.filter(result => result.success && result.found);
+    const ttls = await Promise.all(hits.map(result => this.resolveBackfillTtl(result.key)));
+    const backfill = hits
+      .map((result, index) => ({ key: result.key, value: result.value, ttl: ttls[index] }))
+      .filter(entry => entry.ttl > 0);
+
+    if (backfill.length > 0) {
+      this.logger.debug('Basepack Cache: Back-filling local tier', { keys: backfill.map(entry => entry.key) });
+      await this.local.setMany({ entries: backfill });
+    }
+
+    const remoteByKey = new Map(remoteResults.map(result => [result.key, result]));
+    return results.map(result => remoteByKey.get(result.key) ?? result);
+  }
+
+  /**
+   * Set multiple values in both tiers
+   *
+   * Entries the remote tier rejected are dropped from the local tier.
+   *
+   * @param config - Set-many configuration
+   * @returns Set results from the remote tier
+   */
+  async setMany(config: CacheSetManyConfig): Promise<CacheSetResult[]> {
+    const results = await this.remote.setMany(config);
+
+    const stored = config.entries
+      .filter((_, index) => results[index]?.success)
+      .map(entry => ({ ...entry, ttl: this.resolveLocalTtl(entry.ttl ?? config.ttl) }));
+    const rejected = config.entries
+      .filter((_, index) => !results[index]?.success)
+      .map(entry => entry.key);
+
+    if (stored.length > 0) {
+      await this.local.setMany({ entries: stored });
+    }
+    if (rejected.length > 0) {
+      await this.local.deleteMany({ keys: rejected });
+    }
+    await this.broadcast({ keys: stored.map(entry => entry.key) });
+
+    return results;
+  }
+
+  /**
+   * Delete multiple values from both tiers
+   *
+   * @param config - Delete-many configuration
+   * @returns Delete results from the remote tier
+   */
+  async deleteMany(config: CacheDeleteManyConfig): Promise<CacheDeleteResult[]> {
+    await this.local.deleteMany(config);
+    const results = await this.remote.deleteMany(config);
+    await this.broadcast({ keys: results.filter(result => result.success).map(result => result.key) });
+    return results;
+  }
+
+  /**
+   * Invalidate tags in the remote tier and clear the local tier
+   *
+   * Values back-filled from the remote tier do not carry their tags, so the
+   * local tier cannot tell which of its copies are affected and is cleared.
+   * Without a broadcaster, local tiers of other processes keep their copies
+   * until the local TTL expires; with one, they are cleared too.
+   *
+   * @param tags - Tags to invalidate
+   * @returns Invalidation result from the remote tier
+   */
+  async invalidateTags(tags: string[]): Promise<CacheInvalidateTagsResult> {
+    const result = await this.remote.invalidateTags(tags);
+    await this.local.clear();
+    if (result.success) {
+      await this.broadcast({ clear: true });
+    }
+    return result;
+  }
+
+  /**
+   * Extend a lock in the remote tier and drop the local copy
+   *
+   * @param config - Extend configuration
+   * @returns Lock result from the remote tier
+   */
+  async extendLock(config: CacheExtendLockConfig): Promise<CacheLockResult> {
+    const result = await this.remote.extendLock(config);
+    await this.local.delete({ key: config.key });
+    return result;
+  }
+
+  /**
+   * Release a lock in the remote tier and drop the local copy
+   *
+   * @param config - Release configuration
+   * @returns Lock result from the remote tier
+   */
+  async releaseLock(config: CacheReleaseLockConfig): Promise<CacheLockResult> {
+    const result = await this.remote.releaseLock(config);
+    await this.local.delete({ key: config.key });
+    return result;
+  }
+
+  /**
+   * Consume quota from a rate limit in the remote tier
+   *
+   * Rate limits are shared across instances, so the local tier is never used.
+   *
+   * @param config - Rate limit configuration
+   * @returns Rate limit result from the remote tier
+   */
+  async rateLimit(config: CacheRateLimitConfig): Promise<CacheRateLimitResult> {
+    return this.remote.rateLimit(config);
+  }
+
+  /**
+   * Fetch one page of keys from the remote tier
+   *
+   * The remote tier holds every key, so the local tier is not scanned.
+   *
+   * @param config - Scan configuration
+   * @returns Scan result from the remote tier
+   */
+  async scan(config: CacheKeysConfig): Promise<CacheScanResult> {
+    return this.remote.scan(config);
+  }
+
+  /**
+   * Read the remaining time to live from the remote tier
+   *
+   * @param config - TTL configuration
+   * @returns TTL result from the remote tier
+   */
+  async ttl(config: CacheTtlConfig): Promise<CacheTtlResult> {
+    return this.remote.ttl(config);
+  }
+
+  /**
+   * Set a new time to live in both tiers
+   *
+   * The local copy keeps at most the local TTL, and is dropped if the key no
+   * longer exists in the remote tier.
+   *
+   * @param config - Expire configuration
+   * @returns Expire result from the remote tier
+   */
+  async expire(config: CacheExpireConfig): Promise<CacheExpireResult> {
+    const result = await this.remote.expire(config);
+    await this.syncLocalExpiry(result, config.ttl);
+    return result;
+  }
+
+  /**
+   * Refresh a key in both tiers
+   *
+   * @param config - Touch configuration
+   * @returns Expire result from the remote tier
+   */
+  async touch(config: CacheTouchConfig): Promise<CacheExpireResult> {
+    const result = await this.remote.touch(config);
+    await this.syncLocalExpiry(result, config.ttl);
+    return result;
+  }
+
+  /**
+   * Apply a remote expiry change to the local copy of a key
+   *
+   * @param result - Expire result from the remote tier
+   * @param ttl - New TTL in seconds, if one was set
+   */
+  private async syncLocalExpiry(result: CacheExpireResult, ttl?: number): Promise<void> {
+    if (!result.success) {
+      return;
+    }
+
+    if (!result.exists) {
+      await this.local.delete({ key: result.key });
+    } else if (ttl !== undefined) {
+      await this.local.expire({ key: result.key, ttl: this.resolveLocalTtl(ttl) });
+    }
+    await this.broadcast({ keys: [result.key] });
+  }
+
+  /**
+   * Read fields of a hash in the remote tier
+   *
+   * Data structures are not cached in the local tier.
+   *
+   * @param config - Hash get configuration
+   * @returns Hash result from the remote tier
+   */
+  async hashGet<T = any>(config: CacheHashGetConfig): Promise<CacheHashGetResult<T>> {
+    return this.remote.hashGet<T>(config);
+  }
+
+  /**
+   * Write fields of a hash in the remote tier
+   *
+   * Data structures are not cached in the local tier.
+   *
+   * @param config - Hash set configuration
+   * @returns Write result from the remote tier
+   */
+  async hashSet(config: CacheHashSetConfig): Promise<CacheCollectionWriteResult> {
+    return this.remote.hashSet(config);
+  }
+
+  /**
+   * Push values onto a list in the remote tier
+   *
+   * Data structures are not cached in the local tier.
+   *
+   * @param config - List push configuration
+   * @returns Write result from the remote tier
+   */
+  async listPush(config: CacheListPushConfig): Promise<CacheCollectionWriteResult> {
+    return this.remote.listPush(config);
+  }
+
+  /**
+   * Pop values from a list in the remote tier
+   *
+   * Data structures are not cached in the local tier.
+   *
+   * @param config - List pop configuration
+   * @returns List result from the remote tier
+   */
+  async listPop<T = any>(config: CacheListPopConfig): Promise<CacheListResult<T>> {
+    return this.remote.listPop<T>(config);
+  }
+
+  /**
+   * Read a range of a list in the remote tier
+   *
+   * Data structures are not cached in the local tier.
+   *
+   * @param config - List range configuration
+   * @returns List result from the remote tier
+   */
+  async listRange<T = any>(config: CacheListRangeConfig): Promise<CacheListResult<T>> {
+    return this.remote.listRange<T>(config);
+  }
+
+  /**
+   * Add members to a set in the remote tier
+   *
+   * Data structures are not cached in the local tier.
+   *
+   * @param config - Set add configuration
+   * @returns Write result from the remote tier
+   */
+  async setAdd(config: CacheSetAddConfig): Promise<CacheCollectionWriteResult> {
+    return this.remote.setAdd(config);
+  }
+
+  /**
+   * Read the members of a set in the remote tier
+   *
+   * Data structures are not cached in the local tier.
+   *
+   * @param config - Set members configuration
+   * @returns Set result from the remote tier
+   */
+  async setMembers(config: CacheSetMembersConfig): Promise<CacheSetMembersResult> {
+    return this.remote.setMembers(config);
+  }
+
+  /**
+   * Add members to a sorted set in the remote tier
+   *
+   * Data structures are not cached in the local tier.
+   *
+   * @param config - Sorted set add configuration
+   * @returns Write result from the remote tier
+   */
+  async sortedSetAdd(config: CacheSortedSetAddConfig): Promise<CacheCollectionWriteResult> {
+    return this.remote.sortedSetAdd(config);
+  }
+
+  /**
+   * Read members of a sorted set by score in the remote tier
+   *
+   * Data structures are not cached in the local tier.
+   *
+   * @param config - Sorted set range configuration
+   * @returns Sorted set result from the remote tier
+   */
+  async sortedSetRange(config: CacheSortedSetRangeConfig): Promise<CacheSortedSetRangeResult> {
+    return this.remote.sortedSetRange(config);
+  }
+
+  /**
+   * Publish a message through the remote tier
+   *
+   * @param config - Publish configuration
+   * @returns Publish result from the remote tier
+   */
+  async publish(config: CachePublishConfig): Promise<CachePublishResult> {
+    return this.remote.publish(config);
+  }
+
+  /**
+   * Subscribe to a channel through the remote tier
+   *
+   * @param config - Subscribe configuration
+   * @returns Subscription handle from the remote tier
+   */
+  async subscribe(config: CacheSubscribeConfig): Promise<CacheSubscription> {
+    return this.remote.subscribe(config);
+  }
+
+  /**
+   * Clear both tiers
+   *
+   * @returns Clear result from the remote tier
+   */
+  async clear(): Promise<CacheClearResult> {
+    await this.local.clear();
+    const result = await this.remote.clear();
+    if (result.success) {
+      await this.broadcast({ clear: true });
+    }
+    return result;
+  }
+
+  /**
+   * Check the health of both tiers
+   *
+   * The tiered provider is healthy only when both tiers are healthy.
+   *
+   * @returns Health information with per-tier details
+   */
+  async health(): Promise<CacheHealthInfo> {
+    const [localHealth, remoteHealth] = await Promise.all([
+      this.local.health(),
+      this.remote.health(),
+    ]);
+
+    const isHealthy = localHealth.status === 'healthy' && remoteHealth.status === 'healthy';
+
+    return {
+      provider: this.remote.name,
+      status: isHealthy ? 'healthy' : 'unhealthy',
+      responseTime: remoteHealth.responseTime,
+      error: remoteHealth.error ?? localHealth.error,
+      timestamp: new Date(),
+      details: {
+        local: localHealth,
+        remote: remoteHealth,
+      },
+    };
+  }
+
+  /**
+   * Close both tiers
+   */
+  async close(): Promise<void> {
+    await (await this.subscription)?.unsubscribe();
+    await this.local.close();
+    await this.remote.close();
+  }
+}
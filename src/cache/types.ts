@@ -20,7 +20,63 @@ import type { Logger } from '../logger/types';
  */
 export enum CacheProvider {
   REDIS = 'redis',
-  MEMCACHED = 'memcached'
+  MEMCACHED = 'memcached',
+  MEMORY = 'memory'
+}
+
+/**
+ * Cache value serializer
+ * 
+ * Converts values to the string or binary form stored by a provider and back.
+ * Built-in serializers are `JsonSerializer` (default), `MessagePackSerializer`
+ * and `CompressedSerializer`.
+ * 
+ * @example Custom serializer
+ * ```typescript
+ * const serializer: CacheSerializer = {
+ *   name: 'superjson',
+ *   serialize: value => superjson.stringify(value),
+ *   deserialize: data => superjson.parse(data.toString())
+ * };
+ * ```
+ */
+export interface CacheSerializer {
+  /** Serializer name for logging */
+  readonly name: string;
+  /** Convert a value to its stored form */
+  serialize(value: any): string | Buffer;
+  /** Convert stored data back to a value */
+  deserialize<T = any>(data: string | Buffer): T;
+}
+
+/**
+ * Redis node address, used for Sentinel and Cluster nodes
+ */
+export interface RedisNode {
+  /** Node hostname */
+  host: string;
+  /** Node port */
+  port: number;
+}
+
+/**
+ * Redis Cluster configuration
+ * 
+ * @example
+ * ```typescript
+ * const cluster: RedisClusterConfig = {
+ *   nodes: [
+ *     { host: 'redis-1.example.com', port: 6379 },
+ *     { host: 'redis-2.example.com', port: 6379 }
+ *   ]
+ * };
+ * ```
+ */
+export interface RedisClusterConfig {
+  /** Startup nodes; the rest of the cluster is discovered from them */
+  nodes: RedisNode[];
+  /** Where to send reads: 'master' (default), 'slave' or 'all' */
+  scaleReads?: 'master' | 'slave' | 'all';
 }
 
 /**
@@ -52,6 +108,27 @@ export enum CacheProvider {
  *   tls: true
  * };
  * ```
+ * 
+ * @example Redis Sentinel
+ * ```typescript
+ * const config: RedisConfig = {
+ *   sentinels: [
+ *     { host: 'sentinel-1.example.com', port: 26379 },
+ *     { host: 'sentinel-2.example.com', port: 26379 }
+ *   ],
+ *   name: 'mymaster',
+ *   password: 'secret'
+ * };
+ * ```
+ * 
+ * @example Redis Cluster
+ * ```typescript
+ * const config: RedisConfig = {
+ *   cluster: {
+ *     nodes: [{ host: 'redis-1.example.com', port: 6379 }]
+ *   }
+ * };
+ * ```
  */
 export interface RedisConfig {
   /** Redis server hostname (or set REDIS_HOST env var, default: 'localhost') */
@@ -66,8 +143,18 @@ export interface RedisConfig {
   url?: string;
   /** Enable TLS/SSL connection (or set REDIS_TLS env var) */
   tls?: boolean;
+  /** Sentinel nodes used to discover the master (requires `name`; host/port/url are ignored) */
+  sentinels?: RedisNode[];
+  /** Master group name monitored by the sentinels */
+  name?: string;
+  /** Password for the sentinels, if they require one */
+  sentinelPassword?: string;
+  /** Connect to a Redis Cluster (host/port/url/db are ignored) */
+  cluster?: RedisClusterConfig;
   /** Key prefix for all cache keys (or set REDIS_KEY_PREFIX env var) */
   keyPrefix?: string;
+  /** Serializer for stored values (default: JsonSerializer) */
+  serializer?: CacheSerializer;
   /** Connection timeout in milliseconds (default: 5000) */
   connectTimeout?: number;
   /** Command timeout in milliseconds (default: 5000) */
@@ -96,12 +183,31 @@ export interface RedisConfig {
  *   }
  * };
  * ```
+ * 
+ * @example Weighted servers with ejection
+ * ```typescript
+ * const config: MemcachedConfig = {
+ *   servers: { 'cache1.example.com:11211': 2, 'cache2.example.com:11211': 1 },
+ *   ejectFailedServers: true,
+ *   options: { failures: 3, reconnect: 5000 }
+ * };
+ * ```
  */
 export interface MemcachedConfig {
-  /** Memcached server(s) in 'host:port' format (or set MEMCACHED_SERVERS env var) */
-  servers?: string | string[];
+  /**
+   * Memcached server(s) in 'host:port' format, or a map of 'host:port' to weight for
+   * weighted consistent hashing (or set MEMCACHED_SERVERS env var)
+   */
+  servers?: string | string[] | Record<string, number>;
+  /**
+   * Remove servers marked dead from the hash ring so their keys move to the remaining
+   * servers, and add them back once they reconnect (default: false)
+   */
+  ejectFailedServers?: boolean;
   /** Key prefix for all cache keys (or set MEMCACHED_KEY_PREFIX env var) */
   keyPrefix?: string;
+  /** Serializer for stored values (default: JsonSerializer) */
+  serializer?: CacheSerializer;
   /** Memcached client options */
   options?: {
     /** Connection pool size (default: 10) */
@@ -114,13 +220,206 @@ export interface MemcachedConfig {
     timeout?: number;
     /** Idle timeout in milliseconds (default: 10000) */
     idle?: number;
+    /** Hash algorithm for the consistent hash ring (default: 'md5') */
+    algorithm?: string;
+    /** Failed retries before a server is marked dead (default: 5) */
+    failures?: number;
+    /** Milliseconds between reconnection attempts to a dead server (default: 10000 with ejectFailedServers, otherwise the client default) */
+    reconnect?: number;
     /** Additional memcached-specific options */
     [key: string]: any;
   };
 }
 
 /**
- * Cache service configuration with single provider
+ * In-process memory cache configuration
+ * 
+ * Values are held in the current process only, so they are not shared between
+ * instances and are lost on restart. Useful for tests, small services and as a
+ * local tier in front of a remote cache.
+ * 
+ * @example Basic memory cache
+ * ```typescript
+ * const config: MemoryConfig = {};
+ * ```
+ * 
+ * @example Bounded memory cache
+ * ```typescript
+ * const config: MemoryConfig = {
+ *   keyPrefix: 'myapp:',
+ *   maxEntries: 10000,
+ *   maxSize: 50 * 1024 * 1024 // 50 MB
+ * };
+ * ```
+ */
+export interface MemoryConfig {
+  /** Key prefix for all cache keys */
+  keyPrefix?: string;
+  /** Serializer for stored values (default: JsonSerializer) */
+  serializer?: CacheSerializer;
+  /** Maximum number of entries before least recently used entries are evicted (default: unbounded) */
+  maxEntries?: number;
+  /** Maximum total size of serialized values in bytes before least recently used entries are evicted (default: unbounded) */
+  maxSize?: number;
+  /** Interval in milliseconds for sweeping expired entries (default: 60000, 0 disables the sweep) */
+  cleanupInterval?: number;
+}
+
+/**
+ * Local (L1) tier configuration for a tiered cache
+ * 
+ * The local tier is an in-process memory cache checked before the remote
+ * provider. Values read from the remote provider are back-filled into it with
+ * a shorter TTL so that remote changes become visible quickly.
+ * 
+ * @example
+ * ```typescript
+ * const local: CacheLocalTierConfig = {
+ *   ttl: 30,
+ *   maxEntries: 5000
+ * };
+ * ```
+ */
+export interface CacheLocalTierConfig extends MemoryConfig {
+  /** Maximum time to live in seconds for values held in the local tier (default: 60) */
+  ttl?: number;
+  /** Broadcast writes over pub/sub so other instances drop their local copies (default: false) */
+  invalidation?: boolean | CacheInvalidationConfig;
+}
+
+/**
+ * Local tier invalidation configuration
+ * 
+ * Every instance publishes the keys it writes or deletes on the channel, and
+ * drops the keys published by other instances from its local tier. Requires a
+ * remote provider with pub/sub (Redis or Valkey).
+ * 
+ * @example
+ * ```typescript
+ * const invalidation: CacheInvalidationConfig = {
+ *   channel: 'myapp:cache:invalidation'
+ * };
+ * ```
+ */
+export interface CacheInvalidationConfig {
+  /** Pub/sub channel shared by all instances (default: 'basepack:cache:invalidation') */
+  channel?: string;
+}
+
+/**
+ * Local tier invalidation event
+ * 
+ * Either `keys` or `clear` is set.
+ */
+export interface CacheInvalidationEvent {
+  /** Keys whose local copies must be dropped */
+  keys?: string[];
+  /** Whether the whole local tier must be cleared */
+  clear?: boolean;
+}
+
+/**
+ * Single cache provider configuration
+ * 
+ * @example
+ * ```typescript
+ * const redis: CacheSingleProviderConfig = {
+ *   provider: CacheProvider.REDIS,
+ *   config: { host: 'localhost', port: 6379 }
+ * };
+ * ```
+ */
+export interface CacheSingleProviderConfig {
+  /** Cache provider to use */
+  provider: CacheProvider;
+  /** Provider-specific configuration */
+  config?: RedisConfig | MemcachedConfig | MemoryConfig | Record<string, unknown>;
+}
+
+/**
+ * Failover behaviour for a cache service with backup providers
+ * 
+ * @example
+ * ```typescript
+ * const failover: CacheFailoverConfig = {
+ *   healthCheckInterval: 10000
+ * };
+ * ```
+ */
+export interface CacheFailoverConfig {
+  /** Minimum time in milliseconds between health checks of a failed provider (default: 30000) */
+  healthCheckInterval?: number;
+}
+
+/**
+ * Operation recorded by cache metrics
+ */
+export interface CacheOperationEvent {
+  /** Provider operation, such as 'get' or 'setMany' */
+  operation: string;
+  /** Provider that handled the operation */
+  provider: CacheProvider;
+  /** Operation latency in milliseconds */
+  duration: number;
+  /** Whether the operation succeeded */
+  success: boolean;
+  /** Keys found, for read operations */
+  hits?: number;
+  /** Keys not found, for read operations */
+  misses?: number;
+  /** Error message if the operation failed */
+  error?: string;
+  /** Timestamp of operation */
+  timestamp: Date;
+}
+
+/**
+ * Metrics collection for a cache service
+ * 
+ * @example Forward to StatsD
+ * ```typescript
+ * const metrics: CacheMetricsConfig = {
+ *   onOperation: event => {
+ *     statsd.timing(`cache.${event.provider}.${event.operation}`, event.duration);
+ *     if (event.hits) statsd.increment('cache.hits', event.hits);
+ *     if (event.misses) statsd.increment('cache.misses', event.misses);
+ *   }
+ * };
+ * ```
+ */
+export interface CacheMetricsConfig {
+  /** Called after every provider operation */
+  onOperation?: (event: CacheOperationEvent) => void;
+  /** Latency samples kept per operation and provider for percentiles (default: 1000) */
+  maxSamples?: number;
+}
+
+/**
+ * Size limit for stored values
+ * 
+ * Sizes are measured on the value serialized with the service serializer.
+ * 
+ * @example Split large values across keys
+ * ```typescript
+ * const maxValueSize: CacheValueSizeConfig = {
+ *   limit: 1024 * 1024, // Memcached's default item size
+ *   strategy: 'chunk'
+ * };
+ * ```
+ */
+export interface CacheValueSizeConfig {
+  /** Largest serialized value in bytes */
+  limit: number;
+  /** 'reject' throws a CacheValidationError for larger values, 'chunk' splits them across several keys (default: 'reject') */
+  strategy?: 'reject' | 'chunk';
+}
+
+/**
+ * Cache service configuration
+ * 
+ * Can be either:
+ * - Single provider configuration
+ * - Primary provider with optional backup providers for automatic failover
  * 
  * @example Redis
  * ```typescript
@@ -143,6 +442,66 @@ export interface MemcachedConfig {
  * };
  * ```
  * 
+ * @example In-process memory
+ * ```typescript
+ * const config: CacheServiceConfig = {
+ *   provider: CacheProvider.MEMORY,
+ *   config: {
+ *     maxEntries: 10000
+ *   }
+ * };
+ * ```
+ * 
+ * @example Tiered (local memory in front of Redis)
+ * ```typescript
+ * const config: CacheServiceConfig = {
+ *   provider: CacheProvider.REDIS,
+ *   config: {
+ *     host: 'localhost',
+ *     port: 6379
+ *   },
+ *   local: {
+ *     ttl: 30,
+ *     maxEntries: 5000
+ *   }
+ * };
+ * ```
+ * 
+ * @example With failover
+ * ```typescript
+ * const config: CacheServiceConfig = {
+ *   primary: { provider: CacheProvider.REDIS, config: { host: 'redis-primary' } },
+ *   backups: [
+ *     { provider: CacheProvider.MEMCACHED, config: { servers: ['memcached:11211'] } }
+ *   ],
+ *   failover: { healthCheckInterval: 10000 }
+ * };
+ * ```
+ * 
+ * @example With a serializer
+ * ```typescript
+ * const config: CacheServiceConfig = {
+ *   provider: CacheProvider.REDIS,
+ *   serializer: new CompressedSerializer({ serializer: new MessagePackSerializer() })
+ * };
+ * ```
+ * 
+ * @example With metrics
+ * ```typescript
+ * const config: CacheServiceConfig = {
+ *   provider: CacheProvider.REDIS,
+ *   metrics: { onOperation: event => console.log(event.operation, event.duration) }
+ * };
+ * ```
+ * 
+ * @example With a value size limit
+ * ```typescript
+ * const config: CacheServiceConfig = {
+ *   provider: CacheProvider.MEMCACHED,
+ *   maxValueSize: { limit: 1024 * 1024, strategy: 'chunk' }
+ * };
+ * ```
+ * 
  * @example With logging
  * ```typescript
  * const config: CacheServiceConfig = {
@@ -155,11 +514,37 @@ export interface MemcachedConfig {
  * };
  * ```
  */
-export type CacheServiceConfig = {
-  provider: CacheProvider;
-  config?: RedisConfig | MemcachedConfig | Record<string, unknown>;
-  logger?: Logger;
-}
+export type CacheServiceConfig =
+  | (CacheSingleProviderConfig & {
+      /** Optional in-process tier checked before the provider */
+      local?: CacheLocalTierConfig;
+      /** Serializer for stored values, used by every provider without its own (default: JsonSerializer) */
+      serializer?: CacheSerializer;
+      /** Collect hit, miss, error and latency metrics (default: false) */
+      metrics?: boolean | CacheMetricsConfig;
+      /** Largest serialized value in bytes, or size limit options (default: unlimited) */
+      maxValueSize?: number | CacheValueSizeConfig;
+      /** Optional logger for debugging and monitoring */
+      logger?: Logger;
+    })
+  | {
+      /** Primary cache provider to use first */
+      primary: CacheSingleProviderConfig;
+      /** Optional backup providers used while the primary is unreachable */
+      backups?: CacheSingleProviderConfig[];
+      /** Optional failover behaviour */
+      failover?: CacheFailoverConfig;
+      /** Optional in-process tier checked before the active provider */
+      local?: CacheLocalTierConfig;
+      /** Serializer for stored values, used by every provider without its own (default: JsonSerializer) */
+      serializer?: CacheSerializer;
+      /** Collect hit, miss, error and latency metrics (default: false) */
+      metrics?: boolean | CacheMetricsConfig;
+      /** Largest serialized value in bytes, or size limit options (default: unlimited) */
+      maxValueSize?: number | CacheValueSizeConfig;
+      /** Optional logger for debugging and monitoring */
+      logger?: Logger;
+    };
 
 /**
  * Cache set operation configuration
@@ -172,6 +557,15 @@ export type CacheServiceConfig = {
  *   ttl: 3600 // 1 hour in seconds
  * };
  * ```
+ * 
+ * @example Set with tags
+ * ```typescript
+ * const setConfig: CacheSetConfig = {
+ *   key: 'user:42:orders',
+ *   value: orders,
+ *   tags: ['user:42', 'orders']
+ * };
+ * ```
  */
 export interface CacheSetConfig {
   /** Cache key */
@@ -180,6 +574,8 @@ export interface CacheSetConfig {
   value: any;
   /** Time to live in seconds (optional, provider default if not specified) */
   ttl?: number;
+  /** Tags for group invalidation with `invalidateTags` */
+  tags?: string[];
 }
 
 /**
@@ -228,83 +624,1019 @@ export interface CacheHasConfig {
 }
 
 /**
- * Cache get result
+ * Cache TTL inspection configuration
+ * 
+ * @example
+ * ```typescript
+ * const ttlConfig: CacheTtlConfig = {
+ *   key: 'session:abc'
+ * };
+ * ```
  */
-export interface CacheGetResult<T = any> {
-  /** Whether the operation was successful */
-  success: boolean;
+export interface CacheTtlConfig {
   /** Cache key */
   key: string;
-  /** Cached value (undefined if not found or error) */
-  value?: T;
-  /** Whether the key was found in cache */
-  found: boolean;
-  /** Cache provider used */
-  provider: CacheProvider;
-  /** Error message if operation failed */
-  error?: string;
 }
 
 /**
- * Cache set result
+ * Cache expire configuration
+ * 
+ * @example
+ * ```typescript
+ * const expireConfig: CacheExpireConfig = {
+ *   key: 'session:abc',
+ *   ttl: 1800 // expire 30 minutes from now
+ * };
+ * ```
  */
-export interface CacheSetResult {
-  /** Whether the operation was successful */
-  success: boolean;
+export interface CacheExpireConfig {
   /** Cache key */
   key: string;
-  /** Cache provider used */
-  provider: CacheProvider;
-  /** Timestamp of operation */
-  timestamp: Date;
-  /** Error message if operation failed */
-  error?: string;
+  /** New time to live in seconds, counted from now */
+  ttl: number;
 }
 
 /**
- * Cache delete result
+ * Cache touch configuration
+ * 
+ * @example
+ * ```typescript
+ * const touchConfig: CacheTouchConfig = {
+ *   key: 'session:abc',
+ *   ttl: 1800 // sliding expiration
+ * };
+ * ```
  */
-export interface CacheDeleteResult {
-  /** Whether the operation was successful */
-  success: boolean;
+export interface CacheTouchConfig {
   /** Cache key */
   key: string;
-  /** Cache provider used */
-  provider: CacheProvider;
-  /** Timestamp of operation */
-  timestamp: Date;
-  /** Error message if operation failed */
-  error?: string;
+  /** New time to live in seconds, counted from now. Without it, the key keeps its expiry and is only marked as recently used */
+  ttl?: number;
 }
 
 /**
- * Cache has result
+ * Cache get-many (batch get) configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheGetManyConfig = {
+ *   keys: ['user:1', 'user:2', 'user:3']
+ * };
+ * ```
  */
-export interface CacheHasResult {
-  /** Whether the operation was successful */
-  success: boolean;
-  /** Cache key */
-  key: string;
-  /** Whether the key exists in cache */
-  exists: boolean;
-  /** Cache provider used */
-  provider: CacheProvider;
-  /** Error message if operation failed */
-  error?: string;
+export interface CacheGetManyConfig {
+  /** Cache keys */
+  keys: string[];
 }
 
 /**
- * Cache clear result
+ * Cache set-many (batch set) configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheSetManyConfig = {
+ *   entries: [
+ *     { key: 'user:1', value: { name: 'John' } },
+ *     { key: 'user:2', value: { name: 'Jane' }, ttl: 60 }
+ *   ],
+ *   ttl: 3600 // default for entries without their own TTL
+ * };
+ * ```
  */
-export interface CacheClearResult {
-  /** Whether the operation was successful */
-  success: boolean;
-  /** Cache provider used */
-  provider: CacheProvider;
-  /** Timestamp of operation */
-  timestamp: Date;
+export interface CacheSetManyConfig {
+  /** Entries to store */
+  entries: CacheSetConfig[];
+  /** Default time to live in seconds for entries without their own TTL */
+  ttl?: number;
+}
+
+/**
+ * Cache delete-many (batch delete) configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheDeleteManyConfig = {
+ *   keys: ['user:1', 'user:2']
+ * };
+ * ```
+ */
+export interface CacheDeleteManyConfig {
+  /** Cache keys */
+  keys: string[];
+}
+
+/**
+ * Cache increment/decrement configuration
+ * 
+ * A missing key is treated as 0 before the change is applied.
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheIncrementConfig = {
+ *   key: 'page:views',
+ *   by: 1,
+ *   ttl: 3600 // only applied when the counter is created
+ * };
+ * ```
+ */
+export interface CacheIncrementConfig {
+  /** Cache key */
+  key: string;
+  /** Positive integer amount to change the counter by (default: 1) */
+  by?: number;
+  /** Time to live in seconds, applied only when the counter is created */
+  ttl?: number;
+}
+
+/**
+ * Cache compare-and-set configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheCompareAndSetConfig = {
+ *   key: 'order:123',
+ *   expected: { status: 'pending', version: 1 },
+ *   value: { status: 'paid', version: 2 }
+ * };
+ * ```
+ */
+export interface CacheCompareAndSetConfig {
+  /** Cache key */
+  key: string;
+  /** Value the key must currently hold (compared by serialized form) */
+  expected: any;
+  /** Value to store when the current value matches */
+  value: any;
+  /** Time to live in seconds for the new value */
+  ttl?: number;
+}
+
+/**
+ * Distributed lock configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheLockConfig = {
+ *   key: 'jobs:nightly-report',
+ *   ttl: 60,
+ *   waitTimeout: 5000
+ * };
+ * ```
+ */
+export interface CacheLockConfig {
+  /** Lock name; the lock is stored under `<key>:__lock` */
+  key: string;
+  /** Lock time to live in seconds, after which it expires unless extended (default: 30) */
+  ttl?: number;
+  /** Maximum time in milliseconds to wait while another holder has the lock (default: 0, no waiting) */
+  waitTimeout?: number;
+  /** Delay in milliseconds between attempts while waiting (default: 50) */
+  retryDelay?: number;
+}
+
+/**
+ * Cache lock release configuration
+ */
+export interface CacheReleaseLockConfig {
+  /** Cache key holding the lock */
+  key: string;
+  /** Token the lock was acquired with */
+  token: string;
+}
+
+/**
+ * Cache lock extend configuration
+ */
+export interface CacheExtendLockConfig {
+  /** Cache key holding the lock */
+  key: string;
+  /** Token the lock was acquired with */
+  token: string;
+  /** New time to live in seconds, counted from now */
+  ttl: number;
+}
+
+/**
+ * Rate limiting algorithm
+ * 
+ * - `fixed-window`: at most `limit` requests per window
+ * - `sliding-window`: at most `limit` requests in any span of `window` seconds
+ * - `token-bucket`: bursts of up to `limit` requests, refilled evenly over `window` seconds
+ */
+export type CacheRateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+/**
+ * Cache rate limit configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheRateLimitConfig = {
+ *   key: 'ratelimit:api:user:123',
+ *   algorithm: 'sliding-window',
+ *   limit: 100,
+ *   window: 60
+ * };
+ * ```
+ */
+export interface CacheRateLimitConfig {
+  /** Cache key holding the rate limit state */
+  key: string;
+  /** Rate limiting algorithm */
+  algorithm: CacheRateLimitAlgorithm;
+  /** Maximum requests per window, or bucket capacity for `token-bucket` */
+  limit: number;
+  /** Window length in seconds, or time to refill an empty bucket for `token-bucket` */
+  window: number;
+  /** Quota consumed by this request (default: 1) */
+  cost?: number;
+}
+
+/**
+ * Cache key scan configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheKeysConfig = {
+ *   pattern: 'session:*',
+ *   limit: 500
+ * };
+ * ```
+ */
+export interface CacheKeysConfig {
+  /** Glob-style pattern (`*`, `?`, `[abc]`) matched against keys without the key prefix (default: '*') */
+  pattern?: string;
+  /** Keys to fetch per page (default: 100). Redis treats this as a hint and may return more or fewer */
+  limit?: number;
+  /** Cursor returned with a previous page, to resume from it */
+  cursor?: string;
+}
+
+/**
+ * End of a list to push to or pop from
+ */
+export type CacheListSide = 'left' | 'right';
+
+/**
+ * Hash field read configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheHashGetConfig = {
+ *   key: 'user:123:profile',
+ *   fields: ['name', 'email']
+ * };
+ * ```
+ */
+export interface CacheHashGetConfig {
+  /** Cache key of the hash */
+  key: string;
+  /** Fields to read (default: every field) */
+  fields?: string[];
+}
+
+/**
+ * Hash field write configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheHashSetConfig = {
+ *   key: 'user:123:profile',
+ *   fields: { name: 'John', visits: 42 },
+ *   ttl: 3600
+ * };
+ * ```
+ */
+export interface CacheHashSetConfig {
+  /** Cache key of the hash */
+  key: string;
+  /** Field names mapped to values; values are serialized like cache values */
+  fields: Record<string, any>;
+  /** Time to live of the whole hash in seconds, reset on every write */
+  ttl?: number;
+}
+
+/**
+ * List push configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheListPushConfig = {
+ *   key: 'jobs:pending',
+ *   values: [{ id: 1 }, { id: 2 }]
+ * };
+ * ```
+ */
+export interface CacheListPushConfig {
+  /** Cache key of the list */
+  key: string;
+  /** Values to push, in order; values are serialized like cache values */
+  values: any[];
+  /** End to push to (default: 'right') */
+  side?: CacheListSide;
+  /** Time to live of the whole list in seconds, reset on every push */
+  ttl?: number;
+}
+
+/**
+ * List pop configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheListPopConfig = {
+ *   key: 'jobs:pending',
+ *   side: 'left',
+ *   count: 10
+ * };
+ * ```
+ */
+export interface CacheListPopConfig {
+  /** Cache key of the list */
+  key: string;
+  /** End to pop from (default: 'right') */
+  side?: CacheListSide;
+  /** Number of values to pop (default: 1) */
+  count?: number;
+}
+
+/**
+ * List range configuration
+ * 
+ * Indexes are zero-based and inclusive; negative indexes count from the end.
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheListRangeConfig = {
+ *   key: 'events:recent',
+ *   start: 0,
+ *   stop: 9
+ * };
+ * ```
+ */
+export interface CacheListRangeConfig {
+  /** Cache key of the list */
+  key: string;
+  /** First index (default: 0) */
+  start?: number;
+  /** Last index, inclusive (default: -1, the last value) */
+  stop?: number;
+}
+
+/**
+ * Set add configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheSetAddConfig = {
+ *   key: 'post:42:likes',
+ *   members: ['user:1', 'user:2']
+ * };
+ * ```
+ */
+export interface CacheSetAddConfig {
+  /** Cache key of the set */
+  key: string;
+  /** Members to add */
+  members: string[];
+  /** Time to live of the whole set in seconds, reset on every add */
+  ttl?: number;
+}
+
+/**
+ * Set members configuration
+ */
+export interface CacheSetMembersConfig {
+  /** Cache key of the set */
+  key: string;
+}
+
+/**
+ * Sorted set member with its score
+ */
+export interface CacheSortedSetMember {
+  /** Member */
+  member: string;
+  /** Score the set is ordered by */
+  score: number;
+}
+
+/**
+ * Sorted set add configuration
+ * 
+ * Adding a member that already exists updates its score.
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheSortedSetAddConfig = {
+ *   key: 'leaderboard',
+ *   members: [{ member: 'alice', score: 120 }, { member: 'bob', score: 95 }]
+ * };
+ * ```
+ */
+export interface CacheSortedSetAddConfig {
+  /** Cache key of the sorted set */
+  key: string;
+  /** Members with their scores */
+  members: CacheSortedSetMember[];
+  /** Time to live of the whole sorted set in seconds, reset on every add */
+  ttl?: number;
+}
+
+/**
+ * Sorted set range-by-score configuration
+ * 
+ * @example Top 10 scores
+ * ```typescript
+ * const config: CacheSortedSetRangeConfig = {
+ *   key: 'leaderboard',
+ *   reverse: true,
+ *   limit: 10
+ * };
+ * ```
+ */
+export interface CacheSortedSetRangeConfig {
+  /** Cache key of the sorted set */
+  key: string;
+  /** Lowest score, inclusive (default: -Infinity) */
+  min?: number;
+  /** Highest score, inclusive (default: Infinity) */
+  max?: number;
+  /** Return members from the highest score down (default: false) */
+  reverse?: boolean;
+  /** Members to skip (default: 0) */
+  offset?: number;
+  /** Maximum members to return (default: all) */
+  limit?: number;
+}
+
+/**
+ * Pub/sub publish configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CachePublishConfig = {
+ *   channel: 'orders',
+ *   message: JSON.stringify({ id: 42, status: 'shipped' })
+ * };
+ * ```
+ */
+export interface CachePublishConfig {
+  /** Channel name */
+  channel: string;
+  /** Message payload */
+  message: string;
+}
+
+/**
+ * Pub/sub message listener
+ * 
+ * @param message - Message payload
+ * @param channel - Channel the message was published on
+ */
+export type CacheMessageListener = (message: string, channel: string) => void | Promise<void>;
+
+/**
+ * Pub/sub subscribe configuration
+ * 
+ * @example
+ * ```typescript
+ * const config: CacheSubscribeConfig = {
+ *   channel: 'orders',
+ *   listener: message => console.log('Order update:', JSON.parse(message))
+ * };
+ * ```
+ */
+export interface CacheSubscribeConfig {
+  /** Channel name */
+  channel: string;
+  /** Called for every message published on the channel */
+  listener: CacheMessageListener;
+}
+
+/**
+ * Distributed lock options for read-through loads
+ * 
+ * @example
+ * ```typescript
+ * const lock: CacheLoadLockOptions = {
+ *   ttl: 10,
+ *   waitTimeout: 5000
+ * };
+ * ```
+ */
+export interface CacheLoadLockOptions {
+  /** Lock time to live in seconds, released early once the value is stored (default: 10) */
+  ttl?: number;
+  /** Maximum time in milliseconds to wait for another instance to store the value (default: 5000) */
+  waitTimeout?: number;
+  /** Delay in milliseconds between checks while waiting (default: 50) */
+  retryDelay?: number;
+}
+
+/**
+ * Cache get-or-set (read-through) configuration
+ * 
+ * @example Basic read-through
+ * ```typescript
+ * const config: CacheGetOrSetConfig<User> = {
+ *   key: 'user:123',
+ *   ttl: 3600,
+ *   loader: () => db.users.findById('123')
+ * };
+ * ```
+ * 
+ * @example Stale-while-revalidate with a distributed lock
+ * ```typescript
+ * const config: CacheGetOrSetConfig<Report> = {
+ *   key: 'report:daily',
+ *   ttl: 3600,
+ *   softTtl: 300, // refresh in the background after 5 minutes
+ *   lock: { ttl: 30 },
+ *   loader: () => buildDailyReport()
+ * };
+ * ```
+ */
+export interface CacheGetOrSetConfig<T = any> {
+  /** Cache key */
+  key: string;
+  /** Time to live in seconds for the stored value (optional, provider default if not specified) */
+  ttl?: number;
+  /** Function that computes the value on a cache miss */
+  loader: () => T | Promise<T>;
+  /** Seconds after which a cached value is served stale and refreshed in the background (must be less than ttl) */
+  softTtl?: number;
+  /** Take a distributed lock so only one instance runs the loader (true uses default options) */
+  lock?: boolean | CacheLoadLockOptions;
+  /** Tags attached to the stored value */
+  tags?: string[];
+}
+
+/**
+ * Cache get result
+ */
+export interface CacheGetResult<T = any> {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key */
+  key: string;
+  /** Cached value (undefined if not found or error) */
+  value?: T;
+  /** Whether the key was found in cache */
+  found: boolean;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache set result
+ */
+export interface CacheSetResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key */
+  key: string;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache delete result
+ */
+export interface CacheDeleteResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key */
+  key: string;
+  /** Whether the key existed and was removed */
+  deleted?: boolean;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache has result
+ */
+export interface CacheHasResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key */
+  key: string;
+  /** Whether the key exists in cache */
+  exists: boolean;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache TTL inspection result
+ */
+export interface CacheTtlResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key */
+  key: string;
+  /** Whether the key exists in cache */
+  exists: boolean;
+  /** Milliseconds until the key expires (undefined if it does not exist or never expires) */
+  expiresIn?: number;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache expire/touch result
+ */
+export interface CacheExpireResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key */
+  key: string;
+  /** Whether the key existed and was updated */
+  exists: boolean;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache add (set if not exists) result
+ */
+export interface CacheAddResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key */
+  key: string;
+  /** Whether the value was stored (false if the key already existed) */
+  added: boolean;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache increment/decrement result
+ */
+export interface CacheIncrementResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key */
+  key: string;
+  /** Counter value after the change */
+  value?: number;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache compare-and-set result
+ */
+export interface CacheCompareAndSetResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key */
+  key: string;
+  /** Whether the value was replaced (false if the current value did not match or changed concurrently) */
+  swapped: boolean;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache tag invalidation result
+ */
+export interface CacheInvalidateTagsResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Tags that were invalidated */
+  tags: string[];
+  /** Number of keys removed (undefined for Memcached, which invalidates lazily on read) */
+  invalidated?: number;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache lock extend/release result
+ */
+export interface CacheLockResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key holding the lock */
+  key: string;
+  /** Whether the lock was still held with the token, and so was extended or released */
+  owned: boolean;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache rate limit result
+ */
+export interface CacheRateLimitResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key holding the rate limit state */
+  key: string;
+  /** Whether the request is within the limit (false if the operation failed) */
+  allowed: boolean;
+  /** Configured limit */
+  limit: number;
+  /** Quota left after this request */
+  remaining: number;
+  /** When the full quota is available again */
+  resetAt: Date;
+  /** Milliseconds until a request of the same cost could be allowed (only when denied) */
+  retryAfter?: number;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Cache key scan result
+ */
+export interface CacheScanResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Keys in this page, without the key prefix */
+  keys: string[];
+  /** Cursor for the next page (undefined after the last page) */
+  cursor?: string;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Page of keys yielded by `CacheService.keys()`
+ */
+export interface CacheKeysPage {
+  /** Keys in this page, without the key prefix */
+  keys: string[];
+  /** Cursor for the next page (undefined after the last page) */
+  cursor?: string;
+}
+
+/**
+ * Cache delete-by-pattern result
+ */
+export interface CacheDeleteByPatternResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Pattern that was matched */
+  pattern: string;
+  /** Number of keys deleted, including any deleted before a failure */
+  deleted: number;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Hash field read result
+ */
+export interface CacheHashGetResult<T = any> {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key of the hash */
+  key: string;
+  /** Fields found, mapped to their values (empty if the hash does not exist) */
+  fields: Record<string, T>;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Data structure write result
+ */
+export interface CacheCollectionWriteResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key of the data structure */
+  key: string;
+  /**
+   * Fields or members that were new (`hashSet`, `setAdd`, `sortedSetAdd`),
+   * or the list length after the push (`listPush`)
+   */
+  count: number;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * List pop or range result
+ */
+export interface CacheListResult<T = any> {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key of the list */
+  key: string;
+  /** Values in list order (empty if the list does not exist) */
+  values: T[];
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Set members result
+ */
+export interface CacheSetMembersResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key of the set */
+  key: string;
+  /** Members, in no particular order (empty if the set does not exist) */
+  members: string[];
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Sorted set range result
+ */
+export interface CacheSortedSetRangeResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache key of the sorted set */
+  key: string;
+  /** Members with their scores, in score order */
+  members: CacheSortedSetMember[];
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Pub/sub publish result
+ */
+export interface CachePublishResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Channel name */
+  channel: string;
+  /** Number of subscribers that received the message (undefined if the operation failed) */
+  receivers?: number;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
+  /** Error message if operation failed */
+  error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
+}
+
+/**
+ * Pub/sub subscription handle
+ */
+export interface CacheSubscription {
+  /** Channel name */
+  readonly channel: string;
+  /**
+   * Stop receiving messages
+   * 
+   * Safe to call more than once.
+   */
+  unsubscribe(): Promise<void>;
+}
+
+/**
+ * Cache get-or-set result
+ */
+export interface CacheGetOrSetResult<T = any> {
+  /** Whether the value was served or stored without a cache error */
+  success: boolean;
+  /** Cache key */
+  key: string;
+  /** Cached or freshly loaded value */
+  value: T;
+  /** Whether the value was served from cache rather than the loader */
+  cached: boolean;
+  /** Whether the cached value was past its soft TTL (a background refresh was started) */
+  stale: boolean;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Error message if a cache operation failed (the loaded value is still returned) */
+  error?: string;
+}
+
+/**
+ * Cache clear result
+ */
+export interface CacheClearResult {
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Cache provider used */
+  provider: CacheProvider;
+  /** Timestamp of operation */
+  timestamp: Date;
   /** Error message if operation failed */
   error?: string;
+  /** Whether the failure was a retryable error, such as a lost connection or timeout */
+  retryable?: boolean;
 }
 
 /**
@@ -325,6 +1657,77 @@ export interface CacheHealthInfo {
   details?: Record<string, any>;
 }
 
+/**
+ * Latency distribution in milliseconds
+ * 
+ * Percentiles are computed from the most recent samples (see `CacheMetricsConfig.maxSamples`).
+ */
+export interface CacheLatencyStats {
+  /** Number of samples */
+  count: number;
+  /** Fastest sample */
+  min: number;
+  /** Slowest sample */
+  max: number;
+  /** Average of the samples */
+  mean: number;
+  /** Median */
+  p50: number;
+  /** 90th percentile */
+  p90: number;
+  /** 95th percentile */
+  p95: number;
+  /** 99th percentile */
+  p99: number;
+}
+
+/**
+ * Counters and latency for one operation
+ */
+export interface CacheOperationStats {
+  /** Number of calls */
+  calls: number;
+  /** Keys found */
+  hits: number;
+  /** Keys not found */
+  misses: number;
+  /** Failed calls */
+  errors: number;
+  /** Latency distribution */
+  latency: CacheLatencyStats;
+}
+
+/**
+ * Counters for one provider
+ */
+export interface CacheProviderStats {
+  /** Number of calls */
+  calls: number;
+  /** Keys found */
+  hits: number;
+  /** Keys not found */
+  misses: number;
+  /** Failed calls */
+  errors: number;
+  /** hits / (hits + misses), or 0 before any read */
+  hitRate: number;
+  /** Stats per operation */
+  operations: Record<string, CacheOperationStats>;
+}
+
+/**
+ * Cache service metrics
+ * 
+ * Top-level counters and `operations` cover every provider; `providers`
+ * breaks them down by the provider that handled each operation.
+ */
+export interface CacheStats extends CacheProviderStats {
+  /** Stats per provider */
+  providers: Partial<Record<CacheProvider, CacheProviderStats>>;
+  /** Time collection started or was last reset */
+  since: Date;
+}
+
 /**
  * Cache provider interface
  * 
@@ -350,6 +1753,16 @@ export interface ICacheProvider {
    */
   set(config: CacheSetConfig): Promise<CacheSetResult>;
 
+  /**
+   * Set a value only if the key does not already exist
+   * 
+   * Must be atomic so that it can be used for distributed locking.
+   * 
+   * @param config - Set configuration with value and optional TTL
+   * @returns Add result indicating whether the value was stored
+   */
+  add(config: CacheSetConfig): Promise<CacheAddResult>;
+
   /**
    * Delete a value from cache
    * 
@@ -366,6 +1779,220 @@ export interface ICacheProvider {
    */
   has(config: CacheHasConfig): Promise<CacheHasResult>;
 
+  /**
+   * Read the remaining time to live of a key
+   * 
+   * @param config - TTL configuration
+   * @returns TTL result with the milliseconds until the key expires
+   * @throws {CacheNotSupportedError} If the provider cannot read TTLs
+   */
+  ttl(config: CacheTtlConfig): Promise<CacheTtlResult>;
+
+  /**
+   * Set a new time to live on an existing key without rewriting its value
+   * 
+   * @param config - Expire configuration
+   * @returns Expire result indicating whether the key existed
+   */
+  expire(config: CacheExpireConfig): Promise<CacheExpireResult>;
+
+  /**
+   * Refresh an existing key without rewriting its value
+   * 
+   * @param config - Touch configuration
+   * @returns Expire result indicating whether the key existed
+   */
+  touch(config: CacheTouchConfig): Promise<CacheExpireResult>;
+
+  /**
+   * Get multiple values from cache in one round trip
+   * 
+   * @param config - Get-many configuration
+   * @returns Get results in the same order as the keys
+   */
+  getMany<T = any>(config: CacheGetManyConfig): Promise<CacheGetResult<T>[]>;
+
+  /**
+   * Set multiple values in cache in one round trip
+   * 
+   * @param config - Set-many configuration
+   * @returns Set results in the same order as the entries
+   */
+  setMany(config: CacheSetManyConfig): Promise<CacheSetResult[]>;
+
+  /**
+   * Delete multiple values from cache in one round trip
+   * 
+   * @param config - Delete-many configuration
+   * @returns Delete results in the same order as the keys
+   */
+  deleteMany(config: CacheDeleteManyConfig): Promise<CacheDeleteResult[]>;
+
+  /**
+   * Atomically increment a numeric value
+   * 
+   * @param config - Increment configuration
+   * @returns Increment result with the new value
+   */
+  increment(config: CacheIncrementConfig): Promise<CacheIncrementResult>;
+
+  /**
+   * Atomically decrement a numeric value
+   * 
+   * @param config - Decrement configuration
+   * @returns Decrement result with the new value
+   */
+  decrement(config: CacheIncrementConfig): Promise<CacheIncrementResult>;
+
+  /**
+   * Replace a value only if it currently equals the expected value
+   * 
+   * @param config - Compare-and-set configuration
+   * @returns Compare-and-set result indicating whether the value was swapped
+   */
+  compareAndSet(config: CacheCompareAndSetConfig): Promise<CacheCompareAndSetResult>;
+
+  /**
+   * Remove every value stored with any of the given tags
+   * 
+   * @param tags - Tags to invalidate
+   * @returns Invalidation result
+   */
+  invalidateTags(tags: string[]): Promise<CacheInvalidateTagsResult>;
+
+  /**
+   * Extend a lock only if it is still held with the given token
+   * 
+   * @param config - Extend configuration
+   * @returns Lock result indicating whether the lock was extended
+   */
+  extendLock(config: CacheExtendLockConfig): Promise<CacheLockResult>;
+
+  /**
+   * Release a lock only if it is still held with the given token
+   * 
+   * @param config - Release configuration
+   * @returns Lock result indicating whether the lock was released
+   */
+  releaseLock(config: CacheReleaseLockConfig): Promise<CacheLockResult>;
+
+  /**
+   * Consume quota from a rate limit
+   * 
+   * @param config - Rate limit configuration
+   * @returns Rate limit result with the remaining quota and reset time
+   */
+  rateLimit(config: CacheRateLimitConfig): Promise<CacheRateLimitResult>;
+
+  /**
+   * Fetch one page of keys matching a pattern
+   * 
+   * @param config - Scan configuration
+   * @returns Scan result with the keys and the cursor for the next page
+   * @throws {CacheNotSupportedError} If the provider cannot enumerate keys
+   */
+  scan(config: CacheKeysConfig): Promise<CacheScanResult>;
+
+  /**
+   * Read fields of a hash
+   * 
+   * @param config - Hash get configuration
+   * @returns Hash result with the fields found
+   * @throws {CacheNotSupportedError} If the provider has no hashes
+   */
+  hashGet<T = any>(config: CacheHashGetConfig): Promise<CacheHashGetResult<T>>;
+
+  /**
+   * Write fields of a hash
+   * 
+   * @param config - Hash set configuration
+   * @returns Write result with the number of new fields
+   * @throws {CacheNotSupportedError} If the provider has no hashes
+   */
+  hashSet(config: CacheHashSetConfig): Promise<CacheCollectionWriteResult>;
+
+  /**
+   * Push values onto a list
+   * 
+   * @param config - List push configuration
+   * @returns Write result with the list length
+   * @throws {CacheNotSupportedError} If the provider has no lists
+   */
+  listPush(config: CacheListPushConfig): Promise<CacheCollectionWriteResult>;
+
+  /**
+   * Pop values from a list
+   * 
+   * @param config - List pop configuration
+   * @returns List result with the popped values
+   * @throws {CacheNotSupportedError} If the provider has no lists
+   */
+  listPop<T = any>(config: CacheListPopConfig): Promise<CacheListResult<T>>;
+
+  /**
+   * Read a range of a list
+   * 
+   * @param config - List range configuration
+   * @returns List result with the values in range
+   * @throws {CacheNotSupportedError} If the provider has no lists
+   */
+  listRange<T = any>(config: CacheListRangeConfig): Promise<CacheListResult<T>>;
+
+  /**
+   * Add members to a set
+   * 
+   * @param config - Set add configuration
+   * @returns Write result with the number of new members
+   * @throws {CacheNotSupportedError} If the provider has no sets
+   */
+  setAdd(config: CacheSetAddConfig): Promise<CacheCollectionWriteResult>;
+
+  /**
+   * Read the members of a set
+   * 
+   * @param config - Set members configuration
+   * @returns Set result with the members
+   * @throws {CacheNotSupportedError} If the provider has no sets
+   */
+  setMembers(config: CacheSetMembersConfig): Promise<CacheSetMembersResult>;
+
+  /**
+   * Add members to a sorted set, or update their scores
+   * 
+   * @param config - Sorted set add configuration
+   * @returns Write result with the number of new members
+   * @throws {CacheNotSupportedError} If the provider has no sorted sets
+   */
+  sortedSetAdd(config: CacheSortedSetAddConfig): Promise<CacheCollectionWriteResult>;
+
+  /**
+   * Read members of a sorted set by score
+   * 
+   * @param config - Sorted set range configuration
+   * @returns Sorted set result with the members in range
+   * @throws {CacheNotSupportedError} If the provider has no sorted sets
+   */
+  sortedSetRange(config: CacheSortedSetRangeConfig): Promise<CacheSortedSetRangeResult>;
+
+  /**
+   * Publish a message on a pub/sub channel
+   * 
+   * @param config - Publish configuration
+   * @returns Publish result with the number of receivers
+   * @throws {CacheNotSupportedError} If the provider has no pub/sub
+   */
+  publish(config: CachePublishConfig): Promise<CachePublishResult>;
+
+  /**
+   * Subscribe to a pub/sub channel
+   * 
+   * @param config - Subscribe configuration
+   * @returns Subscription handle
+   * @throws {CacheNotSupportedError} If the provider has no pub/sub
+   * @throws {CacheError} If the subscription fails
+   */
+  subscribe(config: CacheSubscribeConfig): Promise<CacheSubscription>;
+
   /**
    * Clear all values from cache
    * 
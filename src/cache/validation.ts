@@ -9,6 +9,34 @@ import type {
   CacheGetConfig,
   CacheDeleteConfig,
   CacheHasConfig,
+  CacheGetOrSetConfig,
+  CacheGetManyConfig,
+  CacheSetManyConfig,
+  CacheDeleteManyConfig,
+  CacheIncrementConfig,
+  CacheCompareAndSetConfig,
+  CacheLockConfig,
+  CacheReleaseLockConfig,
+  CacheExtendLockConfig,
+  CacheRateLimitConfig,
+  CacheKeysConfig,
+  CacheTtlConfig,
+  CacheExpireConfig,
+  CacheTouchConfig,
+  CacheHashGetConfig,
+  CacheHashSetConfig,
+  CacheListPushConfig,
+  CacheListPopConfig,
+  CacheListRangeConfig,
+  CacheSetAddConfig,
+  CacheSetMembersConfig,
+  CacheSortedSetAddConfig,
+  CacheSortedSetRangeConfig,
+  CachePublishConfig,
+  CacheSubscribeConfig,
+  RedisConfig,
+  MemcachedConfig,
+  RedisNode,
 } from './types';
 
 /**
@@ -105,6 +133,31 @@ export function validateCacheGetConfig(config: CacheGetConfig): void {
   validateCacheKey(config.key, 'key');
 }
 
+/**
+ * Validates a list of cache tags
+ * 
+ * Tags follow the same rules as cache keys.
+ * 
+ * @param tags - Tags to validate
+ * @param field - Field name for error messages
+ * @throws {CacheValidationError} If tags are invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheTags(['user:42', 'orders'], 'tags'); // passes
+ * validateCacheTags([], 'tags'); // throws CacheValidationError
+ * ```
+ */
+export function validateCacheTags(tags: string[], field: string = 'tags'): void {
+  if (!Array.isArray(tags) || tags.length === 0) {
+    throw new CacheValidationError('Tags must be a non-empty array', field);
+  }
+
+  tags.forEach((tag, index) => {
+    validateCacheKey(tag, `${field}[${index}]`);
+  });
+}
+
 /**
  * Validates cache set configuration
  * 
@@ -134,6 +187,10 @@ export function validateCacheSetConfig(config: CacheSetConfig): void {
   if (config.ttl !== undefined) {
     validateTTL(config.ttl, 'ttl');
   }
+
+  if (config.tags !== undefined) {
+    validateCacheTags(config.tags, 'tags');
+  }
 }
 
 /**
@@ -177,31 +234,948 @@ export function validateCacheHasConfig(config: CacheHasConfig): void {
 }
 
 /**
- * Validates that a value can be serialized to JSON
+ * Validates cache TTL inspection configuration
  * 
- * @param value - Value to validate
+ * @param config - TTL configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheTtlConfig({ key: 'session:abc' }); // passes
+ * validateCacheTtlConfig({ key: '' }); // throws
+ * ```
+ */
+export function validateCacheTtlConfig(config: CacheTtlConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache TTL configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+}
+
+/**
+ * Validates cache expire configuration
+ * 
+ * @param config - Expire configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheExpireConfig({ key: 'session:abc', ttl: 1800 }); // passes
+ * validateCacheExpireConfig({ key: 'session:abc', ttl: 0 }); // throws
+ * ```
+ */
+export function validateCacheExpireConfig(config: CacheExpireConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache expire configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+  validateTTL(config.ttl, 'ttl');
+}
+
+/**
+ * Validates cache touch configuration
+ * 
+ * @param config - Touch configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheTouchConfig({ key: 'session:abc' }); // passes
+ * validateCacheTouchConfig({ key: 'session:abc', ttl: -1 }); // throws
+ * ```
+ */
+export function validateCacheTouchConfig(config: CacheTouchConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache touch configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (config.ttl !== undefined) {
+    validateTTL(config.ttl, 'ttl');
+  }
+}
+
+/**
+ * Validates a list of cache keys for a batch operation
+ * 
+ * @param keys - Cache keys to validate
  * @param field - Field name for error messages
- * @throws {CacheValidationError} If value cannot be serialized
+ * @throws {CacheValidationError} If the list or any key is invalid
+ */
+function validateCacheKeys(keys: string[], field: string): void {
+  if (!Array.isArray(keys) || keys.length === 0) {
+    throw new CacheValidationError('Keys must be a non-empty array', field);
+  }
+
+  keys.forEach((key, index) => validateCacheKey(key, `${field}[${index}]`));
+}
+
+/**
+ * Validates cache get-many configuration
+ * 
+ * @param config - Get-many configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
  * 
  * @example
  * ```typescript
- * validateSerializable({ name: 'John' }, 'value'); // passes
- * validateSerializable(undefined, 'value'); // throws
+ * validateCacheGetManyConfig({ keys: ['user:1', 'user:2'] }); // passes
+ * validateCacheGetManyConfig({ keys: [] }); // throws
  * ```
  */
-export function validateSerializable(value: any, field: string = 'value'): void {
-  if (value === undefined) {
-    throw new CacheValidationError('Value cannot be undefined', field);
+export function validateCacheGetManyConfig(config: CacheGetManyConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache get-many configuration is required', 'config');
   }
 
-  // Try to serialize to JSON to ensure it's serializable
-  try {
-    JSON.stringify(value);
-  } catch (error) {
-    throw new CacheValidationError(
-      `Value cannot be serialized to JSON: ${error instanceof Error ? error.message : String(error)}`,
-      field
-    );
+  validateCacheKeys(config.keys, 'keys');
+}
+
+/**
+ * Validates cache set-many configuration
+ * 
+ * @param config - Set-many configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheSetManyConfig({ entries: [{ key: 'user:1', value: 'John' }] }); // passes
+ * validateCacheSetManyConfig({ entries: [{ key: 'user:1', value: undefined }] }); // throws
+ * ```
+ */
+export function validateCacheSetManyConfig(config: CacheSetManyConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache set-many configuration is required', 'config');
+  }
+
+  if (!Array.isArray(config.entries) || config.entries.length === 0) {
+    throw new CacheValidationError('Entries must be a non-empty array', 'entries');
+  }
+
+  if (config.ttl !== undefined) {
+    validateTTL(config.ttl, 'ttl');
+  }
+
+  config.entries.forEach((entry, index) => {
+    if (!entry) {
+      throw new CacheValidationError('Entry is required', `entries[${index}]`);
+    }
+
+    validateCacheKey(entry.key, `entries[${index}].key`);
+
+    if (entry.value === undefined) {
+      throw new CacheValidationError('Cache value cannot be undefined', `entries[${index}].value`);
+    }
+
+    if (entry.ttl !== undefined) {
+      validateTTL(entry.ttl, `entries[${index}].ttl`);
+    }
+
+    if (entry.tags !== undefined) {
+      validateCacheTags(entry.tags, `entries[${index}].tags`);
+    }
+  });
+}
+
+/**
+ * Validates cache delete-many configuration
+ * 
+ * @param config - Delete-many configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheDeleteManyConfig({ keys: ['user:1', 'user:2'] }); // passes
+ * validateCacheDeleteManyConfig({ keys: [''] }); // throws
+ * ```
+ */
+export function validateCacheDeleteManyConfig(config: CacheDeleteManyConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache delete-many configuration is required', 'config');
+  }
+
+  validateCacheKeys(config.keys, 'keys');
+}
+
+/**
+ * Validates cache increment/decrement configuration
+ * 
+ * @param config - Increment configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheIncrementConfig({ key: 'page:views', by: 5 }); // passes
+ * validateCacheIncrementConfig({ key: 'page:views', by: 0.5 }); // throws
+ * ```
+ */
+export function validateCacheIncrementConfig(config: CacheIncrementConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache increment configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (config.by !== undefined) {
+    if (typeof config.by !== 'number' || !Number.isSafeInteger(config.by) || config.by <= 0) {
+      throw new CacheValidationError('Increment amount must be a positive integer', 'by');
+    }
+  }
+
+  if (config.ttl !== undefined) {
+    validateTTL(config.ttl, 'ttl');
+  }
+}
+
+/**
+ * Validates cache compare-and-set configuration
+ * 
+ * @param config - Compare-and-set configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheCompareAndSetConfig({ key: 'order:123', expected: 1, value: 2 }); // passes
+ * validateCacheCompareAndSetConfig({ key: 'order:123', expected: 1, value: undefined }); // throws
+ * ```
+ */
+export function validateCacheCompareAndSetConfig(config: CacheCompareAndSetConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache compare-and-set configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (config.expected === undefined) {
+    throw new CacheValidationError('Expected value cannot be undefined', 'expected');
+  }
+
+  if (config.value === undefined) {
+    throw new CacheValidationError('Cache value cannot be undefined', 'value');
+  }
+
+  if (config.ttl !== undefined) {
+    validateTTL(config.ttl, 'ttl');
+  }
+}
+
+/**
+ * Validates a duration in milliseconds
+ * 
+ * @param value - Duration to validate
+ * @param field - Field name for error messages
+ * @throws {CacheValidationError} If the duration is not a non-negative integer
+ */
+function validateMilliseconds(value: number, field: string): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new CacheValidationError('Duration must be a non-negative integer (milliseconds)', field);
+  }
+}
+
+/**
+ * Validates a lock token
+ * 
+ * @param token - Lock token to validate
+ * @throws {CacheValidationError} If the token is not a non-empty string
+ */
+function validateLockToken(token: string): void {
+  if (!token || typeof token !== 'string') {
+    throw new CacheValidationError('Lock token must be a non-empty string', 'token');
+  }
+}
+
+/**
+ * Validates cache lock configuration
+ * 
+ * @param config - Lock configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheLockConfig({ key: 'jobs:nightly', ttl: 60, waitTimeout: 5000 }); // passes
+ * validateCacheLockConfig({ key: 'jobs:nightly', waitTimeout: -1 }); // throws
+ * ```
+ */
+export function validateCacheLockConfig(config: CacheLockConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache lock configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (config.ttl !== undefined) {
+    validateTTL(config.ttl, 'ttl');
+  }
+
+  if (config.waitTimeout !== undefined) {
+    validateMilliseconds(config.waitTimeout, 'waitTimeout');
+  }
+
+  if (config.retryDelay !== undefined) {
+    validateMilliseconds(config.retryDelay, 'retryDelay');
+  }
+}
+
+/**
+ * Validates cache lock release configuration
+ * 
+ * @param config - Release configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheReleaseLockConfig({ key: 'jobs:nightly:__lock', token: 'f3b1c2' }); // passes
+ * validateCacheReleaseLockConfig({ key: 'jobs:nightly:__lock', token: '' }); // throws
+ * ```
+ */
+export function validateCacheReleaseLockConfig(config: CacheReleaseLockConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache lock release configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+  validateLockToken(config.token);
+}
+
+/**
+ * Validates cache lock extend configuration
+ * 
+ * @param config - Extend configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheExtendLockConfig({ key: 'jobs:nightly:__lock', token: 'f3b1c2', ttl: 30 }); // passes
+ * validateCacheExtendLockConfig({ key: 'jobs:nightly:__lock', token: 'f3b1c2', ttl: 0 }); // throws
+ * ```
+ */
+export function validateCacheExtendLockConfig(config: CacheExtendLockConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache lock extend configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+  validateLockToken(config.token);
+  validateTTL(config.ttl, 'ttl');
+}
+
+/**
+ * Validates cache rate limit configuration
+ * 
+ * @param config - Rate limit configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheRateLimitConfig({ key: 'api:user:123', algorithm: 'fixed-window', limit: 100, window: 60 }); // passes
+ * validateCacheRateLimitConfig({ key: 'api:user:123', algorithm: 'fixed-window', limit: 0, window: 60 }); // throws
+ * ```
+ */
+export function validateCacheRateLimitConfig(config: CacheRateLimitConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache rate limit configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (!['fixed-window', 'sliding-window', 'token-bucket'].includes(config.algorithm)) {
+    throw new CacheValidationError(`Unsupported rate limit algorithm: ${config.algorithm}`, 'algorithm');
+  }
+
+  if (typeof config.limit !== 'number' || !Number.isSafeInteger(config.limit) || config.limit <= 0) {
+    throw new CacheValidationError('Rate limit must be a positive integer', 'limit');
+  }
+
+  validateTTL(config.window, 'window');
+
+  if (config.cost !== undefined) {
+    if (typeof config.cost !== 'number' || !Number.isSafeInteger(config.cost) || config.cost <= 0) {
+      throw new CacheValidationError('Rate limit cost must be a positive integer', 'cost');
+    }
+
+    if (config.cost > config.limit) {
+      throw new CacheValidationError('Rate limit cost cannot exceed the limit', 'cost');
+    }
   }
 }
 
+/**
+ * Validates cache key scan configuration
+ * 
+ * @param config - Scan configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheKeysConfig({ pattern: 'session:*', limit: 500 }); // passes
+ * validateCacheKeysConfig({ pattern: 'session:*', limit: 0 }); // throws
+ * ```
+ */
+export function validateCacheKeysConfig(config: CacheKeysConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache keys configuration is required', 'config');
+  }
+
+  if (config.pattern !== undefined) {
+    validateCacheKey(config.pattern, 'pattern');
+  }
+
+  if (config.limit !== undefined) {
+    if (typeof config.limit !== 'number' || !Number.isSafeInteger(config.limit) || config.limit <= 0) {
+      throw new CacheValidationError('Keys limit must be a positive integer', 'limit');
+    }
+  }
+
+  if (config.cursor !== undefined && (!config.cursor || typeof config.cursor !== 'string')) {
+    throw new CacheValidationError('Keys cursor must be a non-empty string', 'cursor');
+  }
+}
+
+/**
+ * Validates hash field names or set members
+ * 
+ * @param names - Field names or members to validate
+ * @param field - Field name for error messages
+ * @param label - What the names are, for error messages
+ * @throws {CacheValidationError} If the list is empty or has an empty or non-string entry
+ */
+function validateMemberNames(names: string[], field: string, label: string): void {
+  if (!Array.isArray(names) || names.length === 0) {
+    throw new CacheValidationError(`${label} must be a non-empty array`, field);
+  }
+
+  names.forEach((name, index) => {
+    if (!name || typeof name !== 'string') {
+      throw new CacheValidationError('Must be a non-empty string', `${field}[${index}]`);
+    }
+  });
+}
+
+/**
+ * Validates a list side
+ * 
+ * @param side - List side to validate
+ * @throws {CacheValidationError} If side is not 'left' or 'right'
+ */
+function validateListSide(side: string): void {
+  if (side !== 'left' && side !== 'right') {
+    throw new CacheValidationError(`Unsupported list side: ${side}`, 'side');
+  }
+}
+
+/**
+ * Validates hash get configuration
+ * 
+ * @param config - Hash get configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheHashGetConfig({ key: 'user:123:profile', fields: ['name'] }); // passes
+ * validateCacheHashGetConfig({ key: 'user:123:profile', fields: [] }); // throws
+ * ```
+ */
+export function validateCacheHashGetConfig(config: CacheHashGetConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache hash get configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (config.fields !== undefined) {
+    validateMemberNames(config.fields, 'fields', 'Fields');
+  }
+}
+
+/**
+ * Validates hash set configuration
+ * 
+ * @param config - Hash set configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheHashSetConfig({ key: 'user:123:profile', fields: { name: 'John' } }); // passes
+ * validateCacheHashSetConfig({ key: 'user:123:profile', fields: {} }); // throws
+ * ```
+ */
+export function validateCacheHashSetConfig(config: CacheHashSetConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache hash set configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (!config.fields || typeof config.fields !== 'object' || Array.isArray(config.fields)) {
+    throw new CacheValidationError('Fields must be an object', 'fields');
+  }
+
+  const names = Object.keys(config.fields);
+  validateMemberNames(names, 'fields', 'Fields');
+  names.forEach(name => {
+    if (config.fields[name] === undefined) {
+      throw new CacheValidationError('Cache value cannot be undefined', `fields.${name}`);
+    }
+  });
+
+  if (config.ttl !== undefined) {
+    validateTTL(config.ttl, 'ttl');
+  }
+}
+
+/**
+ * Validates list push configuration
+ * 
+ * @param config - List push configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheListPushConfig({ key: 'jobs', values: [{ id: 1 }] }); // passes
+ * validateCacheListPushConfig({ key: 'jobs', values: [] }); // throws
+ * ```
+ */
+export function validateCacheListPushConfig(config: CacheListPushConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache list push configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (!Array.isArray(config.values) || config.values.length === 0) {
+    throw new CacheValidationError('Values must be a non-empty array', 'values');
+  }
+
+  config.values.forEach((value, index) => {
+    if (value === undefined) {
+      throw new CacheValidationError('Cache value cannot be undefined', `values[${index}]`);
+    }
+  });
+
+  if (config.side !== undefined) {
+    validateListSide(config.side);
+  }
+
+  if (config.ttl !== undefined) {
+    validateTTL(config.ttl, 'ttl');
+  }
+}
+
+/**
+ * Validates list pop configuration
+ * 
+ * @param config - List pop configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheListPopConfig({ key: 'jobs', side: 'left', count: 10 }); // passes
+ * validateCacheListPopConfig({ key: 'jobs', count: 0 }); // throws
+ * ```
+ */
+export function validateCacheListPopConfig(config: CacheListPopConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache list pop configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (config.side !== undefined) {
+    validateListSide(config.side);
+  }
+
+  if (config.count !== undefined) {
+    if (typeof config.count !== 'number' || !Number.isSafeInteger(config.count) || config.count <= 0) {
+      throw new CacheValidationError('Pop count must be a positive integer', 'count');
+    }
+  }
+}
+
+/**
+ * Validates list range configuration
+ * 
+ * @param config - List range configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheListRangeConfig({ key: 'events', start: 0, stop: -1 }); // passes
+ * validateCacheListRangeConfig({ key: 'events', start: 1.5 }); // throws
+ * ```
+ */
+export function validateCacheListRangeConfig(config: CacheListRangeConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache list range configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  for (const field of ['start', 'stop'] as const) {
+    const index = config[field];
+    if (index !== undefined && (typeof index !== 'number' || !Number.isSafeInteger(index))) {
+      throw new CacheValidationError('List index must be an integer', field);
+    }
+  }
+}
+
+/**
+ * Validates set add configuration
+ * 
+ * @param config - Set add configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheSetAddConfig({ key: 'post:42:likes', members: ['user:1'] }); // passes
+ * validateCacheSetAddConfig({ key: 'post:42:likes', members: [''] }); // throws
+ * ```
+ */
+export function validateCacheSetAddConfig(config: CacheSetAddConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache set add configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+  validateMemberNames(config.members, 'members', 'Members');
+
+  if (config.ttl !== undefined) {
+    validateTTL(config.ttl, 'ttl');
+  }
+}
+
+/**
+ * Validates set members configuration
+ * 
+ * @param config - Set members configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheSetMembersConfig({ key: 'post:42:likes' }); // passes
+ * validateCacheSetMembersConfig({ key: '' }); // throws
+ * ```
+ */
+export function validateCacheSetMembersConfig(config: CacheSetMembersConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache set members configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+}
+
+/**
+ * Validates sorted set add configuration
+ * 
+ * @param config - Sorted set add configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheSortedSetAddConfig({ key: 'leaderboard', members: [{ member: 'alice', score: 120 }] }); // passes
+ * validateCacheSortedSetAddConfig({ key: 'leaderboard', members: [{ member: 'alice', score: NaN }] }); // throws
+ * ```
+ */
+export function validateCacheSortedSetAddConfig(config: CacheSortedSetAddConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache sorted set add configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (!Array.isArray(config.members) || config.members.length === 0) {
+    throw new CacheValidationError('Members must be a non-empty array', 'members');
+  }
+
+  config.members.forEach((entry, index) => {
+    if (!entry || !entry.member || typeof entry.member !== 'string') {
+      throw new CacheValidationError('Must be a non-empty string', `members[${index}].member`);
+    }
+
+    if (typeof entry.score !== 'number' || Number.isNaN(entry.score)) {
+      throw new CacheValidationError('Score must be a number', `members[${index}].score`);
+    }
+  });
+
+  if (config.ttl !== undefined) {
+    validateTTL(config.ttl, 'ttl');
+  }
+}
+
+/**
+ * Validates sorted set range configuration
+ * 
+ * @param config - Sorted set range configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheSortedSetRangeConfig({ key: 'leaderboard', min: 100, limit: 10 }); // passes
+ * validateCacheSortedSetRangeConfig({ key: 'leaderboard', min: 10, max: 5 }); // throws
+ * ```
+ */
+export function validateCacheSortedSetRangeConfig(config: CacheSortedSetRangeConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache sorted set range configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  for (const field of ['min', 'max'] as const) {
+    const score = config[field];
+    if (score !== undefined && (typeof score !== 'number' || Number.isNaN(score))) {
+      throw new CacheValidationError('Score must be a number', field);
+    }
+  }
+
+  if (config.min !== undefined && config.max !== undefined && config.min > config.max) {
+    throw new CacheValidationError('Minimum score cannot be greater than maximum score', 'min');
+  }
+
+  if (config.offset !== undefined) {
+    if (typeof config.offset !== 'number' || !Number.isSafeInteger(config.offset) || config.offset < 0) {
+      throw new CacheValidationError('Offset must be a non-negative integer', 'offset');
+    }
+  }
+
+  if (config.limit !== undefined) {
+    if (typeof config.limit !== 'number' || !Number.isSafeInteger(config.limit) || config.limit <= 0) {
+      throw new CacheValidationError('Limit must be a positive integer', 'limit');
+    }
+  }
+}
+
+/**
+ * Validates a pub/sub channel name
+ * 
+ * @param channel - Channel name to validate
+ * @param field - Field name for error messages
+ * @throws {CacheValidationError} If the channel name is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheChannel('orders'); // passes
+ * validateCacheChannel(''); // throws
+ * ```
+ */
+export function validateCacheChannel(channel: string, field: string = 'channel'): void {
+  if (!channel || typeof channel !== 'string' || channel.trim().length === 0) {
+    throw new CacheValidationError('Channel is required and must be a non-empty string', field);
+  }
+}
+
+/**
+ * Validates pub/sub publish configuration
+ * 
+ * @param config - Publish configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCachePublishConfig({ channel: 'orders', message: '{"id":42}' }); // passes
+ * validateCachePublishConfig({ channel: 'orders', message: { id: 42 } }); // throws
+ * ```
+ */
+export function validateCachePublishConfig(config: CachePublishConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache publish configuration is required', 'config');
+  }
+
+  validateCacheChannel(config.channel);
+
+  if (typeof config.message !== 'string') {
+    throw new CacheValidationError('Message must be a string', 'message');
+  }
+}
+
+/**
+ * Validates pub/sub subscribe configuration
+ * 
+ * @param config - Subscribe configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheSubscribeConfig({ channel: 'orders', listener: message => console.log(message) }); // passes
+ * validateCacheSubscribeConfig({ channel: 'orders' }); // throws
+ * ```
+ */
+export function validateCacheSubscribeConfig(config: CacheSubscribeConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache subscribe configuration is required', 'config');
+  }
+
+  validateCacheChannel(config.channel);
+
+  if (typeof config.listener !== 'function') {
+    throw new CacheValidationError('Listener must be a function', 'listener');
+  }
+}
+
+/**
+ * Validates cache get-or-set configuration
+ * 
+ * @param config - Get-or-set configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateCacheGetOrSetConfig({ key: 'user:123', ttl: 60, loader: () => loadUser() }); // passes
+ * validateCacheGetOrSetConfig({ key: 'user:123', ttl: 60, softTtl: 120, loader }); // throws
+ * ```
+ */
+export function validateCacheGetOrSetConfig(config: CacheGetOrSetConfig): void {
+  if (!config) {
+    throw new CacheValidationError('Cache get-or-set configuration is required', 'config');
+  }
+
+  validateCacheKey(config.key, 'key');
+
+  if (typeof config.loader !== 'function') {
+    throw new CacheValidationError('Loader must be a function', 'loader');
+  }
+
+  if (config.ttl !== undefined) {
+    validateTTL(config.ttl, 'ttl');
+  }
+
+  if (config.softTtl !== undefined) {
+    validateTTL(config.softTtl, 'softTtl');
+
+    if (config.ttl !== undefined && config.softTtl >= config.ttl) {
+      throw new CacheValidationError('Soft TTL must be less than TTL', 'softTtl');
+    }
+  }
+
+  if (typeof config.lock === 'object' && config.lock.ttl !== undefined) {
+    validateTTL(config.lock.ttl, 'lock.ttl');
+  }
+
+  if (config.tags !== undefined) {
+    validateCacheTags(config.tags, 'tags');
+  }
+}
+
+/**
+ * Validates that a value can be serialized to JSON
+ * 
+ * @param value - Value to validate
+ * @param field - Field name for error messages
+ * @throws {CacheValidationError} If value cannot be serialized
+ * 
+ * @example
+ * ```typescript
+ * validateSerializable({ name: 'John' }, 'value'); // passes
+ * validateSerializable(undefined, 'value'); // throws
+ * ```
+ */
+export function validateSerializable(value: any, field: string = 'value'): void {
+  if (value === undefined) {
+    throw new CacheValidationError('Value cannot be undefined', field);
+  }
+
+  // Try to serialize to JSON to ensure it's serializable
+  try {
+    JSON.stringify(value);
+  } catch (error) {
+    throw new CacheValidationError(
+      `Value cannot be serialized to JSON: ${error instanceof Error ? error.message : String(error)}`,
+      field
+    );
+  }
+}
+
+
+/**
+ * Validates a list of Redis node addresses
+ * 
+ * @param nodes - Nodes to validate
+ * @param field - Field name for error messages
+ * @throws {CacheValidationError} If the list is empty or a node is invalid
+ */
+function validateRedisNodes(nodes: RedisNode[], field: string): void {
+  if (!Array.isArray(nodes) || nodes.length === 0) {
+    throw new CacheValidationError('At least one node is required', field);
+  }
+
+  nodes.forEach((node, index) => {
+    if (!node || !node.host || typeof node.host !== 'string') {
+      throw new CacheValidationError('Node host is required and must be a string', `${field}[${index}].host`);
+    }
+
+    if (typeof node.port !== 'number' || !Number.isInteger(node.port) || node.port <= 0 || node.port > 65535) {
+      throw new CacheValidationError('Node port must be an integer between 1 and 65535', `${field}[${index}].port`);
+    }
+  });
+}
+
+/**
+ * Validates Redis Sentinel and Cluster options
+ * 
+ * @param config - Redis configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateRedisConfig({ sentinels: [{ host: 'sentinel-1', port: 26379 }], name: 'mymaster' }); // passes
+ * validateRedisConfig({ sentinels: [{ host: 'sentinel-1', port: 26379 }] }); // throws
+ * ```
+ */
+export function validateRedisConfig(config: RedisConfig): void {
+  if (config.sentinels !== undefined && config.cluster !== undefined) {
+    throw new CacheValidationError('Sentinel and cluster modes cannot be combined', 'cluster');
+  }
+
+  if (config.sentinels !== undefined) {
+    validateRedisNodes(config.sentinels, 'sentinels');
+
+    if (!config.name || typeof config.name !== 'string') {
+      throw new CacheValidationError('Sentinel master name is required', 'name');
+    }
+  }
+
+  if (config.cluster !== undefined) {
+    validateRedisNodes(config.cluster?.nodes, 'cluster.nodes');
+
+    if (config.cluster.scaleReads !== undefined && !['master', 'slave', 'all'].includes(config.cluster.scaleReads)) {
+      throw new CacheValidationError(`Unsupported cluster scaleReads: ${config.cluster.scaleReads}`, 'cluster.scaleReads');
+    }
+  }
+}
+
+/**
+ * Validates Memcached server weights and ejection options
+ * 
+ * @param config - Memcached configuration to validate
+ * @throws {CacheValidationError} If configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateMemcachedConfig({ servers: { 'cache1:11211': 2, 'cache2:11211': 1 } }); // passes
+ * validateMemcachedConfig({ servers: { 'cache1:11211': 0 } }); // throws
+ * ```
+ */
+export function validateMemcachedConfig(config: MemcachedConfig): void {
+  const servers = config.servers;
+
+  if (servers !== undefined && typeof servers === 'object' && !Array.isArray(servers)) {
+    const entries = Object.entries(servers);
+    if (entries.length === 0) {
+      throw new CacheValidationError('At least one server is required', 'servers');
+    }
+
+    entries.forEach(([server, weight]) => {
+      if (typeof weight !== 'number' || !Number.isInteger(weight) || weight <= 0) {
+        throw new CacheValidationError('Server weight must be a positive integer', `servers.${server}`);
+      }
+    });
+  }
+
+  (['failures', 'reconnect'] as const).forEach(option => {
+    const value = config.options?.[option];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+      throw new CacheValidationError(`${option} must be a non-negative integer`, `options.${option}`);
+    }
+  });
+}
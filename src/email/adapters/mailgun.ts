@@ -1,4 +1,4 @@
-import { IEmailProvider, EmailMessage, EmailSendResult, EmailHealthInfo, MailgunConfig, EmailSendConfig, EmailProvider } from '../types';
+import { IEmailProvider, EmailMessage, EmailSendResult, EmailHealthInfo, MailgunConfig, EmailSendConfig, EmailProvider, getProviderTemplateId, isInlineAttachment } from '../types';
 import { EmailError } from '../errors';
 import { toSafeErrorDetails } from '../../logger';
 import type { Logger } from '../../logger';
@@ -11,7 +11,9 @@ import type { Logger } from '../../logger';
  * Supports:
  * - HTML and text content
  * - CC and BCC recipients
- * - File attachments
+ * - File attachments and inline images (`cid`, sent as the inline file name)
+ * - Reply-To, custom headers, tags and open/click tracking
+ * - Stored templates (`providerTemplate`)
  * - US and EU regions
  * - Custom API endpoints
  * 
@@ -37,6 +39,7 @@ import type { Logger } from '../../logger';
  */
 export class MailgunProvider implements IEmailProvider {
   readonly name = EmailProvider.MAILGUN;
+  readonly capabilities = { providerTemplates: true };
   private config: Required<MailgunConfig>;
   private logger: Logger;
 
@@ -128,14 +131,49 @@ export class MailgunProvider implements IEmailProvider {
       bccAddresses.forEach(bcc => formData.append('bcc', bcc));
     }
     
-    formData.append('subject', message.subject);
+    if (message.subject) {
+      formData.append('subject', message.subject);
+    }
+    
+    if (message.replyTo) {
+      formData.append('h:Reply-To', Array.isArray(message.replyTo) ? message.replyTo.join(', ') : message.replyTo);
+    }
+    
+    // Custom headers use the h: prefix
+    if (message.headers) {
+      for (const [name, value] of Object.entries(message.headers)) {
+        formData.append(`h:${name}`, value);
+      }
+    }
+    
+    if (message.tags) {
+      message.tags.forEach(tag => formData.append('o:tag', tag));
+    }
+    
+    if (message.tracking?.opens !== undefined) {
+      formData.append('o:tracking-opens', message.tracking.opens ? 'yes' : 'no');
+    }
     
-    if (message.text) {
-      formData.append('text', message.text);
+    if (message.tracking?.clicks !== undefined) {
+      formData.append('o:tracking-clicks', message.tracking.clicks ? 'yes' : 'no');
     }
     
-    if (message.html) {
-      formData.append('html', message.html);
+    // Stored templates render the body from t:variables
+    if (message.providerTemplate) {
+      const templateId = getProviderTemplateId(message.providerTemplate, this.name);
+      if (!templateId) {
+        throw new Error('Mailgun template id is missing from providerTemplate');
+      }
+      formData.append('template', templateId);
+      formData.append('t:variables', JSON.stringify(message.providerTemplate.data ?? {}));
+    } else {
+      if (message.text) {
+        formData.append('text', message.text);
+      }
+      
+      if (message.html) {
+        formData.append('html', message.html);
+      }
     }
     
     // Handle attachments
@@ -146,7 +184,12 @@ export class MailgunProvider implements IEmailProvider {
           : Buffer.from(attachment.content, attachment.encoding as BufferEncoding || 'utf-8');
         
         const blob = new Blob([new Uint8Array(content)], { type: attachment.contentType || 'application/octet-stream' });
-        formData.append('attachment', blob, attachment.filename);
+        // Mailgun uses the file name of an inline attachment as its content id
+        if (isInlineAttachment(attachment)) {
+          formData.append('inline', blob, attachment.cid || attachment.filename);
+        } else {
+          formData.append('attachment', blob, attachment.filename);
+        }
       }
     }
 
@@ -1,4 +1,4 @@
-import { IEmailProvider, EmailMessage, EmailSendResult, EmailHealthInfo, PostmarkConfig, EmailSendConfig, EmailProvider } from '../types';
+import { IEmailProvider, EmailMessage, EmailSendResult, EmailHealthInfo, PostmarkConfig, EmailSendConfig, EmailProvider, getProviderTemplateId } from '../types';
 import { EmailError } from '../errors';
 import { toSafeErrorDetails } from '../../logger';
 import type { Logger } from '../../logger';
@@ -11,7 +11,9 @@ import type { Logger } from '../../logger';
  * Supports:
  * - HTML and text content
  * - CC and BCC recipients
- * - File attachments
+ * - File attachments and inline images (`cid`)
+ * - Reply-To, custom headers, a tag and open/link tracking
+ * - Stored templates by id or alias (`providerTemplate`)
  * - Batch sending (automatic optimization)
  * - Custom API endpoints
  * 
@@ -35,6 +37,7 @@ import type { Logger } from '../../logger';
  */
 export class PostmarkProvider implements IEmailProvider {
   readonly name = EmailProvider.POSTMARK;
+  readonly capabilities = { providerTemplates: true };
   private config: Required<PostmarkConfig>;
   private logger: Logger;
 
@@ -69,8 +72,8 @@ export class PostmarkProvider implements IEmailProvider {
     
     this.logger.debug('Basepack Email: Provider sending messages', { provider: this.name, count: messages.length });
     
-    // Postmark supports batch sending
-    if (messages.length > 1) {
+    // Postmark supports batch sending; templated messages use their own endpoint
+    if (messages.length > 1 && !messages.some(message => message.providerTemplate)) {
       this.logger.debug('Basepack Email: Using batch sending', { provider: this.name, count: messages.length });
       return this.sendBatch(messages);
     }
@@ -101,15 +104,64 @@ export class PostmarkProvider implements IEmailProvider {
     return statusCode ? [429, 500, 502, 503, 504].includes(statusCode) : false;
   }
 
+  /**
+   * Maps reply-to, headers, tags and tracking onto a Postmark message body.
+   * Postmark accepts a single tag, so only the first tag is sent.
+   */
+  private applyMessageOptions(body: any, message: EmailMessage): void {
+    if (message.replyTo) {
+      body.ReplyTo = Array.isArray(message.replyTo) ? message.replyTo.join(',') : message.replyTo;
+    }
+    
+    if (message.headers && Object.keys(message.headers).length > 0) {
+      body.Headers = Object.entries(message.headers).map(([Name, Value]) => ({ Name, Value }));
+    }
+    
+    if (message.tags && message.tags.length > 0) {
+      body.Tag = message.tags[0];
+    }
+    
+    if (message.tracking?.opens !== undefined) {
+      body.TrackOpens = message.tracking.opens;
+    }
+    
+    if (message.tracking?.clicks !== undefined) {
+      body.TrackLinks = message.tracking.clicks ? 'HtmlAndText' : 'None';
+    }
+  }
+
   private async sendSingleMessage(message: EmailMessage): Promise<EmailSendResult> {
-    const url = `${this.config.endpoint}/email`;
+    const url = message.providerTemplate
+      ? `${this.config.endpoint}/email/withTemplate`
+      : `${this.config.endpoint}/email`;
     
     const body: any = {
       From: message.from,
       To: Array.isArray(message.to) ? message.to.join(',') : message.to,
-      Subject: message.subject,
     };
     
+    // Templates provide the subject and content; numeric ids are template ids, anything else an alias
+    if (message.providerTemplate) {
+      const templateId = getProviderTemplateId(message.providerTemplate, this.name);
+      if (!templateId) {
+        throw new Error('Postmark template id is missing from providerTemplate');
+      }
+      if (/^\d+$/.test(templateId)) {
+        body.TemplateId = Number(templateId);
+      } else {
+        body.TemplateAlias = templateId;
+      }
+      body.TemplateModel = message.providerTemplate.data ?? {};
+    } else {
+      body.Subject = message.subject;
+      if (message.text) {
+        body.TextBody = message.text;
+      }
+      if (message.html) {
+        body.HtmlBody = message.html;
+      }
+    }
+    
     if (message.cc) {
       body.Cc = Array.isArray(message.cc) ? message.cc.join(',') : message.cc;
     }
@@ -118,13 +170,7 @@ export class PostmarkProvider implements IEmailProvider {
       body.Bcc = Array.isArray(message.bcc) ? message.bcc.join(',') : message.bcc;
     }
     
-    if (message.text) {
-      body.TextBody = message.text;
-    }
-    
-    if (message.html) {
-      body.HtmlBody = message.html;
-    }
+    this.applyMessageOptions(body, message);
     
     // Handle attachments
     if (message.attachments && message.attachments.length > 0) {
@@ -137,6 +183,7 @@ export class PostmarkProvider implements IEmailProvider {
           Name: attachment.filename,
           Content: content.toString('base64'),
           ContentType: attachment.contentType || 'application/octet-stream',
+          ContentID: attachment.cid ? `cid:${attachment.cid}` : undefined,
         };
       });
     }
@@ -192,6 +239,8 @@ export class PostmarkProvider implements IEmailProvider {
         body.HtmlBody = message.html;
       }
       
+      this.applyMessageOptions(body, message);
+      
       if (message.attachments && message.attachments.length > 0) {
         body.Attachments = message.attachments.map(attachment => {
           const content = Buffer.isBuffer(attachment.content) 
@@ -202,6 +251,7 @@ export class PostmarkProvider implements IEmailProvider {
             Name: attachment.filename,
             Content: content.toString('base64'),
             ContentType: attachment.contentType || 'application/octet-stream',
+            ContentID: attachment.cid ? `cid:${attachment.cid}` : undefined,
           };
         });
       }
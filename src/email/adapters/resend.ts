@@ -1,4 +1,4 @@
-import { IEmailProvider, EmailMessage, EmailSendResult, EmailHealthInfo, ResendConfig, EmailSendConfig, EmailProvider } from '../types';
+import { IEmailProvider, EmailMessage, EmailSendResult, EmailHealthInfo, ResendConfig, EmailSendConfig, EmailProvider, getProviderTemplateId, toTagName } from '../types';
 import { EmailError } from '../errors';
 import { toSafeErrorDetails } from '../../logger';
 import type { Logger } from '../../logger';
@@ -11,7 +11,9 @@ import type { Logger } from '../../logger';
  * Supports:
  * - HTML and text content
  * - CC and BCC recipients
- * - File attachments
+ * - File attachments and inline images (`cid`)
+ * - Reply-To, custom headers and tags (tracking is configured per domain)
+ * - Stored templates (`providerTemplate`)
  * - Custom API endpoints
  * 
  * @example
@@ -34,6 +36,7 @@ import type { Logger } from '../../logger';
  */
 export class ResendProvider implements IEmailProvider {
   readonly name = EmailProvider.RESEND;
+  readonly capabilities = { providerTemplates: true };
   private config: Required<ResendConfig>;
   private logger: Logger;
 
@@ -112,12 +115,37 @@ export class ResendProvider implements IEmailProvider {
       body.bcc = Array.isArray(message.bcc) ? message.bcc : [message.bcc];
     }
     
-    if (message.text) {
-      body.text = message.text;
+    if (message.replyTo) {
+      body.reply_to = Array.isArray(message.replyTo) ? message.replyTo : [message.replyTo];
     }
     
-    if (message.html) {
-      body.html = message.html;
+    if (message.headers && Object.keys(message.headers).length > 0) {
+      body.headers = message.headers;
+    }
+    
+    // Resend tags are name/value pairs, with the same name rules as SES
+    if (message.tags && message.tags.length > 0) {
+      body.tags = message.tags.map(tag => ({ name: toTagName(tag), value: 'true' }));
+    }
+    
+    // Stored templates provide the content
+    if (message.providerTemplate) {
+      const templateId = getProviderTemplateId(message.providerTemplate, this.name);
+      if (!templateId) {
+        throw new Error('Resend template id is missing from providerTemplate');
+      }
+      body.template = {
+        id: templateId,
+        variables: message.providerTemplate.data ?? {},
+      };
+    } else {
+      if (message.text) {
+        body.text = message.text;
+      }
+      
+      if (message.html) {
+        body.html = message.html;
+      }
     }
     
     // Handle attachments
@@ -131,6 +159,7 @@ export class ResendProvider implements IEmailProvider {
           content: content.toString('base64'),
           filename: attachment.filename,
           content_type: attachment.contentType || 'application/octet-stream',
+          content_id: attachment.cid,
         };
       });
     }
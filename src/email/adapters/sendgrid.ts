@@ -1,4 +1,4 @@
-import { IEmailProvider, EmailMessage, EmailBaseOptions, EmailSendResult, EmailHealthInfo, SendGridConfig, EmailSendConfig, EmailProvider } from '../types';
+import { IEmailProvider, EmailMessage, EmailBaseOptions, EmailSendResult, EmailHealthInfo, SendGridConfig, EmailSendConfig, EmailProvider, getProviderTemplateId, isInlineAttachment } from '../types';
 import { EmailError } from '../errors';
 import { toSafeErrorDetails } from '../../logger';
 import type { Logger } from '../../logger';
@@ -11,7 +11,9 @@ import type { Logger } from '../../logger';
  * Supports:
  * - HTML and text content
  * - CC and BCC recipients
- * - File attachments
+ * - File attachments and inline images (`cid`)
+ * - Reply-To, custom headers, categories (tags) and open/click tracking
+ * - Dynamic templates (`providerTemplate`)
  * - Custom API endpoints
  * 
  * @example
@@ -34,6 +36,7 @@ import type { Logger } from '../../logger';
  */
 export class SendGridProvider implements IEmailProvider {
   readonly name = EmailProvider.SENDGRID;
+  readonly capabilities = { providerTemplates: true };
   private config: Required<SendGridConfig>;
   private logger: Logger;
 
@@ -113,17 +116,19 @@ export class SendGridProvider implements IEmailProvider {
       personalizations.bcc = bccAddresses.map(email => ({ email }));
     }
     
-    personalizations.subject = message.subject;
+    if (message.subject) {
+      personalizations.subject = message.subject;
+    }
     
-    // Build content
+    // Build content (dynamic templates provide their own)
     const content: any[] = [];
-    if (message.text) {
+    if (message.text && !message.providerTemplate) {
       content.push({
         type: 'text/plain',
         value: message.text,
       });
     }
-    if (message.html) {
+    if (message.html && !message.providerTemplate) {
       content.push({
         type: 'text/html',
         value: message.html,
@@ -135,9 +140,46 @@ export class SendGridProvider implements IEmailProvider {
       personalizations: [personalizations],
       from: { email: message.from },
       subject: message.subject,
-      content,
+      content: content.length > 0 ? content : undefined,
     };
     
+    if (message.replyTo) {
+      const replyToAddresses = Array.isArray(message.replyTo) ? message.replyTo : [message.replyTo];
+      if (replyToAddresses.length === 1) {
+        body.reply_to = { email: replyToAddresses[0] };
+      } else {
+        body.reply_to_list = replyToAddresses.map(email => ({ email }));
+      }
+    }
+    
+    if (message.headers && Object.keys(message.headers).length > 0) {
+      body.headers = message.headers;
+    }
+    
+    if (message.tags && message.tags.length > 0) {
+      body.categories = message.tags;
+    }
+    
+    if (message.tracking) {
+      body.tracking_settings = {};
+      if (message.tracking.opens !== undefined) {
+        body.tracking_settings.open_tracking = { enable: message.tracking.opens };
+      }
+      if (message.tracking.clicks !== undefined) {
+        body.tracking_settings.click_tracking = { enable: message.tracking.clicks, enable_text: message.tracking.clicks };
+      }
+    }
+    
+    // Dynamic templates provide the content; data is set per personalization
+    if (message.providerTemplate) {
+      const templateId = getProviderTemplateId(message.providerTemplate, this.name);
+      if (!templateId) {
+        throw new Error('SendGrid template id is missing from providerTemplate');
+      }
+      body.template_id = templateId;
+      personalizations.dynamic_template_data = message.providerTemplate.data ?? {};
+    }
+    
     // Handle attachments
     if (message.attachments && message.attachments.length > 0) {
       body.attachments = message.attachments.map(attachment => {
@@ -149,7 +191,8 @@ export class SendGridProvider implements IEmailProvider {
           content: content.toString('base64'),
           filename: attachment.filename,
           type: attachment.contentType || 'application/octet-stream',
-          disposition: 'attachment',
+          disposition: isInlineAttachment(attachment) ? 'inline' : 'attachment',
+          content_id: attachment.cid,
         };
       });
     }
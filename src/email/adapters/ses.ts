@@ -1,5 +1,6 @@
-import { IEmailProvider, EmailMessage, EmailSendResult, EmailHealthInfo, SESConfig, EmailSendConfig, EmailProvider } from '../types';
+import { IEmailProvider, EmailMessage, EmailAttachment, EmailSendResult, EmailHealthInfo, SESConfig, EmailSendConfig, EmailProvider, getProviderTemplateId, isInlineAttachment, toTagName } from '../types';
 import { EmailError } from '../errors';
+import { validateEmailHeaders } from '../validation';
 import { toSafeErrorDetails } from '../../logger';
 import type { Logger } from '../../logger';
 
@@ -12,7 +13,10 @@ import type { Logger } from '../../logger';
  * - Simple email sending
  * - HTML and text content
  * - CC and BCC recipients
- * - File attachments
+ * - File attachments and inline images (`cid`)
+ * - Reply-To, custom headers and tags (as message tags with the value `true`;
+ *   characters SES does not accept in tag names become `_`)
+ * - Stored templates (`providerTemplate`, without attachments or custom headers)
  * - Custom endpoints (for LocalStack, etc.)
  * 
  * @example
@@ -37,6 +41,7 @@ import type { Logger } from '../../logger';
  */
 export class SESProvider implements IEmailProvider {
   readonly name = EmailProvider.SES;
+  readonly capabilities = { providerTemplates: true };
   private options: SESConfig;
   private client: any;
   private logger: Logger;
@@ -120,9 +125,14 @@ export class SESProvider implements IEmailProvider {
   }
 
   private async sendSingleMessage(message: EmailMessage): Promise<EmailSendResult> {
-    // Use SendRawEmailCommand if attachments are present or if we have CC/BCC
+    if (message.providerTemplate) {
+      return this.sendTemplatedEmail(message);
+    }
+
+    // Use SendRawEmailCommand if attachments or custom headers are present
     // Otherwise use the simpler SendEmailCommand
-    const useRawEmail = message.attachments && message.attachments.length > 0;
+    const useRawEmail = (message.attachments && message.attachments.length > 0)
+      || (message.headers && Object.keys(message.headers).length > 0);
 
     if (useRawEmail) {
       return this.sendRawEmail(message);
@@ -145,6 +155,8 @@ export class SESProvider implements IEmailProvider {
         CcAddresses: ccAddresses,
         BccAddresses: bccAddresses,
       },
+      ReplyToAddresses: this.toAddressList(message.replyTo),
+      Tags: this.toMessageTags(message.tags),
       Message: {
         Subject: {
           Data: message.subject,
@@ -177,6 +189,44 @@ export class SESProvider implements IEmailProvider {
     };
   }
 
+  private async sendTemplatedEmail(message: EmailMessage): Promise<EmailSendResult> {
+    const { SendTemplatedEmailCommand } = require('@aws-sdk/client-ses');
+    const template = message.providerTemplate!;
+    const templateId = getProviderTemplateId(template, this.name);
+
+    if (!templateId) {
+      throw new Error('SES template id is missing from providerTemplate');
+    }
+    if (message.attachments && message.attachments.length > 0) {
+      throw new Error('SES templated emails do not support attachments');
+    }
+    if (message.headers && Object.keys(message.headers).length > 0) {
+      throw new Error('SES templated emails do not support custom headers');
+    }
+
+    const command = new SendTemplatedEmailCommand({
+      Source: message.from,
+      Destination: {
+        ToAddresses: Array.isArray(message.to) ? message.to : [message.to],
+        CcAddresses: message.cc ? (Array.isArray(message.cc) ? message.cc : [message.cc]) : undefined,
+        BccAddresses: message.bcc ? (Array.isArray(message.bcc) ? message.bcc : [message.bcc]) : undefined,
+      },
+      ReplyToAddresses: this.toAddressList(message.replyTo),
+      Tags: this.toMessageTags(message.tags),
+      Template: templateId,
+      TemplateData: JSON.stringify(template.data ?? {}),
+    });
+
+    const response = await this.client.send(command);
+
+    return {
+      success: true,
+      messageId: response.MessageId,
+      provider: this.name,
+      timestamp: new Date(),
+    };
+  }
+
   private async sendRawEmail(message: EmailMessage): Promise<EmailSendResult> {
     const { SendRawEmailCommand } = require('@aws-sdk/client-ses');
     
@@ -186,6 +236,7 @@ export class SESProvider implements IEmailProvider {
       RawMessage: {
         Data: Buffer.from(rawMessage),
       },
+      Tags: this.toMessageTags(message.tags),
     });
 
     const response = await this.client.send(command);
@@ -218,71 +269,54 @@ export class SESProvider implements IEmailProvider {
       lines.push(`Bcc: ${bccAddresses}`);
     }
     
-    lines.push(`Subject: ${message.subject}`);
+    if (message.replyTo) {
+      lines.push(`Reply-To: ${Array.isArray(message.replyTo) ? message.replyTo.join(', ') : message.replyTo}`);
+    }
+    
+    lines.push(`Subject: ${message.subject ?? ''}`);
+    
+    // Custom headers are written verbatim, so check them even when validation is disabled
+    if (message.headers) {
+      validateEmailHeaders(message.headers);
+      for (const [name, value] of Object.entries(message.headers)) {
+        lines.push(`${name}: ${value}`);
+      }
+    }
+    
     lines.push('MIME-Version: 1.0');
     lines.push(`Content-Type: multipart/mixed; boundary="${boundary}"`);
     lines.push('');
 
+    const attachments = message.attachments ?? [];
+    // Inline images are grouped with the HTML in multipart/related so clients resolve cid: references
+    const relatedAttachments = message.html ? attachments.filter(isInlineAttachment) : [];
+    const mixedAttachments = attachments.filter(attachment => !relatedAttachments.includes(attachment));
+
     // Text/HTML body
     if (message.text || message.html) {
       lines.push(`--${boundary}`);
       
-      if (message.text && message.html) {
-        // Both text and HTML - use multipart/alternative
-        const altBoundary = `----=_Alt_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-        lines.push(`Content-Type: multipart/alternative; boundary="${altBoundary}"`);
+      if (relatedAttachments.length > 0) {
+        const relatedBoundary = `----=_Rel_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+        lines.push(`Content-Type: multipart/related; boundary="${relatedBoundary}"`);
         lines.push('');
-        
-        // Text part
-        lines.push(`--${altBoundary}`);
-        lines.push('Content-Type: text/plain; charset=UTF-8');
-        lines.push('Content-Transfer-Encoding: 7bit');
-        lines.push('');
-        lines.push(message.text);
+        lines.push(`--${relatedBoundary}`);
+        this.pushBodyPart(lines, message);
         lines.push('');
         
-        // HTML part
-        lines.push(`--${altBoundary}`);
-        lines.push('Content-Type: text/html; charset=UTF-8');
-        lines.push('Content-Transfer-Encoding: 7bit');
-        lines.push('');
-        lines.push(message.html);
-        lines.push('');
-        lines.push(`--${altBoundary}--`);
-      } else if (message.html) {
-        lines.push('Content-Type: text/html; charset=UTF-8');
-        lines.push('Content-Transfer-Encoding: 7bit');
-        lines.push('');
-        lines.push(message.html);
-      } else if (message.text) {
-        lines.push('Content-Type: text/plain; charset=UTF-8');
-        lines.push('Content-Transfer-Encoding: 7bit');
-        lines.push('');
-        lines.push(message.text);
+        for (const attachment of relatedAttachments) {
+          this.pushAttachmentPart(lines, relatedBoundary, attachment);
+        }
+        lines.push(`--${relatedBoundary}--`);
+      } else {
+        this.pushBodyPart(lines, message);
       }
       lines.push('');
     }
 
     // Attachments
-    if (message.attachments) {
-      for (const attachment of message.attachments) {
-        lines.push(`--${boundary}`);
-        lines.push(`Content-Type: ${attachment.contentType || 'application/octet-stream'}; name="${attachment.filename}"`);
-        lines.push('Content-Transfer-Encoding: base64');
-        lines.push(`Content-Disposition: attachment; filename="${attachment.filename}"`);
-        lines.push('');
-        
-        // Convert content to base64
-        const content = Buffer.isBuffer(attachment.content) 
-          ? attachment.content 
-          : Buffer.from(attachment.content, attachment.encoding as BufferEncoding || 'utf-8');
-        
-        const base64Content = content.toString('base64');
-        // Split base64 into 76-character lines as per RFC 2045
-        const base64Lines = base64Content.match(/.{1,76}/g) || [];
-        lines.push(...base64Lines);
-        lines.push('');
-      }
+    for (const attachment of mixedAttachments) {
+      this.pushAttachmentPart(lines, boundary, attachment);
     }
 
     // End boundary
@@ -291,6 +325,78 @@ export class SESProvider implements IEmailProvider {
     return lines.join('\r\n');
   }
 
+  private pushBodyPart(lines: string[], message: EmailMessage): void {
+    if (message.text && message.html) {
+      // Both text and HTML - use multipart/alternative
+      const altBoundary = `----=_Alt_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+      lines.push(`Content-Type: multipart/alternative; boundary="${altBoundary}"`);
+      lines.push('');
+      
+      // Text part
+      lines.push(`--${altBoundary}`);
+      lines.push('Content-Type: text/plain; charset=UTF-8');
+      lines.push('Content-Transfer-Encoding: 7bit');
+      lines.push('');
+      lines.push(message.text);
+      lines.push('');
+      
+      // HTML part
+      lines.push(`--${altBoundary}`);
+      lines.push('Content-Type: text/html; charset=UTF-8');
+      lines.push('Content-Transfer-Encoding: 7bit');
+      lines.push('');
+      lines.push(message.html);
+      lines.push('');
+      lines.push(`--${altBoundary}--`);
+    } else if (message.html) {
+      lines.push('Content-Type: text/html; charset=UTF-8');
+      lines.push('Content-Transfer-Encoding: 7bit');
+      lines.push('');
+      lines.push(message.html);
+    } else if (message.text) {
+      lines.push('Content-Type: text/plain; charset=UTF-8');
+      lines.push('Content-Transfer-Encoding: 7bit');
+      lines.push('');
+      lines.push(message.text);
+    }
+  }
+
+  private pushAttachmentPart(lines: string[], boundary: string, attachment: EmailAttachment): void {
+    lines.push(`--${boundary}`);
+    lines.push(`Content-Type: ${attachment.contentType || 'application/octet-stream'}; name="${attachment.filename}"`);
+    lines.push('Content-Transfer-Encoding: base64');
+    
+    if (attachment.cid) {
+      lines.push(`Content-ID: <${attachment.cid}>`);
+    }
+    
+    const disposition = isInlineAttachment(attachment) ? 'inline' : 'attachment';
+    lines.push(`Content-Disposition: ${disposition}; filename="${attachment.filename}"`);
+    lines.push('');
+    
+    // Convert content to base64
+    const content = Buffer.isBuffer(attachment.content) 
+      ? attachment.content 
+      : Buffer.from(attachment.content, attachment.encoding as BufferEncoding || 'utf-8');
+    
+    const base64Content = content.toString('base64');
+    // Split base64 into 76-character lines as per RFC 2045
+    const base64Lines = base64Content.match(/.{1,76}/g) || [];
+    lines.push(...base64Lines);
+    lines.push('');
+  }
+
+  private toAddressList(addresses?: string | string[]): string[] | undefined {
+    if (!addresses) {
+      return undefined;
+    }
+    return Array.isArray(addresses) ? addresses : [addresses];
+  }
+
+  private toMessageTags(tags?: string[]): Array<{ Name: string; Value: string }> | undefined {
+    return tags && tags.length > 0 ? tags.map(tag => ({ Name: toTagName(tag), Value: 'true' })) : undefined;
+  }
+
   async health(): Promise<EmailHealthInfo> {
     try {
       const { GetSendQuotaCommand } = require('@aws-sdk/client-ses');
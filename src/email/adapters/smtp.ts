@@ -1,4 +1,4 @@
-import { IEmailProvider, EmailMessage, EmailSendResult, EmailHealthInfo, SMTPConfig, EmailSendConfig, EmailProvider } from '../types';
+import { IEmailProvider, EmailMessage, EmailSendResult, EmailHealthInfo, SMTPConfig, EmailSendConfig, EmailProvider, isInlineAttachment } from '../types';
 import { EmailError } from '../errors';
 import { toSafeErrorDetails } from '../../logger';
 import type { Logger } from '../../logger';
@@ -11,7 +11,8 @@ import type { Logger } from '../../logger';
  * Supports:
  * - HTML and text content
  * - CC and BCC recipients
- * - File attachments
+ * - File attachments and inline images (`cid`)
+ * - Reply-To and custom headers (tags and tracking are not supported)
  * - Connection pooling
  * - TLS/SSL encryption
  * - Custom SMTP servers (Gmail, Outlook, custom servers)
@@ -42,6 +43,7 @@ import type { Logger } from '../../logger';
  */
 export class SMTPProvider implements IEmailProvider {
   readonly name = EmailProvider.SMTP;
+  readonly capabilities = { providerTemplates: false };
   private transporter: any;
   private config: SMTPConfig;
   private logger: Logger;
@@ -165,6 +167,10 @@ export class SMTPProvider implements IEmailProvider {
   }
 
   private async sendSingleMessage(message: EmailMessage): Promise<EmailSendResult> {
+    if (message.providerTemplate) {
+      throw new Error('SMTP does not support provider templates');
+    }
+
     const mailOptions: any = {
       from: message.from,
       to: Array.isArray(message.to) ? message.to : [message.to],
@@ -179,6 +185,14 @@ export class SMTPProvider implements IEmailProvider {
       mailOptions.bcc = Array.isArray(message.bcc) ? message.bcc : [message.bcc];
     }
 
+    if (message.replyTo) {
+      mailOptions.replyTo = message.replyTo;
+    }
+
+    if (message.headers && Object.keys(message.headers).length > 0) {
+      mailOptions.headers = message.headers;
+    }
+
     if (message.text) {
       mailOptions.text = message.text;
     }
@@ -194,6 +208,8 @@ export class SMTPProvider implements IEmailProvider {
         content: attachment.content,
         contentType: attachment.contentType,
         encoding: attachment.encoding,
+        cid: attachment.cid,
+        contentDisposition: isInlineAttachment(attachment) ? 'inline' : 'attachment',
       }));
     }
 
@@ -2,15 +2,29 @@ export * from './service';
 export * from './adapters';
 export * from './errors';
 export * from './validation';
+export * from './templates';
+export * from './preprocess';
 
 // Types - export individually to avoid conflicts
 export type {
   EmailBaseOptions,
+  EmailPreprocessOptions,
   EmailSendResult,
   EmailHealthInfo,
   EmailMessage,
   EmailAttachment,
+  EmailAttachmentDisposition,
+  EmailProviderTemplate,
+  EmailProviderCapabilities,
+  EmailTracking,
   EmailSendConfig,
+  EmailTemplate,
+  EmailLayout,
+  EmailPartial,
+  EmailTemplateRegistryConfig,
+  EmailTemplateRenderConfig,
+  EmailRenderedTemplate,
+  EmailSendTemplateConfig,
   IEmailProvider,
   SESConfig,
   SendGridConfig,
@@ -25,5 +39,8 @@ export type {
 export {
   EmailProvider,
   isEmailSingleMessageConfig,
-  isEmailBatchMessageConfig
+  isEmailBatchMessageConfig,
+  getProviderTemplateId,
+  toTagName,
+  isInlineAttachment
 } from './types';
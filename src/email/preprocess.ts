@@ -0,0 +1,357 @@
+/**
+ * HTML email preprocessing
+ * @module email/preprocess
+ */
+
+import type { EmailMessage, EmailPreprocessOptions } from './types';
+import type { Logger } from '../logger';
+
+/** Default HTML size limit in bytes; Gmail clips messages above roughly 102KB. */
+const DEFAULT_MAX_HTML_SIZE = 102400;
+
+/** Placeholder for the `<style>` block while element tags are rewritten. */
+const STYLE_PLACEHOLDER = '\u0000basepack-style\u0000';
+
+/** Markers for block boundaries while converting HTML to text. */
+const LINE_BREAK = '\u0001';
+const PARAGRAPH_BREAK = '\u0002';
+
+/** Matches an element's opening tag and its attributes. */
+const OPENING_TAG_PATTERN = /<([a-zA-Z][\w-]*)((?:\s+[^\s"'<>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'<>]+))?)*)\s*(\/?)>/g;
+
+/** Matches selectors that can be inlined: a tag, classes and an id, e.g. `td.cell#main`. */
+const SIMPLE_SELECTOR_PATTERN = /^([a-zA-Z][\w-]*)?((?:[.#][\w-]+)*)$/;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  euro: '€'
+};
+
+interface CssRule {
+  tag?: string;
+  classes: string[];
+  id?: string;
+  specificity: number;
+  order: number;
+  declarations: CssDeclaration[];
+}
+
+interface CssDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+/**
+ * Decodes HTML entities in text.
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Reads an attribute value from an opening tag's attribute string.
+ */
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'<>]+))`, 'i').exec(attributes);
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Derives a readable plain text version of an HTML email.
+ * 
+ * Drops the head, styles, scripts and comments, turns block elements and
+ * `<br>` into line breaks, list items into `- ` lines, links into
+ * `label (url)` and images into their alt text, then decodes entities.
+ * 
+ * @param html - HTML content
+ * @returns Plain text content
+ * 
+ * @example
+ * ```typescript
+ * htmlToText('<h1>Hi</h1><p>See <a href="https://example.com">our site</a></p>');
+ * // 'Hi\n\nSee our site (https://example.com)'
+ * ```
+ */
+export function htmlToText(html: string): string {
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/\s+/g, ' ')
+    .replace(/<img\b([^>]*)>/gi, (_match, attributes: string) => getAttribute(attributes, 'alt') ?? '')
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi, (_match, attributes: string, content: string) => {
+      const label = decodeEntities(content.replace(/<[^>]*>/g, '')).trim();
+      const href = decodeEntities(getAttribute(attributes, 'href') ?? '').trim();
+      const target = href.replace(/^mailto:/i, '');
+      if (!href || href.startsWith('#') || /^javascript:/i.test(href) || target === label) {
+        return label;
+      }
+      return label ? `${label} (${target})` : target;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<hr\b[^>]*>/gi, `${PARAGRAPH_BREAK}---${PARAGRAPH_BREAK}`)
+    .replace(/<li\b[^>]*>/gi, `${LINE_BREAK}- `)
+    .replace(/<\/(td|th)\s*>/gi, ' ')
+    .replace(/<\/?(p|h[1-6]|ul|ol|table|blockquote|pre)\b[^>]*>/gi, PARAGRAPH_BREAK)
+    .replace(/<\/?(div|tr|li|section|article|header|footer|center|dl|dt|dd)\b[^>]*>/gi, LINE_BREAK)
+    .replace(/<[^>]*>/g, '')
+    // Adjacent block boundaries produce one break: a blank line if any of them is a paragraph
+    .replace(/[ \t]*[\u0001\u0002][\u0001\u0002\s]*/g, run => run.includes(PARAGRAPH_BREAK) ? '\n\n' : '\n');
+
+  text = decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+
+  return text.trim();
+}
+
+/**
+ * Parses `property: value` declarations.
+ */
+function parseDeclarations(block: string): CssDeclaration[] {
+  const declarations: CssDeclaration[] = [];
+  for (const part of block.split(';')) {
+    const colon = part.indexOf(':');
+    if (colon === -1) {
+      continue;
+    }
+    const property = part.slice(0, colon).trim().toLowerCase();
+    let value = part.slice(colon + 1).trim();
+    const important = /!\s*important$/i.test(value);
+    if (important) {
+      value = value.replace(/!\s*important$/i, '').trim();
+    }
+    if (property && value) {
+      declarations.push({ property, value, important });
+    }
+  }
+  return declarations;
+}
+
+/**
+ * Finds the index of the brace closing the block opened at `start`.
+ */
+function findBlockEnd(css: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < css.length; index++) {
+    if (css[index] === '{') {
+      depth++;
+    } else if (css[index] === '}' && --depth === 0) {
+      return index;
+    }
+  }
+  return css.length - 1;
+}
+
+/**
+ * Splits a stylesheet into rules that can be inlined and CSS that must stay
+ * in a `<style>` block (at-rules such as `@media`, and complex or pseudo selectors).
+ */
+function parseStylesheet(css: string, rules: CssRule[], retained: string[]): void {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf('{', index);
+    const semicolon = source.indexOf(';', index);
+
+    // Block-less at-rules, e.g. @import or @charset
+    if (source.slice(index).trimStart().startsWith('@') && semicolon !== -1 && (open === -1 || semicolon < open)) {
+      retained.push(source.slice(index, semicolon + 1).trim());
+      index = semicolon + 1;
+      continue;
+    }
+    if (open === -1) {
+      break;
+    }
+
+    const close = findBlockEnd(source, open);
+    const prelude = source.slice(index, open).trim();
+    const block = source.slice(open + 1, close);
+    index = close + 1;
+
+    if (prelude.startsWith('@')) {
+      retained.push(`${prelude}{${block}}`);
+      continue;
+    }
+
+    const declarations = parseDeclarations(block);
+    for (const selector of prelude.split(',').map(value => value.trim()).filter(Boolean)) {
+      const match = SIMPLE_SELECTOR_PATTERN.exec(selector);
+      if (!match) {
+        retained.push(`${selector}{${block.trim()}}`);
+        continue;
+      }
+
+      const parts = match[2].match(/[.#][\w-]+/g) ?? [];
+      const ids = parts.filter(part => part[0] === '#').map(part => part.slice(1));
+      const classes = parts.filter(part => part[0] === '.').map(part => part.slice(1));
+      if (ids.length > 1) {
+        continue;
+      }
+
+      rules.push({
+        tag: match[1]?.toLowerCase(),
+        classes,
+        id: ids[0],
+        specificity: ids.length * 100 + classes.length * 10 + (match[1] ? 1 : 0),
+        order: rules.length,
+        declarations
+      });
+    }
+  }
+}
+
+/**
+ * Inlines `<style>` CSS into the `style` attributes of matching elements.
+ * 
+ * Rules with tag, class and id selectors (and combinations like `td.cell`)
+ * are applied in specificity and source order. Existing `style` attributes
+ * win over stylesheet rules unless a rule is `!important`. At-rules such as
+ * `@media` and selectors that cannot be inlined (descendant, pseudo-class,
+ * attribute) are kept in a single `<style>` block so clients that support
+ * them still can.
+ * 
+ * @param html - HTML content with `<style>` blocks
+ * @returns HTML with the CSS inlined
+ * 
+ * @example
+ * ```typescript
+ * inlineCss('<style>p.note { color: red }</style><p class="note">Hi</p>');
+ * // '<p class="note" style="color: red">Hi</p>'
+ * ```
+ */
+export function inlineCss(html: string): string {
+  const rules: CssRule[] = [];
+  const retained: string[] = [];
+  let styleAttributes: string | undefined;
+
+  const withoutStyles = html.replace(/<style\b([^>]*)>([\s\S]*?)<\/style\s*>/gi, (_match, attributes: string, css: string) => {
+    parseStylesheet(css, rules, retained);
+    if (styleAttributes === undefined) {
+      styleAttributes = attributes;
+      return STYLE_PLACEHOLDER;
+    }
+    return '';
+  });
+
+  if (rules.length === 0) {
+    return html;
+  }
+
+  rules.sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+
+  const inlined = withoutStyles.replace(OPENING_TAG_PATTERN, (tag, name: string, attributes: string, selfClosing: string) => {
+    const tagName = name.toLowerCase();
+    const classes = (getAttribute(attributes, 'class') ?? '').split(/\s+/).filter(Boolean);
+    const id = getAttribute(attributes, 'id');
+    const matched = rules.filter(rule =>
+      (!rule.tag || rule.tag === tagName)
+      && (!rule.id || rule.id === id)
+      && rule.classes.every(value => classes.includes(value))
+    );
+    if (matched.length === 0) {
+      return tag;
+    }
+
+    const normal = new Map<string, string>();
+    const important = new Map<string, string>();
+    for (const rule of matched) {
+      for (const declaration of rule.declarations) {
+        (declaration.important ? important : normal).set(declaration.property, declaration.value);
+      }
+    }
+
+    const existing = parseDeclarations(decodeEntities(getAttribute(attributes, 'style') ?? ''));
+    const styles = new Map(normal);
+    for (const declaration of existing) {
+      styles.delete(declaration.property);
+      styles.set(declaration.property, declaration.important ? `${declaration.value} !important` : declaration.value);
+    }
+    for (const [property, value] of important) {
+      if (!existing.some(declaration => declaration.property === property && declaration.important)) {
+        styles.delete(property);
+        styles.set(property, value);
+      }
+    }
+
+    const style = Array.from(styles, ([property, value]) => `${property}: ${value.replace(/"/g, "'")}`).join('; ');
+    const withoutStyle = attributes.replace(/(?:^|\s+)style\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'<>]+)/i, '');
+    return `<${name}${withoutStyle} style="${style}"${selfClosing ? ' /' : ''}>`;
+  });
+
+  const styleBlock = retained.length > 0 ? `<style${styleAttributes ?? ''}>\n${retained.join('\n')}\n</style>` : '';
+  return inlined.replace(STYLE_PLACEHOLDER, styleBlock);
+}
+
+/**
+ * Preprocesses an HTML message before it is sent.
+ * 
+ * Inlines CSS, generates a text part when `text` is missing and logs a
+ * warning when the HTML is larger than `maxHtmlSize`. Messages without
+ * string `html` and messages using a `providerTemplate` are returned
+ * unchanged, so malformed messages are left for validation to reject.
+ * The original message is never modified.
+ * 
+ * @param message - Email message to preprocess
+ * @param options - `true` for the defaults, or options with individual steps turned off
+ * @param logger - Logger for the size warning
+ * @returns The preprocessed message
+ * 
+ * @example
+ * ```typescript
+ * const prepared = preprocessEmailMessage(message, { inlineCss: false }, logger);
+ * // prepared.text is generated from prepared.html
+ * ```
+ */
+export function preprocessEmailMessage(
+  message: EmailMessage,
+  options: true | EmailPreprocessOptions,
+  logger: Logger
+): EmailMessage {
+  if (!message.html || typeof message.html !== 'string' || message.providerTemplate) {
+    return message;
+  }
+
+  const { generateText = true, inlineCss: inline = true, maxHtmlSize = DEFAULT_MAX_HTML_SIZE } =
+    options === true ? {} : options;
+
+  const html = inline ? inlineCss(message.html) : message.html;
+  const text = message.text || (generateText ? htmlToText(html) : message.text);
+
+  const size = Buffer.byteLength(html, 'utf-8');
+  if (maxHtmlSize > 0 && size > maxHtmlSize) {
+    logger.warn('Basepack Email: HTML exceeds recommended size', {
+      to: message.to,
+      subject: message.subject,
+      size,
+      maxHtmlSize
+    });
+  }
+
+  return { ...message, html, text };
+}
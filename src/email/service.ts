@@ -8,6 +8,10 @@ import type {
   EmailServiceConfig, 
   EmailSendResult, 
   EmailSendConfig, 
+  EmailSendTemplateConfig,
+  EmailMessage,
+  EmailProviderTemplate,
+  EmailPreprocessOptions,
   EmailSingleProviderConfig,
   SESConfig,
   SendGridConfig,
@@ -16,7 +20,7 @@ import type {
   PostmarkConfig,
   SMTPConfig
 } from './types';
-import { EmailProvider } from './types';
+import { EmailProvider, getProviderTemplateId } from './types';
 import type { Logger } from '../logger';
 import { SESProvider } from './adapters/ses';
 import { MailgunProvider } from './adapters/mailgun';
@@ -25,8 +29,10 @@ import { ResendProvider } from './adapters/resend';
 import { PostmarkProvider } from './adapters/postmark';
 import { SMTPProvider } from './adapters/smtp';
 import { validateEmailMessage } from './validation';
-import { EmailError, EmailProviderError } from './errors';
+import { EmailError, EmailProviderError, EmailValidationError } from './errors';
 import { withRetry } from './retry';
+import { EmailTemplateRegistry } from './templates';
+import { preprocessEmailMessage } from './preprocess';
 import { consoleLogger } from '../logger';
 
 /**
@@ -107,6 +113,16 @@ export class EmailService {
   private backupProviders: IEmailProvider[];
   private logger: Logger;
 
+  /**
+   * Template registry used by `sendTemplate()`.
+   * 
+   * Register templates, layouts and partials here after creating the service,
+   * or pass them in the `templates` configuration.
+   */
+  readonly templates: EmailTemplateRegistry;
+
+  private preprocess?: boolean | EmailPreprocessOptions;
+
   /**
    * Creates a new EmailService instance.
    * 
@@ -126,6 +142,10 @@ export class EmailService {
    */
   constructor(config: EmailServiceConfig) {
     this.logger = config.logger || consoleLogger();
+    this.templates = config.templates instanceof EmailTemplateRegistry
+      ? config.templates
+      : new EmailTemplateRegistry(config.templates);
+    this.preprocess = config.preprocess;
     
     // Check if this is a multi-provider config
     if ('primary' in config) {
@@ -174,11 +194,51 @@ export class EmailService {
     }
   }
 
+  /**
+   * Returns the providers, in failover order, that can send the given messages.
+   * 
+   * Messages with a `providerTemplate` can only go through providers that declare
+   * the `providerTemplates` capability and have a template id for that provider.
+   */
+  private selectProviders(messages: EmailMessage[]): IEmailProvider[] {
+    const providers = [this.primaryProvider, ...this.backupProviders];
+    const templates = messages
+      .map(message => message.providerTemplate)
+      .filter((template): template is EmailProviderTemplate => template !== undefined);
+
+    if (templates.length === 0) {
+      return providers;
+    }
+
+    const eligible = providers.filter(provider => {
+      const supported = provider.capabilities?.providerTemplates === true
+        && templates.every(template => getProviderTemplateId(template, provider.name) !== undefined);
+      if (!supported) {
+        this.logger.debug('Basepack Email: Skipping provider without template support', { provider: provider.name });
+      }
+      return supported;
+    });
+
+    if (eligible.length === 0) {
+      this.logger.error('Basepack Email: No provider supports the provider template', {
+        providers: providers.map(provider => provider.name)
+      });
+      throw new EmailValidationError(
+        'No configured email provider supports the provider template',
+        'providerTemplate'
+      );
+    }
+
+    return eligible;
+  }
+
   /**
    * Sends an email or batch of emails using the configured providers.
    * 
    * Automatically validates email addresses and message structure before sending.
    * If the primary provider fails, automatically tries backup providers in order.
+   * Messages with a `providerTemplate` only use providers that support stored templates.
+   * When `preprocess` is enabled, validated HTML messages get a generated text part and inlined CSS.
    * Implements retry logic with exponential backoff for transient failures.
    * 
    * @param config - Email configuration with message(s) and optional settings
@@ -213,10 +273,16 @@ export class EmailService {
    *   message: myEmail,
    *   opts: { validateBeforeSend: false }
    * });
+   * 
+   * // Generate the text part and inline CSS for this message
+   * const results = await service.send({
+   *   message: { from, to, subject, html: '<style>p { color: #333 }</style><p>Hello</p>' },
+   *   opts: { preprocess: true }
+   * });
    * ```
    */
   async send(config: EmailSendConfig): Promise<EmailSendResult[]> {
-    const messages = 'message' in config && config.message 
+    let messages = 'message' in config && config.message 
       ? [config.message] 
       : config.messages || [];
     
@@ -240,7 +306,17 @@ export class EmailService {
       }
     }
 
-    const providers = [this.primaryProvider, ...this.backupProviders];
+    // Preprocess HTML (text part, inlined CSS, size warning) once it is known to be valid
+    const preprocess = config.opts?.preprocess ?? this.preprocess;
+    if (preprocess) {
+      this.logger.debug('Basepack Email: Preprocessing messages', { count: messages.length });
+      messages = messages.map(message => preprocessEmailMessage(message, preprocess, this.logger));
+      config = 'message' in config && config.message
+        ? { ...config, message: messages[0] }
+        : { ...config, messages };
+    }
+
+    const providers = this.selectProviders(messages);
     const errors: Array<{ provider: string; error: string }> = [];
     const retryOptions = {
       retries: config.opts?.retries ?? 2,
@@ -327,6 +403,61 @@ export class EmailService {
     throw new EmailProviderError(errorMessage, errors);
   }
 
+  /**
+   * Renders a registered template and sends it using the configured providers.
+   * 
+   * The template is resolved for the requested locale, falling back through
+   * parent and default locales, then rendered with its layout and partials.
+   * The resulting message goes through `send()`, so validation, retries and
+   * failover to backup providers apply as usual.
+   * 
+   * @param config - Template name, locale, variables, recipients and optional settings
+   * @returns Array containing the send result for the message
+   * @throws {EmailValidationError} If the template cannot be rendered or the message is invalid
+   * @throws {EmailProviderError} If all providers fail to send the email
+   * 
+   * @example
+   * ```typescript
+   * service.templates.registerTemplate({
+   *   name: 'welcome',
+   *   locale: 'fr',
+   *   subject: 'Bienvenue, {{name}} !',
+   *   html: '<p>Bonjour {{name}}</p>'
+   * });
+   * 
+   * const results = await service.sendTemplate({
+   *   template: 'welcome',
+   *   locale: 'fr-CA',
+   *   variables: { name: 'Marie' },
+   *   from: 'hello@example.com',
+   *   to: 'marie@example.com'
+   * });
+   * ```
+   */
+  async sendTemplate(config: EmailSendTemplateConfig): Promise<EmailSendResult[]> {
+    const { template, locale, variables, opts, from, ...message } = config;
+
+    this.logger.debug('Basepack Email: Rendering template', { template, locale });
+    let rendered;
+    try {
+      rendered = this.templates.render({ template, locale, variables });
+    } catch (error) {
+      this.logger.error('Basepack Email: Template rendering failed', { template, locale, error });
+      throw error;
+    }
+
+    return this.send({
+      message: {
+        ...message,
+        from: from ?? rendered.from ?? '',
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text
+      },
+      opts
+    });
+  }
+
   /**
    * Checks the health status of the primary and backup email providers.
    * 
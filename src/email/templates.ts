@@ -0,0 +1,388 @@
+/**
+ * Email template registry and renderer
+ * @module email/templates
+ */
+
+import type {
+  EmailTemplate,
+  EmailLayout,
+  EmailPartial,
+  EmailTemplateRegistryConfig,
+  EmailTemplateRenderConfig,
+  EmailRenderedTemplate
+} from './types';
+import { EmailValidationError } from './errors';
+
+/** Template part being rendered; subjects render as text. */
+type EmailTemplatePart = 'html' | 'text';
+
+/** Maximum depth of nested partials, to stop partials that include themselves. */
+const MAX_PARTIAL_DEPTH = 10;
+
+/** Matches `{{{raw}}}`, `{{escaped}}` and `{{> partial}}` tags. */
+const TAG_PATTERN = /\{\{\{\s*([\w.-]+)\s*\}\}\}|\{\{\s*(>\s*)?([\w.-]+)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+/**
+ * Escapes a value for safe use in HTML.
+ * 
+ * @param value - Text to escape
+ * @returns Text with `&`, `<`, `>`, `"` and `'` replaced by entities
+ * 
+ * @example
+ * ```typescript
+ * escapeHtml('<b>Tom & Jerry</b>'); // '&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;'
+ * ```
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Normalizes a locale for lookups, e.g. 'pt_BR' becomes 'pt-br'.
+ */
+function normalizeLocale(locale: string): string {
+  return locale.trim().replace(/_/g, '-').toLowerCase();
+}
+
+/**
+ * Checks that a template, layout or partial has a name and the right part types.
+ */
+function validateEntry(kind: string, entry: { name: string; locale?: string; html?: string; text?: string }): void {
+  if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) {
+    throw new EmailValidationError(`Email ${kind} name is required`, 'name');
+  }
+  if (entry.locale !== undefined && (typeof entry.locale !== 'string' || !entry.locale.trim())) {
+    throw new EmailValidationError(`Email ${kind} "${entry.name}" has an invalid locale`, 'locale');
+  }
+  for (const part of ['html', 'text'] as const) {
+    if (entry[part] !== undefined && typeof entry[part] !== 'string') {
+      throw new EmailValidationError(`Email ${kind} "${entry.name}" ${part} must be a string`, part);
+    }
+  }
+}
+
+/**
+ * Registry of named email templates, layouts and partials.
+ * 
+ * Templates are rendered with a small Mustache-style syntax:
+ * - `{{name}}` inserts a variable, HTML-escaped in html parts
+ * - `{{{name}}}` inserts a variable without escaping
+ * - `{{> name}}` includes a partial
+ * - `{{user.name}}` reads nested values
+ * 
+ * Each entry may have variants per locale. A locale is resolved through a
+ * fallback chain: the locale itself, any configured `localeFallbacks`, its
+ * parent locales ('fr-CA' → 'fr') and finally the default locale. Layouts
+ * and partials are resolved with the same chain as the template.
+ * 
+ * @example
+ * ```typescript
+ * const templates = new EmailTemplateRegistry({ defaultLocale: 'en' });
+ * 
+ * templates.registerLayout({
+ *   name: 'default',
+ *   html: '<html><body>{{{body}}}</body></html>'
+ * });
+ * templates.registerTemplate({
+ *   name: 'welcome',
+ *   layout: 'default',
+ *   subject: 'Welcome, {{name}}!',
+ *   html: '<p>Hello {{name}}</p>'
+ * });
+ * templates.registerTemplate({
+ *   name: 'welcome',
+ *   locale: 'fr',
+ *   layout: 'default',
+ *   subject: 'Bienvenue, {{name}} !',
+ *   html: '<p>Bonjour {{name}}</p>'
+ * });
+ * 
+ * const rendered = templates.render({ template: 'welcome', locale: 'fr-CA', variables: { name: 'Marie' } });
+ * // rendered.locale === 'fr', rendered.subject === 'Bienvenue, Marie !'
+ * ```
+ */
+export class EmailTemplateRegistry {
+  private readonly defaultLocale: string;
+  private readonly localeFallbacks: Record<string, string[]>;
+  private readonly strict: boolean;
+  private readonly templates = new Map<string, Map<string, EmailTemplate>>();
+  private readonly layouts = new Map<string, Map<string, EmailLayout>>();
+  private readonly partials = new Map<string, Map<string, EmailPartial>>();
+
+  /**
+   * Creates a new EmailTemplateRegistry instance.
+   * 
+   * @param config - Registry configuration with optional initial entries
+   * @throws {EmailValidationError} If the configuration or an entry is invalid
+   */
+  constructor(config: EmailTemplateRegistryConfig = {}) {
+    const defaultLocale = config.defaultLocale ?? 'en';
+    if (typeof defaultLocale !== 'string' || !defaultLocale.trim()) {
+      throw new EmailValidationError('Default locale must be a non-empty string', 'defaultLocale');
+    }
+
+    this.defaultLocale = defaultLocale;
+    this.strict = config.strict ?? false;
+    this.localeFallbacks = {};
+    for (const [locale, fallbacks] of Object.entries(config.localeFallbacks ?? {})) {
+      if (!Array.isArray(fallbacks)) {
+        throw new EmailValidationError(`Locale fallbacks for "${locale}" must be an array`, 'localeFallbacks');
+      }
+      this.localeFallbacks[normalizeLocale(locale)] = fallbacks.map(normalizeLocale);
+    }
+
+    config.templates?.forEach(template => this.registerTemplate(template));
+    config.layouts?.forEach(layout => this.registerLayout(layout));
+    config.partials?.forEach(partial => this.registerPartial(partial));
+  }
+
+  /**
+   * Registers a template, replacing any existing variant with the same name and locale.
+   * 
+   * @param template - Template to register
+   * @returns The registry, for chaining
+   * @throws {EmailValidationError} If the template is invalid
+   */
+  registerTemplate(template: EmailTemplate): this {
+    validateEntry('template', template);
+    if (typeof template.subject !== 'string' || !template.subject) {
+      throw new EmailValidationError(`Email template "${template.name}" subject is required`, 'subject');
+    }
+    if (!template.html && !template.text) {
+      throw new EmailValidationError(
+        `Email template "${template.name}" must have text or html content`,
+        'text/html'
+      );
+    }
+
+    this.add(this.templates, template);
+    return this;
+  }
+
+  /**
+   * Registers a layout, replacing any existing variant with the same name and locale.
+   * 
+   * @param layout - Layout to register
+   * @returns The registry, for chaining
+   * @throws {EmailValidationError} If the layout is invalid
+   */
+  registerLayout(layout: EmailLayout): this {
+    validateEntry('layout', layout);
+    this.add(this.layouts, layout);
+    return this;
+  }
+
+  /**
+   * Registers a partial, replacing any existing variant with the same name and locale.
+   * 
+   * @param partial - Partial to register
+   * @returns The registry, for chaining
+   * @throws {EmailValidationError} If the partial is invalid
+   */
+  registerPartial(partial: EmailPartial): this {
+    validateEntry('partial', partial);
+    this.add(this.partials, partial);
+    return this;
+  }
+
+  /**
+   * Checks whether a template is registered.
+   * 
+   * @param name - Template name
+   * @param locale - Optional locale; checks its whole fallback chain when given
+   * @returns `true` if a matching template variant exists
+   */
+  hasTemplate(name: string, locale?: string): boolean {
+    if (locale === undefined) {
+      return this.templates.has(name);
+    }
+    return this.find(this.templates, name, this.localeChain(locale)) !== undefined;
+  }
+
+  /**
+   * Returns the locales tried, in order, when resolving the given locale.
+   * 
+   * @param locale - Preferred locale (default: the default locale)
+   * @returns Normalized locales, e.g. `['fr-ca', 'fr', 'en']`
+   */
+  localeChain(locale?: string): string[] {
+    const chain: string[] = [];
+    const visit = (value: string) => {
+      let current = normalizeLocale(value);
+      while (current && !chain.includes(current)) {
+        chain.push(current);
+        (this.localeFallbacks[current] ?? []).forEach(visit);
+        current = current.includes('-') ? current.slice(0, current.lastIndexOf('-')) : '';
+      }
+    };
+
+    if (locale) {
+      visit(locale);
+    }
+    visit(this.defaultLocale);
+    return chain;
+  }
+
+  /**
+   * Renders a template with its layout and partials.
+   * 
+   * @param config - Template name, locale and variables
+   * @returns Rendered subject and body parts
+   * @throws {EmailValidationError} If the template, its layout or a partial is not found,
+   * or a variable is missing in strict mode
+   * 
+   * @example
+   * ```typescript
+   * const { subject, html, text } = templates.render({
+   *   template: 'password-reset',
+   *   locale: 'de',
+   *   variables: { link: 'https://example.com/reset?token=abc' }
+   * });
+   * ```
+   */
+  render(config: EmailTemplateRenderConfig): EmailRenderedTemplate {
+    const chain = this.localeChain(config.locale);
+    const template = this.find(this.templates, config.template, chain);
+    if (!template) {
+      throw new EmailValidationError(
+        `Email template "${config.template}" not found for locale "${config.locale ?? this.defaultLocale}"`,
+        'template'
+      );
+    }
+
+    let layout: EmailLayout | undefined;
+    if (template.layout) {
+      layout = this.find(this.layouts, template.layout, chain);
+      if (!layout) {
+        throw new EmailValidationError(
+          `Email layout "${template.layout}" not found for template "${template.name}"`,
+          'layout'
+        );
+      }
+    }
+
+    const variables = config.variables ?? {};
+    const renderPart = (part: EmailTemplatePart): string | undefined => {
+      const source = template[part];
+      if (source === undefined) {
+        return undefined;
+      }
+      const body = this.renderString(source, variables, part, chain, 0);
+      const wrapper = layout?.[part];
+      return wrapper === undefined
+        ? body
+        : this.renderString(wrapper, { ...variables, body }, part, chain, 0);
+    };
+
+    return {
+      template: template.name,
+      locale: template.locale ?? this.defaultLocale,
+      from: template.from,
+      subject: this.renderString(template.subject, variables, 'text', chain, 0),
+      html: renderPart('html'),
+      text: renderPart('text')
+    };
+  }
+
+  /**
+   * Stores an entry under its name and normalized locale.
+   */
+  private add<T extends { name: string; locale?: string }>(entries: Map<string, Map<string, T>>, entry: T): void {
+    const variants = entries.get(entry.name) ?? new Map<string, T>();
+    variants.set(normalizeLocale(entry.locale ?? this.defaultLocale), entry);
+    entries.set(entry.name, variants);
+  }
+
+  /**
+   * Finds the first variant of an entry along a locale chain.
+   */
+  private find<T>(entries: Map<string, Map<string, T>>, name: string, chain: string[]): T | undefined {
+    const variants = entries.get(name);
+    if (!variants) {
+      return undefined;
+    }
+    for (const locale of chain) {
+      const variant = variants.get(locale);
+      if (variant) {
+        return variant;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Replaces the tags in a template string.
+   */
+  private renderString(
+    source: string,
+    variables: Record<string, any>,
+    part: EmailTemplatePart,
+    chain: string[],
+    depth: number
+  ): string {
+    return source.replace(TAG_PATTERN, (_match, raw?: string, partialMarker?: string, name?: string) => {
+      if (raw !== undefined) {
+        return this.lookup(variables, raw);
+      }
+
+      if (partialMarker !== undefined) {
+        return this.renderPartial(name!, variables, part, chain, depth);
+      }
+
+      const value = this.lookup(variables, name!);
+      return part === 'html' ? escapeHtml(value) : value;
+    });
+  }
+
+  /**
+   * Renders a partial for the given part.
+   */
+  private renderPartial(
+    name: string,
+    variables: Record<string, any>,
+    part: EmailTemplatePart,
+    chain: string[],
+    depth: number
+  ): string {
+    if (depth >= MAX_PARTIAL_DEPTH) {
+      throw new EmailValidationError(
+        `Email partial "${name}" exceeds the maximum nesting depth of ${MAX_PARTIAL_DEPTH}`,
+        'partial'
+      );
+    }
+
+    const partial = this.find(this.partials, name, chain);
+    if (!partial) {
+      throw new EmailValidationError(`Email partial "${name}" not found`, 'partial');
+    }
+
+    const source = partial[part];
+    return source === undefined ? '' : this.renderString(source, variables, part, chain, depth + 1);
+  }
+
+  /**
+   * Reads a variable by dot path and formats it as text.
+   */
+  private lookup(variables: Record<string, any>, path: string): string {
+    let value: any = variables;
+    for (const segment of path.split('.')) {
+      value = value !== null && value !== undefined ? value[segment] : undefined;
+    }
+
+    if (value === undefined || value === null || typeof value === 'function') {
+      if (this.strict) {
+        throw new EmailValidationError(`Email template variable "${path}" is missing`, 'variables');
+      }
+      return '';
+    }
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+}
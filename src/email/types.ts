@@ -4,6 +4,7 @@
  */
 
 import type { Logger } from '../logger/types';
+import type { EmailTemplateRegistry } from './templates';
 
 /**
  * Optional configuration for email sending operations.
@@ -23,6 +24,33 @@ export interface EmailBaseOptions {
   metadata?: Record<string, any>;
   /** Whether to validate email addresses before sending (default: true) */
   validateBeforeSend?: boolean;
+  /** Preprocess HTML messages before sending; overrides the service's `preprocess` setting */
+  preprocess?: boolean | EmailPreprocessOptions;
+}
+
+/**
+ * Options for preprocessing HTML messages before they are sent.
+ * 
+ * Passing an options object enables preprocessing; each step defaults to on
+ * and can be turned off individually. Messages without `html` and messages
+ * using a `providerTemplate` are left unchanged.
+ * 
+ * @example
+ * ```typescript
+ * const options: EmailPreprocessOptions = {
+ *   generateText: true,
+ *   inlineCss: false,
+ *   maxHtmlSize: 80 * 1024
+ * };
+ * ```
+ */
+export interface EmailPreprocessOptions {
+  /** Derive a plain text part from `html` when `text` is missing (default: true) */
+  generateText?: boolean;
+  /** Inline `<style>` rules into `style` attributes (default: true) */
+  inlineCss?: boolean;
+  /** Log a warning when the HTML exceeds this many bytes; 0 disables the check (default: 102400, where Gmail clips messages) */
+  maxHtmlSize?: number;
 }
 
 /**
@@ -65,6 +93,21 @@ export interface EmailHealthInfo {
  *   html: '<p>Hello World</p>',
  *   text: 'Hello World'
  * };
+ * 
+ * // With reply-to, headers, tags and tracking
+ * const message: EmailMessage = {
+ *   from: 'billing@example.com',
+ *   to: 'customer@example.com',
+ *   replyTo: 'support@example.com',
+ *   subject: 'Your invoice',
+ *   html: '<p>Your invoice is ready.</p>',
+ *   headers: {
+ *     'List-Unsubscribe': '<https://example.com/unsubscribe?id=123>',
+ *     'X-Entity-Ref-ID': 'invoice-123'
+ *   },
+ *   tags: ['billing', 'invoice'],
+ *   tracking: { opens: true, clicks: false }
+ * };
  * ```
  */
 export interface EmailMessage {
@@ -76,14 +119,90 @@ export interface EmailMessage {
   cc?: string | string[];
   /** BCC (blind carbon copy) recipient(s) */
   bcc?: string | string[];
-  /** Email subject line */
-  subject: string;
-  /** Plain text content (at least one of text or html is required) */
+  /** Email subject line (optional when `providerTemplate` is set) */
+  subject?: string;
+  /** Plain text content (at least one of text, html or providerTemplate is required) */
   text?: string;
-  /** HTML content (at least one of text or html is required) */
+  /** HTML content (at least one of text, html or providerTemplate is required) */
   html?: string;
   /** File attachments */
   attachments?: EmailAttachment[];
+  /** Template stored with the provider, rendered by the provider instead of `text`/`html` */
+  providerTemplate?: EmailProviderTemplate;
+  /** Reply-To address(es) */
+  replyTo?: string | string[];
+  /** Custom headers, e.g. `List-Unsubscribe` or `X-Entity-Ref-ID` */
+  headers?: Record<string, string>;
+  /** Tags (categories) for filtering and analytics in the provider's dashboard */
+  tags?: string[];
+  /** Open and click tracking, for providers that support it per message */
+  tracking?: EmailTracking;
+}
+
+/**
+ * Per-message open and click tracking settings.
+ * 
+ * Applied by SendGrid, Mailgun and Postmark. SES and Resend configure
+ * tracking per configuration set or domain, and SMTP has no tracking.
+ * Unset fields keep the provider's account default.
+ * 
+ * @example
+ * ```typescript
+ * const tracking: EmailTracking = { opens: true, clicks: false };
+ * ```
+ */
+export interface EmailTracking {
+  /** Track when the message is opened */
+  opens?: boolean;
+  /** Rewrite links to track clicks */
+  clicks?: boolean;
+}
+
+/**
+ * Reference to a template stored with the email provider.
+ * 
+ * Mapped to each provider's native template API:
+ * - SES: `SendTemplatedEmail` with `Template` and `TemplateData`
+ * - SendGrid: dynamic template `template_id` and `dynamic_template_data`
+ * - Postmark: `/email/withTemplate` with `TemplateId` (numeric ids) or `TemplateAlias`, and `TemplateModel`
+ * - Mailgun: `template` and `t:variables`
+ * - Resend: `template.id` and `template.variables`
+ * 
+ * Template ids usually differ between providers, so `id` can map each
+ * provider to its own id. Failover then only uses backups that support
+ * provider templates and have an id.
+ * 
+ * @example
+ * ```typescript
+ * // Same id on every provider
+ * const template: EmailProviderTemplate = {
+ *   id: 'welcome',
+ *   data: { name: 'Ann' }
+ * };
+ * 
+ * // Different ids per provider
+ * const template: EmailProviderTemplate = {
+ *   id: {
+ *     [EmailProvider.SENDGRID]: 'd-2f1c3e5a7b9d4c6e8f0a1b2c3d4e5f60',
+ *     [EmailProvider.POSTMARK]: 'welcome-v2'
+ *   },
+ *   data: { name: 'Ann' }
+ * };
+ * ```
+ */
+export interface EmailProviderTemplate {
+  /** Template id or alias, or a map of provider to template id */
+  id: string | Partial<Record<EmailProvider, string>>;
+  /** Template data (model/variables) passed to the provider */
+  data?: Record<string, any>;
+}
+
+/**
+ * Optional features an email provider supports.
+ */
+export interface EmailProviderCapabilities {
+  /** Whether the provider can send `providerTemplate` messages */
+  providerTemplates?: boolean;
 }
 
 /**
@@ -96,6 +215,14 @@ export interface EmailMessage {
  *   content: fs.readFileSync('document.pdf'),
  *   contentType: 'application/pdf'
  * };
+ * 
+ * // Inline image, referenced in the HTML as <img src="cid:logo">
+ * const logo: EmailAttachment = {
+ *   filename: 'logo.png',
+ *   content: fs.readFileSync('logo.png'),
+ *   contentType: 'image/png',
+ *   cid: 'logo'
+ * };
  * ```
  */
 export interface EmailAttachment {
@@ -107,6 +234,184 @@ export interface EmailAttachment {
   contentType?: string;
   /** Encoding of string content (e.g., 'base64', 'utf-8') */
   encoding?: string;
+  /** Content-ID referenced from the HTML as `cid:<cid>` (without angle brackets) */
+  cid?: string;
+  /** Content disposition (defaults to `inline` when `cid` is set, otherwise `attachment`; `inline` requires `cid`) */
+  disposition?: EmailAttachmentDisposition;
+}
+
+/**
+ * How an attachment is presented: as a downloadable file or inline in the body.
+ */
+export type EmailAttachmentDisposition = 'attachment' | 'inline';
+
+/**
+ * A named email template with subject, HTML and text parts.
+ * 
+ * Parts use `{{variable}}` placeholders (HTML-escaped in the html part),
+ * `{{{variable}}}` for raw output and `{{> partial}}` to include a partial.
+ * Nested values are read with dot paths, e.g. `{{user.name}}`.
+ * 
+ * @example
+ * ```typescript
+ * const template: EmailTemplate = {
+ *   name: 'welcome',
+ *   locale: 'fr',
+ *   layout: 'default',
+ *   subject: 'Bienvenue, {{name}} !',
+ *   html: '<p>Bonjour {{name}},</p>{{> signature}}',
+ *   text: 'Bonjour {{name}},'
+ * };
+ * ```
+ */
+export interface EmailTemplate {
+  /** Template name used to look it up when sending */
+  name: string;
+  /** Locale of this variant, e.g. 'en', 'fr-CA' (default: the registry's default locale) */
+  locale?: string;
+  /** Name of the layout to wrap the html and text parts in */
+  layout?: string;
+  /** Default sender address for messages using this template */
+  from?: string;
+  /** Subject line template */
+  subject: string;
+  /** HTML body template (at least one of text or html is required) */
+  html?: string;
+  /** Plain text body template (at least one of text or html is required) */
+  text?: string;
+}
+
+/**
+ * Shared layout wrapping the body of templates.
+ * 
+ * The rendered template part is inserted where the layout contains `{{{body}}}`.
+ * Layouts can use the same variables and partials as the template.
+ * 
+ * @example
+ * ```typescript
+ * const layout: EmailLayout = {
+ *   name: 'default',
+ *   html: '<html><body>{{{body}}}<footer>{{> footer}}</footer></body></html>',
+ *   text: '{{{body}}}\n\n-- \nThe Acme Team'
+ * };
+ * ```
+ */
+export interface EmailLayout {
+  /** Layout name referenced by templates */
+  name: string;
+  /** Locale of this variant (default: the registry's default locale) */
+  locale?: string;
+  /** HTML layout; html parts are not wrapped when omitted */
+  html?: string;
+  /** Plain text layout; text parts are not wrapped when omitted */
+  text?: string;
+}
+
+/**
+ * Reusable snippet included in templates and layouts with `{{> name}}`.
+ * 
+ * @example
+ * ```typescript
+ * const partial: EmailPartial = {
+ *   name: 'signature',
+ *   html: '<p>Thanks,<br>{{team}}</p>',
+ *   text: 'Thanks,\n{{team}}'
+ * };
+ * ```
+ */
+export interface EmailPartial {
+  /** Partial name used in `{{> name}}` */
+  name: string;
+  /** Locale of this variant (default: the registry's default locale) */
+  locale?: string;
+  /** Content included in html parts */
+  html?: string;
+  /** Content included in text parts and subjects */
+  text?: string;
+}
+
+/**
+ * Configuration for an email template registry.
+ * 
+ * @example
+ * ```typescript
+ * const config: EmailTemplateRegistryConfig = {
+ *   defaultLocale: 'en',
+ *   localeFallbacks: { 'pt-BR': ['pt-PT'] },
+ *   templates: [welcomeEn, welcomeFr],
+ *   layouts: [defaultLayout],
+ *   partials: [signature]
+ * };
+ * ```
+ */
+export interface EmailTemplateRegistryConfig {
+  /** Locale used for entries without one and tried last when resolving (default: 'en') */
+  defaultLocale?: string;
+  /** Extra locales to try after a locale, before its parent locale (e.g. 'pt-BR' → 'pt-PT' → 'pt') */
+  localeFallbacks?: Record<string, string[]>;
+  /** Throw on variables that are missing instead of rendering them as empty (default: false) */
+  strict?: boolean;
+  /** Templates to register */
+  templates?: EmailTemplate[];
+  /** Layouts to register */
+  layouts?: EmailLayout[];
+  /** Partials to register */
+  partials?: EmailPartial[];
+}
+
+/**
+ * Configuration for rendering a template.
+ */
+export interface EmailTemplateRenderConfig {
+  /** Name of the template to render */
+  template: string;
+  /** Preferred locale; falls back through parent and default locales (default: the registry's default locale) */
+  locale?: string;
+  /** Values for the template placeholders */
+  variables?: Record<string, any>;
+}
+
+/**
+ * Result of rendering a template.
+ */
+export interface EmailRenderedTemplate {
+  /** Name of the rendered template */
+  template: string;
+  /** Locale of the template variant that was used */
+  locale: string;
+  /** Default sender address from the template */
+  from?: string;
+  /** Rendered subject line */
+  subject: string;
+  /** Rendered HTML body */
+  html?: string;
+  /** Rendered plain text body */
+  text?: string;
+}
+
+/**
+ * Configuration for sending a templated email.
+ * 
+ * Accepts the same recipients and attachments as `EmailMessage`; the subject
+ * and body come from the rendered template.
+ * 
+ * @example
+ * ```typescript
+ * const config: EmailSendTemplateConfig = {
+ *   template: 'welcome',
+ *   locale: 'fr-CA',
+ *   variables: { name: 'Marie' },
+ *   from: 'hello@example.com',
+ *   to: 'marie@example.com'
+ * };
+ * ```
+ */
+export interface EmailSendTemplateConfig
+  extends EmailTemplateRenderConfig, Omit<EmailMessage, 'from' | 'subject' | 'text' | 'html' | 'providerTemplate'> {
+  /** Sender email address (default: the template's `from`) */
+  from?: string;
+  /** Optional send settings */
+  opts?: EmailBaseOptions;
 }
 
 /**
@@ -179,6 +484,9 @@ export function isEmailBatchMessageConfig(
 export interface IEmailProvider {
   /** Unique name of the email provider */
   readonly name: EmailProvider;
+
+  /** Optional features the provider supports; used to pick failover providers */
+  readonly capabilities?: EmailProviderCapabilities;
   
   /**
    * Sends an email or batch of emails.
@@ -194,6 +502,61 @@ export interface IEmailProvider {
   health?(): Promise<EmailHealthInfo>;
 }
 
+/**
+ * Resolves the template id to use with a provider.
+ * 
+ * @param template - Provider template reference
+ * @param provider - Provider that will send the message
+ * @returns The template id, or `undefined` if the map has no id for the provider
+ * 
+ * @example
+ * ```typescript
+ * getProviderTemplateId({ id: 'welcome' }, EmailProvider.SES); // 'welcome'
+ * getProviderTemplateId({ id: { [EmailProvider.SES]: 'welcome' } }, EmailProvider.POSTMARK); // undefined
+ * ```
+ */
+export function getProviderTemplateId(
+  template: EmailProviderTemplate,
+  provider: EmailProvider
+): string | undefined {
+  return typeof template.id === 'string' ? template.id : template.id[provider];
+}
+
+/**
+ * Converts a tag to a tag name accepted by SES and Resend.
+ * 
+ * Both only accept ASCII letters, digits, `_` and `-` in names of at most
+ * 256 characters, so other characters become `_` and longer tags are cut.
+ * 
+ * @param tag - Message tag
+ * @returns Tag name safe to send to SES or Resend
+ * 
+ * @example
+ * ```typescript
+ * toTagName('order-confirmation'); // 'order-confirmation'
+ * toTagName('Black Friday 2024!'); // 'Black_Friday_2024_'
+ * ```
+ */
+export function toTagName(tag: string): string {
+  return tag.replace(/[^A-Za-z0-9_-]/g, '_').slice(0, 256);
+}
+
+/**
+ * Checks whether an attachment is sent inline.
+ * 
+ * @param attachment - Email attachment
+ * @returns True if the disposition is `inline`, or unset with a `cid`
+ * 
+ * @example
+ * ```typescript
+ * isInlineAttachment({ filename: 'logo.png', content: buffer, cid: 'logo' }); // true
+ * isInlineAttachment({ filename: 'invoice.pdf', content: buffer }); // false
+ * ```
+ */
+export function isInlineAttachment(attachment: EmailAttachment): boolean {
+  return (attachment.disposition ?? (attachment.cid ? 'inline' : 'attachment')) === 'inline';
+}
+
 /**
  * Email provider enum
  * 
@@ -375,10 +738,26 @@ export type EmailSingleProviderConfig =
  *   config: { region: 'us-east-1' },
  *   logger: console
  * };
+ * 
+ * // With templates
+ * const config: EmailServiceConfig = {
+ *   provider: EmailProvider.SES,
+ *   templates: { defaultLocale: 'en', templates: [welcomeEn, welcomeFr] }
+ * };
+ * 
+ * // With HTML preprocessing
+ * const config: EmailServiceConfig = {
+ *   provider: EmailProvider.SES,
+ *   preprocess: { generateText: true, inlineCss: true }
+ * };
  * ```
  */
 export type EmailServiceConfig = 
-  | (EmailSingleProviderConfig & { logger?: Logger })
+  | (EmailSingleProviderConfig & {
+      logger?: Logger;
+      templates?: EmailTemplateRegistry | EmailTemplateRegistryConfig;
+      preprocess?: boolean | EmailPreprocessOptions;
+    })
   | {
       /** Primary email provider to use first */
       primary: EmailSingleProviderConfig;
@@ -386,4 +765,8 @@ export type EmailServiceConfig =
       backups?: EmailSingleProviderConfig[];
       /** Optional logger for debugging and monitoring */
       logger?: Logger;
+      /** Optional template registry, or configuration for a new one */
+      templates?: EmailTemplateRegistry | EmailTemplateRegistryConfig;
+      /** Preprocess HTML messages (generate text, inline CSS, warn on size) before sending (default: false) */
+      preprocess?: boolean | EmailPreprocessOptions;
     };
@@ -1,4 +1,4 @@
-import { EmailMessage } from './types';
+import { EmailMessage, EmailProviderTemplate } from './types';
 import { EmailValidationError } from './errors';
 
 /**
@@ -84,6 +84,106 @@ export function validateEmails(emails: string | string[], fieldName: string): vo
   }
 }
 
+/**
+ * Header field names: printable ASCII except space and colon (RFC 5322).
+ */
+const HEADER_NAME_REGEX = /^[!-9;-~]+$/;
+
+/**
+ * Content ids: no whitespace, control characters or angle brackets (they are added when sending).
+ */
+const CID_REGEX = /^[^\s<>\x00-\x1f\x7f]+$/;
+
+/**
+ * Headers set from message fields, which cannot be overridden with `headers`.
+ */
+const RESERVED_HEADERS = [
+  'from',
+  'to',
+  'cc',
+  'bcc',
+  'subject',
+  'reply-to',
+  'content-type',
+  'content-transfer-encoding',
+  'mime-version',
+];
+
+/**
+ * Validates custom email headers.
+ * 
+ * Rejects header injection: names must be valid header field names and
+ * values must not contain line breaks. Headers set from message fields
+ * (From, To, Subject, Reply-To, etc.) cannot be overridden.
+ * 
+ * @param headers - Header names and values to validate
+ * @throws {EmailValidationError} If a header name or value is invalid
+ * 
+ * @example
+ * ```typescript
+ * validateEmailHeaders({ 'X-Entity-Ref-ID': 'invoice-123' }); // OK
+ * validateEmailHeaders({ 'X-Ref': 'a\r\nBcc: victim@example.com' }); // throws EmailValidationError
+ * ```
+ */
+export function validateEmailHeaders(headers: Record<string, string>): void {
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+    throw new EmailValidationError('Headers must be an object', 'headers');
+  }
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (!HEADER_NAME_REGEX.test(name)) {
+      throw new EmailValidationError(`Header name "${name}" is invalid`, 'headers');
+    }
+
+    if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+      throw new EmailValidationError(
+        `Header "${name}" is set from the message and cannot be overridden`,
+        `headers.${name}`
+      );
+    }
+
+    if (typeof value !== 'string') {
+      throw new EmailValidationError(`Header "${name}" must be a string`, `headers.${name}`);
+    }
+
+    if (/[\r\n\0]/.test(value)) {
+      throw new EmailValidationError(`Header "${name}" must not contain line breaks`, `headers.${name}`);
+    }
+  }
+}
+
+/**
+ * Validates a provider template reference.
+ * 
+ * @param template - Provider template to validate
+ * @throws {EmailValidationError} If the id is missing or empty, or the data is not an object
+ * 
+ * @example
+ * ```typescript
+ * validateProviderTemplate({ id: 'welcome', data: { name: 'Ann' } }); // OK
+ * validateProviderTemplate({ id: '' }); // throws EmailValidationError
+ * ```
+ */
+export function validateProviderTemplate(template: EmailProviderTemplate): void {
+  if (!template || typeof template !== 'object') {
+    throw new EmailValidationError('Provider template must be an object', 'providerTemplate');
+  }
+
+  const ids = typeof template.id === 'string'
+    ? [template.id]
+    : Object.values(template.id && typeof template.id === 'object' ? template.id : {});
+  if (ids.length === 0 || ids.some(id => typeof id !== 'string' || !id.trim())) {
+    throw new EmailValidationError(
+      'Provider template id must be a non-empty string or a map of provider to id',
+      'providerTemplate.id'
+    );
+  }
+
+  if (template.data !== undefined && (template.data === null || typeof template.data !== 'object' || Array.isArray(template.data))) {
+    throw new EmailValidationError('Provider template data must be an object', 'providerTemplate.data');
+  }
+}
+
 /**
  * Validates an EmailMessage object.
  * 
@@ -91,7 +191,11 @@ export function validateEmails(emails: string | string[], fieldName: string): vo
  * - Required fields (from, to, subject)
  * - Email address formats
  * - At least one of text or html content
+ * - Provider template id and data (subject and content are then optional)
+ * - Reply-To addresses, custom headers (no header injection), tags and tracking settings
  * - Attachment structure and size limits (10MB per file)
+ * - Unique attachment cids, with a matching attachment for every `cid:` reference in the HTML
+ *   and a cid on every inline attachment
  * 
  * @param message - Email message to validate
  * @throws {EmailValidationError} If any validation check fails
@@ -123,20 +227,37 @@ export function validateEmailMessage(message: EmailMessage): void {
   }
   validateEmails(message.to, 'to');
 
-  if (!message.subject) {
-    throw new EmailValidationError('Subject is required', 'subject');
+  // Provider templates carry their own subject and content
+  if (message.providerTemplate !== undefined) {
+    validateProviderTemplate(message.providerTemplate);
+  } else {
+    if (!message.subject) {
+      throw new EmailValidationError('Subject is required', 'subject');
+    }
+
+    // Validate that at least one content type is provided
+    if (!message.text && !message.html) {
+      throw new EmailValidationError(
+        'At least one of text or html content must be provided',
+        'text/html'
+      );
+    }
   }
 
-  if (typeof message.subject !== 'string') {
+  if (message.subject !== undefined && typeof message.subject !== 'string') {
     throw new EmailValidationError('Subject must be a string', 'subject');
   }
 
-  // Validate that at least one content type is provided
-  if (!message.text && !message.html) {
-    throw new EmailValidationError(
-      'At least one of text or html content must be provided',
-      'text/html'
-    );
+  if (message.subject && /[\r\n]/.test(message.subject)) {
+    throw new EmailValidationError('Subject must not contain line breaks', 'subject');
+  }
+
+  if (message.text !== undefined && typeof message.text !== 'string') {
+    throw new EmailValidationError('Text must be a string', 'text');
+  }
+
+  if (message.html !== undefined && typeof message.html !== 'string') {
+    throw new EmailValidationError('HTML must be a string', 'html');
   }
 
   // Validate optional fields
@@ -148,7 +269,40 @@ export function validateEmailMessage(message: EmailMessage): void {
     validateEmails(message.bcc, 'bcc');
   }
 
+  if (message.replyTo) {
+    validateEmails(message.replyTo, 'replyTo');
+  }
+
+  if (message.headers !== undefined) {
+    validateEmailHeaders(message.headers);
+  }
+
+  if (message.tags !== undefined) {
+    if (!Array.isArray(message.tags)) {
+      throw new EmailValidationError('Tags must be an array', 'tags');
+    }
+
+    for (const tag of message.tags) {
+      if (typeof tag !== 'string' || !tag.trim() || /[\x00-\x1f\x7f]/.test(tag)) {
+        throw new EmailValidationError('Tags must be non-empty strings without control characters', 'tags');
+      }
+    }
+  }
+
+  if (message.tracking !== undefined) {
+    if (!message.tracking || typeof message.tracking !== 'object') {
+      throw new EmailValidationError('Tracking must be an object', 'tracking');
+    }
+
+    for (const key of ['opens', 'clicks'] as const) {
+      if (message.tracking[key] !== undefined && typeof message.tracking[key] !== 'boolean') {
+        throw new EmailValidationError(`Tracking ${key} must be a boolean`, `tracking.${key}`);
+      }
+    }
+  }
+
   // Validate attachments
+  const cids = new Set<string>();
   if (message.attachments) {
     if (!Array.isArray(message.attachments)) {
       throw new EmailValidationError('Attachments must be an array', 'attachments');
@@ -189,7 +343,63 @@ export function validateEmailMessage(message: EmailMessage): void {
           'attachments'
         );
       }
+
+      if (attachment.cid !== undefined) {
+        if (typeof attachment.cid !== 'string' || !CID_REGEX.test(attachment.cid)) {
+          throw new EmailValidationError(
+            `Attachment "${attachment.filename}" cid must be a non-empty string without spaces or angle brackets`,
+            'attachments'
+          );
+        }
+
+        if (cids.has(attachment.cid)) {
+          throw new EmailValidationError(
+            `Attachment cid "${attachment.cid}" is used more than once`,
+            'attachments'
+          );
+        }
+        cids.add(attachment.cid);
+      }
+
+      if (attachment.disposition !== undefined && !['attachment', 'inline'].includes(attachment.disposition)) {
+        throw new EmailValidationError(
+          `Attachment "${attachment.filename}" disposition must be "attachment" or "inline"`,
+          'attachments'
+        );
+      }
+
+      if (attachment.disposition === 'inline' && attachment.cid === undefined) {
+        throw new EmailValidationError(
+          `Attachment "${attachment.filename}" is inline and needs a cid`,
+          'attachments'
+        );
+      }
     }
   }
+
+  // Every cid: reference in the HTML needs an attachment to resolve to
+  if (typeof message.html === 'string') {
+    for (const cid of findCidReferences(message.html)) {
+      if (!cids.has(cid)) {
+        throw new EmailValidationError(
+          `HTML references "cid:${cid}" but no attachment has that cid`,
+          'html'
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Finds the content ids referenced by `cid:` URLs in HTML attributes and CSS `url()` values.
+ */
+function findCidReferences(html: string): string[] {
+  const references: string[] = [];
+  const pattern = /(?:\b(?:src|href|background)\s*=\s*["']?|url\(\s*["']?)cid:([^"'\s>)]+)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    references.push(match[1]);
+  }
+  return references;
 }
 
@@ -9,6 +9,9 @@
 
 import { MemcachedProvider } from '../../../../src/cache/adapters/memcached';
 import { CacheProvider } from '../../../../src/cache/types';
+import { MessagePackSerializer } from '../../../../src/cache/serializers';
+import { SizeLimitCacheProvider } from '../../../../src/cache/size-limit';
+import { CacheNotSupportedError } from '../../../../src/cache/errors';
 import { getMemcachedTestConfig, credentialCheckers } from '../test-utils';
 
 const hasCredentials = credentialCheckers.memcached();
@@ -189,6 +192,224 @@ describe(hasCredentials ? 'MemcachedProvider Integration Tests' : 'MemcachedProv
     });
   });
 
+  describe('Add', () => {
+    it('should only add a key that does not exist', async () => {
+      const key = 'test:add';
+      testKeys.push(key);
+
+      const first = await provider.add({ key, value: 'first', ttl: 60 });
+      expect(first.success).toBe(true);
+      expect(first.added).toBe(true);
+
+      const second = await provider.add({ key, value: 'second', ttl: 60 });
+      expect(second.success).toBe(true);
+      expect(second.added).toBe(false);
+
+      const result = await provider.get({ key });
+      expect(result.value).toBe('first');
+    });
+  });
+
+  describe('Batch Operations', () => {
+    it('should set, get and delete multiple keys', async () => {
+      const keys = ['test:batch1', 'test:batch2', 'test:batch3'];
+      testKeys.push(...keys);
+
+      const setResults = await provider.setMany({
+        entries: [
+          { key: keys[0], value: { id: 1 } },
+          { key: keys[1], value: 'two', ttl: 30 },
+        ],
+        ttl: 60,
+      });
+      expect(setResults.every(result => result.success)).toBe(true);
+
+      const getResults = await provider.getMany({ keys });
+      expect(getResults.map(result => result.found)).toEqual([true, true, false]);
+      expect(getResults[0].value).toEqual({ id: 1 });
+      expect(getResults[1].value).toBe('two');
+
+      const deleteResults = await provider.deleteMany({ keys: [keys[0], keys[1]] });
+      expect(deleteResults.every(result => result.success)).toBe(true);
+
+      const afterDelete = await provider.getMany({ keys });
+      expect(afterDelete.some(result => result.found)).toBe(false);
+    });
+  });
+
+  describe('Counters and Compare-and-Set', () => {
+    it('should increment and decrement counters', async () => {
+      const key = 'test:counter';
+      testKeys.push(key);
+
+      expect((await provider.increment({ key, ttl: 60 })).value).toBe(1);
+      expect((await provider.increment({ key, by: 4 })).value).toBe(5);
+      expect((await provider.decrement({ key, by: 2 })).value).toBe(3);
+    });
+
+    it('should only swap when the current value matches', async () => {
+      const key = 'test:cas';
+      testKeys.push(key);
+      await provider.set({ key, value: { version: 1 }, ttl: 60 });
+
+      const stale = await provider.compareAndSet({ key, expected: { version: 0 }, value: { version: 2 } });
+      expect(stale.swapped).toBe(false);
+
+      const current = await provider.compareAndSet({ key, expected: { version: 1 }, value: { version: 2 }, ttl: 60 });
+      expect(current.swapped).toBe(true);
+
+      const result = await provider.get({ key });
+      expect(result.value).toEqual({ version: 2 });
+    });
+  });
+
+  describe('Tags', () => {
+    it('should invalidate every key stored with a tag', async () => {
+      const keys = ['test:tag1', 'test:tag2', 'test:tag3'];
+      testKeys.push(...keys);
+
+      await provider.set({ key: keys[0], value: 'one', tags: ['test-group'] });
+      await provider.setMany({ entries: [{ key: keys[1], value: { n: 2 }, tags: ['test-group', 'other'] }] });
+      await provider.set({ key: keys[2], value: 'three', tags: ['other'] });
+
+      const result = await provider.invalidateTags(['test-group']);
+      expect(result.success).toBe(true);
+
+      const values = await provider.getMany({ keys });
+      expect(values.map(value => value.found)).toEqual([false, false, true]);
+      expect(values[2].value).toBe('three');
+    });
+
+    it('should return user values that look like tag envelopes unchanged', async () => {
+      const key = 'test:tag-lookalike';
+      testKeys.push(key);
+      const value = { __basepackTags: null, '__basepack$tags': null, other: 1 };
+
+      await provider.set({ key, value });
+
+      const result = await provider.get({ key });
+      expect(result.success).toBe(true);
+      expect(result.value).toEqual(value);
+    });
+  });
+
+  describe('Locks', () => {
+    it('should only extend and release a lock held with its token', async () => {
+      const key = 'test:lock:__lock';
+      testKeys.push(key);
+
+      const acquired = await provider.add({ key, value: 'token-a', ttl: 60 });
+      expect(acquired.added).toBe(true);
+
+      const foreignRelease = await provider.releaseLock({ key, token: 'token-b' });
+      expect(foreignRelease.success).toBe(true);
+      expect(foreignRelease.owned).toBe(false);
+
+      const extended = await provider.extendLock({ key, token: 'token-a', ttl: 120 });
+      expect(extended.owned).toBe(true);
+
+      const released = await provider.releaseLock({ key, token: 'token-a' });
+      expect(released.owned).toBe(true);
+
+      const result = await provider.has({ key });
+      expect(result.exists).toBe(false);
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it.each(['fixed-window', 'sliding-window', 'token-bucket'] as const)('should limit requests with %s', async (algorithm) => {
+      const key = `test:ratelimit:${algorithm}`;
+      const windowIndex = Math.floor(Date.now() / 60000);
+      testKeys.push(key, `${key}:${windowIndex}`, `${key}:${windowIndex + 1}`);
+
+      const results = [];
+      for (let index = 0; index < 4; index++) {
+        results.push(await provider.rateLimit({ key, algorithm, limit: 3, window: 60 }));
+      }
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+      expect(results[2].remaining).toBe(0);
+      expect(results[3].retryAfter).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Key Scanning', () => {
+    it('should reject scans as unsupported', async () => {
+      await expect(provider.scan({ pattern: 'test:*' })).rejects.toThrow(CacheNotSupportedError);
+    });
+  });
+
+  describe('TTL Inspection', () => {
+    it('should change the TTL with touch', async () => {
+      const key = 'test:ttl-touch';
+      testKeys.push(key);
+      await provider.set({ key, value: 'data', ttl: 1 });
+
+      expect((await provider.touch({ key, ttl: 60 })).exists).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      expect((await provider.get({ key })).value).toBe('data');
+      expect((await provider.expire({ key: 'test:ttl-missing', ttl: 60 })).exists).toBe(false);
+    });
+
+    it('should reject reading the TTL as unsupported', async () => {
+      await expect(provider.ttl({ key: 'test:ttl-touch' })).rejects.toThrow(CacheNotSupportedError);
+    });
+  });
+
+  describe('Data Structures', () => {
+    it('should reject data structure operations as unsupported', async () => {
+      await expect(provider.hashGet({ key: 'test:hash' })).rejects.toThrow(CacheNotSupportedError);
+      await expect(provider.listPush({ key: 'test:list', values: [1] })).rejects.toThrow(CacheNotSupportedError);
+      await expect(provider.sortedSetRange({ key: 'test:zset' })).rejects.toThrow(CacheNotSupportedError);
+    });
+  });
+
+  describe('Pub/Sub', () => {
+    it('should reject pub/sub as unsupported', async () => {
+      await expect(provider.publish({ channel: 'test:channel', message: 'hello' })).rejects.toThrow(CacheNotSupportedError);
+      await expect(provider.subscribe({ channel: 'test:channel', listener: () => undefined })).rejects.toThrow(CacheNotSupportedError);
+    });
+  });
+
+  describe('Value Size Limits', () => {
+    it('should chunk values above the Memcached item size', async () => {
+      const key = 'test:chunked';
+      testKeys.push(key);
+      const chunked = new SizeLimitCacheProvider(provider, { limit: 1024 * 1024, strategy: 'chunk' });
+      const value = { data: 'x'.repeat(3 * 1024 * 1024) };
+
+      const result = await chunked.set({ key, value, ttl: 60 });
+      expect(result.success).toBe(true);
+
+      const retrieved = await chunked.get({ key });
+      expect(retrieved.value).toEqual(value);
+
+      await chunked.delete({ key });
+      expect((await chunked.get({ key })).found).toBe(false);
+    });
+  });
+
+  describe('Serializers', () => {
+    it('should round-trip values with a MessagePack serializer', async () => {
+      const key = 'test:msgpack';
+      testKeys.push(key);
+      const msgpackProvider = new MemcachedProvider({ ...getMemcachedTestConfig(), serializer: new MessagePackSerializer() });
+      const value = { createdAt: new Date('2024-01-02T03:04:05.678Z'), avatar: Buffer.from([1, 2, 3]), count: 42 };
+
+      try {
+        await msgpackProvider.set({ key, value });
+
+        const result = await msgpackProvider.get({ key });
+        expect(result.value).toEqual(value);
+        expect(result.value.createdAt).toBeInstanceOf(Date);
+      } finally {
+        await msgpackProvider.close();
+      }
+    });
+  });
+
   describe('Null Values', () => {
     it('should handle null values', async () => {
       const key = 'test:null';
@@ -256,6 +477,60 @@ describe(hasCredentials ? 'MemcachedProvider Integration Tests' : 'MemcachedProv
       expect(health.timestamp).toBeInstanceOf(Date);
       expect(health.details).toBeDefined();
     });
+
+    it('should report every server', async () => {
+      const health = await provider.health();
+
+      expect(health.details?.servers.length).toBeGreaterThan(0);
+      health.details?.servers.forEach((server: any) => {
+        expect(server).toMatchObject({ status: 'healthy', ejected: false, weight: 1 });
+        expect(server.uptime).toBeGreaterThanOrEqual(0);
+      });
+    });
+  });
+
+  describe('Consistent Hashing', () => {
+    const deadServer = 'localhost:1';
+
+    it('should report the server a key hashes to', () => {
+      const config = getMemcachedTestConfig();
+      const servers = Array.isArray(config.servers) ? config.servers : [config.servers];
+
+      expect(servers).toContain(provider.getServer('test:hashing'));
+    });
+
+    it('should eject a dead server and keep serving from the others', async () => {
+      const config = getMemcachedTestConfig();
+      const servers = Array.isArray(config.servers) ? config.servers : [config.servers];
+      const ejecting = new MemcachedProvider({
+        ...config,
+        servers: { ...Object.fromEntries(servers.map(server => [server, 1])), [deadServer]: 1 },
+        ejectFailedServers: true,
+        options: { retries: 0, failures: 0, timeout: 500, retry: 100 },
+      });
+
+      try {
+        const keys = Array.from({ length: 20 }, (_, i) => `test:eject:${i}`);
+        testKeys.push(...keys);
+
+        // Operations on keys of the dead server fail until it is marked dead and ejected
+        for (let attempt = 0; attempt < 20 && keys.some(key => ejecting.getServer(key) === deadServer); attempt++) {
+          await Promise.all(keys.map(key => ejecting.set({ key, value: 1 }).catch(() => undefined)));
+          await new Promise(resolve => setTimeout(resolve, 200));
+        }
+
+        expect(keys.every(key => ejecting.getServer(key) !== deadServer)).toBe(true);
+        expect((await ejecting.set({ key: keys[0], value: 'after' })).success).toBe(true);
+
+        const health = await ejecting.health();
+        expect(health.status).toBe('healthy');
+        expect(health.details?.servers).toContainEqual(
+          expect.objectContaining({ server: deadServer, status: 'unhealthy', ejected: true })
+        );
+      } finally {
+        await ejecting.close();
+      }
+    }, 15000);
   });
 
   describe('Multiple Operations', () => {
@@ -0,0 +1,50 @@
+/**
+ * Integration tests for Redis cache adapter with Sentinel
+ *
+ * To run these tests:
+ * 1. Start Redis with Sentinel monitoring a master group (default name: mymaster)
+ * 2. Set REDIS_SENTINELS=localhost:26379 (and REDIS_SENTINEL_NAME if needed) in test.env
+ * 3. Run: npm run test:integration
+ */
+
+import { RedisProvider } from '../../../../src/cache/adapters/redis';
+import { getRedisSentinelTestConfig, credentialCheckers } from '../test-utils';
+
+const hasCredentials = credentialCheckers.redisSentinel();
+
+describe(hasCredentials ? 'RedisProvider Sentinel Integration Tests' : 'RedisProvider Sentinel Integration Tests (skipped - missing credentials)', () => {
+  if (!hasCredentials) {
+    // Skip all tests in this suite
+    test.skip('Skipping Redis Sentinel integration tests - missing credentials', () => {});
+    return;
+  }
+
+  let provider: RedisProvider;
+
+  beforeAll(() => {
+    provider = new RedisProvider(getRedisSentinelTestConfig());
+  });
+
+  afterAll(async () => {
+    if (provider) {
+      await provider.delete({ key: 'test:sentinel' });
+      await provider.close();
+    }
+  });
+
+  it('should connect to the master through the sentinels', async () => {
+    await provider.set({ key: 'test:sentinel', value: { ok: true }, ttl: 60 });
+
+    const result = await provider.get({ key: 'test:sentinel' });
+
+    expect(result.value).toEqual({ ok: true });
+  });
+
+  it('should report the master in health details', async () => {
+    const health = await provider.health();
+
+    expect(health.status).toBe('healthy');
+    expect(health.details?.mode).toBe('sentinel');
+    expect(health.details?.nodes[0]).toMatchObject({ role: 'master', status: 'healthy' });
+  });
+});
@@ -9,6 +9,7 @@
 
 import { RedisProvider } from '../../../../src/cache/adapters/redis';
 import { CacheProvider } from '../../../../src/cache/types';
+import { MessagePackSerializer } from '../../../../src/cache/serializers';
 import { getRedisTestConfig, credentialCheckers } from '../test-utils';
 
 const hasCredentials = credentialCheckers.redis();
@@ -192,6 +193,343 @@ describe(hasCredentials ? 'RedisProvider Integration Tests' : 'RedisProvider Int
     });
   });
 
+  describe('Add', () => {
+    it('should only add a key that does not exist', async () => {
+      const key = 'test:add';
+      testKeys.push(key);
+
+      const first = await provider.add({ key, value: 'first', ttl: 60 });
+      expect(first.success).toBe(true);
+      expect(first.added).toBe(true);
+
+      const second = await provider.add({ key, value: 'second', ttl: 60 });
+      expect(second.success).toBe(true);
+      expect(second.added).toBe(false);
+
+      const result = await provider.get({ key });
+      expect(result.value).toBe('first');
+    });
+  });
+
+  describe('Batch Operations', () => {
+    it('should set, get and delete multiple keys', async () => {
+      const keys = ['test:batch1', 'test:batch2', 'test:batch3'];
+      testKeys.push(...keys);
+
+      const setResults = await provider.setMany({
+        entries: [
+          { key: keys[0], value: { id: 1 } },
+          { key: keys[1], value: 'two', ttl: 30 },
+        ],
+        ttl: 60,
+      });
+      expect(setResults.every(result => result.success)).toBe(true);
+
+      const getResults = await provider.getMany({ keys });
+      expect(getResults.map(result => result.found)).toEqual([true, true, false]);
+      expect(getResults[0].value).toEqual({ id: 1 });
+      expect(getResults[1].value).toBe('two');
+
+      const deleteResults = await provider.deleteMany({ keys: [keys[0], keys[1]] });
+      expect(deleteResults.every(result => result.success)).toBe(true);
+
+      const afterDelete = await provider.getMany({ keys });
+      expect(afterDelete.some(result => result.found)).toBe(false);
+    });
+  });
+
+  describe('Counters and Compare-and-Set', () => {
+    it('should increment and decrement counters', async () => {
+      const key = 'test:counter';
+      testKeys.push(key);
+
+      expect((await provider.increment({ key, ttl: 60 })).value).toBe(1);
+      expect((await provider.increment({ key, by: 4 })).value).toBe(5);
+      expect((await provider.decrement({ key, by: 2 })).value).toBe(3);
+    });
+
+    it('should only swap when the current value matches', async () => {
+      const key = 'test:cas';
+      testKeys.push(key);
+      await provider.set({ key, value: { version: 1 }, ttl: 60 });
+
+      const stale = await provider.compareAndSet({ key, expected: { version: 0 }, value: { version: 2 } });
+      expect(stale.swapped).toBe(false);
+
+      const current = await provider.compareAndSet({ key, expected: { version: 1 }, value: { version: 2 }, ttl: 60 });
+      expect(current.swapped).toBe(true);
+
+      const result = await provider.get({ key });
+      expect(result.value).toEqual({ version: 2 });
+    });
+
+    it('should let only one of several interleaved swaps succeed', async () => {
+      const key = 'test:cas-concurrent';
+      testKeys.push(key);
+      await provider.set({ key, value: { version: 1 }, ttl: 60 });
+
+      // A mismatching swap between the two matching ones must not let both through
+      const results = await Promise.all([
+        provider.compareAndSet({ key, expected: { version: 1 }, value: { version: 2, writer: 'a' } }),
+        provider.compareAndSet({ key, expected: { version: 0 }, value: { version: 2, writer: 'stale' } }),
+        provider.compareAndSet({ key, expected: { version: 1 }, value: { version: 2, writer: 'b' } }),
+      ]);
+
+      expect(results.filter(result => result.swapped)).toHaveLength(1);
+      expect(results[1].swapped).toBe(false);
+
+      const winner = results[0].swapped ? 'a' : 'b';
+      expect((await provider.get({ key })).value).toEqual({ version: 2, writer: winner });
+      expect((await provider.ttl({ key })).expiresIn).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Tags', () => {
+    it('should expire tag sets with their longest-lived member', async () => {
+      const keys = ['test:tag-ttl1', 'test:tag-ttl2', 'test:tag-ttl3'];
+      testKeys.push(...keys, '__tag:test-ttl');
+
+      await provider.set({ key: keys[0], value: 'one', ttl: 30, tags: ['test-ttl'] });
+      await provider.set({ key: keys[1], value: 'two', ttl: 10, tags: ['test-ttl'] });
+      const ttl = (await provider.ttl({ key: '__tag:test-ttl' })).expiresIn;
+      expect(ttl).toBeGreaterThan(10000);
+      expect(ttl).toBeLessThanOrEqual(30000);
+
+      await provider.setMany({ entries: [{ key: keys[2], value: 'three', tags: ['test-ttl'] }] });
+      const persistent = await provider.ttl({ key: '__tag:test-ttl' });
+      expect(persistent.exists).toBe(true);
+      expect(persistent.expiresIn).toBeUndefined();
+    });
+
+    it('should invalidate every key stored with a tag', async () => {
+      const keys = ['test:tag1', 'test:tag2', 'test:tag3'];
+      testKeys.push(...keys);
+
+      await provider.set({ key: keys[0], value: 'one', tags: ['test-group'] });
+      await provider.setMany({ entries: [{ key: keys[1], value: { n: 2 }, tags: ['test-group', 'other'] }] });
+      await provider.set({ key: keys[2], value: 'three', tags: ['other'] });
+
+      const result = await provider.invalidateTags(['test-group']);
+      expect(result.success).toBe(true);
+
+      const values = await provider.getMany({ keys });
+      expect(values.map(value => value.found)).toEqual([false, false, true]);
+      expect(values[2].value).toBe('three');
+    });
+  });
+
+  describe('Locks', () => {
+    it('should only extend and release a lock held with its token', async () => {
+      const key = 'test:lock:__lock';
+      testKeys.push(key);
+
+      const acquired = await provider.add({ key, value: 'token-a', ttl: 60 });
+      expect(acquired.added).toBe(true);
+
+      const foreignRelease = await provider.releaseLock({ key, token: 'token-b' });
+      expect(foreignRelease.success).toBe(true);
+      expect(foreignRelease.owned).toBe(false);
+
+      const extended = await provider.extendLock({ key, token: 'token-a', ttl: 120 });
+      expect(extended.owned).toBe(true);
+
+      const released = await provider.releaseLock({ key, token: 'token-a' });
+      expect(released.owned).toBe(true);
+
+      const result = await provider.has({ key });
+      expect(result.exists).toBe(false);
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it.each(['fixed-window', 'sliding-window', 'token-bucket'] as const)('should limit requests with %s', async (algorithm) => {
+      const key = `test:ratelimit:${algorithm}`;
+      testKeys.push(key);
+
+      const results = [];
+      for (let index = 0; index < 4; index++) {
+        results.push(await provider.rateLimit({ key, algorithm, limit: 3, window: 60 }));
+      }
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+      expect(results[2].remaining).toBe(0);
+      expect(results[3].retryAfter).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Key Scanning', () => {
+    it('should scan every key matching a pattern', async () => {
+      const keys = Array.from({ length: 25 }, (_, index) => `test:scan:${index}`);
+      testKeys.push(...keys, 'test:scan-other');
+      await provider.setMany({ entries: [...keys, 'test:scan-other'].map(key => ({ key, value: key })) });
+
+      const found: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await provider.scan({ pattern: 'test:scan:*', limit: 10, cursor });
+        expect(page.success).toBe(true);
+        found.push(...page.keys);
+        cursor = page.cursor;
+      } while (cursor !== undefined);
+
+      expect([...new Set(found)].sort()).toEqual([...keys].sort());
+    });
+
+    it('should leave tag sets out of scans and report missing keys on delete', async () => {
+      const key = 'test:scan-tagged';
+      testKeys.push(key, '__tag:test-scan');
+      await provider.set({ key, value: 'data', tags: ['test-scan'] });
+
+      const page = await provider.scan({ pattern: '*test-scan*', limit: 1000 });
+
+      expect(page.keys).not.toContain('__tag:test-scan');
+      expect((await provider.delete({ key })).deleted).toBe(true);
+      expect((await provider.delete({ key })).deleted).toBe(false);
+    });
+  });
+
+  describe('TTL Inspection', () => {
+    it('should read and change the TTL without rewriting the value', async () => {
+      const key = 'test:ttl-inspect';
+      testKeys.push(key);
+      await provider.set({ key, value: 'data', ttl: 60 });
+
+      const before = await provider.ttl({ key });
+      expect(before.exists).toBe(true);
+      expect(before.expiresIn).toBeGreaterThan(55000);
+
+      expect((await provider.expire({ key, ttl: 600 })).exists).toBe(true);
+      expect((await provider.ttl({ key })).expiresIn).toBeGreaterThan(595000);
+
+      expect((await provider.touch({ key })).exists).toBe(true);
+      expect((await provider.get({ key })).value).toBe('data');
+    });
+
+    it('should report missing keys and keys without an expiry', async () => {
+      const key = 'test:ttl-forever';
+      testKeys.push(key);
+      await provider.set({ key, value: 'data' });
+
+      expect(await provider.ttl({ key })).toMatchObject({ exists: true, expiresIn: undefined });
+      expect(await provider.ttl({ key: 'test:ttl-missing' })).toMatchObject({ exists: false, expiresIn: undefined });
+      expect((await provider.expire({ key: 'test:ttl-missing', ttl: 60 })).exists).toBe(false);
+    });
+  });
+
+  describe('Data Structures', () => {
+    it('should read and write hash fields', async () => {
+      const key = 'test:hash';
+      testKeys.push(key);
+
+      expect((await provider.hashSet({ key, fields: { name: 'John', tags: ['a', 'b'] }, ttl: 60 })).count).toBe(2);
+      expect((await provider.hashSet({ key, fields: { name: 'Jane' } })).count).toBe(0);
+
+      expect((await provider.hashGet({ key })).fields).toEqual({ name: 'Jane', tags: ['a', 'b'] });
+      expect((await provider.hashGet({ key, fields: ['name', 'missing'] })).fields).toEqual({ name: 'Jane' });
+      expect((await provider.ttl({ key })).expiresIn).toBeGreaterThan(0);
+    });
+
+    it('should push, pop and read list ranges', async () => {
+      const key = 'test:list';
+      testKeys.push(key);
+
+      expect((await provider.listPush({ key, values: [1, 2, 3] })).count).toBe(3);
+      await provider.listPush({ key, values: [{ first: true }], side: 'left' });
+
+      expect((await provider.listRange({ key })).values).toEqual([{ first: true }, 1, 2, 3]);
+      expect((await provider.listRange({ key, start: -2 })).values).toEqual([2, 3]);
+      expect((await provider.listPop({ key })).values).toEqual([3]);
+      expect((await provider.listPop({ key, side: 'left', count: 2 })).values).toEqual([{ first: true }, 1]);
+      expect((await provider.listPop({ key: 'test:list-missing' })).values).toEqual([]);
+    });
+
+    it('should add set members', async () => {
+      const key = 'test:set';
+      testKeys.push(key);
+
+      expect((await provider.setAdd({ key, members: ['a', 'b'] })).count).toBe(2);
+      expect((await provider.setAdd({ key, members: ['b', 'c'] })).count).toBe(1);
+      expect((await provider.setMembers({ key })).members.sort()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should range sorted sets by score', async () => {
+      const key = 'test:zset';
+      testKeys.push(key);
+
+      await provider.sortedSetAdd({
+        key,
+        members: [{ member: 'alice', score: 120 }, { member: 'bob', score: 95 }, { member: 'carol', score: Infinity }],
+      });
+
+      expect((await provider.sortedSetRange({ key, min: 100 })).members).toEqual([
+        { member: 'alice', score: 120 },
+        { member: 'carol', score: Infinity },
+      ]);
+      expect((await provider.sortedSetRange({ key, reverse: true, offset: 1, limit: 1 })).members).toEqual([
+        { member: 'alice', score: 120 },
+      ]);
+    });
+
+    it('should report wrong types as failures', async () => {
+      const key = 'test:wrongtype';
+      testKeys.push(key);
+      await provider.set({ key, value: 'plain' });
+
+      const result = await provider.listPush({ key, values: [1] });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('WRONGTYPE');
+    });
+  });
+
+  describe('Pub/Sub', () => {
+    it('should deliver published messages to subscribers', async () => {
+      const messages: Array<[string, string]> = [];
+      const subscription = await provider.subscribe({
+        channel: 'test:channel',
+        listener: (message, channel) => { messages.push([message, channel]); },
+      });
+
+      const result = await provider.publish({ channel: 'test:channel', message: 'hello' });
+      for (let attempt = 0; messages.length === 0 && attempt < 20; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      await subscription.unsubscribe();
+
+      expect(result).toMatchObject({ success: true, receivers: 1 });
+      expect(messages).toEqual([['hello', 'test:channel']]);
+    });
+
+    it('should stop delivering after unsubscribe', async () => {
+      const subscription = await provider.subscribe({ channel: 'test:channel-unsubscribe', listener: () => undefined });
+      expect((await provider.publish({ channel: 'test:channel-unsubscribe', message: 'one' })).receivers).toBe(1);
+
+      await subscription.unsubscribe();
+
+      expect((await provider.publish({ channel: 'test:channel-unsubscribe', message: 'two' })).receivers).toBe(0);
+    });
+  });
+
+  describe('Serializers', () => {
+    it('should round-trip values with a MessagePack serializer', async () => {
+      const key = 'test:msgpack';
+      testKeys.push(key);
+      const msgpackProvider = new RedisProvider({ ...getRedisTestConfig(), serializer: new MessagePackSerializer() });
+      const value = { createdAt: new Date('2024-01-02T03:04:05.678Z'), avatar: Buffer.from([1, 2, 3]), count: 42 };
+
+      try {
+        await msgpackProvider.set({ key, value });
+
+        const result = await msgpackProvider.get({ key });
+        expect(result.value).toEqual(value);
+        expect(result.value.createdAt).toBeInstanceOf(Date);
+      } finally {
+        await msgpackProvider.close();
+      }
+    });
+  });
+
   describe('Clear', () => {
     it('should clear all keys with prefix', async () => {
       const keys = ['test:clear1', 'test:clear2', 'test:clear3'];
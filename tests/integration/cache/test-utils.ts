@@ -15,6 +15,39 @@ export function getRedisTestConfig() {
   };
 }
 
+/**
+ * Parse a comma-separated list of 'host:port' nodes
+ */
+function parseNodes(value: string) {
+  return value.split(',').map(node => {
+    const [host, port] = node.trim().split(':');
+    return { host, port: parseInt(port, 10) };
+  });
+}
+
+/**
+ * Get Redis Cluster configuration from environment
+ */
+export function getRedisClusterTestConfig() {
+  return {
+    cluster: { nodes: parseNodes(process.env.REDIS_CLUSTER_NODES || 'localhost:7000') },
+    password: process.env.REDIS_PASSWORD,
+    keyPrefix: 'basepack:test:',
+  };
+}
+
+/**
+ * Get Redis Sentinel configuration from environment
+ */
+export function getRedisSentinelTestConfig() {
+  return {
+    sentinels: parseNodes(process.env.REDIS_SENTINELS || 'localhost:26379'),
+    name: process.env.REDIS_SENTINEL_NAME || 'mymaster',
+    password: process.env.REDIS_PASSWORD,
+    keyPrefix: 'basepack:test:',
+  };
+}
+
 /**
  * Get Memcached configuration from environment or use defaults
  */
@@ -49,6 +82,8 @@ export const hasCredentials = (provider: string, requiredEnvVars: string[]): boo
  */
 export const credentialCheckers = {
   redis: () => hasCredentials('Redis', ['REDIS_ENABLED']),
+  redisCluster: () => hasCredentials('Redis Cluster', ['REDIS_CLUSTER_NODES']),
+  redisSentinel: () => hasCredentials('Redis Sentinel', ['REDIS_SENTINELS']),
   memcached: () => hasCredentials('Memcached', ['MEMCACHED_ENABLED']),
 };
 
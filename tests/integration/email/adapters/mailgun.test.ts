@@ -1,6 +1,6 @@
 import { EmailService } from '../../../../src/email/service';
 import { EmailProvider } from '../../../../src/email/types';
-import { getTestEmail, credentialCheckers } from '../test-utils';
+import { getTestEmail, getTestEmailWithOptions, getTestInlineImageEmail, getTestTemplateEmail, credentialCheckers } from '../test-utils';
 
 const hasCredentials = credentialCheckers.mailgun();
 
@@ -29,6 +29,58 @@ describe(hasCredentials ? 'Mailgun Provider' : 'Mailgun Provider (skipped - miss
     expect(results[0].provider).toBe(EmailProvider.MAILGUN);
   });
 
+  it('should send reply-to, headers and tags via Mailgun', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.MAILGUN,
+      config: {
+        apiKey: process.env.MAILGUN_API_KEY,
+        domain: process.env.MAILGUN_DOMAIN,
+        region: (process.env.MAILGUN_REGION as 'us' | 'eu') || 'us',
+      },
+    });
+
+    const results = await service.send({ message: getTestEmailWithOptions() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].messageId).toBeDefined();
+    expect(results[0].provider).toBe(EmailProvider.MAILGUN);
+  });
+
+  it('should send an inline image via Mailgun', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.MAILGUN,
+      config: {
+        apiKey: process.env.MAILGUN_API_KEY,
+        domain: process.env.MAILGUN_DOMAIN,
+        region: (process.env.MAILGUN_REGION as 'us' | 'eu') || 'us',
+      },
+    });
+
+    const results = await service.send({ message: getTestInlineImageEmail() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].messageId).toBeDefined();
+    expect(results[0].provider).toBe(EmailProvider.MAILGUN);
+  });
+
+  (process.env.MAILGUN_TEMPLATE_ID ? it : it.skip)('should send a stored template via Mailgun', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.MAILGUN,
+      config: {
+        apiKey: process.env.MAILGUN_API_KEY,
+        domain: process.env.MAILGUN_DOMAIN,
+        region: (process.env.MAILGUN_REGION as 'us' | 'eu') || 'us',
+      },
+    });
+
+    const results = await service.send({ message: getTestTemplateEmail(process.env.MAILGUN_TEMPLATE_ID!) });
+
+    expect(results[0].success).toBe(true);
+    expect(results[0].provider).toBe(EmailProvider.MAILGUN);
+  });
+
   it('should check Mailgun health', async () => {
     const service = new EmailService({
       provider: EmailProvider.MAILGUN,
@@ -1,6 +1,6 @@
 import { EmailService } from '../../../../src/email/service';
 import { EmailProvider } from '../../../../src/email/types';
-import { getTestEmail, credentialCheckers } from '../test-utils';
+import { getTestEmail, getTestEmailWithOptions, getTestInlineImageEmail, getTestTemplateEmail, credentialCheckers } from '../test-utils';
 
 const hasCredentials = credentialCheckers.postmark();
 
@@ -27,6 +27,52 @@ describe(hasCredentials ? 'Postmark Provider' : 'Postmark Provider (skipped - mi
     expect(results[0].provider).toBe(EmailProvider.POSTMARK);
   });
 
+  it('should send reply-to, headers and tags via Postmark', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.POSTMARK,
+      config: {
+        serverToken: process.env.POSTMARK_SERVER_TOKEN,
+      },
+    });
+
+    const results = await service.send({ message: getTestEmailWithOptions() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].messageId).toBeDefined();
+    expect(results[0].provider).toBe(EmailProvider.POSTMARK);
+  });
+
+  it('should send an inline image via Postmark', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.POSTMARK,
+      config: {
+        serverToken: process.env.POSTMARK_SERVER_TOKEN,
+      },
+    });
+
+    const results = await service.send({ message: getTestInlineImageEmail() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].messageId).toBeDefined();
+    expect(results[0].provider).toBe(EmailProvider.POSTMARK);
+  });
+
+  (process.env.POSTMARK_TEMPLATE_ID ? it : it.skip)('should send a stored template via Postmark', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.POSTMARK,
+      config: {
+        serverToken: process.env.POSTMARK_SERVER_TOKEN,
+      },
+    });
+
+    const results = await service.send({ message: getTestTemplateEmail(process.env.POSTMARK_TEMPLATE_ID!) });
+
+    expect(results[0].success).toBe(true);
+    expect(results[0].provider).toBe(EmailProvider.POSTMARK);
+  });
+
   it('should check Postmark health', async () => {
     const service = new EmailService({
       provider: EmailProvider.POSTMARK,
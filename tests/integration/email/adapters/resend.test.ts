@@ -1,6 +1,6 @@
 import { EmailService } from '../../../../src/email/service';
 import { EmailProvider } from '../../../../src/email/types';
-import { getTestEmail, credentialCheckers } from '../test-utils';
+import { getTestEmail, getTestEmailWithOptions, getTestInlineImageEmail, getTestTemplateEmail, credentialCheckers } from '../test-utils';
 
 const hasCredentials = credentialCheckers.resend();
 
@@ -27,6 +27,52 @@ describe(hasCredentials ? 'Resend Provider' : 'Resend Provider (skipped - missin
     expect(results[0].provider).toBe(EmailProvider.RESEND);
   });
 
+  it('should send reply-to, headers and tags via Resend', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.RESEND,
+      config: {
+        apiKey: process.env.RESEND_API_KEY,
+      },
+    });
+
+    const results = await service.send({ message: getTestEmailWithOptions() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].messageId).toBeDefined();
+    expect(results[0].provider).toBe(EmailProvider.RESEND);
+  });
+
+  it('should send an inline image via Resend', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.RESEND,
+      config: {
+        apiKey: process.env.RESEND_API_KEY,
+      },
+    });
+
+    const results = await service.send({ message: getTestInlineImageEmail() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].messageId).toBeDefined();
+    expect(results[0].provider).toBe(EmailProvider.RESEND);
+  });
+
+  (process.env.RESEND_TEMPLATE_ID ? it : it.skip)('should send a stored template via Resend', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.RESEND,
+      config: {
+        apiKey: process.env.RESEND_API_KEY,
+      },
+    });
+
+    const results = await service.send({ message: getTestTemplateEmail(process.env.RESEND_TEMPLATE_ID!) });
+
+    expect(results[0].success).toBe(true);
+    expect(results[0].provider).toBe(EmailProvider.RESEND);
+  });
+
   it('should check Resend health', async () => {
     const service = new EmailService({
       provider: EmailProvider.RESEND,
@@ -1,6 +1,6 @@
 import { EmailService } from '../../../../src/email/service';
 import { EmailProvider } from '../../../../src/email/types';
-import { getTestEmail, credentialCheckers } from '../test-utils';
+import { getTestEmail, getTestEmailWithOptions, getTestInlineImageEmail, getTestTemplateEmail, credentialCheckers } from '../test-utils';
 
 const hasCredentials = credentialCheckers.sendgrid();
 
@@ -26,6 +26,50 @@ describe(hasCredentials ? 'SendGrid Provider' : 'SendGrid Provider (skipped - mi
     expect(results[0].provider).toBe(EmailProvider.SENDGRID);
   });
 
+  it('should send reply-to, headers and tags via SendGrid', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.SENDGRID,
+      config: {
+        apiKey: process.env.SENDGRID_API_KEY,
+      },
+    });
+
+    const results = await service.send({ message: getTestEmailWithOptions() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].provider).toBe(EmailProvider.SENDGRID);
+  });
+
+  it('should send an inline image via SendGrid', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.SENDGRID,
+      config: {
+        apiKey: process.env.SENDGRID_API_KEY,
+      },
+    });
+
+    const results = await service.send({ message: getTestInlineImageEmail() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].provider).toBe(EmailProvider.SENDGRID);
+  });
+
+  (process.env.SENDGRID_TEMPLATE_ID ? it : it.skip)('should send a stored template via SendGrid', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.SENDGRID,
+      config: {
+        apiKey: process.env.SENDGRID_API_KEY,
+      },
+    });
+
+    const results = await service.send({ message: getTestTemplateEmail(process.env.SENDGRID_TEMPLATE_ID!) });
+
+    expect(results[0].success).toBe(true);
+    expect(results[0].provider).toBe(EmailProvider.SENDGRID);
+  });
+
   it('should check SendGrid health', async () => {
     const service = new EmailService({
       provider: EmailProvider.SENDGRID,
@@ -1,6 +1,6 @@
 import { EmailService } from '../../../../src/email/service';
 import { EmailProvider } from '../../../../src/email/types';
-import { getTestEmail, credentialCheckers } from '../test-utils';
+import { getTestEmail, getTestEmailWithOptions, getTestInlineImageEmail, getTestTemplateEmail, credentialCheckers } from '../test-utils';
 
 const hasCredentials = credentialCheckers.ses();
 
@@ -29,6 +29,58 @@ describe(hasCredentials ? 'SES Provider' : 'SES Provider (skipped - missing cred
     expect(results[0].provider).toBe(EmailProvider.SES);
   });
 
+  it('should send reply-to, headers and tags via SES', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.SES,
+      config: {
+        region: process.env.AWS_REGION,
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+      },
+    });
+
+    const results = await service.send({ message: getTestEmailWithOptions() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].messageId).toBeDefined();
+    expect(results[0].provider).toBe(EmailProvider.SES);
+  });
+
+  it('should send an inline image via SES', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.SES,
+      config: {
+        region: process.env.AWS_REGION,
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+      },
+    });
+
+    const results = await service.send({ message: getTestInlineImageEmail() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].messageId).toBeDefined();
+    expect(results[0].provider).toBe(EmailProvider.SES);
+  });
+
+  (process.env.SES_TEMPLATE_ID ? it : it.skip)('should send a stored template via SES', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.SES,
+      config: {
+        region: process.env.AWS_REGION,
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+      },
+    });
+
+    const results = await service.send({ message: getTestTemplateEmail(process.env.SES_TEMPLATE_ID!) });
+
+    expect(results[0].success).toBe(true);
+    expect(results[0].provider).toBe(EmailProvider.SES);
+  });
+
   it('should check SES health', async () => {
     const service = new EmailService({
       provider: EmailProvider.SES,
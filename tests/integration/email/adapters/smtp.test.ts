@@ -1,6 +1,6 @@
 import { EmailService } from '../../../../src/email/service';
 import { EmailProvider } from '../../../../src/email/types';
-import { getTestEmail, credentialCheckers } from '../test-utils';
+import { getTestEmail, getTestEmailWithOptions, getTestInlineImageEmail, credentialCheckers } from '../test-utils';
 
 const hasCredentials = credentialCheckers.smtp();
 
@@ -33,6 +33,50 @@ describe(hasCredentials ? 'SMTP Provider' : 'SMTP Provider (skipped - missing cr
     expect(results[0].provider).toBe(EmailProvider.SMTP);
   });
 
+  it('should send reply-to, headers and tags via SMTP', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.SMTP,
+      config: {
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER && process.env.SMTP_PASS ? {
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+        } : undefined,
+      },
+    });
+
+    const results = await service.send({ message: getTestEmailWithOptions() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].messageId).toBeDefined();
+    expect(results[0].provider).toBe(EmailProvider.SMTP);
+  });
+
+  it('should send an inline image via SMTP', async () => {
+    const service = new EmailService({
+      provider: EmailProvider.SMTP,
+      config: {
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER && process.env.SMTP_PASS ? {
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+        } : undefined,
+      },
+    });
+
+    const results = await service.send({ message: getTestInlineImageEmail() });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].success).toBe(true);
+    expect(results[0].messageId).toBeDefined();
+    expect(results[0].provider).toBe(EmailProvider.SMTP);
+  });
+
   it('should check SMTP health', async () => {
     const service = new EmailService({
       provider: EmailProvider.SMTP,
@@ -14,6 +14,39 @@ export const getTestEmail = (): EmailMessage => ({
   html: '<p>This is a <strong>test email</strong> from Basepack integration tests.</p>',
 });
 
+// Message with reply-to, custom headers, tags and tracking settings
+export const getTestEmailWithOptions = (): EmailMessage => ({
+  ...getTestEmail(),
+  replyTo: process.env.TEST_FROM_EMAIL || 'test@example.com',
+  headers: { 'X-Entity-Ref-ID': `basepack-${Date.now()}` },
+  tags: ['integration-test'],
+  tracking: { opens: false, clicks: false },
+});
+
+// Message with an inline image referenced by cid
+export const getTestInlineImageEmail = (): EmailMessage => ({
+  ...getTestEmail(),
+  html: '<p><img src="cid:basepack-logo" alt="Basepack"> This is a <strong>test email</strong> with an inline image.</p>',
+  attachments: [{
+    filename: 'logo.png',
+    // 1x1 transparent PNG
+    content: 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+    encoding: 'base64',
+    contentType: 'image/png',
+    cid: 'basepack-logo',
+  }],
+});
+
+// Message using a template stored with the provider
+export const getTestTemplateEmail = (templateId: string): EmailMessage => ({
+  from: process.env.TEST_FROM_EMAIL || 'test@example.com',
+  to: process.env.TEST_TO_EMAIL || 'recipient@example.com',
+  providerTemplate: {
+    id: templateId,
+    data: { name: 'Basepack', timestamp: new Date().toISOString() },
+  },
+});
+
 /**
  * Check if required credentials are configured
  * 
@@ -0,0 +1,572 @@
+/**
+ * Unit tests for memory cache adapter
+ */
+
+import { MemoryProvider } from '../../../../src/cache/adapters/memory';
+import { CacheProvider } from '../../../../src/cache/types';
+import { CacheValidationError, CacheNotSupportedError } from '../../../../src/cache/errors';
+import { MessagePackSerializer } from '../../../../src/cache/serializers';
+import { noopLogger } from '../../../../src/logger';
+
+describe('MemoryProvider', () => {
+  let provider: MemoryProvider;
+
+  beforeEach(() => {
+    provider = new MemoryProvider({ cleanupInterval: 0 }, noopLogger);
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await provider.close();
+  });
+
+  describe('set and get', () => {
+    it('should round-trip values of different types', async () => {
+      await provider.set({ key: 'string', value: '123' });
+      await provider.set({ key: 'number', value: 42 });
+      await provider.set({ key: 'boolean', value: false });
+      await provider.set({ key: 'null', value: null });
+      await provider.set({ key: 'object', value: { name: 'John', tags: ['a', 'b'] } });
+
+      expect((await provider.get({ key: 'string' })).value).toBe('123');
+      expect((await provider.get({ key: 'number' })).value).toBe(42);
+      expect((await provider.get({ key: 'boolean' })).value).toBe(false);
+      expect((await provider.get({ key: 'null' })).value).toBeNull();
+      expect((await provider.get({ key: 'object' })).value).toEqual({ name: 'John', tags: ['a', 'b'] });
+    });
+
+    it('should return a copy of stored objects', async () => {
+      const value = { count: 1 };
+      await provider.set({ key: 'object', value });
+      value.count = 2;
+
+      const result = await provider.get({ key: 'object' });
+      expect(result.value).toEqual({ count: 1 });
+    });
+
+    it('should report missing keys as not found', async () => {
+      const result = await provider.get({ key: 'missing' });
+
+      expect(result).toEqual({
+        success: true,
+        key: 'missing',
+        found: false,
+        provider: CacheProvider.MEMORY,
+      });
+    });
+
+    it('should fail to set values that cannot be serialized', async () => {
+      const circular: any = {};
+      circular.self = circular;
+
+      const result = await provider.set({ key: 'circular', value: circular });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeDefined();
+    });
+
+    it('should store values with the configured serializer', async () => {
+      const serializing = new MemoryProvider({ serializer: new MessagePackSerializer(), cleanupInterval: 0 }, noopLogger);
+      const createdAt = new Date('2024-01-02T03:04:05.678Z');
+
+      await serializing.set({ key: 'user', value: { createdAt } });
+      await serializing.increment({ key: 'views' });
+
+      expect((await serializing.get({ key: 'user' })).value).toEqual({ createdAt });
+      expect((await serializing.get({ key: 'views' })).value).toBe(1);
+      expect((await serializing.compareAndSet({ key: 'user', expected: { createdAt }, value: 'swapped' })).swapped).toBe(true);
+      await serializing.close();
+    });
+
+    it('should validate keys', async () => {
+      await expect(provider.get({ key: '' })).rejects.toThrow(CacheValidationError);
+      await expect(provider.set({ key: 'key', value: undefined })).rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  describe('TTL expiry', () => {
+    it('should expire entries after their TTL', async () => {
+      jest.useFakeTimers({ now: 1000 });
+
+      await provider.set({ key: 'session', value: 'abc', ttl: 10 });
+      expect((await provider.get({ key: 'session' })).found).toBe(true);
+
+      jest.setSystemTime(1000 + 10 * 1000);
+      expect((await provider.get({ key: 'session' })).found).toBe(false);
+      expect((await provider.has({ key: 'session' })).exists).toBe(false);
+    });
+
+    it('should sweep expired entries periodically', async () => {
+      jest.useFakeTimers({ now: 1000 });
+      const sweeping = new MemoryProvider({ cleanupInterval: 1000 }, noopLogger);
+
+      await sweeping.set({ key: 'short', value: 'x', ttl: 1 });
+      await sweeping.set({ key: 'long', value: 'y' });
+      jest.advanceTimersByTime(2000);
+
+      const health = await sweeping.health();
+      expect(health.details?.entries).toBe(1);
+      await sweeping.close();
+    });
+  });
+
+  describe('ttl, expire and touch', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: 0 });
+    });
+
+    it('should report the remaining TTL', async () => {
+      await provider.set({ key: 'session', value: 'data', ttl: 60 });
+      await provider.set({ key: 'forever', value: 'data' });
+      jest.advanceTimersByTime(15000);
+
+      expect(await provider.ttl({ key: 'session' })).toMatchObject({ exists: true, expiresIn: 45000 });
+      expect(await provider.ttl({ key: 'forever' })).toMatchObject({ exists: true, expiresIn: undefined });
+      expect(await provider.ttl({ key: 'missing' })).toMatchObject({ exists: false, expiresIn: undefined });
+    });
+
+    it('should set a new expiry without rewriting the value', async () => {
+      await provider.set({ key: 'session', value: { user: 1 }, ttl: 60 });
+      jest.advanceTimersByTime(50000);
+
+      expect((await provider.expire({ key: 'session', ttl: 60 })).exists).toBe(true);
+      jest.advanceTimersByTime(50000);
+
+      expect((await provider.get({ key: 'session' })).value).toEqual({ user: 1 });
+      expect((await provider.expire({ key: 'missing', ttl: 60 })).exists).toBe(false);
+    });
+
+    it('should keep the expiry when touched without a TTL', async () => {
+      const lru = new MemoryProvider({ maxEntries: 2, cleanupInterval: 0 }, noopLogger);
+      await lru.set({ key: 'a', value: 1, ttl: 60 });
+      await lru.set({ key: 'b', value: 2 });
+
+      expect((await lru.touch({ key: 'a' })).exists).toBe(true);
+      await lru.set({ key: 'c', value: 3 });
+
+      expect((await lru.has({ key: 'a' })).exists).toBe(true);
+      expect((await lru.has({ key: 'b' })).exists).toBe(false);
+      expect((await lru.ttl({ key: 'a' })).expiresIn).toBe(60000);
+      await lru.close();
+    });
+
+    it('should validate TTLs', async () => {
+      await expect(provider.expire({ key: 'session', ttl: 0 })).rejects.toThrow(CacheValidationError);
+      await expect(provider.touch({ key: 'session', ttl: 1.5 })).rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  describe('eviction', () => {
+    it('should evict the least recently used entry when maxEntries is exceeded', async () => {
+      const bounded = new MemoryProvider({ maxEntries: 2, cleanupInterval: 0 }, noopLogger);
+
+      await bounded.set({ key: 'a', value: 1 });
+      await bounded.set({ key: 'b', value: 2 });
+      await bounded.get({ key: 'a' });
+      await bounded.set({ key: 'c', value: 3 });
+
+      expect((await bounded.has({ key: 'a' })).exists).toBe(true);
+      expect((await bounded.has({ key: 'b' })).exists).toBe(false);
+      expect((await bounded.has({ key: 'c' })).exists).toBe(true);
+      await bounded.close();
+    });
+
+    it('should evict entries when maxSize is exceeded', async () => {
+      const bounded = new MemoryProvider({ maxSize: 10, cleanupInterval: 0 }, noopLogger);
+
+      await bounded.set({ key: 'a', value: 'aaaa' });
+      await bounded.set({ key: 'b', value: 'bbbb' });
+
+      expect((await bounded.has({ key: 'a' })).exists).toBe(false);
+      expect((await bounded.has({ key: 'b' })).exists).toBe(true);
+      expect((await bounded.health()).details?.size).toBe(6);
+      await bounded.close();
+    });
+
+    it('should reject values larger than maxSize', async () => {
+      const bounded = new MemoryProvider({ maxSize: 4, cleanupInterval: 0 }, noopLogger);
+
+      const result = await bounded.set({ key: 'big', value: 'too large' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('exceeds maxSize');
+      await bounded.close();
+    });
+  });
+
+  describe('add', () => {
+    it('should only add keys that do not exist', async () => {
+      const first = await provider.add({ key: 'lock', value: 'a', ttl: 10 });
+      const second = await provider.add({ key: 'lock', value: 'b', ttl: 10 });
+
+      expect(first.added).toBe(true);
+      expect(second.added).toBe(false);
+      expect((await provider.get({ key: 'lock' })).value).toBe('a');
+    });
+
+    it('should add keys whose previous value has expired', async () => {
+      jest.useFakeTimers({ now: 1000 });
+      await provider.add({ key: 'lock', value: 'a', ttl: 1 });
+
+      jest.setSystemTime(3000);
+      const result = await provider.add({ key: 'lock', value: 'b', ttl: 1 });
+
+      expect(result.added).toBe(true);
+    });
+  });
+
+  describe('counters', () => {
+    it('should start missing counters at zero', async () => {
+      expect((await provider.increment({ key: 'views' })).value).toBe(1);
+      expect((await provider.increment({ key: 'views', by: 5 })).value).toBe(6);
+      expect((await provider.decrement({ key: 'views', by: 10 })).value).toBe(-4);
+      expect((await provider.get({ key: 'views' })).value).toBe(-4);
+    });
+
+    it('should only apply the TTL when the counter is created', async () => {
+      jest.useFakeTimers({ now: 1000 });
+
+      await provider.increment({ key: 'attempts', ttl: 10 });
+      jest.setSystemTime(1000 + 8 * 1000);
+      await provider.increment({ key: 'attempts', ttl: 10 });
+      jest.setSystemTime(1000 + 10 * 1000);
+
+      expect((await provider.has({ key: 'attempts' })).exists).toBe(false);
+    });
+
+    it('should fail on values that are not integers', async () => {
+      await provider.set({ key: 'name', value: 'John' });
+
+      const result = await provider.increment({ key: 'name' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not an integer');
+    });
+
+    it('should validate the increment amount', async () => {
+      await expect(provider.increment({ key: 'views', by: 0 })).rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  describe('compareAndSet', () => {
+    it('should swap only when the current value matches', async () => {
+      await provider.set({ key: 'cart', value: { items: 1 } });
+
+      const stale = await provider.compareAndSet({ key: 'cart', expected: { items: 0 }, value: { items: 2 } });
+      const current = await provider.compareAndSet({ key: 'cart', expected: { items: 1 }, value: { items: 2 } });
+
+      expect(stale.swapped).toBe(false);
+      expect(current.swapped).toBe(true);
+      expect((await provider.get({ key: 'cart' })).value).toEqual({ items: 2 });
+    });
+
+    it('should not swap missing keys', async () => {
+      const result = await provider.compareAndSet({ key: 'missing', expected: null, value: 1 });
+
+      expect(result.swapped).toBe(false);
+      expect((await provider.has({ key: 'missing' })).exists).toBe(false);
+    });
+
+    it('should keep the current expiry when no TTL is given', async () => {
+      jest.useFakeTimers({ now: 1000 });
+
+      await provider.set({ key: 'version', value: 1, ttl: 10 });
+      await provider.compareAndSet({ key: 'version', expected: 1, value: 2 });
+      jest.setSystemTime(1000 + 10 * 1000);
+
+      expect((await provider.has({ key: 'version' })).exists).toBe(false);
+    });
+  });
+
+  describe('locks', () => {
+    it('should only extend and release locks held with the token', async () => {
+      jest.useFakeTimers({ now: 1000 });
+      await provider.add({ key: 'job:__lock', value: 'token-a', ttl: 10 });
+
+      expect((await provider.extendLock({ key: 'job:__lock', token: 'token-b', ttl: 30 })).owned).toBe(false);
+      expect((await provider.releaseLock({ key: 'job:__lock', token: 'token-b' })).owned).toBe(false);
+      expect((await provider.extendLock({ key: 'job:__lock', token: 'token-a', ttl: 30 })).owned).toBe(true);
+
+      jest.setSystemTime(1000 + 20 * 1000);
+      expect((await provider.has({ key: 'job:__lock' })).exists).toBe(true);
+
+      expect((await provider.releaseLock({ key: 'job:__lock', token: 'token-a' })).owned).toBe(true);
+      expect((await provider.has({ key: 'job:__lock' })).exists).toBe(false);
+    });
+
+    it('should not extend expired locks', async () => {
+      jest.useFakeTimers({ now: 1000 });
+      await provider.add({ key: 'job:__lock', value: 'token-a', ttl: 1 });
+
+      jest.setSystemTime(3000);
+      const result = await provider.extendLock({ key: 'job:__lock', token: 'token-a', ttl: 10 });
+
+      expect(result).toEqual(expect.objectContaining({ success: true, owned: false }));
+    });
+
+    it('should validate tokens', async () => {
+      await expect(provider.releaseLock({ key: 'job:__lock', token: '' })).rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  describe('rateLimit', () => {
+    it('should limit requests per fixed window', async () => {
+      jest.useFakeTimers({ now: 1000 });
+      const config = { key: 'ratelimit:api', algorithm: 'fixed-window' as const, limit: 2, window: 10 };
+
+      expect((await provider.rateLimit(config)).remaining).toBe(1);
+      expect((await provider.rateLimit(config)).remaining).toBe(0);
+
+      jest.setSystemTime(4000);
+      const denied = await provider.rateLimit(config);
+      expect(denied).toEqual(expect.objectContaining({ allowed: false, remaining: 0, retryAfter: 7000 }));
+      expect(denied.resetAt.getTime()).toBe(11000);
+
+      jest.setSystemTime(11000);
+      expect((await provider.rateLimit(config)).allowed).toBe(true);
+    });
+
+    it('should limit requests in a sliding window', async () => {
+      jest.useFakeTimers({ now: 0 });
+      const config = { key: 'ratelimit:api', algorithm: 'sliding-window' as const, limit: 2, window: 10 };
+
+      await provider.rateLimit(config);
+      jest.setSystemTime(6000);
+      await provider.rateLimit(config);
+
+      jest.setSystemTime(9000);
+      expect((await provider.rateLimit(config))).toEqual(expect.objectContaining({ allowed: false, retryAfter: 1000 }));
+
+      jest.setSystemTime(10000);
+      const allowed = await provider.rateLimit(config);
+      expect(allowed).toEqual(expect.objectContaining({ allowed: true, remaining: 0 }));
+      expect(allowed.resetAt.getTime()).toBe(20000);
+    });
+
+    it('should refill a token bucket over the window', async () => {
+      jest.useFakeTimers({ now: 0 });
+      const config = { key: 'ratelimit:api', algorithm: 'token-bucket' as const, limit: 4, window: 4 };
+
+      expect((await provider.rateLimit({ ...config, cost: 4 })).remaining).toBe(0);
+      expect((await provider.rateLimit(config))).toEqual(expect.objectContaining({ allowed: false, retryAfter: 1000 }));
+
+      jest.setSystemTime(2500);
+      const result = await provider.rateLimit(config);
+      expect(result).toEqual(expect.objectContaining({ allowed: true, remaining: 1 }));
+      expect(result.resetAt.getTime()).toBe(5000);
+    });
+
+    it('should validate the configuration', async () => {
+      await expect(provider.rateLimit({ key: 'ratelimit:api', algorithm: 'fixed-window', limit: 2, window: 10, cost: 3 }))
+        .rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  describe('scan', () => {
+    beforeEach(async () => {
+      await provider.setMany({
+        entries: ['user:3', 'user:1', 'user:2', 'user:10', 'session:a', 'session:b'].map(key => ({ key, value: key })),
+      });
+    });
+
+    it('should return matching keys in pages', async () => {
+      const first = await provider.scan({ pattern: 'user:*', limit: 3 });
+      expect(first.keys).toEqual(['user:1', 'user:10', 'user:2']);
+      expect(first.cursor).toBe('user:2');
+
+      const second = await provider.scan({ pattern: 'user:*', limit: 3, cursor: first.cursor });
+      expect(second.keys).toEqual(['user:3']);
+      expect(second.cursor).toBeUndefined();
+    });
+
+    it('should support glob patterns', async () => {
+      expect((await provider.scan({ pattern: 'user:?' })).keys).toEqual(['user:1', 'user:2', 'user:3']);
+      expect((await provider.scan({ pattern: 'user:[12]*' })).keys).toEqual(['user:1', 'user:10', 'user:2']);
+      expect((await provider.scan({ pattern: 'session:[^a]' })).keys).toEqual(['session:b']);
+      expect((await provider.scan({})).keys).toHaveLength(6);
+    });
+
+    it('should treat escaped and regex characters literally', async () => {
+      await provider.set({ key: 'price.*', value: 1 });
+      await provider.set({ key: 'price.x', value: 2 });
+
+      expect((await provider.scan({ pattern: 'price.\\*' })).keys).toEqual(['price.*']);
+      expect((await provider.scan({ pattern: 'price.?' })).keys).toEqual(['price.*', 'price.x']);
+    });
+
+    it('should skip expired keys and honor the key prefix', async () => {
+      jest.useFakeTimers({ now: 0 });
+      const prefixed = new MemoryProvider({ keyPrefix: 'app:', cleanupInterval: 0 }, noopLogger);
+      const other = new MemoryProvider({ cleanupInterval: 0 }, noopLogger);
+
+      await prefixed.set({ key: 'user:1', value: 1 });
+      await prefixed.set({ key: 'user:2', value: 2, ttl: 1 });
+      jest.advanceTimersByTime(1000);
+
+      expect((await prefixed.scan({ pattern: 'user:*' })).keys).toEqual(['user:1']);
+      expect((await other.scan({ pattern: 'app:*' })).keys).toEqual([]);
+
+      await prefixed.close();
+      await other.close();
+    });
+
+    it('should validate configuration', async () => {
+      await expect(provider.scan({ limit: 0 })).rejects.toThrow(CacheValidationError);
+      await expect(provider.scan({ pattern: '' })).rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  describe('invalidateTags', () => {
+    it('should remove every entry stored with a tag', async () => {
+      await provider.set({ key: 'user:42:profile', value: 'profile', tags: ['user:42'] });
+      await provider.setMany({ entries: [{ key: 'user:42:orders', value: [], tags: ['user:42', 'orders'] }] });
+      await provider.set({ key: 'user:7:orders', value: [], tags: ['orders'] });
+
+      const result = await provider.invalidateTags(['user:42']);
+
+      expect(result).toEqual(expect.objectContaining({ success: true, tags: ['user:42'], invalidated: 2 }));
+      expect((await provider.has({ key: 'user:42:profile' })).exists).toBe(false);
+      expect((await provider.has({ key: 'user:42:orders' })).exists).toBe(false);
+      expect((await provider.has({ key: 'user:7:orders' })).exists).toBe(true);
+    });
+
+    it('should not remove keys that were overwritten without the tag', async () => {
+      await provider.set({ key: 'user:42:profile', value: 'old', tags: ['user:42'] });
+      await provider.set({ key: 'user:42:profile', value: 'new' });
+
+      const result = await provider.invalidateTags(['user:42']);
+
+      expect(result.invalidated).toBe(0);
+      expect((await provider.get({ key: 'user:42:profile' })).value).toBe('new');
+    });
+
+    it('should validate tags', async () => {
+      await expect(provider.invalidateTags([])).rejects.toThrow(CacheValidationError);
+      await expect(provider.set({ key: 'key', value: 1, tags: [''] })).rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  describe('delete and has', () => {
+    it('should delete values', async () => {
+      await provider.set({ key: 'user:1', value: 'John' });
+
+      const result = await provider.delete({ key: 'user:1' });
+
+      expect(result.success).toBe(true);
+      expect(result.deleted).toBe(true);
+      expect((await provider.has({ key: 'user:1' })).exists).toBe(false);
+      expect((await provider.delete({ key: 'user:1' })).deleted).toBe(false);
+    });
+  });
+
+  describe('batch operations', () => {
+    it('should get, set and delete multiple values', async () => {
+      await provider.setMany({ entries: [{ key: 'a', value: 1 }, { key: 'b', value: { n: 2 } }] });
+
+      const results = await provider.getMany({ keys: ['a', 'b', 'c'] });
+      expect(results.map(result => result.found)).toEqual([true, true, false]);
+      expect(results[1].value).toEqual({ n: 2 });
+
+      await provider.deleteMany({ keys: ['a', 'b'] });
+      expect((await provider.has({ key: 'a' })).exists).toBe(false);
+    });
+
+    it('should prefer entry TTLs over the batch TTL', async () => {
+      jest.useFakeTimers({ now: 1000 });
+
+      await provider.setMany({ entries: [{ key: 'short', value: 1, ttl: 1 }, { key: 'long', value: 2 }], ttl: 10 });
+      jest.setSystemTime(1000 + 5 * 1000);
+
+      const results = await provider.getMany({ keys: ['short', 'long'] });
+      expect(results.map(result => result.found)).toEqual([false, true]);
+    });
+
+    it('should validate keys', async () => {
+      await expect(provider.getMany({ keys: [] })).rejects.toThrow(CacheValidationError);
+      await expect(provider.setMany({ entries: [{ key: '', value: 1 }] })).rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  describe('data structures', () => {
+    it('should throw not supported after validating', async () => {
+      await expect(provider.hashGet({ key: 'user:1' })).rejects.toThrow(CacheNotSupportedError);
+      await expect(provider.sortedSetRange({ key: 'board' })).rejects.toMatchObject({ operation: 'sortedSetRange' });
+      await expect(provider.listPush({ key: 'jobs', values: [] })).rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  describe('publish and subscribe', () => {
+    it('should deliver messages to the channel listeners', async () => {
+      const listener = jest.fn();
+      const other = jest.fn();
+      await provider.subscribe({ channel: 'orders', listener });
+      await provider.subscribe({ channel: 'users', listener: other });
+
+      const result = await provider.publish({ channel: 'orders', message: '{"id":42}' });
+
+      expect(result).toMatchObject({ success: true, channel: 'orders', receivers: 1, provider: CacheProvider.MEMORY });
+      expect(listener).toHaveBeenCalledWith('{"id":42}', 'orders');
+      expect(other).not.toHaveBeenCalled();
+    });
+
+    it('should stop delivering after unsubscribe', async () => {
+      const listener = jest.fn();
+      const first = await provider.subscribe({ channel: 'orders', listener });
+      await provider.subscribe({ channel: 'orders', listener });
+
+      await first.unsubscribe();
+      await first.unsubscribe();
+      await provider.publish({ channel: 'orders', message: 'shipped' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep delivering when a listener throws', async () => {
+      const listener = jest.fn();
+      await provider.subscribe({ channel: 'orders', listener: () => { throw new Error('boom'); } });
+      await provider.subscribe({ channel: 'orders', listener: async () => { throw new Error('boom'); } });
+      await provider.subscribe({ channel: 'orders', listener });
+
+      const result = await provider.publish({ channel: 'orders', message: 'shipped' });
+
+      expect(result.receivers).toBe(3);
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('should validate the configuration', async () => {
+      await expect(provider.publish({ channel: '', message: 'x' })).rejects.toThrow(CacheValidationError);
+      await expect(provider.subscribe({ channel: 'orders', listener: undefined as any })).rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  describe('clear', () => {
+    it('should remove all entries', async () => {
+      await provider.set({ key: 'a', value: 1 });
+      await provider.set({ key: 'b', value: 2 });
+
+      const result = await provider.clear();
+
+      expect(result.success).toBe(true);
+      expect((await provider.health()).details).toEqual(expect.objectContaining({ entries: 0, size: 0 }));
+    });
+
+    it('should only remove prefixed entries when a key prefix is configured', async () => {
+      const prefixed = new MemoryProvider({ keyPrefix: 'app:', cleanupInterval: 0 }, noopLogger);
+
+      await prefixed.set({ key: 'a', value: 1 });
+      await prefixed.clear();
+
+      expect((await prefixed.get({ key: 'a' })).found).toBe(false);
+      await prefixed.close();
+    });
+  });
+
+  describe('health', () => {
+    it('should always report healthy', async () => {
+      const health = await provider.health();
+
+      expect(health.provider).toBe(CacheProvider.MEMORY);
+      expect(health.status).toBe('healthy');
+    });
+  });
+});
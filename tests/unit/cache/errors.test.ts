@@ -8,11 +8,15 @@ import {
   CacheProviderError,
   CacheConnectionError,
   CacheTimeoutError,
+  CacheLockError,
+  CacheNotSupportedError,
   isCacheError,
   isCacheValidationError,
   isCacheProviderError,
   isCacheConnectionError,
   isCacheTimeoutError,
+  isCacheLockError,
+  isCacheNotSupportedError,
 } from '../../../src/cache/errors';
 import { CacheProvider } from '../../../src/cache/types';
 
@@ -138,6 +142,29 @@ describe('Cache Errors', () => {
     });
   });
 
+  describe('CacheLockError', () => {
+    it('should create lock error', () => {
+      const error = new CacheLockError('Lock is held', CacheProvider.REDIS, 'jobs:nightly');
+
+      expect(error).toBeInstanceOf(CacheError);
+      expect(error).toBeInstanceOf(CacheLockError);
+      expect(error.key).toBe('jobs:nightly');
+      expect(error.isRetryable).toBe(false);
+      expect(error.name).toBe('CacheLockError');
+    });
+  });
+
+  describe('CacheNotSupportedError', () => {
+    it('should create not supported error', () => {
+      const error = new CacheNotSupportedError('Memcached cannot enumerate keys', CacheProvider.MEMCACHED, 'scan');
+
+      expect(error).toBeInstanceOf(CacheError);
+      expect(error.operation).toBe('scan');
+      expect(error.isRetryable).toBe(false);
+      expect(error.name).toBe('CacheNotSupportedError');
+    });
+  });
+
   describe('Type Guards', () => {
     it('isCacheError should identify CacheError', () => {
       const error = new CacheError('Test', CacheProvider.REDIS);
@@ -182,6 +209,20 @@ describe('Cache Errors', () => {
       expect(isCacheTimeoutError(regularError)).toBe(false);
     });
 
+    it('isCacheLockError should identify CacheLockError', () => {
+      const error = new CacheLockError('Lock is held', CacheProvider.REDIS, 'jobs:nightly');
+
+      expect(isCacheLockError(error)).toBe(true);
+      expect(isCacheLockError(new CacheError('Test', CacheProvider.REDIS))).toBe(false);
+    });
+
+    it('isCacheNotSupportedError should identify CacheNotSupportedError', () => {
+      const error = new CacheNotSupportedError('Not supported', CacheProvider.MEMCACHED, 'scan');
+
+      expect(isCacheNotSupportedError(error)).toBe(true);
+      expect(isCacheNotSupportedError(new CacheError('Test', CacheProvider.MEMCACHED))).toBe(false);
+    });
+
     it('should handle inheritance correctly', () => {
       const connectionError = new CacheConnectionError('Failed', CacheProvider.REDIS);
       const timeoutError = new CacheTimeoutError('Timeout', CacheProvider.REDIS, 5000);
@@ -0,0 +1,223 @@
+/**
+ * Unit tests for failover cache provider
+ */
+
+import { FailoverCacheProvider } from '../../../src/cache/failover';
+import { CacheProvider } from '../../../src/cache/types';
+import { CacheConnectionError, CacheValidationError } from '../../../src/cache/errors';
+import { noopLogger } from '../../../src/logger';
+
+function createMockProvider(name: CacheProvider) {
+  return {
+    name,
+    get: jest.fn().mockResolvedValue({ success: true, key: 'key', found: true, value: name, provider: name }),
+    set: jest.fn().mockResolvedValue({ success: true, key: 'key', provider: name, timestamp: new Date() }),
+    add: jest.fn().mockResolvedValue({ success: true, key: 'key', added: true, provider: name, timestamp: new Date() }),
+    delete: jest.fn().mockResolvedValue({ success: true, key: 'key', provider: name, timestamp: new Date() }),
+    has: jest.fn().mockResolvedValue({ success: true, key: 'key', exists: true, provider: name }),
+    getMany: jest.fn().mockResolvedValue([{ success: true, key: 'key', found: true, value: name, provider: name }]),
+    setMany: jest.fn().mockResolvedValue([{ success: true, key: 'key', provider: name, timestamp: new Date() }]),
+    deleteMany: jest.fn().mockResolvedValue([{ success: true, key: 'key', provider: name, timestamp: new Date() }]),
+    increment: jest.fn().mockResolvedValue({ success: true, key: 'key', value: 1, provider: name, timestamp: new Date() }),
+    decrement: jest.fn().mockResolvedValue({ success: true, key: 'key', value: 0, provider: name, timestamp: new Date() }),
+    compareAndSet: jest.fn().mockResolvedValue({ success: true, key: 'key', swapped: true, provider: name, timestamp: new Date() }),
+    invalidateTags: jest.fn().mockResolvedValue({ success: true, tags: ['tag'], invalidated: 1, provider: name, timestamp: new Date() }),
+    extendLock: jest.fn().mockResolvedValue({ success: true, key: 'lock', owned: true, provider: name, timestamp: new Date() }),
+    releaseLock: jest.fn().mockResolvedValue({ success: true, key: 'lock', owned: true, provider: name, timestamp: new Date() }),
+    rateLimit: jest.fn().mockResolvedValue({ success: true, key: 'limit', allowed: true, limit: 10, remaining: 9, resetAt: new Date(), provider: name, timestamp: new Date() }),
+    scan: jest.fn().mockResolvedValue({ success: true, keys: [], provider: name, timestamp: new Date() }),
+    ttl: jest.fn().mockResolvedValue({ success: true, key: 'key', exists: true, expiresIn: 1000, provider: name, timestamp: new Date() }),
+    expire: jest.fn().mockResolvedValue({ success: true, key: 'key', exists: true, provider: name, timestamp: new Date() }),
+    touch: jest.fn().mockResolvedValue({ success: true, key: 'key', exists: true, provider: name, timestamp: new Date() }),
+    hashGet: jest.fn().mockResolvedValue({ success: true, key: 'key', fields: { field: name }, provider: name, timestamp: new Date() }),
+    hashSet: jest.fn().mockResolvedValue({ success: true, key: 'key', count: 1, provider: name, timestamp: new Date() }),
+    listPush: jest.fn().mockResolvedValue({ success: true, key: 'key', count: 1, provider: name, timestamp: new Date() }),
+    listPop: jest.fn().mockResolvedValue({ success: true, key: 'key', values: [name], provider: name, timestamp: new Date() }),
+    listRange: jest.fn().mockResolvedValue({ success: true, key: 'key', values: [name], provider: name, timestamp: new Date() }),
+    setAdd: jest.fn().mockResolvedValue({ success: true, key: 'key', count: 1, provider: name, timestamp: new Date() }),
+    setMembers: jest.fn().mockResolvedValue({ success: true, key: 'key', members: [name], provider: name, timestamp: new Date() }),
+    sortedSetAdd: jest.fn().mockResolvedValue({ success: true, key: 'key', count: 1, provider: name, timestamp: new Date() }),
+    sortedSetRange: jest.fn().mockResolvedValue({ success: true, key: 'key', members: [{ member: name, score: 1 }], provider: name, timestamp: new Date() }),
+    publish: jest.fn().mockResolvedValue({ success: true, channel: 'channel', receivers: 1, provider: name, timestamp: new Date() }),
+    subscribe: jest.fn().mockResolvedValue({ channel: 'channel', unsubscribe: jest.fn() }),
+    clear: jest.fn().mockResolvedValue({ success: true, provider: name, timestamp: new Date() }),
+    health: jest.fn().mockResolvedValue({ provider: name, status: 'healthy', responseTime: 1, timestamp: new Date() }),
+    close: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('FailoverCacheProvider', () => {
+  let primary: ReturnType<typeof createMockProvider>;
+  let backup: ReturnType<typeof createMockProvider>;
+  let provider: FailoverCacheProvider;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    primary = createMockProvider(CacheProvider.REDIS);
+    backup = createMockProvider(CacheProvider.MEMCACHED);
+    provider = new FailoverCacheProvider(primary, [backup], { healthCheckInterval: 1000 }, noopLogger);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should use the primary provider while it is reachable', async () => {
+    const result = await provider.get({ key: 'key' });
+
+    expect(result.provider).toBe(CacheProvider.REDIS);
+    expect(backup.get).not.toHaveBeenCalled();
+    expect(provider.name).toBe(CacheProvider.REDIS);
+  });
+
+  it('should fail over to the backup on connection errors', async () => {
+    primary.set.mockRejectedValue(new CacheConnectionError('Failed to connect to Redis', CacheProvider.REDIS));
+
+    const result = await provider.set({ key: 'key', value: 'value' });
+
+    expect(result.provider).toBe(CacheProvider.MEMCACHED);
+    expect(backup.set).toHaveBeenCalledWith({ key: 'key', value: 'value' });
+    expect(provider.name).toBe(CacheProvider.MEMCACHED);
+  });
+
+  it('should fail over batch operations', async () => {
+    primary.getMany.mockRejectedValue(new CacheConnectionError('Failed to connect to Redis', CacheProvider.REDIS));
+
+    const results = await provider.getMany({ keys: ['key'] });
+
+    expect(results[0].provider).toBe(CacheProvider.MEMCACHED);
+    expect(backup.getMany).toHaveBeenCalledWith({ keys: ['key'] });
+  });
+
+  it('should fail over data structure operations', async () => {
+    primary.sortedSetRange.mockRejectedValue(new CacheConnectionError('Failed to connect to Redis', CacheProvider.REDIS));
+
+    const result = await provider.sortedSetRange({ key: 'board' });
+
+    expect(result.members).toEqual([{ member: CacheProvider.MEMCACHED, score: 1 }]);
+  });
+
+  it('should publish and subscribe through the active provider', async () => {
+    primary.publish.mockRejectedValue(new CacheConnectionError('Failed to connect to Redis', CacheProvider.REDIS));
+    const listener = jest.fn();
+
+    const result = await provider.publish({ channel: 'orders', message: 'shipped' });
+    await provider.subscribe({ channel: 'orders', listener });
+
+    expect(result.provider).toBe(CacheProvider.MEMCACHED);
+    expect(backup.subscribe).toHaveBeenCalledWith({ channel: 'orders', listener });
+  });
+
+  it('should skip the primary while its circuit is open', async () => {
+    primary.get.mockRejectedValueOnce(new CacheConnectionError('Failed to connect to Redis', CacheProvider.REDIS));
+
+    await provider.get({ key: 'key' });
+    await provider.get({ key: 'key' });
+
+    expect(primary.get).toHaveBeenCalledTimes(1);
+    expect(backup.get).toHaveBeenCalledTimes(2);
+    expect(primary.health).not.toHaveBeenCalled();
+  });
+
+  it('should return to the primary once its health recovers', async () => {
+    primary.get.mockRejectedValueOnce(new CacheConnectionError('Failed to connect to Redis', CacheProvider.REDIS));
+    primary.health.mockResolvedValueOnce({ provider: CacheProvider.REDIS, status: 'unhealthy', timestamp: new Date() });
+
+    await provider.get({ key: 'key' });
+
+    jest.setSystemTime(1000);
+    const whileUnhealthy = await provider.get({ key: 'key' });
+    expect(whileUnhealthy.provider).toBe(CacheProvider.MEMCACHED);
+
+    jest.setSystemTime(2000);
+    const afterRecovery = await provider.get({ key: 'key' });
+    expect(afterRecovery.provider).toBe(CacheProvider.REDIS);
+    expect(primary.health).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail over when the primary returns a connection failure', async () => {
+    const failure = { success: false, key: 'key', found: false, provider: CacheProvider.MEMCACHED, error: 'connect ECONNREFUSED 127.0.0.1:11211', retryable: true };
+    primary.get.mockResolvedValue(failure);
+
+    const result = await provider.get({ key: 'key' });
+
+    expect(result.provider).toBe(CacheProvider.MEMCACHED);
+    expect(result.success).toBe(true);
+    expect(provider.name).toBe(CacheProvider.MEMCACHED);
+
+    backup.get.mockResolvedValue({ ...failure, error: 'connect ECONNREFUSED 127.0.0.2:11211' });
+    expect(await provider.get({ key: 'key' })).toMatchObject({ success: false, retryable: true });
+  });
+
+  it('should fail over batch results only when every entry failed retryably', async () => {
+    const failure = (retryable: boolean) => ({ success: false, key: 'key', found: false, provider: CacheProvider.REDIS, error: 'failed', retryable });
+    primary.getMany.mockResolvedValueOnce([failure(true), { success: true, key: 'other', found: true, value: 1, provider: CacheProvider.REDIS }]);
+
+    await provider.getMany({ keys: ['key', 'other'] });
+    expect(backup.getMany).not.toHaveBeenCalled();
+
+    primary.getMany.mockResolvedValueOnce([failure(true), failure(true)]);
+    const results = await provider.getMany({ keys: ['key', 'other'] });
+    expect(results[0].provider).toBe(CacheProvider.MEMCACHED);
+  });
+
+  it('should return non-retryable failed results without failing over', async () => {
+    primary.set.mockResolvedValue({ success: false, key: 'key', provider: CacheProvider.REDIS, timestamp: new Date(), error: 'WRONGTYPE', retryable: false });
+
+    const result = await provider.set({ key: 'key', value: 'value' });
+
+    expect(result.error).toBe('WRONGTYPE');
+    expect(backup.set).not.toHaveBeenCalled();
+  });
+
+  it('should rethrow non-retryable errors without failing over', async () => {
+    primary.get.mockRejectedValue(new CacheValidationError('Cache key is required and must be a string', 'key'));
+
+    await expect(provider.get({ key: '' })).rejects.toThrow(CacheValidationError);
+    expect(backup.get).not.toHaveBeenCalled();
+  });
+
+  it('should throw when every provider is unreachable', async () => {
+    primary.get.mockRejectedValue(new CacheConnectionError('Failed to connect to Redis', CacheProvider.REDIS));
+    backup.get.mockRejectedValue(new CacheConnectionError('Failed to connect to Memcached', CacheProvider.MEMCACHED));
+
+    await expect(provider.get({ key: 'key' })).rejects.toThrow(
+      'All cache providers failed. Errors: redis: Failed to connect to Redis; memcached: Failed to connect to Memcached'
+    );
+  });
+
+  describe('health', () => {
+    it('should report every provider and close recovered circuits', async () => {
+      primary.get.mockRejectedValueOnce(new CacheConnectionError('Failed to connect to Redis', CacheProvider.REDIS));
+      await provider.get({ key: 'key' });
+
+      const health = await provider.health();
+
+      expect(health.status).toBe('healthy');
+      expect(health.provider).toBe(CacheProvider.REDIS);
+      expect(health.details?.primary.provider).toBe(CacheProvider.REDIS);
+      expect(health.details?.backups).toHaveLength(1);
+      expect(health.details?.openCircuits).toEqual([]);
+      expect(provider.name).toBe(CacheProvider.REDIS);
+    });
+
+    it('should list open circuits for unhealthy providers', async () => {
+      primary.get.mockRejectedValueOnce(new CacheConnectionError('Failed to connect to Redis', CacheProvider.REDIS));
+      primary.health.mockResolvedValue({ provider: CacheProvider.REDIS, status: 'unhealthy', timestamp: new Date() });
+      await provider.get({ key: 'key' });
+
+      const health = await provider.health();
+
+      expect(health.status).toBe('healthy');
+      expect(health.details?.active).toBe(CacheProvider.MEMCACHED);
+      expect(health.details?.openCircuits).toEqual([CacheProvider.REDIS]);
+    });
+  });
+
+  it('should close every provider', async () => {
+    await provider.close();
+
+    expect(primary.close).toHaveBeenCalled();
+    expect(backup.close).toHaveBeenCalled();
+  });
+});
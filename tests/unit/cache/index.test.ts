@@ -11,6 +11,21 @@ describe('Cache Index', () => {
     expect(cacheModule.CacheProvider).toBeDefined();
     expect(cacheModule.RedisProvider).toBeDefined();
     expect(cacheModule.MemcachedProvider).toBeDefined();
+    expect(cacheModule.MemoryProvider).toBeDefined();
+    expect(cacheModule.TieredCacheProvider).toBeDefined();
+    expect(cacheModule.FailoverCacheProvider).toBeDefined();
+    expect(cacheModule.CacheMetrics).toBeDefined();
+    expect(cacheModule.MetricsCacheProvider).toBeDefined();
+    expect(cacheModule.SizeLimitCacheProvider).toBeDefined();
+    expect(cacheModule.CacheInvalidationBroadcaster).toBeDefined();
+    expect(cacheModule.JsonSerializer).toBeDefined();
+    expect(cacheModule.MessagePackSerializer).toBeDefined();
+    expect(cacheModule.CompressedSerializer).toBeDefined();
+    expect(cacheModule.CacheLock).toBeDefined();
+    expect(cacheModule.RateLimiter).toBeDefined();
+    expect(cacheModule.memoize).toBeDefined();
+    expect(cacheModule.Memoize).toBeDefined();
+    expect(cacheModule.CacheNamespace).toBeDefined();
     expect(cacheModule.CacheError).toBeDefined();
     expect(cacheModule.CacheValidationError).toBeDefined();
     expect(cacheModule.CacheProviderError).toBeDefined();
@@ -30,6 +45,21 @@ describe('Cache Index', () => {
       'CacheProvider',
       'RedisProvider',
       'MemcachedProvider',
+      'MemoryProvider',
+      'TieredCacheProvider',
+      'FailoverCacheProvider',
+      'CacheMetrics',
+      'MetricsCacheProvider',
+      'SizeLimitCacheProvider',
+      'CacheInvalidationBroadcaster',
+      'JsonSerializer',
+      'MessagePackSerializer',
+      'CompressedSerializer',
+      'CacheLock',
+      'RateLimiter',
+      'memoize',
+      'Memoize',
+      'CacheNamespace',
       'CacheError',
       'CacheValidationError',
       'CacheProviderError',
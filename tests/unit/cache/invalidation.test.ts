@@ -0,0 +1,98 @@
+/**
+ * Unit tests for local tier invalidation broadcasting
+ */
+
+import { CacheInvalidationBroadcaster } from '../../../src/cache/invalidation';
+import { MemoryProvider } from '../../../src/cache/adapters/memory';
+import { CacheProvider } from '../../../src/cache/types';
+import { CacheNotSupportedError, CacheValidationError } from '../../../src/cache/errors';
+import { noopLogger } from '../../../src/logger';
+
+describe('CacheInvalidationBroadcaster', () => {
+  let bus: MemoryProvider;
+
+  beforeEach(() => {
+    bus = new MemoryProvider({ cleanupInterval: 0 }, noopLogger);
+  });
+
+  afterEach(async () => {
+    await bus.close();
+  });
+
+  it('should deliver events to other broadcasters only', async () => {
+    const first = new CacheInvalidationBroadcaster(bus, {}, noopLogger);
+    const second = new CacheInvalidationBroadcaster(bus, {}, noopLogger);
+    const firstHandler = jest.fn();
+    const secondHandler = jest.fn();
+    await first.listen(firstHandler);
+    await second.listen(secondHandler);
+
+    await first.publish({ keys: ['user:1', 'user:2'] });
+    await second.publish({ clear: true });
+
+    expect(firstHandler).toHaveBeenCalledTimes(1);
+    expect(firstHandler).toHaveBeenCalledWith({ keys: undefined, clear: true });
+    expect(secondHandler).toHaveBeenCalledTimes(1);
+    expect(secondHandler).toHaveBeenCalledWith({ keys: ['user:1', 'user:2'], clear: undefined });
+  });
+
+  it('should use the configured channel', async () => {
+    const publish = jest.spyOn(bus, 'publish');
+    const broadcaster = new CacheInvalidationBroadcaster(bus, { channel: 'myapp:invalidation' }, noopLogger);
+
+    await broadcaster.publish({ keys: ['user:1'] });
+
+    expect(broadcaster.channel).toBe('myapp:invalidation');
+    expect(publish).toHaveBeenCalledWith({ channel: 'myapp:invalidation', message: expect.stringContaining('"user:1"') });
+    expect(new CacheInvalidationBroadcaster(bus, {}, noopLogger).channel).toBe('basepack:cache:invalidation');
+  });
+
+  it('should not publish empty events', async () => {
+    const publish = jest.spyOn(bus, 'publish');
+    const broadcaster = new CacheInvalidationBroadcaster(bus, {}, noopLogger);
+
+    await broadcaster.publish({ keys: [] });
+
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('should skip malformed messages', async () => {
+    const broadcaster = new CacheInvalidationBroadcaster(bus, {}, noopLogger);
+    const handler = jest.fn();
+    await broadcaster.listen(handler);
+
+    await bus.publish({ channel: broadcaster.channel, message: 'not json' });
+    await bus.publish({ channel: broadcaster.channel, message: JSON.stringify({ source: 'other', keys: [1] }) });
+    await bus.publish({ channel: broadcaster.channel, message: JSON.stringify({ source: 'other', keys: ['user:1'] }) });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ keys: ['user:1'], clear: undefined });
+  });
+
+  it('should stop publishing when the provider has no pub/sub', async () => {
+    const logger = { ...noopLogger, error: jest.fn() };
+    const provider = {
+      publish: jest.fn().mockRejectedValue(new CacheNotSupportedError('Memcached does not support pub/sub', CacheProvider.MEMCACHED, 'publish')),
+      subscribe: jest.fn().mockRejectedValue(new CacheNotSupportedError('Memcached does not support pub/sub', CacheProvider.MEMCACHED, 'subscribe')),
+    };
+    const broadcaster = new CacheInvalidationBroadcaster(provider as any, {}, logger);
+
+    expect(await broadcaster.listen(jest.fn())).toBeUndefined();
+    await broadcaster.publish({ keys: ['user:1'] });
+
+    expect(provider.publish).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledWith('Basepack Cache: Invalidation subscribe failed', expect.anything());
+  });
+
+  it('should not throw when publishing fails', async () => {
+    jest.spyOn(bus, 'publish').mockRejectedValue(new Error('Connection lost'));
+    const broadcaster = new CacheInvalidationBroadcaster(bus, {}, noopLogger);
+
+    await expect(broadcaster.publish({ clear: true })).resolves.toBeUndefined();
+  });
+
+  it('should reject an invalid channel', () => {
+    expect(() => new CacheInvalidationBroadcaster(bus, { channel: '' }, noopLogger)).toThrow(CacheValidationError);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Unit tests for cache memoization
+ */
+
+import { memoize, Memoize, MemoizedFunction } from '../../../src/cache/memoize';
+import { CacheService } from '../../../src/cache/service';
+import { CacheProvider } from '../../../src/cache/types';
+import { CacheConnectionError } from '../../../src/cache/errors';
+import { noopLogger } from '../../../src/logger';
+
+describe('memoize', () => {
+  let cache: CacheService;
+
+  beforeEach(() => {
+    cache = new CacheService({
+      provider: CacheProvider.MEMORY,
+      config: { cleanupInterval: 0 },
+      logger: noopLogger,
+    });
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('should call the function once and serve later calls from the cache', async () => {
+    const fn = jest.fn(async (id: string) => ({ id, name: 'John' }));
+    const getUser = memoize(fn, { cache, ttl: 60, namespace: 'users' });
+
+    const first = await getUser('123');
+    const second = await getUser('123');
+
+    expect(first).toEqual({ id: '123', name: 'John' });
+    expect(second).toEqual(first);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect((await cache.ttl({ key: getUser.key('123') })).expiresIn).toBeGreaterThan(59000);
+  });
+
+  it('should cache different arguments separately', async () => {
+    const fn = jest.fn(async (a: number, b: number) => a + b);
+    const add = memoize(fn, { cache, namespace: 'add' });
+
+    expect(await add(1, 2)).toBe(3);
+    expect(await add(2, 1)).toBe(3);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should build the same key regardless of object key order', () => {
+    const search = memoize(async (query: object) => query, { cache, namespace: 'search' });
+
+    expect(search.key({ term: 'shoes', page: 1, filters: { size: 9, color: 'red' } }))
+      .toBe(search.key({ filters: { color: 'red', size: 9 }, page: 1, term: 'shoes' }));
+    expect(search.key({ term: 'shoes' })).not.toBe(search.key({ term: 'boots' }));
+    expect(search.key({ term: 'shoes' })).toMatch(/^search:[0-9a-f]{64}$/);
+  });
+
+  it('should distinguish argument types in keys', () => {
+    const fn = memoize(async (...args: unknown[]) => args, { cache, namespace: 'types' });
+
+    expect(fn.key('1')).not.toBe(fn.key(1));
+    expect(fn.key(new Date(0))).toBe(fn.key(new Date(0)));
+    expect(fn.key(new Date(0))).not.toBe(fn.key(new Date(1)));
+    expect(fn.key(new Set(['a', 'b']))).toBe(fn.key(new Set(['b', 'a'])));
+    expect(fn.key(new Map([['a', 1]]))).not.toBe(fn.key({ a: 1 }));
+  });
+
+  it('should reject arguments that cannot be serialized', () => {
+    const fn = memoize(async (...args: unknown[]) => args, { cache, namespace: 'invalid' });
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => fn.key(() => 1)).toThrow(expect.objectContaining({ field: 'args' }));
+    expect(() => fn.key(circular)).toThrow(expect.objectContaining({ field: 'args' }));
+  });
+
+  it('should use keyFn and default the namespace to the function name', async () => {
+    async function loadProduct(id: string, locale: string) {
+      return { id, locale };
+    }
+    const getProduct = memoize(loadProduct, { cache, keyFn: (id, locale) => `${locale}:${id}` });
+
+    await getProduct('p1', 'en');
+
+    expect(getProduct.key('p1', 'en')).toBe('memoize:loadProduct:en:p1');
+    expect((await cache.get({ key: 'memoize:loadProduct:en:p1' })).value).toEqual({ id: 'p1', locale: 'en' });
+  });
+
+  it('should invalidate a memoized call', async () => {
+    let version = 0;
+    const getVersion = memoize(async (id: string) => `${id}:${++version}`, { cache, namespace: 'version' });
+
+    expect(await getVersion('a')).toBe('a:1');
+    expect(await getVersion('a')).toBe('a:1');
+
+    const result = await getVersion.invalidate('a');
+
+    expect(result.success).toBe(true);
+    expect(await getVersion('a')).toBe('a:2');
+  });
+
+  it('should share one call between concurrent callers', async () => {
+    let resolve!: (value: string) => void;
+    const fn = jest.fn(() => new Promise<string>(r => { resolve = r; }));
+    const load = memoize(fn, { cache, namespace: 'pending' });
+
+    const first = load();
+    const second = load();
+    await new Promise(setImmediate);
+    resolve('done');
+
+    expect(await Promise.all([first, second])).toEqual(['done', 'done']);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache undefined results or errors', async () => {
+    const fn = jest.fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce('value');
+    const load = memoize(fn, { cache, namespace: 'flaky' });
+
+    expect(await load()).toBeUndefined();
+    await expect(load()).rejects.toThrow('boom');
+    expect(await load()).toBe('value');
+    expect(await load()).toBe('value');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should call the function when the cache fails', async () => {
+    jest.spyOn(cache, 'get').mockRejectedValue(new CacheConnectionError('down', CacheProvider.MEMORY));
+    jest.spyOn(cache, 'set').mockRejectedValue(new CacheConnectionError('down', CacheProvider.MEMORY));
+    const fn = jest.fn(async () => 'value');
+    const load = memoize(fn, { cache, namespace: 'outage' });
+
+    expect(await load()).toBe('value');
+    expect(await load()).toBe('value');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should resolve the cache lazily', async () => {
+    let current: CacheService | undefined;
+    const load = memoize(async () => 'value', { cache: () => current!, namespace: 'lazy' });
+
+    current = cache;
+
+    expect(await load()).toBe('value');
+    expect((await cache.get({ key: load.key() })).found).toBe(true);
+  });
+
+  it('should pass this through', async () => {
+    const counter = {
+      prefix: 'item',
+      load: memoize(async function (this: { prefix: string }, id: string) {
+        return `${this.prefix}:${id}`;
+      }, { cache, namespace: 'this' }),
+    };
+
+    expect(await counter.load('1')).toBe('item:1');
+  });
+
+  it('should validate options', () => {
+    expect(() => memoize(async () => 1, { cache })).toThrow(expect.objectContaining({ field: 'namespace' }));
+    expect(() => memoize(async () => 1, { cache, namespace: ' ' })).toThrow(expect.objectContaining({ field: 'namespace' }));
+    expect(() => memoize(async () => 1, { cache, namespace: 'ttl', ttl: 0 })).toThrow(expect.objectContaining({ field: 'ttl' }));
+  });
+
+  describe('Memoize decorator', () => {
+    it('should memoize a class method', async () => {
+      const loads: string[] = [];
+
+      class UserService {
+        constructor(private readonly source: string) {}
+
+        @Memoize({ cache: () => cache, ttl: 60, namespace: 'users' })
+        async getUser(id: string): Promise<string> {
+          loads.push(id);
+          return `${this.source}:${id}`;
+        }
+      }
+
+      const service = new UserService('db');
+
+      expect(await service.getUser('1')).toBe('db:1');
+      expect(await service.getUser('1')).toBe('db:1');
+      expect(loads).toEqual(['1']);
+
+      const getUser = service.getUser as MemoizedFunction<[string], string>;
+      expect(getUser.key('1')).toMatch(/^users:/);
+
+      await getUser.invalidate('1');
+      await service.getUser('1');
+      expect(loads).toEqual(['1', '1']);
+    });
+
+    it('should use the configured namespace', async () => {
+      class ProductService {
+        @Memoize({ cache: () => cache, namespace: 'products', keyFn: (id: string) => id })
+        async getProduct(id: string): Promise<string> {
+          return id;
+        }
+      }
+
+      await new ProductService().getProduct('p1');
+
+      expect((await cache.get({ key: 'products:p1' })).value).toBe('p1');
+    });
+
+    it('should require a namespace', () => {
+      expect(() => Memoize({ cache: () => cache } as any)).toThrow(expect.objectContaining({ field: 'namespace' }));
+    });
+  });
+});
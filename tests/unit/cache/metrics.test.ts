@@ -0,0 +1,142 @@
+/**
+ * Unit tests for cache metrics
+ */
+
+import { CacheMetrics, MetricsCacheProvider } from '../../../src/cache/metrics';
+import { MemoryProvider } from '../../../src/cache/adapters/memory';
+import { CacheProvider, type CacheOperationEvent } from '../../../src/cache/types';
+import { CacheNotSupportedError } from '../../../src/cache/errors';
+import { noopLogger } from '../../../src/logger';
+
+const event = (overrides: Partial<CacheOperationEvent> = {}): CacheOperationEvent => ({
+  operation: 'get',
+  provider: CacheProvider.REDIS,
+  duration: 1,
+  success: true,
+  timestamp: new Date(),
+  ...overrides,
+});
+
+describe('CacheMetrics', () => {
+  it('should aggregate counters per operation and provider', () => {
+    const metrics = new CacheMetrics({}, noopLogger);
+
+    metrics.record(event({ hits: 1, misses: 0 }));
+    metrics.record(event({ hits: 0, misses: 1 }));
+    metrics.record(event({ provider: CacheProvider.MEMORY, hits: 1, misses: 0 }));
+    metrics.record(event({ operation: 'set', success: false, error: 'OOM' }));
+
+    const stats = metrics.stats();
+
+    expect(stats).toMatchObject({ calls: 4, hits: 2, misses: 1, errors: 1 });
+    expect(stats.hitRate).toBeCloseTo(2 / 3);
+    expect(stats.operations.get).toMatchObject({ calls: 3, hits: 2, misses: 1, errors: 0 });
+    expect(stats.providers.redis).toMatchObject({ calls: 3, hits: 1, misses: 1, errors: 1, hitRate: 0.5 });
+    expect(stats.providers.memory).toMatchObject({ calls: 1, hitRate: 1 });
+  });
+
+  it('should compute latency percentiles', () => {
+    const metrics = new CacheMetrics({}, noopLogger);
+
+    for (let duration = 1; duration <= 100; duration++) {
+      metrics.record(event({ duration }));
+    }
+
+    expect(metrics.stats().operations.get.latency).toEqual({
+      count: 100, min: 1, max: 100, mean: 50.5, p50: 50, p90: 90, p95: 95, p99: 99,
+    });
+  });
+
+  it('should keep only the most recent samples', () => {
+    const metrics = new CacheMetrics({ maxSamples: 3 }, noopLogger);
+
+    [1, 2, 3, 4, 5].forEach(duration => metrics.record(event({ duration })));
+
+    const stats = metrics.stats().operations.get;
+    expect(stats.calls).toBe(5);
+    expect(stats.latency).toMatchObject({ count: 3, min: 3, max: 5 });
+  });
+
+  it('should call the hook and survive hook errors', () => {
+    const logger = { ...noopLogger, warn: jest.fn() };
+    const metrics = new CacheMetrics({ onOperation: () => { throw new Error('statsd down'); } }, logger);
+
+    expect(() => metrics.record(event())).not.toThrow();
+    expect(logger.warn).toHaveBeenCalledWith('Basepack Cache: Metrics hook failed', expect.objectContaining({ operation: 'get' }));
+    expect(metrics.stats().calls).toBe(1);
+  });
+
+  it('should reset', () => {
+    const metrics = new CacheMetrics({}, noopLogger);
+    metrics.record(event());
+
+    metrics.reset();
+
+    expect(metrics.stats()).toMatchObject({ calls: 0, hitRate: 0, operations: {}, providers: {} });
+  });
+
+  it('should validate maxSamples', () => {
+    expect(() => new CacheMetrics({ maxSamples: 0 })).toThrow(expect.objectContaining({ field: 'maxSamples' }));
+  });
+});
+
+describe('MetricsCacheProvider', () => {
+  let memory: MemoryProvider;
+  let events: CacheOperationEvent[];
+  let metrics: CacheMetrics;
+  let provider: MetricsCacheProvider;
+
+  beforeEach(() => {
+    memory = new MemoryProvider({ cleanupInterval: 0 }, noopLogger);
+    events = [];
+    metrics = new CacheMetrics({ onOperation: e => events.push(e) }, noopLogger);
+    provider = new MetricsCacheProvider(memory, metrics);
+  });
+
+  afterEach(async () => {
+    await provider.close();
+  });
+
+  it('should record hits and misses for get and getMany', async () => {
+    await provider.set({ key: 'a', value: 1 });
+    await provider.get({ key: 'a' });
+    await provider.get({ key: 'missing' });
+    await provider.getMany({ keys: ['a', 'b', 'c'] });
+
+    expect(events.map(e => [e.operation, e.hits, e.misses])).toEqual([
+      ['set', undefined, undefined],
+      ['get', 1, 0],
+      ['get', 0, 1],
+      ['getMany', 1, 2],
+    ]);
+    expect(events.every(e => e.provider === CacheProvider.MEMORY && e.duration >= 0)).toBe(true);
+    expect(metrics.stats()).toMatchObject({ hits: 2, misses: 3 });
+  });
+
+  it('should record thrown errors and rethrow them', async () => {
+    jest.spyOn(memory, 'scan').mockRejectedValueOnce(
+      new CacheNotSupportedError('Scan not supported', CacheProvider.MEMORY, 'scan')
+    );
+
+    await expect(provider.scan({})).rejects.toThrow('Scan not supported');
+
+    expect(events[0]).toMatchObject({ operation: 'scan', success: false, error: 'Scan not supported' });
+  });
+
+  it('should record publish but not subscribe', async () => {
+    const listener = jest.fn();
+    await provider.subscribe({ channel: 'orders', listener });
+    await provider.publish({ channel: 'orders', message: 'shipped' });
+
+    expect(listener).toHaveBeenCalledWith('shipped', 'orders');
+    expect(events.map(e => e.operation)).toEqual(['publish']);
+  });
+
+  it('should pass health and close through without recording', async () => {
+    const health = await provider.health();
+
+    expect(health.provider).toBe(CacheProvider.MEMORY);
+    expect(provider.name).toBe(CacheProvider.MEMORY);
+    expect(events).toHaveLength(0);
+  });
+});
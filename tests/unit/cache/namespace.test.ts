@@ -0,0 +1,180 @@
+/**
+ * Unit tests for namespaced cache views
+ */
+
+import { CacheNamespace } from '../../../src/cache/namespace';
+import { CacheService } from '../../../src/cache/service';
+import { CacheProvider } from '../../../src/cache/types';
+import { noopLogger } from '../../../src/logger';
+
+describe('CacheNamespace', () => {
+  let cache: CacheService;
+
+  beforeEach(() => {
+    cache = new CacheService({
+      provider: CacheProvider.MEMORY,
+      config: { cleanupInterval: 0 },
+      logger: noopLogger,
+    });
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('should store keys under the namespace prefix', async () => {
+    const sessions = cache.namespace('sessions');
+
+    const result = await sessions.set({ key: 'abc', value: { userId: 42 } });
+
+    expect(sessions).toBeInstanceOf(CacheNamespace);
+    expect(sessions.name).toBe('sessions');
+    expect(result.key).toBe('abc');
+    expect((await cache.get({ key: 'sessions:abc' })).value).toEqual({ userId: 42 });
+
+    const read = await sessions.get({ key: 'abc' });
+    expect(read).toMatchObject({ found: true, key: 'abc', value: { userId: 42 } });
+    expect((await sessions.has({ key: 'abc' })).exists).toBe(true);
+  });
+
+  it('should keep namespaces isolated', async () => {
+    const sessions = cache.namespace('sessions');
+    const carts = cache.namespace('carts');
+
+    await sessions.set({ key: 'abc', value: 'session' });
+    await carts.set({ key: 'abc', value: 'cart' });
+
+    expect((await sessions.get({ key: 'abc' })).value).toBe('session');
+    expect((await carts.get({ key: 'abc' })).value).toBe('cart');
+  });
+
+  it('should apply the default TTL to writes without their own', async () => {
+    const sessions = cache.namespace('sessions', { defaultTtl: 60 });
+
+    await sessions.set({ key: 'default', value: 1 });
+    await sessions.set({ key: 'explicit', value: 1, ttl: 600 });
+    await sessions.setMany({ entries: [{ key: 'batch', value: 1 }] });
+    await sessions.increment({ key: 'counter' });
+    await sessions.getOrSet({ key: 'loaded', loader: () => 1 });
+
+    expect((await sessions.ttl({ key: 'default' })).expiresIn).toBeLessThanOrEqual(60000);
+    expect((await sessions.ttl({ key: 'explicit' })).expiresIn).toBeGreaterThan(60000);
+    expect((await sessions.ttl({ key: 'batch' })).expiresIn).toBeLessThanOrEqual(60000);
+    expect((await sessions.ttl({ key: 'counter' })).expiresIn).toBeLessThanOrEqual(60000);
+    expect((await sessions.ttl({ key: 'loaded' })).expiresIn).toBeLessThanOrEqual(60000);
+    expect((await cache.ttl({ key: 'sessions:default' })).expiresIn).toBeGreaterThan(0);
+  });
+
+  it('should map batch results back to namespace keys', async () => {
+    const users = cache.namespace('users');
+
+    const stored = await users.setMany({ entries: [{ key: '1', value: 'a' }, { key: '2', value: 'b' }] });
+    const read = await users.getMany({ keys: ['1', '2', '3'] });
+    const deleted = await users.deleteMany({ keys: ['1', '3'] });
+
+    expect(stored.map(result => result.key)).toEqual(['1', '2']);
+    expect(read.map(result => [result.key, result.value])).toEqual([['1', 'a'], ['2', 'b'], ['3', undefined]]);
+    expect(deleted.map(result => result.key)).toEqual(['1', '3']);
+    expect((await cache.has({ key: 'users:2' })).exists).toBe(true);
+  });
+
+  it('should clear only its own keys', async () => {
+    const sessions = cache.namespace('sessions');
+    await sessions.set({ key: 'abc', value: 1 });
+    await sessions.set({ key: 'def', value: 2 });
+    await cache.set({ key: 'sessionsx', value: 3 });
+    await cache.set({ key: 'carts:abc', value: 4 });
+
+    const result = await sessions.clear();
+
+    expect(result.success).toBe(true);
+    expect((await sessions.has({ key: 'abc' })).exists).toBe(false);
+    expect((await sessions.has({ key: 'def' })).exists).toBe(false);
+    expect((await cache.has({ key: 'sessionsx' })).exists).toBe(true);
+    expect((await cache.has({ key: 'carts:abc' })).exists).toBe(true);
+  });
+
+  it('should match glob characters in the name literally when clearing', async () => {
+    const odd = cache.namespace('a*');
+    await odd.set({ key: 'x', value: 1 });
+    await cache.set({ key: 'ab:x', value: 2 });
+
+    await odd.clear();
+
+    expect((await odd.has({ key: 'x' })).exists).toBe(false);
+    expect((await cache.has({ key: 'ab:x' })).exists).toBe(true);
+  });
+
+  describe('versioned', () => {
+    it('should clear by switching to a new version', async () => {
+      const deleteByPattern = jest.spyOn(cache, 'deleteByPattern');
+      const sessions = cache.namespace('sessions', { versioned: true });
+      await sessions.set({ key: 'abc', value: 1 });
+      await cache.set({ key: 'carts:abc', value: 2 });
+
+      const version = (await cache.get({ key: 'sessions:__version' })).value;
+      expect((await cache.get({ key: `sessions:${version}:abc` })).value).toBe(1);
+
+      const result = await sessions.clear();
+
+      expect(result.success).toBe(true);
+      expect(deleteByPattern).not.toHaveBeenCalled();
+      expect((await sessions.get({ key: 'abc' })).found).toBe(false);
+      expect((await cache.get({ key: 'sessions:__version' })).value).not.toBe(version);
+      expect((await cache.has({ key: 'carts:abc' })).exists).toBe(true);
+
+      await sessions.set({ key: 'abc', value: 3 });
+      expect((await sessions.get({ key: 'abc' })).value).toBe(3);
+    });
+
+    it('should share the version between views of the same namespace', async () => {
+      jest.useFakeTimers();
+      const first = cache.namespace('sessions', { versioned: true, versionTtl: 10 });
+      const second = cache.namespace('sessions', { versioned: true });
+
+      await first.set({ key: 'abc', value: 1 });
+      expect((await second.get({ key: 'abc' })).value).toBe(1);
+
+      await second.clear();
+      expect((await second.get({ key: 'abc' })).found).toBe(false);
+      expect((await first.get({ key: 'abc' })).found).toBe(true);
+
+      jest.advanceTimersByTime(10000);
+      expect((await first.get({ key: 'abc' })).found).toBe(false);
+      jest.useRealTimers();
+    });
+
+    it('should read the version once per version TTL', async () => {
+      const getOrSet = jest.spyOn(cache, 'getOrSet');
+      const sessions = cache.namespace('sessions', { versioned: true });
+
+      await sessions.set({ key: 'abc', value: 1 });
+      await sessions.get({ key: 'abc' });
+      await sessions.delete({ key: 'abc' });
+
+      expect(getOrSet).toHaveBeenCalledTimes(1);
+    });
+
+    it('should be the default on Memcached', async () => {
+      jest.spyOn(cache, 'getProviderName').mockReturnValue(CacheProvider.MEMCACHED);
+      const deleteByPattern = jest.spyOn(cache, 'deleteByPattern');
+      const sessions = cache.namespace('sessions');
+
+      await sessions.set({ key: 'abc', value: 1 });
+      await sessions.clear();
+
+      expect(deleteByPattern).not.toHaveBeenCalled();
+      expect((await sessions.get({ key: 'abc' })).found).toBe(false);
+    });
+  });
+
+  it('should validate the name, options and keys', async () => {
+    const sessions = cache.namespace('sessions');
+
+    expect(() => cache.namespace('')).toThrow(expect.objectContaining({ field: 'namespace' }));
+    expect(() => cache.namespace('sessions:admin')).toThrow('Namespace name cannot contain ":"');
+    expect(() => cache.namespace('sessions', { defaultTtl: 0 })).toThrow(expect.objectContaining({ field: 'defaultTtl' }));
+    expect(() => cache.namespace('sessions', { versionTtl: 0 })).toThrow(expect.objectContaining({ field: 'versionTtl' }));
+    await expect(sessions.get({ key: '' })).rejects.toThrow(expect.objectContaining({ field: 'key' }));
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the cache rate limiter
+ */
+
+import { RateLimiter } from '../../../src/cache/rate-limiter';
+import { CacheService } from '../../../src/cache/service';
+import { CacheProvider } from '../../../src/cache/types';
+import { CacheValidationError } from '../../../src/cache/errors';
+import { noopLogger } from '../../../src/logger';
+
+describe('RateLimiter', () => {
+  let cache: CacheService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    cache = new CacheService({
+      provider: CacheProvider.MEMORY,
+      config: { cleanupInterval: 0 },
+      logger: noopLogger,
+    });
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await cache.close();
+  });
+
+  it('should allow requests up to the limit', async () => {
+    const limiter = new RateLimiter(cache, { limit: 2, window: 60 });
+
+    const results = [await limiter.consume('user:1'), await limiter.consume('user:1'), await limiter.consume('user:1')];
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, false]);
+    expect(results[2].retryAfter).toBe(60000);
+    expect((await limiter.consume('user:2')).allowed).toBe(true);
+  });
+
+  it('should store state under the key prefix', async () => {
+    const limiter = new RateLimiter(cache, { algorithm: 'token-bucket', limit: 5, window: 5, keyPrefix: 'login:' });
+
+    const result = await limiter.consume('1.2.3.4', 2);
+
+    expect(result.key).toBe('login:1.2.3.4');
+    expect(result.remaining).toBe(3);
+    expect((await cache.has({ key: 'login:1.2.3.4' })).exists).toBe(true);
+  });
+
+  it('should reject invalid options on use', async () => {
+    const limiter = new RateLimiter(cache, { limit: 0, window: 60 });
+
+    await expect(limiter.consume('user:1')).rejects.toThrow(CacheValidationError);
+  });
+
+  describe('headers', () => {
+    it('should build rate limit headers', async () => {
+      const limiter = new RateLimiter(cache, { limit: 1, window: 30 });
+      await limiter.consume('user:1');
+      jest.setSystemTime(10000);
+
+      const headers = RateLimiter.headers(await limiter.consume('user:1'));
+
+      expect(headers).toEqual({
+        'RateLimit-Limit': '1',
+        'RateLimit-Remaining': '0',
+        'RateLimit-Reset': '20',
+        'Retry-After': '20',
+      });
+    });
+
+    it('should omit Retry-After for allowed requests', async () => {
+      const limiter = new RateLimiter(cache, { limit: 5, window: 30 });
+
+      const headers = RateLimiter.headers(await limiter.consume('user:1'));
+
+      expect(headers['RateLimit-Remaining']).toBe('4');
+      expect(headers['Retry-After']).toBeUndefined();
+    });
+  });
+});
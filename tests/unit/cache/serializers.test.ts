@@ -0,0 +1,153 @@
+/**
+ * Unit tests for cache serializers
+ */
+
+import {
+  JsonSerializer,
+  MessagePackSerializer,
+  CompressedSerializer,
+  isSameSerializedValue,
+} from '../../../src/cache/serializers';
+import { CacheValidationError } from '../../../src/cache/errors';
+
+describe('Cache Serializers', () => {
+  describe('JsonSerializer', () => {
+    const serializer = new JsonSerializer();
+
+    it('should round-trip plain JSON values', () => {
+      const value = { name: 'John', tags: ['a', 'b'], active: true, score: 1.5, parent: null };
+
+      expect(serializer.deserialize(serializer.serialize(value))).toEqual(value);
+      expect(serializer.deserialize(serializer.serialize('123'))).toBe('123');
+    });
+
+    it('should revive Dates, Buffers and BigInts', () => {
+      const value = {
+        createdAt: new Date('2024-01-02T03:04:05.678Z'),
+        avatar: Buffer.from([1, 2, 3]),
+        balance: 12345678901234567890n,
+      };
+
+      const result = serializer.deserialize(serializer.serialize(value));
+
+      expect(result.createdAt).toBeInstanceOf(Date);
+      expect(result.createdAt.toISOString()).toBe('2024-01-02T03:04:05.678Z');
+      expect(Buffer.isBuffer(result.avatar)).toBe(true);
+      expect(result.avatar.equals(Buffer.from([1, 2, 3]))).toBe(true);
+      expect(result.balance).toBe(12345678901234567890n);
+    });
+
+    it('should not revive user objects that have a $type property', () => {
+      const value = { event: { $type: 'Date', value: 'not a date' } };
+
+      expect(serializer.deserialize(serializer.serialize(value))).toEqual(value);
+    });
+
+    it('should read buffers and fall back to raw strings', () => {
+      expect(serializer.deserialize(Buffer.from('{"a":1}'))).toEqual({ a: 1 });
+      expect(serializer.deserialize('not json')).toBe('not json');
+    });
+  });
+
+  describe('MessagePackSerializer', () => {
+    const serializer = new MessagePackSerializer();
+    const roundTrip = (value: any) => serializer.deserialize(serializer.serialize(value));
+
+    it('should round-trip numbers of every size', () => {
+      const numbers = [0, 1, 127, 128, 255, 256, 65535, 65536, 2 ** 32, Number.MAX_SAFE_INTEGER,
+        -1, -32, -33, -128, -129, -32768, -32769, -(2 ** 31) - 1, Number.MIN_SAFE_INTEGER, 1.5, -0.25];
+
+      numbers.forEach(value => expect(roundTrip(value)).toBe(value));
+    });
+
+    it('should round-trip strings, arrays and maps of every size', () => {
+      const values = [
+        '',
+        'a'.repeat(31),
+        'b'.repeat(32),
+        'c'.repeat(256),
+        'd'.repeat(70000),
+        'héllo wörld',
+        Array.from({ length: 20 }, (_, index) => index),
+        Object.fromEntries(Array.from({ length: 20 }, (_, index) => [`key${index}`, index])),
+        { nested: { list: [1, 'two', { three: 3 }], empty: {} }, flag: false, missing: null },
+      ];
+
+      values.forEach(value => expect(roundTrip(value)).toEqual(value));
+    });
+
+    it('should round-trip Dates, Buffers and BigInts', () => {
+      const value = {
+        createdAt: new Date('2024-01-02T03:04:05.678Z'),
+        avatar: Buffer.from([0, 255, 1]),
+        balance: -12345678901234567890n,
+      };
+
+      const result = roundTrip(value);
+
+      expect(result.createdAt).toBeInstanceOf(Date);
+      expect(result.createdAt.getTime()).toBe(value.createdAt.getTime());
+      expect(result.avatar.equals(value.avatar)).toBe(true);
+      expect(result.balance).toBe(value.balance);
+    });
+
+    it('should produce smaller output than JSON for structured values', () => {
+      const value = { id: 12345, items: Array.from({ length: 50 }, (_, index) => ({ id: index, qty: 1 })) };
+
+      expect(serializer.serialize(value).length).toBeLessThan(new JsonSerializer().serialize(value).length);
+    });
+
+    it('should fall back to JSON for data it did not write', () => {
+      expect(serializer.deserialize('{"a":1}')).toEqual({ a: 1 });
+      expect(serializer.deserialize(Buffer.from('42'))).toBe(42);
+    });
+  });
+
+  describe('CompressedSerializer', () => {
+    const largeValue = { text: 'lorem ipsum '.repeat(200) };
+
+    it('should only compress values at or above the threshold', () => {
+      const serializer = new CompressedSerializer({ threshold: 100 });
+
+      expect(serializer.serialize({ a: 1 })).toBe('{"a":1}');
+
+      const compressed = serializer.serialize(largeValue) as Buffer;
+      expect(compressed.length).toBeLessThan(JSON.stringify(largeValue).length);
+      expect(serializer.deserialize(compressed)).toEqual(largeValue);
+    });
+
+    it('should support brotli and read values written with another algorithm', () => {
+      const gzip = new CompressedSerializer({ threshold: 0 });
+      const brotli = new CompressedSerializer({ algorithm: 'brotli', threshold: 0 });
+
+      expect(brotli.name).toBe('json+brotli');
+      expect(brotli.deserialize(brotli.serialize(largeValue))).toEqual(largeValue);
+      expect(brotli.deserialize(gzip.serialize(largeValue))).toEqual(largeValue);
+      expect(gzip.deserialize(brotli.serialize(largeValue))).toEqual(largeValue);
+    });
+
+    it('should wrap another serializer', () => {
+      const serializer = new CompressedSerializer({ serializer: new MessagePackSerializer(), threshold: 0 });
+      const value = { createdAt: new Date(0), ...largeValue };
+
+      expect(serializer.name).toBe('msgpack+gzip');
+      expect(serializer.deserialize(serializer.serialize(value))).toEqual(value);
+    });
+
+    it('should validate options', () => {
+      expect(() => new CompressedSerializer({ algorithm: 'zstd' as any })).toThrow(CacheValidationError);
+      expect(() => new CompressedSerializer({ threshold: -1 })).toThrow(
+        expect.objectContaining({ field: 'threshold' })
+      );
+    });
+  });
+
+  describe('isSameSerializedValue', () => {
+    it('should compare values by their serialized form', () => {
+      const serializer = new MessagePackSerializer();
+
+      expect(isSameSerializedValue(serializer, { a: [1, 2] }, { a: [1, 2] })).toBe(true);
+      expect(isSameSerializedValue(serializer, { a: 1 }, { a: '1' })).toBe(false);
+    });
+  });
+});
@@ -3,9 +3,10 @@
  */
 
 import { CacheService } from '../../../src/cache/service';
-import { CacheProvider, type CacheServiceConfig, type RedisConfig } from '../../../src/cache/types';
+import { CacheProvider, type CacheSingleProviderConfig, type RedisConfig } from '../../../src/cache/types';
 import type { Logger } from '../../../src/logger/types';
-import { CacheError, CacheProviderError } from '../../../src/cache/errors';
+import { CacheError, CacheProviderError, CacheConnectionError, CacheLockError, CacheNotSupportedError, CacheValidationError } from '../../../src/cache/errors';
+import { JsonSerializer, MessagePackSerializer } from '../../../src/cache/serializers';
 
 // Mock the adapters
 jest.mock('../../../src/cache/adapters', () => ({
@@ -13,8 +14,34 @@ jest.mock('../../../src/cache/adapters', () => ({
     name: CacheProvider.REDIS,
     get: jest.fn(),
     set: jest.fn(),
+    add: jest.fn(),
     delete: jest.fn(),
     has: jest.fn(),
+    getMany: jest.fn(),
+    setMany: jest.fn(),
+    deleteMany: jest.fn(),
+    increment: jest.fn(),
+    decrement: jest.fn(),
+    compareAndSet: jest.fn(),
+    invalidateTags: jest.fn(),
+    extendLock: jest.fn(),
+    releaseLock: jest.fn(),
+    rateLimit: jest.fn(),
+    scan: jest.fn(),
+    ttl: jest.fn(),
+    expire: jest.fn(),
+    touch: jest.fn(),
+    hashGet: jest.fn(),
+    hashSet: jest.fn(),
+    listPush: jest.fn(),
+    listPop: jest.fn(),
+    listRange: jest.fn(),
+    setAdd: jest.fn(),
+    setMembers: jest.fn(),
+    sortedSetAdd: jest.fn(),
+    sortedSetRange: jest.fn(),
+    publish: jest.fn(),
+    subscribe: jest.fn(),
     clear: jest.fn(),
     health: jest.fn(),
     close: jest.fn(),
@@ -23,8 +50,70 @@ jest.mock('../../../src/cache/adapters', () => ({
     name: CacheProvider.MEMCACHED,
     get: jest.fn(),
     set: jest.fn(),
+    add: jest.fn(),
     delete: jest.fn(),
     has: jest.fn(),
+    getMany: jest.fn(),
+    setMany: jest.fn(),
+    deleteMany: jest.fn(),
+    increment: jest.fn(),
+    decrement: jest.fn(),
+    compareAndSet: jest.fn(),
+    invalidateTags: jest.fn(),
+    extendLock: jest.fn(),
+    releaseLock: jest.fn(),
+    rateLimit: jest.fn(),
+    scan: jest.fn(),
+    ttl: jest.fn(),
+    expire: jest.fn(),
+    touch: jest.fn(),
+    hashGet: jest.fn(),
+    hashSet: jest.fn(),
+    listPush: jest.fn(),
+    listPop: jest.fn(),
+    listRange: jest.fn(),
+    setAdd: jest.fn(),
+    setMembers: jest.fn(),
+    sortedSetAdd: jest.fn(),
+    sortedSetRange: jest.fn(),
+    publish: jest.fn(),
+    subscribe: jest.fn(),
+    clear: jest.fn(),
+    health: jest.fn(),
+    close: jest.fn(),
+  })),
+  MemoryProvider: jest.fn().mockImplementation((config: any, logger: Logger) => ({
+    name: CacheProvider.MEMORY,
+    get: jest.fn(),
+    set: jest.fn(),
+    add: jest.fn(),
+    delete: jest.fn(),
+    has: jest.fn(),
+    getMany: jest.fn(),
+    setMany: jest.fn(),
+    deleteMany: jest.fn(),
+    increment: jest.fn(),
+    decrement: jest.fn(),
+    compareAndSet: jest.fn(),
+    invalidateTags: jest.fn(),
+    extendLock: jest.fn(),
+    releaseLock: jest.fn(),
+    rateLimit: jest.fn(),
+    scan: jest.fn(),
+    ttl: jest.fn(),
+    expire: jest.fn(),
+    touch: jest.fn(),
+    hashGet: jest.fn(),
+    hashSet: jest.fn(),
+    listPush: jest.fn(),
+    listPop: jest.fn(),
+    listRange: jest.fn(),
+    setAdd: jest.fn(),
+    setMembers: jest.fn(),
+    sortedSetAdd: jest.fn(),
+    sortedSetRange: jest.fn(),
+    publish: jest.fn(),
+    subscribe: jest.fn(),
     clear: jest.fn(),
     health: jest.fn(),
     close: jest.fn(),
@@ -41,13 +130,13 @@ jest.mock('../../../src/logger', () => ({
   }),
 }));
 
-import { RedisProvider, MemcachedProvider } from '../../../src/cache/adapters';
+import { RedisProvider, MemcachedProvider, MemoryProvider } from '../../../src/cache/adapters';
 import { consoleLogger } from '../../../src/logger';
 
 describe('CacheService', () => {
   let mockLogger: Logger;
-  let redisConfig: CacheServiceConfig;
-  let memcachedConfig: CacheServiceConfig;
+  let redisConfig: CacheSingleProviderConfig & { logger: Logger };
+  let memcachedConfig: CacheSingleProviderConfig & { logger: Logger };
   let mockProvider: any;
 
   beforeEach(() => {
@@ -82,8 +171,34 @@ describe('CacheService', () => {
       name: CacheProvider.REDIS,
       get: jest.fn(),
       set: jest.fn(),
+      add: jest.fn(),
       delete: jest.fn(),
       has: jest.fn(),
+      getMany: jest.fn(),
+      setMany: jest.fn(),
+      deleteMany: jest.fn(),
+      increment: jest.fn(),
+      decrement: jest.fn(),
+      compareAndSet: jest.fn(),
+      invalidateTags: jest.fn(),
+      extendLock: jest.fn(),
+      releaseLock: jest.fn(),
+      rateLimit: jest.fn(),
+      scan: jest.fn(),
+      ttl: jest.fn(),
+      expire: jest.fn(),
+      touch: jest.fn(),
+      hashGet: jest.fn(),
+      hashSet: jest.fn(),
+      listPush: jest.fn(),
+      listPop: jest.fn(),
+      listRange: jest.fn(),
+      setAdd: jest.fn(),
+      setMembers: jest.fn(),
+      sortedSetAdd: jest.fn(),
+      sortedSetRange: jest.fn(),
+      publish: jest.fn(),
+      subscribe: jest.fn(),
       clear: jest.fn(),
       health: jest.fn(),
       close: jest.fn(),
@@ -91,6 +206,7 @@ describe('CacheService', () => {
 
     (RedisProvider as jest.Mock).mockImplementation(() => mockProvider);
     (MemcachedProvider as jest.Mock).mockImplementation(() => ({ ...mockProvider, name: CacheProvider.MEMCACHED }));
+    (MemoryProvider as jest.Mock).mockImplementation(() => ({ ...mockProvider, name: CacheProvider.MEMORY }));
   });
 
   describe('constructor', () => {
@@ -108,6 +224,69 @@ describe('CacheService', () => {
       expect(cache.getProviderName()).toBe(CacheProvider.MEMCACHED);
     });
 
+    it('should create a memory cache service', () => {
+      const memoryConfig: CacheSingleProviderConfig & { logger: Logger } = {
+        provider: CacheProvider.MEMORY,
+        config: { maxEntries: 100 },
+        logger: mockLogger,
+      };
+      const cache = new CacheService(memoryConfig);
+      
+      expect(MemoryProvider).toHaveBeenCalledWith(memoryConfig.config, mockLogger);
+      expect(cache.getProviderName()).toBe(CacheProvider.MEMORY);
+    });
+
+    it('should put a local memory tier in front of the provider', () => {
+      const cache = new CacheService({
+        ...redisConfig,
+        local: { ttl: 30, maxEntries: 100 },
+      });
+      
+      expect(RedisProvider).toHaveBeenCalledWith(redisConfig.config, mockLogger);
+      expect(MemoryProvider).toHaveBeenCalledWith({ maxEntries: 100 }, mockLogger);
+      expect(cache.getProviderName()).toBe(CacheProvider.REDIS);
+    });
+
+    it('should listen for invalidations when the local tier enables them', () => {
+      mockProvider.subscribe.mockResolvedValue({ channel: 'myapp:invalidation', unsubscribe: jest.fn() });
+
+      new CacheService({
+        ...redisConfig,
+        local: { ttl: 30, maxEntries: 100, invalidation: { channel: 'myapp:invalidation' } },
+      });
+
+      expect(MemoryProvider).toHaveBeenCalledWith({ maxEntries: 100 }, mockLogger);
+      expect(mockProvider.subscribe).toHaveBeenCalledWith({ channel: 'myapp:invalidation', listener: expect.any(Function) });
+    });
+
+    it('should create primary and backup providers for failover', () => {
+      const cache = new CacheService({
+        primary: { provider: CacheProvider.REDIS, config: { host: 'localhost' } },
+        backups: [{ provider: CacheProvider.MEMCACHED, config: { servers: ['localhost:11211'] } }],
+        logger: mockLogger,
+      });
+      
+      expect(RedisProvider).toHaveBeenCalledWith({ host: 'localhost' }, mockLogger);
+      expect(MemcachedProvider).toHaveBeenCalledWith({ servers: ['localhost:11211'] }, mockLogger);
+      expect(cache.getProviderName()).toBe(CacheProvider.REDIS);
+    });
+
+    it('should pass the serializer to every provider without its own', () => {
+      const serializer = new MessagePackSerializer();
+      const ownSerializer = new JsonSerializer();
+      new CacheService({
+        primary: { provider: CacheProvider.REDIS, config: { host: 'localhost' } },
+        backups: [{ provider: CacheProvider.MEMCACHED, config: { servers: ['localhost:11211'], serializer: ownSerializer } }],
+        local: { maxEntries: 100 },
+        serializer,
+        logger: mockLogger,
+      });
+      
+      expect(RedisProvider).toHaveBeenCalledWith({ host: 'localhost', serializer }, mockLogger);
+      expect(MemcachedProvider).toHaveBeenCalledWith({ servers: ['localhost:11211'], serializer: ownSerializer }, mockLogger);
+      expect(MemoryProvider).toHaveBeenCalledWith({ maxEntries: 100, serializer }, mockLogger);
+    });
+
     it('should use console logger if none provided', () => {
       const configWithoutLogger = {
         provider: CacheProvider.REDIS,
@@ -288,6 +467,143 @@ describe('CacheService', () => {
     });
   });
 
+  describe('getOrSet', () => {
+    const setResult = { success: true, key: 'test-key', provider: CacheProvider.REDIS, timestamp: new Date() };
+
+    it('should return cached values without calling the loader', async () => {
+      const cache = new CacheService(redisConfig);
+      const loader = jest.fn();
+      mockProvider.get.mockResolvedValue({ success: true, key: 'test-key', value: 'cached', found: true, provider: CacheProvider.REDIS });
+      
+      const result = await cache.getOrSet({ key: 'test-key', loader });
+      
+      expect(result).toEqual({
+        success: true,
+        key: 'test-key',
+        value: 'cached',
+        cached: true,
+        stale: false,
+        provider: CacheProvider.REDIS,
+      });
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it('should load and store values on a miss', async () => {
+      const cache = new CacheService(redisConfig);
+      mockProvider.get.mockResolvedValue({ success: true, key: 'test-key', found: false, provider: CacheProvider.REDIS });
+      mockProvider.set.mockResolvedValue(setResult);
+      
+      const result = await cache.getOrSet({ key: 'test-key', ttl: 60, loader: async () => 'loaded' });
+      
+      expect(mockProvider.set).toHaveBeenCalledWith({ key: 'test-key', value: 'loaded', ttl: 60 });
+      expect(result.value).toBe('loaded');
+      expect(result.cached).toBe(false);
+    });
+
+    it('should share one loader call between concurrent misses', async () => {
+      const cache = new CacheService(redisConfig);
+      mockProvider.get.mockResolvedValue({ success: true, key: 'test-key', found: false, provider: CacheProvider.REDIS });
+      mockProvider.set.mockResolvedValue(setResult);
+      const loader = jest.fn().mockResolvedValue('loaded');
+      
+      const results = await Promise.all([
+        cache.getOrSet({ key: 'test-key', loader }),
+        cache.getOrSet({ key: 'test-key', loader }),
+        cache.getOrSet({ key: 'test-key', loader }),
+      ]);
+      
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(results.map(r => r.value)).toEqual(['loaded', 'loaded', 'loaded']);
+    });
+
+    it('should serve stale values and refresh them in the background', async () => {
+      const cache = new CacheService(redisConfig);
+      mockProvider.get.mockResolvedValue({ success: true, key: 'test-key', value: 'old', found: true, provider: CacheProvider.REDIS });
+      mockProvider.has.mockResolvedValue({ success: true, key: 'test-key:__fresh', exists: false, provider: CacheProvider.REDIS });
+      mockProvider.set.mockResolvedValue(setResult);
+      const loader = jest.fn().mockResolvedValue('new');
+      
+      const result = await cache.getOrSet({ key: 'test-key', ttl: 60, softTtl: 10, loader });
+      await new Promise(resolve => setImmediate(resolve));
+      
+      expect(result.value).toBe('old');
+      expect(result.stale).toBe(true);
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(mockProvider.set).toHaveBeenCalledWith({ key: 'test-key', value: 'new', ttl: 60 });
+      expect(mockProvider.set).toHaveBeenCalledWith({ key: 'test-key:__fresh', value: 1, ttl: 10 });
+    });
+
+    it('should hold a distributed lock while loading', async () => {
+      const cache = new CacheService(redisConfig);
+      mockProvider.get.mockResolvedValue({ success: true, key: 'test-key', found: false, provider: CacheProvider.REDIS });
+      mockProvider.add.mockResolvedValue({ success: true, key: 'test-key:__loading', added: true, provider: CacheProvider.REDIS, timestamp: new Date() });
+      mockProvider.set.mockResolvedValue(setResult);
+      mockProvider.releaseLock.mockResolvedValue({ success: true, key: 'test-key:__loading', owned: true, provider: CacheProvider.REDIS, timestamp: new Date() });
+      
+      await cache.getOrSet({ key: 'test-key', lock: { ttl: 5 }, loader: () => 'loaded' });
+      
+      const token = mockProvider.add.mock.calls[0][0].value;
+      expect(mockProvider.add).toHaveBeenCalledWith({ key: 'test-key:__loading', value: expect.any(String), ttl: 5 });
+      expect(mockProvider.releaseLock).toHaveBeenCalledWith({ key: 'test-key:__loading', token });
+      expect(mockProvider.delete).not.toHaveBeenCalled();
+    });
+
+    it('should leave a lock taken by another instance after the load lock expired', async () => {
+      const cache = new CacheService(redisConfig);
+      mockProvider.get.mockResolvedValue({ success: true, key: 'test-key', found: false, provider: CacheProvider.REDIS });
+      mockProvider.add.mockResolvedValue({ success: true, key: 'test-key:__loading', added: true, provider: CacheProvider.REDIS, timestamp: new Date() });
+      mockProvider.set.mockResolvedValue(setResult);
+      mockProvider.releaseLock.mockResolvedValue({ success: true, key: 'test-key:__loading', owned: false, provider: CacheProvider.REDIS, timestamp: new Date() });
+      
+      const result = await cache.getOrSet({ key: 'test-key', lock: true, loader: () => 'loaded' });
+      
+      expect(result.value).toBe('loaded');
+      expect(mockProvider.releaseLock).toHaveBeenCalledTimes(1);
+      expect(mockProvider.delete).not.toHaveBeenCalled();
+    });
+
+    it('should wait for another instance holding the lock', async () => {
+      const cache = new CacheService(redisConfig);
+      mockProvider.get
+        .mockResolvedValueOnce({ success: true, key: 'test-key', found: false, provider: CacheProvider.REDIS })
+        .mockResolvedValueOnce({ success: true, key: 'test-key', found: false, provider: CacheProvider.REDIS })
+        .mockResolvedValue({ success: true, key: 'test-key', value: 'remote', found: true, provider: CacheProvider.REDIS });
+      mockProvider.add.mockResolvedValue({ success: true, key: 'test-key:__loading', added: false, provider: CacheProvider.REDIS, timestamp: new Date() });
+      const loader = jest.fn();
+      
+      const result = await cache.getOrSet({ key: 'test-key', lock: { retryDelay: 1 }, loader });
+      
+      expect(result.value).toBe('remote');
+      expect(result.cached).toBe(true);
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it('should still return the loaded value when the cache is unreachable', async () => {
+      const cache = new CacheService(redisConfig);
+      const error = new CacheConnectionError('Failed to connect to Redis', CacheProvider.REDIS);
+      mockProvider.get.mockRejectedValue(error);
+      mockProvider.set.mockRejectedValue(error);
+      
+      const result = await cache.getOrSet({ key: 'test-key', loader: () => 'loaded' });
+      
+      expect(result.success).toBe(false);
+      expect(result.value).toBe('loaded');
+      expect(result.error).toBe('Failed to connect to Redis');
+    });
+
+    it('should rethrow loader errors', async () => {
+      const cache = new CacheService(redisConfig);
+      mockProvider.get.mockResolvedValue({ success: true, key: 'test-key', found: false, provider: CacheProvider.REDIS });
+      
+      await expect(cache.getOrSet({ key: 'test-key', loader: () => { throw new Error('Database down'); } }))
+        .rejects.toThrow('Database down');
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Get or set exception', {
+        key: 'test-key',
+        error: expect.any(Error),
+      });
+    });
+  });
+
   describe('delete', () => {
     it('should delete value from cache', async () => {
       const cache = new CacheService(redisConfig);
@@ -348,6 +664,612 @@ describe('CacheService', () => {
     });
   });
 
+  describe('counters and compare-and-set', () => {
+    it('should increment a counter', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.increment.mockResolvedValue({
+        success: true,
+        key: 'views',
+        value: 5,
+        provider: CacheProvider.REDIS,
+        timestamp: new Date(),
+      });
+
+      const result = await cache.increment({ key: 'views', by: 2, ttl: 60 });
+
+      expect(mockProvider.increment).toHaveBeenCalledWith({ key: 'views', by: 2, ttl: 60 });
+      expect(result.value).toBe(5);
+      expect(mockLogger.debug).toHaveBeenCalledWith('Basepack Cache: Value incremented', {
+        key: 'views',
+        value: 5,
+        provider: CacheProvider.REDIS
+      });
+    });
+
+    it('should log failed decrements', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.decrement.mockResolvedValue({
+        success: false,
+        key: 'stock',
+        provider: CacheProvider.REDIS,
+        timestamp: new Date(),
+        error: 'value is not an integer',
+      });
+
+      const result = await cache.decrement({ key: 'stock' });
+
+      expect(result.success).toBe(false);
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Decrement failed', {
+        key: 'stock',
+        error: 'value is not an integer'
+      });
+    });
+
+    it('should compare and set a value', async () => {
+      const cache = new CacheService(redisConfig);
+      const config = { key: 'version', expected: 1, value: 2 };
+
+      mockProvider.compareAndSet.mockResolvedValue({
+        success: true,
+        key: 'version',
+        swapped: true,
+        provider: CacheProvider.REDIS,
+        timestamp: new Date(),
+      });
+
+      const result = await cache.compareAndSet(config);
+
+      expect(mockProvider.compareAndSet).toHaveBeenCalledWith(config);
+      expect(result.swapped).toBe(true);
+    });
+
+    it('should handle exceptions', async () => {
+      const cache = new CacheService(redisConfig);
+
+      const error = new Error('Network error');
+      mockProvider.compareAndSet.mockRejectedValue(error);
+
+      await expect(cache.compareAndSet({ key: 'version', expected: 1, value: 2 })).rejects.toThrow('Network error');
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Compare and set exception', {
+        key: 'version',
+        error
+      });
+    });
+  });
+
+  describe('batch operations', () => {
+    it('should get multiple values', async () => {
+      const cache = new CacheService(redisConfig);
+
+      const mockResults = [
+        { success: true, key: 'user:1', value: 'John', found: true, provider: CacheProvider.REDIS },
+        { success: true, key: 'user:2', found: false, provider: CacheProvider.REDIS },
+      ];
+
+      mockProvider.getMany.mockResolvedValue(mockResults);
+
+      const results = await cache.getMany({ keys: ['user:1', 'user:2'] });
+
+      expect(mockProvider.getMany).toHaveBeenCalledWith({ keys: ['user:1', 'user:2'] });
+      expect(results).toEqual(mockResults);
+      expect(mockLogger.debug).toHaveBeenCalledWith('Basepack Cache: Values retrieved', {
+        count: 2,
+        found: 1,
+        failed: 0
+      });
+    });
+
+    it('should set multiple values', async () => {
+      const cache = new CacheService(redisConfig);
+      const config = {
+        entries: [{ key: 'user:1', value: 'John' }, { key: 'user:2', value: 'Jane' }],
+        ttl: 60,
+      };
+
+      mockProvider.setMany.mockResolvedValue([
+        { success: true, key: 'user:1', provider: CacheProvider.REDIS, timestamp: new Date() },
+        { success: true, key: 'user:2', provider: CacheProvider.REDIS, timestamp: new Date() },
+      ]);
+
+      const results = await cache.setMany(config);
+
+      expect(mockProvider.setMany).toHaveBeenCalledWith(config);
+      expect(results).toHaveLength(2);
+      expect(mockLogger.info).toHaveBeenCalledWith('Basepack Cache: Values set successfully', { count: 2 });
+    });
+
+    it('should log entries that failed to set', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.setMany.mockResolvedValue([
+        { success: true, key: 'user:1', provider: CacheProvider.REDIS, timestamp: new Date() },
+        { success: false, key: 'user:2', provider: CacheProvider.REDIS, timestamp: new Date(), error: 'OOM' },
+      ]);
+
+      await cache.setMany({ entries: [{ key: 'user:1', value: 'John' }, { key: 'user:2', value: 'Jane' }] });
+
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Set many partially failed', {
+        count: 2,
+        failed: [{ key: 'user:2', error: 'OOM' }]
+      });
+    });
+
+    it('should delete multiple values', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.deleteMany.mockResolvedValue([
+        { success: true, key: 'user:1', provider: CacheProvider.REDIS, timestamp: new Date() },
+      ]);
+
+      const results = await cache.deleteMany({ keys: ['user:1'] });
+
+      expect(mockProvider.deleteMany).toHaveBeenCalledWith({ keys: ['user:1'] });
+      expect(results[0].success).toBe(true);
+      expect(mockLogger.info).toHaveBeenCalledWith('Basepack Cache: Values deleted successfully', { count: 1 });
+    });
+
+    it('should handle exceptions', async () => {
+      const cache = new CacheService(redisConfig);
+
+      const error = new Error('Network error');
+      mockProvider.getMany.mockRejectedValue(error);
+
+      await expect(cache.getMany({ keys: ['user:1'] })).rejects.toThrow('Network error');
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Get many exception', {
+        keys: ['user:1'],
+        error
+      });
+    });
+  });
+
+  describe('ttl, expire and touch', () => {
+    it('should read the TTL', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.ttl.mockResolvedValue({
+        success: true,
+        key: 'session:abc',
+        exists: true,
+        expiresIn: 1500,
+        provider: CacheProvider.REDIS,
+        timestamp: new Date(),
+      });
+
+      const result = await cache.ttl({ key: 'session:abc' });
+
+      expect(mockProvider.ttl).toHaveBeenCalledWith({ key: 'session:abc' });
+      expect(result.expiresIn).toBe(1500);
+    });
+
+    it('should expire and touch keys', async () => {
+      const cache = new CacheService(redisConfig);
+      const result = { success: true, key: 'session:abc', exists: true, provider: CacheProvider.REDIS, timestamp: new Date() };
+
+      mockProvider.expire.mockResolvedValue(result);
+      mockProvider.touch.mockResolvedValue(result);
+
+      await cache.expire({ key: 'session:abc', ttl: 60 });
+      await cache.touch({ key: 'session:abc' });
+
+      expect(mockProvider.expire).toHaveBeenCalledWith({ key: 'session:abc', ttl: 60 });
+      expect(mockProvider.touch).toHaveBeenCalledWith({ key: 'session:abc' });
+      expect(mockLogger.debug).toHaveBeenCalledWith('Basepack Cache: Key touched', { key: 'session:abc', exists: true });
+    });
+
+    it('should handle errors', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.expire.mockResolvedValue({
+        success: false,
+        key: 'session:abc',
+        exists: false,
+        provider: CacheProvider.REDIS,
+        timestamp: new Date(),
+        error: 'Connection failed',
+      });
+
+      await cache.expire({ key: 'session:abc', ttl: 60 });
+
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Expire failed', { key: 'session:abc', error: 'Connection failed' });
+    });
+  });
+
+  describe('data structures', () => {
+    const base = { success: true, key: 'leaderboard', provider: CacheProvider.REDIS, timestamp: new Date() };
+
+    it('should pass hash, list and set operations to the provider', async () => {
+      const cache = new CacheService(redisConfig);
+      mockProvider.hashGet.mockResolvedValue({ ...base, fields: { name: 'John' } });
+      mockProvider.listPush.mockResolvedValue({ ...base, count: 3 });
+      mockProvider.setMembers.mockResolvedValue({ ...base, members: ['user:1'] });
+
+      const hash = await cache.hashGet({ key: 'user:1', fields: ['name'] });
+      const push = await cache.listPush({ key: 'jobs', values: [1, 2], side: 'left' });
+      const set = await cache.setMembers({ key: 'likes' });
+
+      expect(hash.fields).toEqual({ name: 'John' });
+      expect(push.count).toBe(3);
+      expect(set.members).toEqual(['user:1']);
+      expect(mockProvider.listPush).toHaveBeenCalledWith({ key: 'jobs', values: [1, 2], side: 'left' });
+      expect(mockLogger.debug).toHaveBeenCalledWith('Basepack Cache: List pushed', { key: 'jobs', length: 3 });
+    });
+
+    it('should pass sorted set operations to the provider', async () => {
+      const cache = new CacheService(redisConfig);
+      const members = [{ member: 'alice', score: 120 }];
+      mockProvider.sortedSetAdd.mockResolvedValue({ ...base, count: 1 });
+      mockProvider.sortedSetRange.mockResolvedValue({ ...base, members });
+
+      await cache.sortedSetAdd({ key: 'leaderboard', members });
+      const result = await cache.sortedSetRange({ key: 'leaderboard', reverse: true, limit: 10 });
+
+      expect(result.members).toEqual(members);
+      expect(mockProvider.sortedSetRange).toHaveBeenCalledWith({ key: 'leaderboard', reverse: true, limit: 10 });
+    });
+
+    it('should log failures and rethrow unsupported errors', async () => {
+      const cache = new CacheService(memcachedConfig);
+      mockProvider.hashSet.mockResolvedValue({ ...base, success: false, count: 0, error: 'WRONGTYPE' });
+      mockProvider.listPop.mockRejectedValue(
+        new CacheNotSupportedError('Memcached does not support lists', CacheProvider.MEMCACHED, 'listPop')
+      );
+
+      await cache.hashSet({ key: 'leaderboard', fields: { a: 1 } });
+      await expect(cache.listPop({ key: 'jobs' })).rejects.toThrow(CacheNotSupportedError);
+
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Hash set failed', { key: 'leaderboard', error: 'WRONGTYPE' });
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: List pop exception', expect.objectContaining({ key: 'jobs' }));
+    });
+  });
+
+  describe('publish and subscribe', () => {
+    it('should pass messages and subscriptions to the provider', async () => {
+      const cache = new CacheService(redisConfig);
+      const subscription = { channel: 'orders', unsubscribe: jest.fn() };
+      const listener = jest.fn();
+      mockProvider.publish.mockResolvedValue({ success: true, channel: 'orders', receivers: 2, provider: CacheProvider.REDIS, timestamp: new Date() });
+      mockProvider.subscribe.mockResolvedValue(subscription);
+
+      const result = await cache.publish({ channel: 'orders', message: 'shipped' });
+      const handle = await cache.subscribe({ channel: 'orders', listener });
+
+      expect(result.receivers).toBe(2);
+      expect(handle).toBe(subscription);
+      expect(mockProvider.subscribe).toHaveBeenCalledWith({ channel: 'orders', listener });
+      expect(mockLogger.debug).toHaveBeenCalledWith('Basepack Cache: Message published', { channel: 'orders', receivers: 2 });
+    });
+
+    it('should log and rethrow subscribe errors', async () => {
+      const cache = new CacheService(redisConfig);
+      const error = new CacheNotSupportedError('Memcached does not support pub/sub', CacheProvider.MEMCACHED, 'subscribe');
+      mockProvider.subscribe.mockRejectedValue(error);
+
+      await expect(cache.subscribe({ channel: 'orders', listener: jest.fn() })).rejects.toBe(error);
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Subscribe exception', { channel: 'orders', error });
+    });
+  });
+
+  describe('keys and deleteByPattern', () => {
+    const page = (keys: string[], cursor?: string) => ({
+      success: true,
+      keys,
+      cursor,
+      provider: CacheProvider.REDIS,
+      timestamp: new Date(),
+    });
+
+    it('should iterate over pages until the cursor is exhausted', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.scan
+        .mockResolvedValueOnce(page(['user:1', 'user:2'], '17'))
+        .mockResolvedValueOnce(page([], '42'))
+        .mockResolvedValueOnce(page(['user:3']));
+
+      const pages = [];
+      for await (const result of cache.keys({ pattern: 'user:*', limit: 2 })) {
+        pages.push(result);
+      }
+
+      expect(pages).toEqual([{ keys: ['user:1', 'user:2'], cursor: '17' }, { keys: ['user:3'], cursor: undefined }]);
+      expect(mockProvider.scan).toHaveBeenNthCalledWith(2, { pattern: 'user:*', limit: 2, cursor: '17' });
+    });
+
+    it('should throw when a page fails', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.scan.mockResolvedValue({ ...page([]), success: false, error: 'Connection failed' });
+
+      await expect(cache.keys().next()).rejects.toThrow('Failed to scan keys: Connection failed');
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Scan keys failed', { pattern: undefined, error: 'Connection failed' });
+    });
+
+    it('should delete every matching key', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.scan
+        .mockResolvedValueOnce(page(['user:1', 'user:2'], '17'))
+        .mockResolvedValueOnce(page(['user:3']));
+      mockProvider.deleteMany.mockImplementation(async ({ keys }: { keys: string[] }) =>
+        keys.map(key => ({ success: true, key, deleted: true, provider: CacheProvider.REDIS, timestamp: new Date() }))
+      );
+
+      const result = await cache.deleteByPattern('user:*');
+
+      expect(result.success).toBe(true);
+      expect(result.deleted).toBe(3);
+      expect(mockProvider.deleteMany).toHaveBeenCalledWith({ keys: ['user:3'] });
+    });
+
+    it('should only count keys that existed', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.scan.mockResolvedValueOnce(page(['user:1', 'user:2']));
+      mockProvider.deleteMany.mockResolvedValue([
+        { success: true, key: 'user:1', deleted: true, provider: CacheProvider.REDIS, timestamp: new Date() },
+        { success: true, key: 'user:2', deleted: false, provider: CacheProvider.REDIS, timestamp: new Date() },
+      ]);
+
+      const result = await cache.deleteByPattern('user:*');
+
+      expect(result.deleted).toBe(1);
+    });
+
+    it('should skip internal lock and marker keys', async () => {
+      const cache = new CacheService(redisConfig);
+      const keys = ['user:1', 'user:1:__fresh', 'user:1:__loading', 'user:1:__lock'];
+
+      mockProvider.scan.mockResolvedValue(page(keys));
+      mockProvider.deleteMany.mockResolvedValue([
+        { success: true, key: 'user:1', deleted: true, provider: CacheProvider.REDIS, timestamp: new Date() },
+      ]);
+
+      const pages = [];
+      for await (const result of cache.keys({ pattern: 'user:*' })) {
+        pages.push(result.keys);
+      }
+      const result = await cache.deleteByPattern('user:*');
+
+      expect(pages).toEqual([['user:1']]);
+      expect(mockProvider.deleteMany).toHaveBeenCalledWith({ keys: ['user:1'] });
+      expect(result.deleted).toBe(1);
+    });
+
+    it('should report keys deleted before a failure', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.scan
+        .mockResolvedValueOnce(page(['user:1'], '17'))
+        .mockResolvedValueOnce({ ...page([]), success: false, error: 'Connection failed' });
+      mockProvider.deleteMany.mockResolvedValue([
+        { success: true, key: 'user:1', deleted: true, provider: CacheProvider.REDIS, timestamp: new Date() },
+      ]);
+
+      const result = await cache.deleteByPattern('user:*');
+
+      expect(result).toMatchObject({ success: false, deleted: 1, error: 'Connection failed' });
+    });
+
+    it('should rethrow unsupported operations', async () => {
+      const cache = new CacheService(memcachedConfig);
+
+      mockProvider.scan.mockRejectedValue(new CacheNotSupportedError('Memcached cannot enumerate keys', CacheProvider.MEMCACHED, 'scan'));
+
+      await expect(cache.deleteByPattern('user:*')).rejects.toThrow(CacheNotSupportedError);
+      await expect(cache.keys().next()).rejects.toThrow(CacheNotSupportedError);
+    });
+  });
+
+  describe('invalidateTags', () => {
+    it('should invalidate tags', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.invalidateTags.mockResolvedValue({
+        success: true,
+        tags: ['user:42'],
+        invalidated: 3,
+        provider: CacheProvider.REDIS,
+        timestamp: new Date(),
+      });
+
+      const result = await cache.invalidateTags(['user:42']);
+
+      expect(mockProvider.invalidateTags).toHaveBeenCalledWith(['user:42']);
+      expect(result.invalidated).toBe(3);
+      expect(mockLogger.info).toHaveBeenCalledWith('Basepack Cache: Tags invalidated successfully', {
+        tags: ['user:42'],
+        invalidated: 3,
+        provider: CacheProvider.REDIS
+      });
+    });
+
+    it('should handle errors', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.invalidateTags.mockResolvedValue({
+        success: false,
+        tags: ['user:42'],
+        provider: CacheProvider.REDIS,
+        timestamp: new Date(),
+        error: 'Connection failed',
+      });
+
+      await cache.invalidateTags(['user:42']);
+
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Invalidate tags failed', {
+        tags: ['user:42'],
+        error: 'Connection failed'
+      });
+    });
+
+    it('should pass getOrSet tags to the stored value', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.get.mockResolvedValue({ success: true, key: 'user:42:orders', found: false, provider: CacheProvider.REDIS });
+      mockProvider.set.mockResolvedValue({ success: true, key: 'user:42:orders', provider: CacheProvider.REDIS, timestamp: new Date() });
+
+      await cache.getOrSet({ key: 'user:42:orders', ttl: 60, tags: ['user:42'], loader: () => [] });
+
+      expect(mockProvider.set).toHaveBeenCalledWith({ key: 'user:42:orders', value: [], ttl: 60, tags: ['user:42'] });
+    });
+  });
+
+  describe('rateLimit', () => {
+    const config = { key: 'ratelimit:api', algorithm: 'fixed-window' as const, limit: 10, window: 60 };
+
+    it('should apply a rate limit', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.rateLimit.mockResolvedValue({
+        success: true,
+        key: 'ratelimit:api',
+        allowed: false,
+        limit: 10,
+        remaining: 0,
+        resetAt: new Date(),
+        retryAfter: 1500,
+        provider: CacheProvider.REDIS,
+        timestamp: new Date(),
+      });
+
+      const result = await cache.rateLimit(config);
+
+      expect(mockProvider.rateLimit).toHaveBeenCalledWith(config);
+      expect(result.allowed).toBe(false);
+      expect(mockLogger.info).toHaveBeenCalledWith('Basepack Cache: Rate limit exceeded', { key: 'ratelimit:api', retryAfter: 1500 });
+    });
+
+    it('should handle errors', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.rateLimit.mockResolvedValue({
+        success: false,
+        key: 'ratelimit:api',
+        allowed: false,
+        limit: 10,
+        remaining: 0,
+        resetAt: new Date(),
+        provider: CacheProvider.REDIS,
+        timestamp: new Date(),
+        error: 'Connection failed',
+      });
+
+      await cache.rateLimit(config);
+
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Cache: Rate limit failed', { key: 'ratelimit:api', error: 'Connection failed' });
+    });
+  });
+
+  describe('locks', () => {
+    const lockResult = (owned: boolean) => ({
+      success: true,
+      key: 'jobs:nightly:__lock',
+      owned,
+      provider: CacheProvider.REDIS,
+      timestamp: new Date(),
+    });
+
+    it('should acquire a lock with a random token', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.add.mockResolvedValue({ success: true, key: 'jobs:nightly:__lock', added: true, provider: CacheProvider.REDIS, timestamp: new Date() });
+      mockProvider.extendLock.mockResolvedValue(lockResult(true));
+      mockProvider.releaseLock.mockResolvedValue(lockResult(true));
+
+      const lock = await cache.acquireLock({ key: 'jobs:nightly', ttl: 60 });
+      await lock.extend();
+      await lock.release();
+
+      expect(mockProvider.add).toHaveBeenCalledWith({ key: 'jobs:nightly:__lock', value: lock.token, ttl: 60 });
+      expect(mockProvider.extendLock).toHaveBeenCalledWith({ key: 'jobs:nightly:__lock', token: lock.token, ttl: 60 });
+      expect(mockProvider.releaseLock).toHaveBeenCalledWith({ key: 'jobs:nightly:__lock', token: lock.token });
+      expect(mockLogger.info).toHaveBeenCalledWith('Basepack Cache: Lock acquired', { key: 'jobs:nightly', provider: CacheProvider.REDIS });
+    });
+
+    it('should retry until the lock is free', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.add
+        .mockResolvedValueOnce({ success: true, key: 'jobs:nightly:__lock', added: false, provider: CacheProvider.REDIS, timestamp: new Date() })
+        .mockResolvedValueOnce({ success: true, key: 'jobs:nightly:__lock', added: true, provider: CacheProvider.REDIS, timestamp: new Date() });
+
+      const lock = await cache.acquireLock({ key: 'jobs:nightly', waitTimeout: 1000, retryDelay: 1 });
+
+      expect(lock.key).toBe('jobs:nightly');
+      expect(mockProvider.add).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw a CacheLockError when the lock is held elsewhere', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.add.mockResolvedValue({ success: true, key: 'jobs:nightly:__lock', added: false, provider: CacheProvider.REDIS, timestamp: new Date() });
+
+      await expect(cache.acquireLock({ key: 'jobs:nightly' })).rejects.toThrow(CacheLockError);
+      expect(mockProvider.add).toHaveBeenCalledTimes(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Basepack Cache: Lock is held elsewhere', { key: 'jobs:nightly', waitTimeout: 0 });
+    });
+
+    it('should throw a CacheLockError when the provider fails', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.add.mockResolvedValue({ success: false, key: 'jobs:nightly:__lock', added: false, provider: CacheProvider.REDIS, timestamp: new Date(), error: 'Connection failed' });
+
+      await expect(cache.acquireLock({ key: 'jobs:nightly' })).rejects.toThrow('Failed to acquire lock "jobs:nightly": Connection failed');
+    });
+
+    it('should validate lock configuration', async () => {
+      const cache = new CacheService(redisConfig);
+
+      await expect(cache.acquireLock({ key: 'jobs:nightly', waitTimeout: -1 })).rejects.toThrow(CacheValidationError);
+      expect(mockProvider.add).not.toHaveBeenCalled();
+    });
+
+    it('should keep locks separate from getOrSet load locks on the same key', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.add.mockResolvedValue({ success: true, key: 'report:__lock', added: true, provider: CacheProvider.REDIS, timestamp: new Date() });
+      mockProvider.get.mockResolvedValue({ success: true, key: 'report', found: false, provider: CacheProvider.REDIS });
+      mockProvider.set.mockResolvedValue({ success: true, key: 'report', provider: CacheProvider.REDIS, timestamp: new Date() });
+      mockProvider.releaseLock.mockResolvedValue(lockResult(true));
+
+      const lock = await cache.acquireLock({ key: 'report' });
+      await cache.getOrSet({ key: 'report', lock: true, loader: () => 'loaded' });
+
+      expect(mockProvider.add.mock.calls.map(([config]: any[]) => config.key)).toEqual(['report:__lock', 'report:__loading']);
+      expect(mockProvider.releaseLock).toHaveBeenCalledWith(expect.objectContaining({ key: 'report:__loading' }));
+      expect(mockProvider.releaseLock).not.toHaveBeenCalledWith(expect.objectContaining({ key: lock.lockKey }));
+    });
+
+    it('should release the lock after withLock runs, even if the function throws', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.add.mockResolvedValue({ success: true, key: 'jobs:nightly:__lock', added: true, provider: CacheProvider.REDIS, timestamp: new Date() });
+      mockProvider.releaseLock.mockResolvedValue(lockResult(true));
+
+      const result = await cache.withLock('jobs:nightly', () => 'done', { ttl: 10 });
+      await expect(cache.withLock('jobs:nightly', async () => {
+        throw new Error('Job failed');
+      })).rejects.toThrow('Job failed');
+
+      expect(result).toBe('done');
+      expect(mockProvider.add).toHaveBeenCalledWith(expect.objectContaining({ key: 'jobs:nightly:__lock', ttl: 10 }));
+      expect(mockProvider.releaseLock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should log when the lock was lost before release', async () => {
+      const cache = new CacheService(redisConfig);
+
+      mockProvider.add.mockResolvedValue({ success: true, key: 'jobs:nightly:__lock', added: true, provider: CacheProvider.REDIS, timestamp: new Date() });
+      mockProvider.releaseLock.mockResolvedValue(lockResult(false));
+
+      await cache.withLock('jobs:nightly', () => undefined);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith('Basepack Cache: Lock lost before release', { key: 'jobs:nightly' });
+    });
+  });
+
   describe('has', () => {
     it('should check if key exists in cache', async () => {
       const cache = new CacheService(redisConfig);
@@ -500,6 +1422,45 @@ describe('CacheService', () => {
     });
   });
 
+  describe('stats', () => {
+    it('should return undefined when metrics are disabled', () => {
+      const cache = new CacheService(redisConfig);
+
+      expect(cache.stats()).toBeUndefined();
+    });
+
+    it('should count hits, misses and errors per operation', async () => {
+      const onOperation = jest.fn();
+      const cache = new CacheService({ ...redisConfig, metrics: { onOperation } });
+      mockProvider.get
+        .mockResolvedValueOnce({ success: true, key: 'a', value: 1, found: true, provider: CacheProvider.REDIS, timestamp: new Date() })
+        .mockResolvedValueOnce({ success: true, key: 'b', found: false, provider: CacheProvider.REDIS, timestamp: new Date() });
+      mockProvider.set.mockResolvedValueOnce({ success: false, key: 'c', provider: CacheProvider.REDIS, timestamp: new Date(), error: 'OOM' });
+
+      await cache.get({ key: 'a' });
+      await cache.get({ key: 'b' });
+      await cache.set({ key: 'c', value: 1 });
+
+      const stats = cache.stats()!;
+      expect(stats).toMatchObject({ calls: 3, hits: 1, misses: 1, errors: 1, hitRate: 0.5 });
+      expect(stats.operations.get).toMatchObject({ calls: 2, hits: 1, misses: 1, errors: 0 });
+      expect(stats.operations.set.errors).toBe(1);
+      expect(stats.providers.redis?.calls).toBe(3);
+      expect(onOperation).toHaveBeenCalledWith(expect.objectContaining({ operation: 'set', success: false, error: 'OOM' }));
+    });
+
+    it('should count thrown errors and reset', async () => {
+      const cache = new CacheService({ ...redisConfig, metrics: true });
+      mockProvider.delete.mockRejectedValueOnce(new CacheConnectionError('Connection lost', CacheProvider.REDIS));
+
+      await expect(cache.delete({ key: 'a' })).rejects.toThrow('Connection lost');
+      expect(cache.stats()!.operations.delete).toMatchObject({ calls: 1, errors: 1 });
+
+      cache.resetStats();
+      expect(cache.stats()!.calls).toBe(0);
+    });
+  });
+
   describe('getProviderName', () => {
     it('should return provider name', () => {
       const cache = new CacheService(redisConfig);
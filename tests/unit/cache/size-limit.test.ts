@@ -0,0 +1,244 @@
+/**
+ * Unit tests for value size limits and chunking
+ */
+
+import { SizeLimitCacheProvider } from '../../../src/cache/size-limit';
+import { MemoryProvider } from '../../../src/cache/adapters/memory';
+import { CacheService } from '../../../src/cache/service';
+import { CacheProvider } from '../../../src/cache/types';
+import { MessagePackSerializer } from '../../../src/cache/serializers';
+import { CacheValidationError } from '../../../src/cache/errors';
+import { noopLogger } from '../../../src/logger';
+
+const large = (size: number) => ({ data: 'x'.repeat(size) });
+
+describe('SizeLimitCacheProvider', () => {
+  let memory: MemoryProvider;
+
+  beforeEach(() => {
+    memory = new MemoryProvider({ cleanupInterval: 0 }, noopLogger);
+  });
+
+  afterEach(async () => {
+    await memory.close();
+  });
+
+  describe('reject', () => {
+    it('should reject values above the limit', async () => {
+      const provider = new SizeLimitCacheProvider(memory, { limit: 100 }, undefined, noopLogger);
+
+      await expect(provider.set({ key: 'big', value: large(200) })).rejects.toThrow(CacheValidationError);
+      await expect(provider.set({ key: 'big', value: large(200) })).rejects.toThrow(expect.objectContaining({ field: 'value' }));
+      await expect(provider.add({ key: 'big', value: large(200) })).rejects.toThrow(CacheValidationError);
+      await expect(provider.compareAndSet({ key: 'big', expected: null, value: large(200) })).rejects.toThrow(CacheValidationError);
+      expect((await memory.has({ key: 'big' })).exists).toBe(false);
+    });
+
+    it('should store values within the limit', async () => {
+      const provider = new SizeLimitCacheProvider(memory, { limit: 100 }, undefined, noopLogger);
+
+      await provider.set({ key: 'small', value: large(10) });
+
+      expect((await provider.get({ key: 'small' })).value).toEqual(large(10));
+    });
+
+    it('should check every entry before writing a batch', async () => {
+      const provider = new SizeLimitCacheProvider(memory, { limit: 100 }, undefined, noopLogger);
+
+      await expect(provider.setMany({
+        entries: [{ key: 'small', value: large(10) }, { key: 'big', value: large(200) }],
+      })).rejects.toThrow(CacheValidationError);
+
+      expect((await memory.has({ key: 'small' })).exists).toBe(false);
+    });
+  });
+
+  describe('chunk', () => {
+    let provider: SizeLimitCacheProvider;
+
+    beforeEach(() => {
+      provider = new SizeLimitCacheProvider(memory, { limit: 1024, strategy: 'chunk' }, undefined, noopLogger);
+    });
+
+    it('should split large values across keys and reassemble them', async () => {
+      const value = { text: 'é'.repeat(3000), createdAt: new Date(0) };
+
+      const result = await provider.set({ key: 'doc', value, ttl: 60 });
+      const stored = await memory.get({ key: 'doc' });
+      const chunks = (await memory.scan({ pattern: 'doc:__chunk:*' })).keys;
+
+      expect(result).toMatchObject({ success: true, key: 'doc' });
+      expect(stored.value).toHaveProperty(['__basepack$chunks']);
+      expect(chunks.length).toBeGreaterThan(5);
+      expect((await memory.ttl({ key: chunks[0] })).expiresIn).toBeGreaterThan(59000);
+      expect((await provider.get({ key: 'doc' })).value).toEqual(value);
+    });
+
+    it('should keep every chunk within the limit', async () => {
+      await provider.set({ key: 'doc', value: large(10000) });
+
+      const chunks = (await memory.scan({ pattern: 'doc:__chunk:*' })).keys;
+      const values = await memory.getMany<string>({ keys: chunks });
+
+      values.forEach(chunk => expect(JSON.stringify(chunk.value).length).toBeLessThanOrEqual(1024));
+    });
+
+    it('should reassemble binary serializer output', async () => {
+      const binary = new SizeLimitCacheProvider(memory, { limit: 1024, strategy: 'chunk' }, new MessagePackSerializer(), noopLogger);
+      const value = { payload: Buffer.alloc(5000, 7) };
+
+      await binary.set({ key: 'blob', value });
+
+      expect((await binary.get({ key: 'blob' })).value).toEqual(value);
+    });
+
+    it('should remove old chunks when a value is replaced or deleted', async () => {
+      await provider.set({ key: 'doc', value: large(5000) });
+      await provider.set({ key: 'doc', value: large(4000) });
+
+      const before = (await memory.scan({ pattern: 'doc:__chunk:*' })).keys.length;
+      await provider.set({ key: 'doc', value: 'small' });
+
+      expect(before).toBe(Math.ceil(4015 / 720));
+      expect((await memory.scan({ pattern: 'doc:__chunk:*' })).keys).toEqual([]);
+      expect((await provider.get({ key: 'doc' })).value).toBe('small');
+
+      await provider.set({ key: 'doc', value: large(5000) });
+      await provider.delete({ key: 'doc' });
+
+      expect((await memory.scan({ pattern: '*' })).keys).toEqual([]);
+    });
+
+    it('should return user values that look like manifests unchanged', async () => {
+      const values = [
+        { __basepackChunks: { id: 'abc', count: 2, encoding: 'utf8' } },
+        { '__basepack$chunks': null },
+        { '__basepack$chunks': { id: '../x', count: 2, encoding: 'utf8' } },
+        { '__basepack$chunks': { id: 'abc', count: -1, encoding: 'utf8' } },
+        { '__basepack$chunks': { id: 'abc', count: 2, encoding: 'base64' } },
+      ];
+
+      for (const value of values) {
+        await provider.set({ key: 'doc', value });
+        expect((await provider.get({ key: 'doc' })).value).toEqual(value);
+      }
+    });
+
+    it('should treat a value with missing chunks as a miss', async () => {
+      await provider.set({ key: 'doc', value: large(5000) });
+      const chunks = (await memory.scan({ pattern: 'doc:__chunk:*' })).keys;
+      await memory.delete({ key: chunks[1] });
+
+      expect((await provider.get({ key: 'doc' })).found).toBe(false);
+    });
+
+    it('should chunk batch writes and reads', async () => {
+      const results = await provider.setMany({
+        entries: [{ key: 'small', value: 1 }, { key: 'big', value: large(5000) }],
+      });
+      const values = await provider.getMany({ keys: ['big', 'small', 'missing'] });
+
+      expect(results.map(result => [result.key, result.success])).toEqual([['small', true], ['big', true]]);
+      expect(values.map(result => result.value)).toEqual([large(5000), 1, undefined]);
+
+      await provider.deleteMany({ keys: ['small', 'big'] });
+      expect((await memory.scan({ pattern: '*' })).keys).toEqual([]);
+    });
+
+    it('should only add a chunked value when the key is free', async () => {
+      await provider.set({ key: 'doc', value: 'existing' });
+
+      const result = await provider.add({ key: 'doc', value: large(5000) });
+
+      expect(result.added).toBe(false);
+      expect((await memory.scan({ pattern: '*' })).keys).toEqual(['doc']);
+
+      expect((await provider.add({ key: 'fresh', value: large(5000) })).added).toBe(true);
+      expect((await provider.get({ key: 'fresh' })).value).toEqual(large(5000));
+    });
+
+    it('should apply expire to the chunks', async () => {
+      await provider.set({ key: 'doc', value: large(5000), ttl: 60 });
+
+      await provider.expire({ key: 'doc', ttl: 600 });
+
+      const chunks = (await memory.scan({ pattern: 'doc:__chunk:*' })).keys;
+      expect((await memory.ttl({ key: chunks[0] })).expiresIn).toBeGreaterThan(60000);
+    });
+
+    it('should hide chunk keys from scans', async () => {
+      await provider.set({ key: 'doc', value: large(5000) });
+
+      expect((await provider.scan({ pattern: '*' })).keys).toEqual(['doc']);
+    });
+
+    it('should remove chunks when their tags are invalidated', async () => {
+      await provider.set({ key: 'big', value: large(10000), tags: ['t'] });
+      await provider.setMany({ entries: [{ key: 'other', value: large(5000), tags: ['t'] }] });
+
+      await provider.invalidateTags(['t']);
+
+      expect((await memory.scan({ pattern: '*' })).keys).toEqual([]);
+    });
+
+    it('should remove old chunks when a compare-and-set replaces a chunked value', async () => {
+      await provider.set({ key: 'doc', value: large(5000) });
+
+      expect((await provider.compareAndSet({ key: 'doc', expected: large(4000), value: 'small' })).swapped).toBe(false);
+      const result = await provider.compareAndSet({ key: 'doc', expected: large(5000), value: 'small' });
+
+      expect(result.swapped).toBe(true);
+      expect((await memory.scan({ pattern: '*' })).keys).toEqual(['doc']);
+      expect((await provider.get({ key: 'doc' })).value).toBe('small');
+    });
+
+    it('should still reject oversized compare-and-set values', async () => {
+      await expect(provider.compareAndSet({ key: 'doc', expected: null, value: large(5000) })).rejects.toThrow(CacheValidationError);
+    });
+  });
+
+  it('should validate options', () => {
+    expect(() => new SizeLimitCacheProvider(memory, { limit: 0 })).toThrow(expect.objectContaining({ field: 'maxValueSize.limit' }));
+    expect(() => new SizeLimitCacheProvider(memory, { limit: 100, strategy: 'chunk' })).toThrow(expect.objectContaining({ field: 'maxValueSize.limit' }));
+    expect(() => new SizeLimitCacheProvider(memory, { limit: 100, strategy: 'split' as any })).toThrow(expect.objectContaining({ field: 'maxValueSize.strategy' }));
+  });
+
+  describe('with CacheService', () => {
+    it('should apply maxValueSize', async () => {
+      const cache = new CacheService({
+        provider: CacheProvider.MEMORY,
+        config: { cleanupInterval: 0 },
+        maxValueSize: 100,
+        logger: noopLogger,
+      });
+
+      await expect(cache.set({ key: 'big', value: large(200) })).rejects.toThrow(CacheValidationError);
+
+      await expect(cache.getOrSet({ key: 'big', loader: () => large(200) })).rejects.toThrow(CacheValidationError);
+      expect((await cache.set({ key: 'small', value: large(10) })).success).toBe(true);
+
+      await cache.close();
+    });
+
+    it('should chunk values in front of the local tier', async () => {
+      const cache = new CacheService({
+        provider: CacheProvider.MEMORY,
+        config: { cleanupInterval: 0 },
+        local: { ttl: 30, cleanupInterval: 0 },
+        maxValueSize: { limit: 1024, strategy: 'chunk' },
+        logger: noopLogger,
+      });
+
+      await cache.set({ key: 'doc', value: large(5000) });
+
+      expect((await cache.get({ key: 'doc' })).value).toEqual(large(5000));
+      const keys: string[] = [];
+      for await (const page of cache.keys()) {
+        keys.push(...page.keys);
+      }
+      expect(keys).toEqual(['doc']);
+
+      await cache.close();
+    });
+  });
+});
@@ -0,0 +1,481 @@
+/**
+ * Unit tests for tiered cache provider
+ */
+
+import { TieredCacheProvider } from '../../../src/cache/tiered';
+import { CacheInvalidationBroadcaster } from '../../../src/cache/invalidation';
+import { MemoryProvider } from '../../../src/cache/adapters/memory';
+import { CacheProvider } from '../../../src/cache/types';
+import { CacheValidationError, CacheNotSupportedError } from '../../../src/cache/errors';
+import { noopLogger } from '../../../src/logger';
+
+describe('TieredCacheProvider', () => {
+  let local: MemoryProvider;
+  let remote: any;
+  let provider: TieredCacheProvider;
+
+  beforeEach(() => {
+    local = new MemoryProvider({ cleanupInterval: 0 }, noopLogger);
+    remote = {
+      name: CacheProvider.REDIS,
+      get: jest.fn(),
+      set: jest.fn().mockResolvedValue({ success: true, key: 'key', provider: CacheProvider.REDIS, timestamp: new Date() }),
+      add: jest.fn().mockResolvedValue({ success: true, key: 'key', added: true, provider: CacheProvider.REDIS, timestamp: new Date() }),
+      delete: jest.fn().mockResolvedValue({ success: true, key: 'key', provider: CacheProvider.REDIS, timestamp: new Date() }),
+      has: jest.fn(),
+      getMany: jest.fn(),
+      setMany: jest.fn(),
+      deleteMany: jest.fn().mockResolvedValue([]),
+      increment: jest.fn().mockResolvedValue({ success: true, key: 'key', value: 2, provider: CacheProvider.REDIS, timestamp: new Date() }),
+      decrement: jest.fn(),
+      compareAndSet: jest.fn().mockResolvedValue({ success: true, key: 'key', swapped: true, provider: CacheProvider.REDIS, timestamp: new Date() }),
+      invalidateTags: jest.fn().mockResolvedValue({ success: true, tags: ['user:42'], invalidated: 1, provider: CacheProvider.REDIS, timestamp: new Date() }),
+      extendLock: jest.fn().mockResolvedValue({ success: true, key: 'job:__lock', owned: true, provider: CacheProvider.REDIS, timestamp: new Date() }),
+      releaseLock: jest.fn().mockResolvedValue({ success: true, key: 'job:__lock', owned: true, provider: CacheProvider.REDIS, timestamp: new Date() }),
+      rateLimit: jest.fn().mockResolvedValue({ success: true, key: 'ratelimit:api', allowed: true, limit: 10, remaining: 9, resetAt: new Date(), provider: CacheProvider.REDIS, timestamp: new Date() }),
+      scan: jest.fn().mockResolvedValue({ success: true, keys: ['user:1'], provider: CacheProvider.REDIS, timestamp: new Date() }),
+      ttl: jest.fn().mockResolvedValue({ success: true, key: 'key', exists: true, provider: CacheProvider.REDIS, timestamp: new Date() }),
+      expire: jest.fn(),
+      touch: jest.fn(),
+      hashGet: jest.fn(),
+      hashSet: jest.fn(),
+      listPush: jest.fn(),
+      listPop: jest.fn(),
+      listRange: jest.fn(),
+      setAdd: jest.fn(),
+      setMembers: jest.fn(),
+      sortedSetAdd: jest.fn(),
+      sortedSetRange: jest.fn(),
+      publish: jest.fn(),
+      subscribe: jest.fn(),
+      clear: jest.fn().mockResolvedValue({ success: true, provider: CacheProvider.REDIS, timestamp: new Date() }),
+      health: jest.fn(),
+      close: jest.fn(),
+    };
+    provider = new TieredCacheProvider(local, remote, { ttl: 30 }, noopLogger);
+  });
+
+  afterEach(async () => {
+    await local.close();
+  });
+
+  it('should report the remote provider name', () => {
+    expect(provider.name).toBe(CacheProvider.REDIS);
+  });
+
+  it('should reject an invalid local TTL', () => {
+    expect(() => new TieredCacheProvider(local, remote, { ttl: 0 }, noopLogger)).toThrow(CacheValidationError);
+  });
+
+  describe('get', () => {
+    it('should serve local hits without calling the remote tier', async () => {
+      await local.set({ key: 'user:1', value: { name: 'John' } });
+
+      const result = await provider.get({ key: 'user:1' });
+
+      expect(result.value).toEqual({ name: 'John' });
+      expect(result.provider).toBe(CacheProvider.MEMORY);
+      expect(remote.get).not.toHaveBeenCalled();
+    });
+
+    it('should fall through to the remote tier and back-fill the local tier', async () => {
+      remote.get.mockResolvedValue({ success: true, key: 'user:1', value: { name: 'John' }, found: true, provider: CacheProvider.REDIS });
+      const localSet = jest.spyOn(local, 'set');
+
+      const result = await provider.get({ key: 'user:1' });
+
+      expect(result.provider).toBe(CacheProvider.REDIS);
+      expect(localSet).toHaveBeenCalledWith({ key: 'user:1', value: { name: 'John' }, ttl: 30 });
+      expect((await local.get({ key: 'user:1' })).value).toEqual({ name: 'John' });
+    });
+
+    it('should cap the back-filled TTL at the remote remaining TTL', async () => {
+      remote.get.mockResolvedValue({ success: true, key: 'user:1', value: 'John', found: true, provider: CacheProvider.REDIS });
+      remote.ttl.mockResolvedValue({ success: true, key: 'user:1', exists: true, expiresIn: 2500, provider: CacheProvider.REDIS, timestamp: new Date() });
+      const localSet = jest.spyOn(local, 'set');
+
+      await provider.get({ key: 'user:1' });
+
+      expect(remote.ttl).toHaveBeenCalledWith({ key: 'user:1' });
+      expect(localSet).toHaveBeenCalledWith({ key: 'user:1', value: 'John', ttl: 2 });
+    });
+
+    it('should not back-fill entries about to expire remotely', async () => {
+      remote.get.mockResolvedValue({ success: true, key: 'user:1', value: 'John', found: true, provider: CacheProvider.REDIS });
+      remote.ttl.mockResolvedValue({ success: true, key: 'user:1', exists: true, expiresIn: 400, provider: CacheProvider.REDIS, timestamp: new Date() });
+
+      const result = await provider.get({ key: 'user:1' });
+
+      expect(result.value).toBe('John');
+      expect((await local.has({ key: 'user:1' })).exists).toBe(false);
+    });
+
+    it('should back-fill with the local TTL when the remote tier cannot report TTLs', async () => {
+      remote.get.mockResolvedValue({ success: true, key: 'user:1', value: 'John', found: true, provider: CacheProvider.MEMCACHED });
+      remote.ttl.mockRejectedValue(new CacheNotSupportedError('Memcached cannot read the TTL of a key', CacheProvider.MEMCACHED, 'ttl'));
+      const localSet = jest.spyOn(local, 'set');
+
+      await provider.get({ key: 'user:1' });
+
+      expect(localSet).toHaveBeenCalledWith({ key: 'user:1', value: 'John', ttl: 30 });
+    });
+
+    it('should not back-fill remote misses', async () => {
+      remote.get.mockResolvedValue({ success: true, key: 'user:1', found: false, provider: CacheProvider.REDIS });
+
+      const result = await provider.get({ key: 'user:1' });
+
+      expect(result.found).toBe(false);
+      expect((await local.has({ key: 'user:1' })).exists).toBe(false);
+    });
+  });
+
+  describe('set', () => {
+    it('should write through both tiers with the local TTL capped', async () => {
+      const localSet = jest.spyOn(local, 'set');
+
+      await provider.set({ key: 'user:1', value: 'John', ttl: 3600 });
+
+      expect(remote.set).toHaveBeenCalledWith({ key: 'user:1', value: 'John', ttl: 3600 });
+      expect(localSet).toHaveBeenCalledWith({ key: 'user:1', value: 'John', ttl: 30 });
+    });
+
+    it('should keep a shorter requested TTL in the local tier', async () => {
+      const localSet = jest.spyOn(local, 'set');
+
+      await provider.set({ key: 'user:1', value: 'John', ttl: 10 });
+
+      expect(localSet).toHaveBeenCalledWith({ key: 'user:1', value: 'John', ttl: 10 });
+    });
+
+    it('should drop the local copy when the remote write fails', async () => {
+      await local.set({ key: 'user:1', value: 'stale' });
+      remote.set.mockResolvedValue({ success: false, key: 'user:1', provider: CacheProvider.REDIS, timestamp: new Date(), error: 'Connection failed' });
+
+      const result = await provider.set({ key: 'user:1', value: 'John' });
+
+      expect(result.success).toBe(false);
+      expect((await local.has({ key: 'user:1' })).exists).toBe(false);
+    });
+  });
+
+  describe('add', () => {
+    it('should add in the remote tier and drop the local copy', async () => {
+      await local.set({ key: 'lock', value: 'stale' });
+
+      const result = await provider.add({ key: 'lock', value: 1, ttl: 10 });
+
+      expect(result.added).toBe(true);
+      expect(remote.add).toHaveBeenCalledWith({ key: 'lock', value: 1, ttl: 10 });
+      expect((await local.has({ key: 'lock' })).exists).toBe(false);
+    });
+
+    it('should not invalidate anything when the key already exists', async () => {
+      remote.subscribe.mockResolvedValue({ channel: 'basepack:cache:invalidation', unsubscribe: jest.fn() });
+      remote.add.mockResolvedValue({ success: true, key: 'lock', added: false, provider: CacheProvider.REDIS, timestamp: new Date() });
+      const broadcasting = new TieredCacheProvider(local, remote, { broadcaster: new CacheInvalidationBroadcaster(remote, {}, noopLogger) }, noopLogger);
+      await local.set({ key: 'lock', value: 'held' });
+
+      const result = await broadcasting.add({ key: 'lock', value: 1, ttl: 10 });
+
+      expect(result.added).toBe(false);
+      expect(remote.publish).not.toHaveBeenCalled();
+      expect((await local.has({ key: 'lock' })).exists).toBe(true);
+    });
+  });
+
+  describe('batch operations', () => {
+    it('should only fetch local misses from the remote tier', async () => {
+      await local.set({ key: 'user:1', value: 'John' });
+      remote.getMany.mockResolvedValue([
+        { success: true, key: 'user:2', value: 'Jane', found: true, provider: CacheProvider.REDIS },
+        { success: true, key: 'user:3', found: false, provider: CacheProvider.REDIS },
+      ]);
+
+      const results = await provider.getMany({ keys: ['user:1', 'user:2', 'user:3'] });
+
+      expect(remote.getMany).toHaveBeenCalledWith({ keys: ['user:2', 'user:3'] });
+      expect(results.map(result => result.value)).toEqual(['John', 'Jane', undefined]);
+      expect(results[0].provider).toBe(CacheProvider.MEMORY);
+      expect((await local.get({ key: 'user:2' })).value).toBe('Jane');
+      expect((await local.has({ key: 'user:3' })).exists).toBe(false);
+    });
+
+    it('should back-fill each entry with its remaining remote TTL', async () => {
+      remote.getMany.mockResolvedValue([
+        { success: true, key: 'a', value: 1, found: true, provider: CacheProvider.REDIS },
+        { success: true, key: 'b', value: 2, found: true, provider: CacheProvider.REDIS },
+      ]);
+      remote.ttl.mockImplementation(async ({ key }: { key: string }) => ({
+        success: true, key, exists: true, expiresIn: key === 'a' ? 5000 : undefined, provider: CacheProvider.REDIS, timestamp: new Date(),
+      }));
+      const localSetMany = jest.spyOn(local, 'setMany');
+
+      await provider.getMany({ keys: ['a', 'b'] });
+
+      expect(localSetMany).toHaveBeenCalledWith({ entries: [{ key: 'a', value: 1, ttl: 5 }, { key: 'b', value: 2, ttl: 30 }] });
+    });
+
+    it('should skip the remote tier when every key is local', async () => {
+      await local.setMany({ entries: [{ key: 'a', value: 1 }, { key: 'b', value: 2 }] });
+
+      const results = await provider.getMany({ keys: ['a', 'b'] });
+
+      expect(results.map(result => result.value)).toEqual([1, 2]);
+      expect(remote.getMany).not.toHaveBeenCalled();
+    });
+
+    it('should write accepted entries through and drop rejected ones locally', async () => {
+      await local.set({ key: 'b', value: 'stale' });
+      remote.setMany.mockResolvedValue([
+        { success: true, key: 'a', provider: CacheProvider.REDIS, timestamp: new Date() },
+        { success: false, key: 'b', provider: CacheProvider.REDIS, timestamp: new Date(), error: 'OOM' },
+      ]);
+
+      await provider.setMany({ entries: [{ key: 'a', value: 1 }, { key: 'b', value: 2 }], ttl: 3600 });
+
+      expect((await local.get({ key: 'a' })).value).toBe(1);
+      expect((await local.has({ key: 'b' })).exists).toBe(false);
+    });
+
+    it('should delete from both tiers', async () => {
+      await local.set({ key: 'a', value: 1 });
+
+      await provider.deleteMany({ keys: ['a'] });
+
+      expect(remote.deleteMany).toHaveBeenCalledWith({ keys: ['a'] });
+      expect((await local.has({ key: 'a' })).exists).toBe(false);
+    });
+  });
+
+  describe('counters and compare-and-set', () => {
+    it('should increment in the remote tier and drop the local copy', async () => {
+      await local.set({ key: 'views', value: 1 });
+
+      const result = await provider.increment({ key: 'views' });
+
+      expect(result.value).toBe(2);
+      expect(remote.increment).toHaveBeenCalledWith({ key: 'views' });
+      expect((await local.has({ key: 'views' })).exists).toBe(false);
+    });
+
+    it('should compare against the remote tier and drop the local copy', async () => {
+      await local.set({ key: 'version', value: 1 });
+
+      await provider.compareAndSet({ key: 'version', expected: 1, value: 2 });
+
+      expect(remote.compareAndSet).toHaveBeenCalledWith({ key: 'version', expected: 1, value: 2 });
+      expect((await local.has({ key: 'version' })).exists).toBe(false);
+    });
+  });
+
+  describe('locks', () => {
+    it('should extend and release locks in the remote tier', async () => {
+      await local.set({ key: 'job:__lock', value: 'token' });
+
+      await provider.extendLock({ key: 'job:__lock', token: 'token', ttl: 30 });
+      const result = await provider.releaseLock({ key: 'job:__lock', token: 'token' });
+
+      expect(result.owned).toBe(true);
+      expect(remote.extendLock).toHaveBeenCalledWith({ key: 'job:__lock', token: 'token', ttl: 30 });
+      expect(remote.releaseLock).toHaveBeenCalledWith({ key: 'job:__lock', token: 'token' });
+      expect((await local.has({ key: 'job:__lock' })).exists).toBe(false);
+    });
+  });
+
+  describe('rateLimit', () => {
+    it('should only use the remote tier', async () => {
+      const config = { key: 'ratelimit:api', algorithm: 'fixed-window' as const, limit: 10, window: 60 };
+
+      const result = await provider.rateLimit(config);
+
+      expect(result.remaining).toBe(9);
+      expect(remote.rateLimit).toHaveBeenCalledWith(config);
+      expect((await local.has({ key: 'ratelimit:api' })).exists).toBe(false);
+    });
+  });
+
+  describe('scan', () => {
+    it('should only scan the remote tier', async () => {
+      const result = await provider.scan({ pattern: 'user:*' });
+
+      expect(result.keys).toEqual(['user:1']);
+      expect(remote.scan).toHaveBeenCalledWith({ pattern: 'user:*' });
+    });
+  });
+
+  describe('data structures', () => {
+    it('should use the remote tier only', async () => {
+      remote.hashGet.mockResolvedValue({ success: true, key: 'user:1', fields: { name: 'John' }, provider: CacheProvider.REDIS, timestamp: new Date() });
+
+      const result = await provider.hashGet({ key: 'user:1' });
+
+      expect(result.fields).toEqual({ name: 'John' });
+      expect((await local.has({ key: 'user:1' })).exists).toBe(false);
+    });
+  });
+
+  describe('expire and touch', () => {
+    const expireResult = (exists: boolean) => ({ success: true, key: 'session:1', exists, provider: CacheProvider.REDIS, timestamp: new Date() });
+
+    it('should cap the local expiry at the local TTL', async () => {
+      jest.useFakeTimers({ now: 0 });
+      await local.set({ key: 'session:1', value: 'data', ttl: 5 });
+      remote.expire.mockResolvedValue(expireResult(true));
+
+      await provider.expire({ key: 'session:1', ttl: 3600 });
+
+      expect(remote.expire).toHaveBeenCalledWith({ key: 'session:1', ttl: 3600 });
+      expect((await local.ttl({ key: 'session:1' })).expiresIn).toBe(30000);
+      jest.useRealTimers();
+    });
+
+    it('should drop the local copy when the remote key is gone', async () => {
+      await local.set({ key: 'session:1', value: 'data' });
+      remote.touch.mockResolvedValue(expireResult(false));
+
+      const result = await provider.touch({ key: 'session:1' });
+
+      expect(result.exists).toBe(false);
+      expect((await local.has({ key: 'session:1' })).exists).toBe(false);
+    });
+  });
+
+  describe('invalidateTags', () => {
+    it('should invalidate the remote tier and clear the local tier', async () => {
+      await local.set({ key: 'user:42:orders', value: [] });
+
+      const result = await provider.invalidateTags(['user:42']);
+
+      expect(result.invalidated).toBe(1);
+      expect(remote.invalidateTags).toHaveBeenCalledWith(['user:42']);
+      expect((await local.has({ key: 'user:42:orders' })).exists).toBe(false);
+    });
+  });
+
+  describe('delete and clear', () => {
+    it('should delete from both tiers', async () => {
+      await local.set({ key: 'user:1', value: 'John' });
+
+      await provider.delete({ key: 'user:1' });
+
+      expect(remote.delete).toHaveBeenCalledWith({ key: 'user:1' });
+      expect((await local.has({ key: 'user:1' })).exists).toBe(false);
+    });
+
+    it('should clear both tiers', async () => {
+      await local.set({ key: 'user:1', value: 'John' });
+
+      await provider.clear();
+
+      expect(remote.clear).toHaveBeenCalled();
+      expect((await local.has({ key: 'user:1' })).exists).toBe(false);
+    });
+  });
+
+  describe('publish and subscribe', () => {
+    it('should use the remote tier', async () => {
+      remote.publish.mockResolvedValue({ success: true, channel: 'orders', receivers: 2, provider: CacheProvider.REDIS, timestamp: new Date() });
+      const listener = jest.fn();
+
+      const result = await provider.publish({ channel: 'orders', message: 'shipped' });
+      await provider.subscribe({ channel: 'orders', listener });
+
+      expect(result.receivers).toBe(2);
+      expect(remote.publish).toHaveBeenCalledWith({ channel: 'orders', message: 'shipped' });
+      expect(remote.subscribe).toHaveBeenCalledWith({ channel: 'orders', listener });
+    });
+
+    it('should unsubscribe the broadcaster on close', async () => {
+      const unsubscribe = jest.fn();
+      remote.subscribe.mockResolvedValue({ channel: 'basepack:cache:invalidation', unsubscribe });
+      const broadcaster = new CacheInvalidationBroadcaster(remote, {}, noopLogger);
+
+      await new TieredCacheProvider(local, remote, { broadcaster }, noopLogger).close();
+
+      expect(remote.subscribe).toHaveBeenCalledWith({ channel: 'basepack:cache:invalidation', listener: expect.any(Function) });
+      expect(unsubscribe).toHaveBeenCalled();
+      expect(remote.close).toHaveBeenCalled();
+    });
+  });
+
+  describe('invalidation broadcasting', () => {
+    let shared: MemoryProvider;
+    let otherLocal: MemoryProvider;
+    let first: TieredCacheProvider;
+    let second: TieredCacheProvider;
+
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(async () => {
+      shared = new MemoryProvider({ cleanupInterval: 0 }, noopLogger);
+      otherLocal = new MemoryProvider({ cleanupInterval: 0 }, noopLogger);
+      first = new TieredCacheProvider(local, shared, { broadcaster: new CacheInvalidationBroadcaster(shared, {}, noopLogger) }, noopLogger);
+      second = new TieredCacheProvider(otherLocal, shared, { broadcaster: new CacheInvalidationBroadcaster(shared, {}, noopLogger) }, noopLogger);
+      await flush();
+    });
+
+    afterEach(async () => {
+      await second.close();
+      await shared.close();
+    });
+
+    it('should drop other instances\' local copies on set', async () => {
+      await first.set({ key: 'user:1', value: 'John' });
+      expect((await second.get({ key: 'user:1' })).value).toBe('John');
+
+      await first.set({ key: 'user:1', value: 'Jane' });
+      await flush();
+
+      expect((await otherLocal.has({ key: 'user:1' })).exists).toBe(false);
+      expect((await second.get({ key: 'user:1' })).value).toBe('Jane');
+      expect((await local.get({ key: 'user:1' })).value).toBe('Jane');
+    });
+
+    it('should propagate deletes', async () => {
+      await first.set({ key: 'user:1', value: 'John' });
+      await second.get({ key: 'user:1' });
+
+      await first.deleteMany({ keys: ['user:1'] });
+      await flush();
+
+      expect((await otherLocal.has({ key: 'user:1' })).exists).toBe(false);
+    });
+
+    it('should propagate clear', async () => {
+      await otherLocal.set({ key: 'user:1', value: 'John' });
+      await otherLocal.set({ key: 'user:2', value: 'Jane' });
+
+      await first.clear();
+      await flush();
+
+      expect((await otherLocal.has({ key: 'user:1' })).exists).toBe(false);
+      expect((await otherLocal.has({ key: 'user:2' })).exists).toBe(false);
+    });
+  });
+
+  describe('has', () => {
+    it('should fall through to the remote tier on a local miss', async () => {
+      remote.has.mockResolvedValue({ success: true, key: 'user:1', exists: true, provider: CacheProvider.REDIS });
+
+      const result = await provider.has({ key: 'user:1' });
+
+      expect(result.exists).toBe(true);
+      expect(remote.has).toHaveBeenCalledWith({ key: 'user:1' });
+    });
+  });
+
+  describe('health', () => {
+    it('should report each tier separately', async () => {
+      const remoteHealth = { provider: CacheProvider.REDIS, status: 'unhealthy', error: 'Connection refused', timestamp: new Date() };
+      remote.health.mockResolvedValue(remoteHealth);
+
+      const health = await provider.health();
+
+      expect(health.status).toBe('unhealthy');
+      expect(health.error).toBe('Connection refused');
+      expect(health.details?.remote).toEqual(remoteHealth);
+      expect(health.details?.local.provider).toBe(CacheProvider.MEMORY);
+    });
+  });
+});
@@ -9,13 +9,15 @@ describe('Cache Types', () => {
     it('should have correct enum values', () => {
       expect(CacheProvider.REDIS).toBe('redis');
       expect(CacheProvider.MEMCACHED).toBe('memcached');
+      expect(CacheProvider.MEMORY).toBe('memory');
     });
 
-    it('should have only two providers', () => {
+    it('should have only three providers', () => {
       const providers = Object.values(CacheProvider);
-      expect(providers).toHaveLength(2);
+      expect(providers).toHaveLength(3);
       expect(providers).toContain('redis');
       expect(providers).toContain('memcached');
+      expect(providers).toContain('memory');
     });
   });
 });
@@ -5,10 +5,38 @@
 import {
   validateCacheKey,
   validateTTL,
+  validateRedisConfig,
+  validateMemcachedConfig,
   validateCacheGetConfig,
   validateCacheSetConfig,
   validateCacheDeleteConfig,
   validateCacheHasConfig,
+  validateCacheGetOrSetConfig,
+  validateCacheGetManyConfig,
+  validateCacheSetManyConfig,
+  validateCacheDeleteManyConfig,
+  validateCacheIncrementConfig,
+  validateCacheCompareAndSetConfig,
+  validateCacheTags,
+  validateCacheLockConfig,
+  validateCacheReleaseLockConfig,
+  validateCacheExtendLockConfig,
+  validateCacheRateLimitConfig,
+  validateCacheKeysConfig,
+  validateCacheTtlConfig,
+  validateCacheExpireConfig,
+  validateCacheTouchConfig,
+  validateCacheHashGetConfig,
+  validateCacheHashSetConfig,
+  validateCacheListPushConfig,
+  validateCacheListPopConfig,
+  validateCacheListRangeConfig,
+  validateCacheSetAddConfig,
+  validateCacheSortedSetAddConfig,
+  validateCacheSortedSetRangeConfig,
+  validateCacheChannel,
+  validateCachePublishConfig,
+  validateCacheSubscribeConfig,
   validateSerializable,
 } from '../../../src/cache/validation';
 import { CacheValidationError } from '../../../src/cache/errors';
@@ -179,6 +207,297 @@ describe('Cache Validation', () => {
     });
   });
 
+  describe('validateCacheGetOrSetConfig', () => {
+    const loader = () => 'value';
+
+    it('should accept valid get-or-set config', () => {
+      expect(() => validateCacheGetOrSetConfig({ key: 'user:123', loader })).not.toThrow();
+      expect(() => validateCacheGetOrSetConfig({ key: 'user:123', ttl: 60, softTtl: 30, lock: { ttl: 5 }, loader })).not.toThrow();
+    });
+
+    it('should reject a missing loader', () => {
+      expect(() => validateCacheGetOrSetConfig({ key: 'user:123' } as any)).toThrow(CacheValidationError);
+    });
+
+    it('should reject a soft TTL that is not less than the TTL', () => {
+      expect(() => validateCacheGetOrSetConfig({ key: 'user:123', ttl: 60, softTtl: 60, loader })).toThrow('Soft TTL must be less than TTL');
+    });
+
+    it('should reject an invalid lock TTL', () => {
+      expect(() => validateCacheGetOrSetConfig({ key: 'user:123', lock: { ttl: -1 }, loader })).toThrow(CacheValidationError);
+    });
+  });
+
+  describe('validateCacheGetManyConfig', () => {
+    it('should accept valid get-many config', () => {
+      expect(() => validateCacheGetManyConfig({ keys: ['user:1', 'user:2'] })).not.toThrow();
+    });
+
+    it('should reject an empty key list', () => {
+      expect(() => validateCacheGetManyConfig({ keys: [] })).toThrow('Keys must be a non-empty array');
+    });
+
+    it('should report the index of an invalid key', () => {
+      expect(() => validateCacheGetManyConfig({ keys: ['user:1', ''] })).toThrow(
+        expect.objectContaining({ field: 'keys[1]' })
+      );
+    });
+  });
+
+  describe('validateCacheSetManyConfig', () => {
+    it('should accept valid set-many config', () => {
+      expect(() => validateCacheSetManyConfig({ entries: [{ key: 'user:1', value: 'John', ttl: 60 }], ttl: 3600 })).not.toThrow();
+    });
+
+    it('should reject an empty entry list', () => {
+      expect(() => validateCacheSetManyConfig({ entries: [] })).toThrow('Entries must be a non-empty array');
+    });
+
+    it('should reject undefined values and invalid TTLs', () => {
+      expect(() => validateCacheSetManyConfig({ entries: [{ key: 'user:1', value: undefined }] })).toThrow(CacheValidationError);
+      expect(() => validateCacheSetManyConfig({ entries: [{ key: 'user:1', value: 'John', ttl: -1 }] })).toThrow(CacheValidationError);
+      expect(() => validateCacheSetManyConfig({ entries: [{ key: 'user:1', value: 'John' }], ttl: 0 })).toThrow(CacheValidationError);
+    });
+  });
+
+  describe('validateCacheDeleteManyConfig', () => {
+    it('should accept valid delete-many config', () => {
+      expect(() => validateCacheDeleteManyConfig({ keys: ['user:1'] })).not.toThrow();
+    });
+
+    it('should reject a missing key list', () => {
+      expect(() => validateCacheDeleteManyConfig({} as any)).toThrow(CacheValidationError);
+    });
+  });
+
+  describe('validateCacheIncrementConfig', () => {
+    it('should accept valid increment config', () => {
+      expect(() => validateCacheIncrementConfig({ key: 'views' })).not.toThrow();
+      expect(() => validateCacheIncrementConfig({ key: 'views', by: 10, ttl: 60 })).not.toThrow();
+    });
+
+    it('should reject amounts that are not positive integers', () => {
+      expect(() => validateCacheIncrementConfig({ key: 'views', by: 0 })).toThrow('Increment amount must be a positive integer');
+      expect(() => validateCacheIncrementConfig({ key: 'views', by: -1 })).toThrow(CacheValidationError);
+      expect(() => validateCacheIncrementConfig({ key: 'views', by: 1.5 })).toThrow(CacheValidationError);
+    });
+  });
+
+  describe('validateCacheCompareAndSetConfig', () => {
+    it('should accept valid compare-and-set config', () => {
+      expect(() => validateCacheCompareAndSetConfig({ key: 'version', expected: 1, value: 2 })).not.toThrow();
+      expect(() => validateCacheCompareAndSetConfig({ key: 'version', expected: null, value: 2, ttl: 60 })).not.toThrow();
+    });
+
+    it('should reject undefined expected or new values', () => {
+      expect(() => validateCacheCompareAndSetConfig({ key: 'version', expected: undefined, value: 2 })).toThrow('Expected value cannot be undefined');
+      expect(() => validateCacheCompareAndSetConfig({ key: 'version', expected: 1, value: undefined })).toThrow(CacheValidationError);
+    });
+  });
+
+  describe('validateCacheLockConfig', () => {
+    it('should accept valid lock config', () => {
+      expect(() => validateCacheLockConfig({ key: 'jobs:nightly' })).not.toThrow();
+      expect(() => validateCacheLockConfig({ key: 'jobs:nightly', ttl: 60, waitTimeout: 0, retryDelay: 100 })).not.toThrow();
+    });
+
+    it('should reject invalid TTLs and wait times', () => {
+      expect(() => validateCacheLockConfig({ key: 'jobs:nightly', ttl: 0 })).toThrow(
+        expect.objectContaining({ field: 'ttl' })
+      );
+      expect(() => validateCacheLockConfig({ key: 'jobs:nightly', waitTimeout: -1 })).toThrow(
+        expect.objectContaining({ field: 'waitTimeout' })
+      );
+      expect(() => validateCacheLockConfig({ key: 'jobs:nightly', retryDelay: 1.5 })).toThrow(
+        expect.objectContaining({ field: 'retryDelay' })
+      );
+    });
+  });
+
+  describe('validateCacheReleaseLockConfig and validateCacheExtendLockConfig', () => {
+    it('should accept valid token configs', () => {
+      expect(() => validateCacheReleaseLockConfig({ key: 'jobs:nightly:__lock', token: 'abc' })).not.toThrow();
+      expect(() => validateCacheExtendLockConfig({ key: 'jobs:nightly:__lock', token: 'abc', ttl: 30 })).not.toThrow();
+    });
+
+    it('should reject missing tokens and TTLs', () => {
+      expect(() => validateCacheReleaseLockConfig({ key: 'jobs:nightly:__lock', token: '' })).toThrow('Lock token must be a non-empty string');
+      expect(() => validateCacheExtendLockConfig({ key: 'jobs:nightly:__lock', token: 'abc', ttl: undefined as any })).toThrow(
+        expect.objectContaining({ field: 'ttl' })
+      );
+    });
+  });
+
+  describe('validateCacheRateLimitConfig', () => {
+    const config = { key: 'ratelimit:api', algorithm: 'token-bucket' as const, limit: 10, window: 60 };
+
+    it('should accept valid rate limit config', () => {
+      expect(() => validateCacheRateLimitConfig(config)).not.toThrow();
+      expect(() => validateCacheRateLimitConfig({ ...config, cost: 10 })).not.toThrow();
+    });
+
+    it('should reject invalid algorithms, limits and costs', () => {
+      expect(() => validateCacheRateLimitConfig({ ...config, algorithm: 'leaky-bucket' as any })).toThrow(
+        expect.objectContaining({ field: 'algorithm' })
+      );
+      expect(() => validateCacheRateLimitConfig({ ...config, limit: 1.5 })).toThrow('Rate limit must be a positive integer');
+      expect(() => validateCacheRateLimitConfig({ ...config, window: 0 })).toThrow(
+        expect.objectContaining({ field: 'window' })
+      );
+      expect(() => validateCacheRateLimitConfig({ ...config, cost: 11 })).toThrow('Rate limit cost cannot exceed the limit');
+    });
+  });
+
+  describe('validateCacheTtlConfig, validateCacheExpireConfig and validateCacheTouchConfig', () => {
+    it('should accept valid configs', () => {
+      expect(() => validateCacheTtlConfig({ key: 'session:abc' })).not.toThrow();
+      expect(() => validateCacheExpireConfig({ key: 'session:abc', ttl: 1800 })).not.toThrow();
+      expect(() => validateCacheTouchConfig({ key: 'session:abc' })).not.toThrow();
+    });
+
+    it('should reject invalid keys and TTLs', () => {
+      expect(() => validateCacheTtlConfig({ key: '' })).toThrow(expect.objectContaining({ field: 'key' }));
+      expect(() => validateCacheExpireConfig({ key: 'session:abc' } as any)).toThrow(expect.objectContaining({ field: 'ttl' }));
+      expect(() => validateCacheTouchConfig({ key: 'session:abc', ttl: -1 })).toThrow('TTL must be greater than 0');
+    });
+  });
+
+  describe('validateCacheKeysConfig', () => {
+    it('should accept valid keys config', () => {
+      expect(() => validateCacheKeysConfig({})).not.toThrow();
+      expect(() => validateCacheKeysConfig({ pattern: 'session:*', limit: 500, cursor: '42' })).not.toThrow();
+    });
+
+    it('should reject invalid patterns, limits and cursors', () => {
+      expect(() => validateCacheKeysConfig({ pattern: ' ' })).toThrow(expect.objectContaining({ field: 'pattern' }));
+      expect(() => validateCacheKeysConfig({ limit: 0 })).toThrow('Keys limit must be a positive integer');
+      expect(() => validateCacheKeysConfig({ cursor: '' })).toThrow(expect.objectContaining({ field: 'cursor' }));
+    });
+  });
+
+  describe('validateCacheTags', () => {
+    it('should accept valid tags', () => {
+      expect(() => validateCacheTags(['user:42', 'orders'])).not.toThrow();
+    });
+
+    it('should reject an empty tag list', () => {
+      expect(() => validateCacheTags([])).toThrow('Tags must be a non-empty array');
+    });
+
+    it('should report the index of an invalid tag', () => {
+      expect(() => validateCacheTags(['user:42', ' '], 'tags')).toThrow(
+        expect.objectContaining({ field: 'tags[1]' })
+      );
+    });
+
+    it('should be checked when setting values', () => {
+      expect(() => validateCacheSetConfig({ key: 'user:42', value: 1, tags: [] })).toThrow(CacheValidationError);
+      expect(() => validateCacheSetManyConfig({ entries: [{ key: 'user:42', value: 1, tags: [''] }] })).toThrow(
+        expect.objectContaining({ field: 'entries[0].tags[0]' })
+      );
+    });
+  });
+
+  describe('data structure configs', () => {
+    it('should validate hash configs', () => {
+      expect(() => validateCacheHashGetConfig({ key: 'user:1' })).not.toThrow();
+      expect(() => validateCacheHashSetConfig({ key: 'user:1', fields: { name: 'John' }, ttl: 60 })).not.toThrow();
+      expect(() => validateCacheHashGetConfig({ key: 'user:1', fields: [] })).toThrow(expect.objectContaining({ field: 'fields' }));
+      expect(() => validateCacheHashSetConfig({ key: 'user:1', fields: {} })).toThrow(expect.objectContaining({ field: 'fields' }));
+      expect(() => validateCacheHashSetConfig({ key: 'user:1', fields: { name: undefined } })).toThrow(
+        expect.objectContaining({ field: 'fields.name' })
+      );
+    });
+
+    it('should validate list configs', () => {
+      expect(() => validateCacheListPushConfig({ key: 'jobs', values: [1], side: 'left' })).not.toThrow();
+      expect(() => validateCacheListPushConfig({ key: 'jobs', values: [] })).toThrow(expect.objectContaining({ field: 'values' }));
+      expect(() => validateCacheListPushConfig({ key: 'jobs', values: [1], side: 'top' as any })).toThrow('Unsupported list side: top');
+      expect(() => validateCacheListPopConfig({ key: 'jobs', count: 0 })).toThrow(expect.objectContaining({ field: 'count' }));
+      expect(() => validateCacheListRangeConfig({ key: 'jobs', start: 0, stop: -1 })).not.toThrow();
+      expect(() => validateCacheListRangeConfig({ key: 'jobs', stop: 1.5 })).toThrow(expect.objectContaining({ field: 'stop' }));
+    });
+
+    it('should validate set and sorted set configs', () => {
+      expect(() => validateCacheSetAddConfig({ key: 'likes', members: ['user:1'] })).not.toThrow();
+      expect(() => validateCacheSetAddConfig({ key: 'likes', members: [''] })).toThrow(expect.objectContaining({ field: 'members[0]' }));
+      expect(() => validateCacheSortedSetAddConfig({ key: 'board', members: [{ member: 'alice', score: -Infinity }] })).not.toThrow();
+      expect(() => validateCacheSortedSetAddConfig({ key: 'board', members: [{ member: 'alice', score: NaN }] })).toThrow(
+        expect.objectContaining({ field: 'members[0].score' })
+      );
+      expect(() => validateCacheSortedSetRangeConfig({ key: 'board', min: 0, limit: 10, offset: 5 })).not.toThrow();
+      expect(() => validateCacheSortedSetRangeConfig({ key: 'board', min: 10, max: 5 })).toThrow(expect.objectContaining({ field: 'min' }));
+      expect(() => validateCacheSortedSetRangeConfig({ key: 'board', offset: -1 })).toThrow(expect.objectContaining({ field: 'offset' }));
+    });
+  });
+
+  describe('pub/sub configs', () => {
+    it('should accept valid configurations', () => {
+      expect(() => validateCacheChannel('orders')).not.toThrow();
+      expect(() => validateCachePublishConfig({ channel: 'orders', message: '' })).not.toThrow();
+      expect(() => validateCacheSubscribeConfig({ channel: 'orders', listener: () => undefined })).not.toThrow();
+    });
+
+    it('should reject invalid channels, messages and listeners', () => {
+      expect(() => validateCacheChannel(' ')).toThrow(expect.objectContaining({ field: 'channel' }));
+      expect(() => validateCachePublishConfig({ channel: 'orders', message: { id: 42 } as any })).toThrow(expect.objectContaining({ field: 'message' }));
+      expect(() => validateCacheSubscribeConfig({ channel: 'orders' } as any)).toThrow(expect.objectContaining({ field: 'listener' }));
+      expect(() => validateCacheSubscribeConfig({ channel: '', listener: () => undefined })).toThrow(expect.objectContaining({ field: 'channel' }));
+    });
+  });
+
+  describe('validateRedisConfig', () => {
+    const nodes = [{ host: 'redis-1', port: 6379 }];
+
+    it('should accept standalone, sentinel and cluster configs', () => {
+      expect(() => validateRedisConfig({ host: 'localhost' })).not.toThrow();
+      expect(() => validateRedisConfig({ sentinels: nodes, name: 'mymaster' })).not.toThrow();
+      expect(() => validateRedisConfig({ cluster: { nodes, scaleReads: 'slave' } })).not.toThrow();
+    });
+
+    it('should require a master name with sentinels', () => {
+      expect(() => validateRedisConfig({ sentinels: nodes })).toThrow(expect.objectContaining({ field: 'name' }));
+    });
+
+    it('should reject invalid nodes', () => {
+      expect(() => validateRedisConfig({ cluster: { nodes: [] } })).toThrow(expect.objectContaining({ field: 'cluster.nodes' }));
+      expect(() => validateRedisConfig({ cluster: { nodes: [{ host: 'redis-1', port: 0 }] } })).toThrow(
+        expect.objectContaining({ field: 'cluster.nodes[0].port' })
+      );
+      expect(() => validateRedisConfig({ sentinels: [{ port: 26379 } as any], name: 'mymaster' })).toThrow(
+        expect.objectContaining({ field: 'sentinels[0].host' })
+      );
+    });
+
+    it('should reject combined sentinel and cluster modes', () => {
+      expect(() => validateRedisConfig({ sentinels: nodes, name: 'mymaster', cluster: { nodes } })).toThrow(
+        'Sentinel and cluster modes cannot be combined'
+      );
+    });
+  });
+
+  describe('validateMemcachedConfig', () => {
+    it('should accept server lists and weights', () => {
+      expect(() => validateMemcachedConfig({ servers: 'localhost:11211' })).not.toThrow();
+      expect(() => validateMemcachedConfig({ servers: ['cache-1:11211', 'cache-2:11211'] })).not.toThrow();
+      expect(() => validateMemcachedConfig({ servers: { 'cache-1:11211': 2, 'cache-2:11211': 1 } })).not.toThrow();
+      expect(() => validateMemcachedConfig({ ejectFailedServers: true, options: { failures: 0, reconnect: 5000 } })).not.toThrow();
+    });
+
+    it('should reject invalid weights', () => {
+      expect(() => validateMemcachedConfig({ servers: {} })).toThrow(expect.objectContaining({ field: 'servers' }));
+      expect(() => validateMemcachedConfig({ servers: { 'cache-1:11211': 0 } })).toThrow(
+        expect.objectContaining({ field: 'servers.cache-1:11211' })
+      );
+      expect(() => validateMemcachedConfig({ servers: { 'cache-1:11211': 1.5 } })).toThrow(CacheValidationError);
+    });
+
+    it('should reject invalid ejection options', () => {
+      expect(() => validateMemcachedConfig({ options: { failures: -1 } })).toThrow(expect.objectContaining({ field: 'options.failures' }));
+      expect(() => validateMemcachedConfig({ options: { reconnect: 'soon' as any } })).toThrow(expect.objectContaining({ field: 'options.reconnect' }));
+    });
+  });
+
   describe('validateSerializable', () => {
     it('should accept serializable values', () => {
       expect(() => validateSerializable({ name: 'John' })).not.toThrow();
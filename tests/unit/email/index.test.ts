@@ -19,6 +19,11 @@ describe('Email Index', () => {
     expect(emailModule.EmailValidationError).toBeDefined();
     expect(emailModule.EmailProviderError).toBeDefined();
     expect(emailModule.validateEmailMessage).toBeDefined();
+    expect(emailModule.EmailTemplateRegistry).toBeDefined();
+    expect(emailModule.escapeHtml).toBeDefined();
+    expect(emailModule.htmlToText).toBeDefined();
+    expect(emailModule.inlineCss).toBeDefined();
+    expect(emailModule.preprocessEmailMessage).toBeDefined();
     expect(emailModule.isEmailSingleMessageConfig).toBeDefined();
     expect(emailModule.isEmailBatchMessageConfig).toBeDefined();
   });
@@ -41,6 +46,11 @@ describe('Email Index', () => {
       'EmailValidationError',
       'EmailProviderError',
       'validateEmailMessage',
+      'EmailTemplateRegistry',
+      'escapeHtml',
+      'htmlToText',
+      'inlineCss',
+      'preprocessEmailMessage',
       'isEmailSingleMessageConfig',
       'isEmailBatchMessageConfig',
     ];
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for email preprocessing
+ */
+
+import { htmlToText, inlineCss, preprocessEmailMessage } from '../../../src/email/preprocess';
+import type { Logger } from '../../../src/logger/types';
+
+const mockLogger: Logger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+describe('Email Preprocessing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('htmlToText', () => {
+    it('should turn blocks, breaks and lists into lines', () => {
+      const html = `
+        <html><head><title>Ignored</title><style>p { color: red }</style></head>
+        <body>
+          <!-- comment -->
+          <h1>Welcome   aboard</h1>
+          <p>Line one<br>Line two</p>
+          <ul><li>First</li><li>Second</li></ul>
+          <div>Tom &amp; Jerry&nbsp;&#8212; &lt;friends&gt;</div>
+          <script>alert('x')</script>
+        </body></html>`;
+
+      expect(htmlToText(html)).toBe(
+        'Welcome aboard\n\nLine one\nLine two\n\n- First\n- Second\n\nTom & Jerry — <friends>'
+      );
+    });
+
+    it('should keep link targets and image alt text', () => {
+      const html = '<p><a href="https://example.com/?a=1&amp;b=2">Open</a> '
+        + '<a href="https://example.com">https://example.com</a> '
+        + '<a href="mailto:help@example.com">help@example.com</a> '
+        + '<a href="#top">Top</a> '
+        + '<a href="https://example.com/logo"><img src="logo.png" alt="Acme"></a></p>';
+
+      expect(htmlToText(html)).toBe(
+        'Open (https://example.com/?a=1&b=2) https://example.com help@example.com Top Acme (https://example.com/logo)'
+      );
+    });
+
+    it('should separate table cells', () => {
+      expect(htmlToText('<table><tr><td>Item</td><td>$5</td></tr><tr><td>Tax</td><td>$1</td></tr></table>'))
+        .toBe('Item $5\nTax $1');
+    });
+  });
+
+  describe('inlineCss', () => {
+    it('should inline tag, class and id rules', () => {
+      const html = '<style>p { color: red; margin: 0 } .note { color: blue } #main { font-weight: bold }</style>'
+        + '<p class="note" id="main">Hi</p><p>Plain</p><span>None</span>';
+
+      expect(inlineCss(html)).toBe(
+        '<p class="note" id="main" style="color: blue; margin: 0; font-weight: bold">Hi</p>'
+        + '<p style="color: red; margin: 0">Plain</p><span>None</span>'
+      );
+    });
+
+    it('should apply rules by specificity, then source order', () => {
+      const html = '<style>td.cell { padding: 4px } td { padding: 8px } .cell { color: red } .other { color: green }</style>'
+        + '<td class="cell other">x</td>';
+
+      expect(inlineCss(html)).toBe('<td class="cell other" style="padding: 4px; color: green">x</td>');
+    });
+
+    it('should let existing styles win unless the rule is important', () => {
+      const html = '<style>p { color: red; margin: 0 !important; padding: 2px }</style>'
+        + `<p style="color: black; margin: 4px">x</p>`;
+
+      expect(inlineCss(html)).toBe('<p style="padding: 2px; color: black; margin: 0">x</p>');
+    });
+
+    it('should keep rules that cannot be inlined in a style block', () => {
+      const html = '<head><style type="text/css">'
+        + '/* base */ a { color: red } a:hover { color: blue } '
+        + '@media (max-width: 600px) { .col { width: 100% !important } } '
+        + 'table td { padding: 0 }'
+        + '</style></head><body><a href="#">x</a><br/></body>';
+
+      expect(inlineCss(html)).toBe(
+        '<head><style type="text/css">\na:hover{color: blue}\n@media (max-width: 600px){ .col { width: 100% !important } }\ntable td{padding: 0}\n</style></head>'
+        + '<body><a href="#" style="color: red">x</a><br/></body>'
+      );
+    });
+
+    it('should leave HTML without style blocks unchanged', () => {
+      const html = '<p style="color: red">x</p>';
+
+      expect(inlineCss(html)).toBe(html);
+    });
+
+    it('should convert double quotes in values', () => {
+      const html = `<style>p { font-family: "Helvetica Neue", Arial }</style><p>x</p>`;
+
+      expect(inlineCss(html)).toBe(`<p style="font-family: 'Helvetica Neue', Arial">x</p>`);
+    });
+  });
+
+  describe('preprocessEmailMessage', () => {
+    const message = {
+      from: 'sender@example.com',
+      to: 'recipient@example.com',
+      subject: 'Hello',
+      html: '<style>p { color: red }</style><p>Hello</p>',
+    };
+
+    it('should inline CSS and generate text', () => {
+      const result = preprocessEmailMessage(message, true, mockLogger);
+
+      expect(result).toEqual({ ...message, html: '<p style="color: red">Hello</p>', text: 'Hello' });
+      expect(message.html).toContain('<style>');
+    });
+
+    it('should keep an existing text part and skip disabled steps', () => {
+      expect(preprocessEmailMessage({ ...message, text: 'Custom' }, true, mockLogger).text).toBe('Custom');
+
+      const result = preprocessEmailMessage(message, { inlineCss: false, generateText: false }, mockLogger);
+      expect(result.html).toBe(message.html);
+      expect(result.text).toBeUndefined();
+    });
+
+    it('should leave text-only and provider template messages unchanged', () => {
+      const textOnly = { from: 'a@example.com', to: 'b@example.com', subject: 'Hi', text: 'Hi' };
+      const templated = { ...message, providerTemplate: { id: 'welcome' } };
+
+      expect(preprocessEmailMessage(textOnly, true, mockLogger)).toBe(textOnly);
+      expect(preprocessEmailMessage(templated, true, mockLogger)).toBe(templated);
+    });
+
+    it('should leave messages with non-string HTML unchanged', () => {
+      const malformed = { ...message, html: 42 as any };
+
+      expect(preprocessEmailMessage(malformed, true, mockLogger)).toBe(malformed);
+    });
+
+    it('should warn when the HTML exceeds the size limit', () => {
+      const large = { ...message, html: `<p>${'x'.repeat(200 * 1024)}</p>` };
+
+      preprocessEmailMessage(large, true, mockLogger);
+      preprocessEmailMessage(message, { maxHtmlSize: 10 }, mockLogger);
+      preprocessEmailMessage(large, { maxHtmlSize: 0 }, mockLogger);
+
+      expect(mockLogger.warn).toHaveBeenCalledTimes(2);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Basepack Email: HTML exceeds recommended size', {
+        to: 'recipient@example.com',
+        subject: 'Hello',
+        size: 200 * 1024 + 7,
+        maxHtmlSize: 102400
+      });
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { EmailService } from '../../../src/email/service';
 import { EmailProvider } from '../../../src/email/types';
-import { EmailError, EmailProviderError } from '../../../src/email/errors';
+import { EmailError, EmailProviderError, EmailValidationError } from '../../../src/email/errors';
+import { EmailTemplateRegistry } from '../../../src/email/templates';
 import type { Logger } from '../../../src/logger/types';
 
 // Mock logger
@@ -15,6 +16,7 @@ const mockLogger: Logger = {
 jest.mock('../../../src/email/adapters/ses', () => ({
   SESProvider: jest.fn().mockImplementation(() => ({
     name: EmailProvider.SES,
+    capabilities: { providerTemplates: true },
     send: jest.fn().mockImplementation((config) => {
       const messages = 'message' in config && config.message
         ? [config.message]
@@ -171,6 +173,200 @@ describe('EmailService', () => {
     });
   });
 
+  describe('Templates', () => {
+    const templates = [
+      { name: 'welcome', from: 'hello@example.com', subject: 'Welcome, {{name}}', html: '<p>Hello {{name}}</p>' },
+      { name: 'welcome', locale: 'fr', subject: 'Bienvenue, {{name}}', html: '<p>Bonjour {{name}}</p>', text: 'Bonjour {{name}}' }
+    ];
+
+    it('should render a template and send it', async () => {
+      const service = new EmailService({
+        provider: EmailProvider.SES,
+        templates: { templates },
+        logger: mockLogger
+      });
+      const send = jest.spyOn(service, 'send');
+
+      const results = await service.sendTemplate({
+        template: 'welcome',
+        locale: 'fr-CA',
+        variables: { name: '<Marie>' },
+        from: 'bonjour@example.com',
+        to: 'marie@example.com',
+        cc: 'team@example.com',
+        opts: { retries: 0 }
+      });
+
+      expect(results[0].success).toBe(true);
+      expect(send).toHaveBeenCalledWith({
+        message: {
+          from: 'bonjour@example.com',
+          to: 'marie@example.com',
+          cc: 'team@example.com',
+          subject: 'Bienvenue, <Marie>',
+          html: '<p>Bonjour &lt;Marie&gt;</p>',
+          text: 'Bonjour <Marie>'
+        },
+        opts: { retries: 0 }
+      });
+    });
+
+    it('should use the template sender and a shared registry', async () => {
+      const registry = new EmailTemplateRegistry({ templates });
+      const service = new EmailService({ provider: EmailProvider.SES, templates: registry, logger: mockLogger });
+      const send = jest.spyOn(service, 'send');
+
+      await service.sendTemplate({ template: 'welcome', variables: { name: 'Ann' }, to: 'ann@example.com' });
+
+      expect(service.templates).toBe(registry);
+      expect(send.mock.calls[0][0]).toMatchObject({
+        message: { from: 'hello@example.com', subject: 'Welcome, Ann', html: '<p>Hello Ann</p>' }
+      });
+    });
+
+    it('should fail over to backup providers', async () => {
+      const service = new EmailService({
+        primary: { provider: EmailProvider.SES },
+        backups: [{ provider: EmailProvider.SENDGRID, config: { apiKey: 'test-key' } }],
+        templates: { templates },
+        logger: mockLogger
+      });
+      (service as any).primaryProvider.send.mockRejectedValueOnce(new Error('SES down'));
+
+      const results = await service.sendTemplate({
+        template: 'welcome',
+        variables: { name: 'Ann' },
+        to: 'ann@example.com',
+        opts: { retries: 0 }
+      });
+
+      expect(results[0].provider).toBe(EmailProvider.SENDGRID);
+    });
+
+    it('should not send when the template cannot be rendered', async () => {
+      const service = new EmailService({ provider: EmailProvider.SES, logger: mockLogger });
+      const send = jest.spyOn(service, 'send');
+
+      await expect(service.sendTemplate({ template: 'missing', to: 'ann@example.com' }))
+        .rejects.toThrow(EmailValidationError);
+      expect(send).not.toHaveBeenCalled();
+      expect(mockLogger.error).toHaveBeenCalledWith('Basepack Email: Template rendering failed', {
+        template: 'missing',
+        locale: undefined,
+        error: expect.any(EmailValidationError)
+      });
+    });
+  });
+
+  describe('Preprocessing', () => {
+    const message = {
+      from: 'sender@example.com',
+      to: 'recipient@example.com',
+      subject: 'Hello',
+      html: '<style>p { color: red }</style><p>Hello</p>'
+    };
+
+    it('should preprocess messages before they reach the provider', async () => {
+      const service = new EmailService({ provider: EmailProvider.SES, preprocess: true, logger: mockLogger });
+      const ses = (service as any).primaryProvider;
+
+      await service.send({ messages: [message, { ...message, text: 'Custom' }] });
+
+      expect(ses.send).toHaveBeenCalledWith({
+        messages: [
+          { ...message, html: '<p style="color: red">Hello</p>', text: 'Hello' },
+          { ...message, html: '<p style="color: red">Hello</p>', text: 'Custom' }
+        ]
+      });
+      expect(message.html).toContain('<style>');
+    });
+
+    it('should let send options override the service setting', async () => {
+      const service = new EmailService({ provider: EmailProvider.SES, preprocess: true, logger: mockLogger });
+      const ses = (service as any).primaryProvider;
+
+      await service.send({ message, opts: { preprocess: false } });
+      await service.send({ message, opts: { preprocess: { inlineCss: false } } });
+
+      expect(ses.send.mock.calls[0][0].message).toBe(message);
+      expect(ses.send.mock.calls[1][0].message).toEqual({ ...message, text: 'Hello' });
+    });
+
+    it('should leave messages unchanged by default', async () => {
+      const service = new EmailService({ provider: EmailProvider.SES, logger: mockLogger });
+      const ses = (service as any).primaryProvider;
+
+      await service.send({ message });
+
+      expect(ses.send.mock.calls[0][0].message).toBe(message);
+    });
+
+    it('should report malformed HTML as a validation error', async () => {
+      const service = new EmailService({ provider: EmailProvider.SES, preprocess: true, logger: mockLogger });
+      const ses = (service as any).primaryProvider;
+
+      await expect(service.send({ message: { ...message, html: 42 as any } })).rejects.toThrow(EmailValidationError);
+      expect(ses.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Provider Templates', () => {
+    const message = {
+      from: 'sender@example.com',
+      to: 'recipient@example.com',
+      providerTemplate: { id: 'welcome', data: { name: 'Ann' } }
+    };
+
+    let service: EmailService;
+    let ses: any;
+    let sendgrid: any;
+
+    beforeEach(() => {
+      service = new EmailService({
+        primary: { provider: EmailProvider.SES },
+        backups: [{ provider: EmailProvider.SENDGRID, config: { apiKey: 'test-key' } }],
+        logger: mockLogger
+      });
+      ses = (service as any).primaryProvider;
+      sendgrid = (service as any).backupProviders[0];
+    });
+
+    it('should send through a provider with template support', async () => {
+      const results = await service.send({ message });
+
+      expect(results[0].provider).toBe(EmailProvider.SES);
+      expect(ses.send).toHaveBeenCalledWith({ message });
+    });
+
+    it('should not fail over to backups without template support', async () => {
+      ses.send.mockRejectedValue(new Error('SES down'));
+
+      await expect(service.send({ message, opts: { retries: 0 } })).rejects.toThrow(EmailProviderError);
+      expect(sendgrid.send).not.toHaveBeenCalled();
+      expect(mockLogger.debug).toHaveBeenCalledWith('Basepack Email: Skipping provider without template support', {
+        provider: EmailProvider.SENDGRID
+      });
+    });
+
+    it('should only use providers with a template id', async () => {
+      sendgrid.capabilities = { providerTemplates: true };
+
+      const results = await service.send({
+        message: { ...message, providerTemplate: { id: { [EmailProvider.SENDGRID]: 'd-123' } } }
+      });
+
+      expect(results[0].provider).toBe(EmailProvider.SENDGRID);
+      expect(ses.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject templates no provider can send', async () => {
+      await expect(service.send({
+        message: { ...message, providerTemplate: { id: { [EmailProvider.POSTMARK]: 'welcome' } } }
+      })).rejects.toThrow(expect.objectContaining({ field: 'providerTemplate' }));
+      expect(ses.send).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Multi-Provider - Configuration', () => {
     it('should create service with backup providers', () => {
       const service = new EmailService({
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for email templates
+ */
+
+import { EmailTemplateRegistry, escapeHtml } from '../../../src/email/templates';
+import { EmailValidationError } from '../../../src/email/errors';
+
+describe('Email Templates', () => {
+  describe('escapeHtml', () => {
+    it('should escape HTML special characters', () => {
+      expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`))
+        .toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+    });
+  });
+
+  describe('EmailTemplateRegistry', () => {
+    let registry: EmailTemplateRegistry;
+
+    beforeEach(() => {
+      registry = new EmailTemplateRegistry();
+    });
+
+    it('should interpolate variables and escape them in html only', () => {
+      registry.registerTemplate({
+        name: 'welcome',
+        subject: 'Welcome, {{ name }}!',
+        html: '<p>Hello {{name}} from {{ company.name }}</p>',
+        text: 'Hello {{name}} from {{company.name}}'
+      });
+
+      const rendered = registry.render({
+        template: 'welcome',
+        variables: { name: '<Ann & Bob>', company: { name: 'Acme' } }
+      });
+
+      expect(rendered).toEqual({
+        template: 'welcome',
+        locale: 'en',
+        from: undefined,
+        subject: 'Welcome, <Ann & Bob>!',
+        html: '<p>Hello &lt;Ann &amp; Bob&gt; from Acme</p>',
+        text: 'Hello <Ann & Bob> from Acme'
+      });
+    });
+
+    it('should insert triple-brace variables without escaping', () => {
+      registry.registerTemplate({ name: 'raw', subject: 'Raw', html: '<div>{{{ content }}}</div>' });
+
+      const rendered = registry.render({ template: 'raw', variables: { content: '<b>bold</b>' } });
+
+      expect(rendered.html).toBe('<div><b>bold</b></div>');
+    });
+
+    it('should render missing variables as empty unless strict', () => {
+      registry.registerTemplate({ name: 'greet', subject: 'Hi {{name}}', text: 'Hi {{user.name}}' });
+
+      expect(registry.render({ template: 'greet' })).toMatchObject({ subject: 'Hi ', text: 'Hi ' });
+
+      const strict = new EmailTemplateRegistry({ strict: true });
+      strict.registerTemplate({ name: 'greet', subject: 'Hi {{name}}', text: 'Hi' });
+
+      expect(() => strict.render({ template: 'greet' })).toThrow(expect.objectContaining({ field: 'variables' }));
+      expect(strict.render({ template: 'greet', variables: { name: 0 } }).subject).toBe('Hi 0');
+    });
+
+    it('should wrap parts in their layout', () => {
+      registry.registerLayout({
+        name: 'default',
+        html: '<html><body>{{{body}}}<footer>{{company}}</footer></body></html>'
+      });
+      registry.registerTemplate({
+        name: 'welcome',
+        layout: 'default',
+        subject: 'Welcome',
+        html: '<p>Hello {{name}}</p>',
+        text: 'Hello {{name}}'
+      });
+
+      const rendered = registry.render({ template: 'welcome', variables: { name: 'Ann', company: 'A&B' } });
+
+      expect(rendered.html).toBe('<html><body><p>Hello Ann</p><footer>A&amp;B</footer></body></html>');
+      expect(rendered.text).toBe('Hello Ann');
+    });
+
+    it('should include partials for the part being rendered', () => {
+      registry.registerPartial({ name: 'signature', html: '<p>Thanks, {{team}}</p>', text: 'Thanks, {{team}}' });
+      registry.registerPartial({ name: 'footer', html: '<small>{{> signature}}</small>' });
+      registry.registerTemplate({
+        name: 'receipt',
+        subject: 'Receipt',
+        html: '<p>Paid</p>{{> footer}}',
+        text: 'Paid\n{{> signature}}{{> footer}}'
+      });
+
+      const rendered = registry.render({ template: 'receipt', variables: { team: '<Billing>' } });
+
+      expect(rendered.html).toBe('<p>Paid</p><small><p>Thanks, &lt;Billing&gt;</p></small>');
+      expect(rendered.text).toBe('Paid\nThanks, <Billing>');
+    });
+
+    it('should reject partials that include themselves', () => {
+      registry.registerPartial({ name: 'loop', text: 'again {{> loop}}' });
+      registry.registerTemplate({ name: 'loop', subject: 'Loop', text: '{{> loop}}' });
+
+      expect(() => registry.render({ template: 'loop' })).toThrow(expect.objectContaining({ field: 'partial' }));
+    });
+
+    it('should resolve locales through the fallback chain', () => {
+      registry.registerTemplate({ name: 'welcome', subject: 'Welcome', text: 'Hello' });
+      registry.registerTemplate({ name: 'welcome', locale: 'fr', subject: 'Bienvenue', text: 'Bonjour' });
+      registry.registerTemplate({ name: 'welcome', locale: 'fr-CA', subject: 'Bienvenue!', text: 'Allô' });
+
+      expect(registry.render({ template: 'welcome', locale: 'fr_CA' })).toMatchObject({ locale: 'fr-CA', text: 'Allô' });
+      expect(registry.render({ template: 'welcome', locale: 'fr-BE' })).toMatchObject({ locale: 'fr', text: 'Bonjour' });
+      expect(registry.render({ template: 'welcome', locale: 'de-DE' })).toMatchObject({ locale: 'en', text: 'Hello' });
+      expect(registry.render({ template: 'welcome' })).toMatchObject({ locale: 'en', text: 'Hello' });
+    });
+
+    it('should try configured fallbacks before parent locales', () => {
+      const configured = new EmailTemplateRegistry({
+        defaultLocale: 'en-US',
+        localeFallbacks: { 'pt-BR': ['pt-PT'] },
+        templates: [
+          { name: 'welcome', subject: 'Welcome', text: 'Hello' },
+          { name: 'welcome', locale: 'pt', subject: 'Bem-vindo', text: 'Olá' },
+          { name: 'welcome', locale: 'pt-PT', subject: 'Bem-vindo', text: 'Olá!' }
+        ]
+      });
+
+      expect(configured.localeChain('pt-BR')).toEqual(['pt-br', 'pt-pt', 'pt', 'en-us', 'en']);
+      expect(configured.render({ template: 'welcome', locale: 'pt-BR' }).text).toBe('Olá!');
+      expect(configured.render({ template: 'welcome', locale: 'es' })).toMatchObject({ locale: 'en-US', text: 'Hello' });
+    });
+
+    it('should resolve layouts and partials with the template locale chain', () => {
+      registry.registerLayout({ name: 'default', text: '{{{body}}}\n{{> sign-off}}' });
+      registry.registerPartial({ name: 'sign-off', text: 'Cheers' });
+      registry.registerPartial({ name: 'sign-off', locale: 'fr', text: 'Cordialement' });
+      registry.registerTemplate({ name: 'note', layout: 'default', subject: 'Note', text: 'Hi' });
+
+      expect(registry.render({ template: 'note', locale: 'fr-CA' }).text).toBe('Hi\nCordialement');
+      expect(registry.render({ template: 'note' }).text).toBe('Hi\nCheers');
+    });
+
+    it('should report missing templates, layouts and partials', () => {
+      registry.registerTemplate({ name: 'with-layout', layout: 'missing', subject: 'S', text: 'T' });
+      registry.registerTemplate({ name: 'with-partial', subject: 'S', text: '{{> missing}}' });
+      registry.registerTemplate({ name: 'french', locale: 'fr', subject: 'S', text: 'T' });
+
+      expect(() => registry.render({ template: 'unknown' })).toThrow(EmailValidationError);
+      expect(() => registry.render({ template: 'unknown' })).toThrow(expect.objectContaining({ field: 'template' }));
+      expect(() => registry.render({ template: 'french', locale: 'de' })).toThrow(expect.objectContaining({ field: 'template' }));
+      expect(() => registry.render({ template: 'with-layout' })).toThrow(expect.objectContaining({ field: 'layout' }));
+      expect(() => registry.render({ template: 'with-partial' })).toThrow(expect.objectContaining({ field: 'partial' }));
+
+      expect(registry.hasTemplate('french')).toBe(true);
+      expect(registry.hasTemplate('french', 'fr-CA')).toBe(true);
+      expect(registry.hasTemplate('french', 'de')).toBe(false);
+    });
+
+    it('should validate registered entries', () => {
+      expect(() => registry.registerTemplate({ name: '', subject: 'S', text: 'T' })).toThrow(expect.objectContaining({ field: 'name' }));
+      expect(() => registry.registerTemplate({ name: 'a', subject: '', text: 'T' })).toThrow(expect.objectContaining({ field: 'subject' }));
+      expect(() => registry.registerTemplate({ name: 'a', subject: 'S' })).toThrow(expect.objectContaining({ field: 'text/html' }));
+      expect(() => registry.registerTemplate({ name: 'a', locale: ' ', subject: 'S', text: 'T' })).toThrow(expect.objectContaining({ field: 'locale' }));
+      expect(() => registry.registerLayout({ name: 'l', html: 42 as any })).toThrow(expect.objectContaining({ field: 'html' }));
+      expect(() => new EmailTemplateRegistry({ defaultLocale: '' })).toThrow(expect.objectContaining({ field: 'defaultLocale' }));
+    });
+  });
+});
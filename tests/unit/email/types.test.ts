@@ -6,6 +6,9 @@ import {
   EmailProvider, 
   isEmailSingleMessageConfig, 
   isEmailBatchMessageConfig,
+  getProviderTemplateId,
+  toTagName,
+  isInlineAttachment,
   type EmailSendConfig,
   type EmailMessage 
 } from '../../../src/email/types';
@@ -93,4 +96,44 @@ describe('Email Types', () => {
       });
     });
   });
+
+  describe('getProviderTemplateId', () => {
+    it('should use a string id for every provider', () => {
+      expect(getProviderTemplateId({ id: 'welcome' }, EmailProvider.SES)).toBe('welcome');
+      expect(getProviderTemplateId({ id: 'welcome' }, EmailProvider.MAILGUN)).toBe('welcome');
+    });
+
+    it('should look up the id for the provider in a map', () => {
+      const template = { id: { [EmailProvider.SENDGRID]: 'd-123' } };
+
+      expect(getProviderTemplateId(template, EmailProvider.SENDGRID)).toBe('d-123');
+      expect(getProviderTemplateId(template, EmailProvider.POSTMARK)).toBeUndefined();
+    });
+  });
+
+  describe('toTagName', () => {
+    it('should keep tags SES and Resend accept', () => {
+      expect(toTagName('order-confirmation_v2')).toBe('order-confirmation_v2');
+    });
+
+    it('should replace unsupported characters and cut long tags', () => {
+      expect(toTagName('Black Friday 2024!')).toBe('Black_Friday_2024_');
+      expect(toTagName('café:promo')).toBe('caf__promo');
+      expect(toTagName('a'.repeat(300))).toHaveLength(256);
+    });
+  });
+
+  describe('isInlineAttachment', () => {
+    const content = Buffer.from('image');
+
+    it('should default to inline when a cid is set', () => {
+      expect(isInlineAttachment({ filename: 'logo.png', content, cid: 'logo' })).toBe(true);
+      expect(isInlineAttachment({ filename: 'invoice.pdf', content })).toBe(false);
+    });
+
+    it('should use an explicit disposition', () => {
+      expect(isInlineAttachment({ filename: 'logo.png', content, cid: 'logo', disposition: 'attachment' })).toBe(false);
+      expect(isInlineAttachment({ filename: 'logo.png', content, disposition: 'inline' })).toBe(true);
+    });
+  });
 });
@@ -2,9 +2,12 @@ import {
   isValidEmail, 
   validateEmail, 
   validateEmails, 
-  validateEmailMessage 
+  validateEmailMessage,
+  validateEmailHeaders,
+  validateProviderTemplate
 } from '../../../src/email/validation';
 import { EmailValidationError } from '../../../src/email/errors';
+import { EmailProvider } from '../../../src/email/types';
 
 describe('Email Validation', () => {
   describe('isValidEmail', () => {
@@ -115,6 +118,28 @@ describe('Email Validation', () => {
       expect(() => validateEmailMessage(message as any)).toThrow(EmailValidationError);
     });
 
+    it('should throw if text or html is not a string', () => {
+      expect(() => validateEmailMessage({ ...validMessage, html: 42 } as any)).toThrow(expect.objectContaining({ field: 'html' }));
+      expect(() => validateEmailMessage({ ...validMessage, text: ['Hi'] } as any)).toThrow(expect.objectContaining({ field: 'text' }));
+    });
+
+    it('should not require subject or content with a provider template', () => {
+      const message = {
+        from: 'sender@example.com',
+        to: 'recipient@example.com',
+        providerTemplate: { id: 'welcome', data: { name: 'Ann' } },
+      };
+      expect(() => validateEmailMessage(message)).not.toThrow();
+    });
+
+    it('should validate the provider template', () => {
+      const message = { from: 'sender@example.com', to: 'recipient@example.com' };
+      expect(() => validateEmailMessage({ ...message, providerTemplate: { id: '' } }))
+        .toThrow(expect.objectContaining({ field: 'providerTemplate.id' }));
+      expect(() => validateEmailMessage({ ...message, providerTemplate: { id: 'welcome', data: [] as any } }))
+        .toThrow(expect.objectContaining({ field: 'providerTemplate.data' }));
+    });
+
     it('should validate CC and BCC fields', () => {
       const message = {
         ...validMessage,
@@ -162,6 +187,122 @@ describe('Email Validation', () => {
       };
       expect(() => validateEmailMessage(message)).toThrow(EmailValidationError);
     });
+
+    it('should accept inline attachments referenced from the HTML', () => {
+      const message = {
+        ...validMessage,
+        html: '<img src="cid:logo"><table background=cid:bg.png><td style="background: url(\'cid:bg.png\')">Hi</td></table>',
+        attachments: [
+          { filename: 'logo.png', content: Buffer.from('png'), contentType: 'image/png', cid: 'logo' },
+          { filename: 'bg.png', content: Buffer.from('png'), cid: 'bg.png', disposition: 'inline' as const },
+          { filename: 'invoice.pdf', content: Buffer.from('pdf') },
+        ],
+      };
+      expect(() => validateEmailMessage(message)).not.toThrow();
+      expect(() => validateEmailMessage({ ...validMessage, html: '<p>Use cid:logo in your HTML</p>' })).not.toThrow();
+    });
+
+    it('should throw for cid references without a matching attachment', () => {
+      const logo = { filename: 'logo.png', content: Buffer.from('png'), cid: 'logo' };
+
+      expect(() => validateEmailMessage({ ...validMessage, html: '<img src="cid:logo">' }))
+        .toThrow(expect.objectContaining({ field: 'html' }));
+      expect(() => validateEmailMessage({ ...validMessage, html: '<img src="CID:Logo">', attachments: [logo] }))
+        .toThrow(expect.objectContaining({ field: 'html' }));
+      expect(() => validateEmailMessage({ ...validMessage, html: '<img src="cid:logo">', attachments: [logo] }))
+        .not.toThrow();
+    });
+
+    it('should throw for invalid or duplicate cids and dispositions', () => {
+      const attachment = { filename: 'logo.png', content: Buffer.from('png') };
+
+      expect(() => validateEmailMessage({ ...validMessage, attachments: [{ ...attachment, cid: '' }] }))
+        .toThrow(expect.objectContaining({ field: 'attachments' }));
+      expect(() => validateEmailMessage({ ...validMessage, attachments: [{ ...attachment, cid: '<logo>' }] }))
+        .toThrow(EmailValidationError);
+      expect(() => validateEmailMessage({ ...validMessage, attachments: [{ ...attachment, cid: 'logo\r\nBcc: x' }] }))
+        .toThrow(EmailValidationError);
+      expect(() => validateEmailMessage({ ...validMessage, attachments: [{ ...attachment, cid: 'a' }, { ...attachment, cid: 'a' }] }))
+        .toThrow(expect.objectContaining({ field: 'attachments' }));
+      expect(() => validateEmailMessage({ ...validMessage, attachments: [{ ...attachment, disposition: 'embedded' as any }] }))
+        .toThrow(expect.objectContaining({ field: 'attachments' }));
+      expect(() => validateEmailMessage({ ...validMessage, attachments: [{ ...attachment, disposition: 'inline' as const }] }))
+        .toThrow('Attachment "logo.png" is inline and needs a cid');
+    });
+
+    it('should accept reply-to, headers, tags and tracking', () => {
+      const message = {
+        ...validMessage,
+        replyTo: ['support@example.com', 'Billing <billing@example.com>'],
+        headers: {
+          'List-Unsubscribe': '<https://example.com/unsubscribe>',
+          'X-Entity-Ref-ID': 'invoice-123',
+        },
+        tags: ['receipt', 'billing'],
+        tracking: { opens: true, clicks: false },
+      };
+      expect(() => validateEmailMessage(message)).not.toThrow();
+    });
+
+    it('should reject header injection through subject and reply-to', () => {
+      expect(() => validateEmailMessage({ ...validMessage, subject: 'Hi\r\nBcc: victim@example.com' }))
+        .toThrow(expect.objectContaining({ field: 'subject' }));
+      expect(() => validateEmailMessage({ ...validMessage, replyTo: 'a@example.com\r\nBcc: victim@example.com' }))
+        .toThrow(expect.objectContaining({ field: 'replyTo' }));
+    });
+
+    it('should reject invalid tags and tracking settings', () => {
+      expect(() => validateEmailMessage({ ...validMessage, tags: 'receipt' as any })).toThrow(expect.objectContaining({ field: 'tags' }));
+      expect(() => validateEmailMessage({ ...validMessage, tags: [''] })).toThrow(expect.objectContaining({ field: 'tags' }));
+      expect(() => validateEmailMessage({ ...validMessage, tags: ['a\nb'] })).toThrow(expect.objectContaining({ field: 'tags' }));
+      expect(() => validateEmailMessage({ ...validMessage, tracking: null as any })).toThrow(expect.objectContaining({ field: 'tracking' }));
+      expect(() => validateEmailMessage({ ...validMessage, tracking: { clicks: 'yes' as any } }))
+        .toThrow(expect.objectContaining({ field: 'tracking.clicks' }));
+    });
   });
-});
 
+  describe('validateEmailHeaders', () => {
+    it('should accept custom headers', () => {
+      expect(() => validateEmailHeaders({})).not.toThrow();
+      expect(() => validateEmailHeaders({ 'X-Entity-Ref-ID': 'invoice-123', 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }))
+        .not.toThrow();
+    });
+
+    it('should reject line breaks in header values', () => {
+      expect(() => validateEmailHeaders({ 'X-Ref': 'a\r\nBcc: victim@example.com' }))
+        .toThrow(expect.objectContaining({ field: 'headers.X-Ref' }));
+      expect(() => validateEmailHeaders({ 'X-Ref': 'a\nb' })).toThrow(EmailValidationError);
+      expect(() => validateEmailHeaders({ 'X-Ref': 42 as any })).toThrow(expect.objectContaining({ field: 'headers.X-Ref' }));
+    });
+
+    it('should reject invalid header names', () => {
+      expect(() => validateEmailHeaders({ 'X-Ref\r\nBcc': 'x' })).toThrow(expect.objectContaining({ field: 'headers' }));
+      expect(() => validateEmailHeaders({ 'X Ref': 'x' })).toThrow(EmailValidationError);
+      expect(() => validateEmailHeaders({ 'X-Ref:': 'x' })).toThrow(EmailValidationError);
+      expect(() => validateEmailHeaders([] as any)).toThrow(expect.objectContaining({ field: 'headers' }));
+    });
+
+    it('should reject headers set from message fields', () => {
+      expect(() => validateEmailHeaders({ Bcc: 'victim@example.com' })).toThrow(expect.objectContaining({ field: 'headers.Bcc' }));
+      expect(() => validateEmailHeaders({ 'reply-to': 'a@example.com' })).toThrow(EmailValidationError);
+      expect(() => validateEmailHeaders({ 'Content-Type': 'text/plain' })).toThrow(EmailValidationError);
+    });
+  });
+
+  describe('validateProviderTemplate', () => {
+    it('should accept a template id or a map of provider ids', () => {
+      expect(() => validateProviderTemplate({ id: 'welcome' })).not.toThrow();
+      expect(() => validateProviderTemplate({
+        id: { [EmailProvider.SENDGRID]: 'd-123', [EmailProvider.POSTMARK]: '42' },
+        data: { name: 'Ann' },
+      })).not.toThrow();
+    });
+
+    it('should reject empty or invalid ids', () => {
+      expect(() => validateProviderTemplate({ id: ' ' })).toThrow(EmailValidationError);
+      expect(() => validateProviderTemplate({ id: {} })).toThrow(expect.objectContaining({ field: 'providerTemplate.id' }));
+      expect(() => validateProviderTemplate({ id: { [EmailProvider.SES]: '' } })).toThrow(EmailValidationError);
+      expect(() => validateProviderTemplate(undefined as any)).toThrow(expect.objectContaining({ field: 'providerTemplate' }));
+    });
+  });
+});